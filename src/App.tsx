@@ -5,10 +5,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import History from "./pages/History";
 import Experiments from "./pages/Experiments";
+import Calibration from "./pages/Calibration";
+import SharedDecision from "./pages/SharedDecision";
+import GroupDecision from "./pages/GroupDecision";
+import DelphiProcess from "./pages/DelphiProcess";
 import NotFound from "./pages/NotFound";
 import { ReactNode } from "react";
 import { toast } from "sonner";
@@ -64,12 +69,20 @@ const AppRoutes = () => {
     return () => window.removeEventListener("unhandledrejection", handleRejection);
   }, []);
 
+  // Changes made offline are replayed once the connection is back
+  useOfflineSync();
+
   return (
     <Routes>
       <Route path="/auth" element={<PublicRoute><Auth /></PublicRoute>} />
       <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
       <Route path="/history" element={<ProtectedRoute><History /></ProtectedRoute>} />
       <Route path="/experiments" element={<ProtectedRoute><Experiments /></ProtectedRoute>} />
+      <Route path="/calibration" element={<ProtectedRoute><Calibration /></ProtectedRoute>} />
+      <Route path="/group/:decisionId" element={<ProtectedRoute><GroupDecision /></ProtectedRoute>} />
+      <Route path="/group/:decisionId/delphi" element={<ProtectedRoute><DelphiProcess /></ProtectedRoute>} />
+      {/* Read-only links work signed in or out */}
+      <Route path="/share/:token" element={<SharedDecision />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
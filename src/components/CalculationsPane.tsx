@@ -1,79 +1,40 @@
 import { useState } from 'react';
-import { DecisionState, Criterion, CriterionEvaluation } from '@/types/decision';
+import { EvaluationPosteriorResult, MONTE_CARLO_SAMPLES, SensitivityItem } from '@/lib/bayesian';
 import { Button } from '@/components/ui/button';
 import { Calculator, ChevronDown, ChevronUp } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface CalculationsPaneProps {
-  state: DecisionState;
-  posterior: number;
-  credibleInterval: [number, number];
-  winPercentage: number;
-  convergenceDiagnostic?: {
-    gewekeZScore: number;
-    isConverged: boolean;
-    effectiveSampleSize: number;
-    mcError: number;
-  };
+  results: EvaluationPosteriorResult;
 }
 
-export function CalculationsPane({ state, posterior, credibleInterval, winPercentage, convergenceDiagnostic }: CalculationsPaneProps) {
+export function CalculationsPane({ results }: CalculationsPaneProps) {
   const [isOpen, setIsOpen] = useState(false);
 
-  const { initialConfidence, criteria, criteriaEvaluations } = state;
-
-  // Reproduce the calculation logic for display
-  const priorProb = initialConfidence / 100;
-  const concentration = 10;
-  let alpha = Math.max(0.5, priorProb * concentration);
-  let beta = Math.max(0.5, (1 - priorProb) * concentration);
-
-  const initialAlpha = alpha;
-  const initialBeta = beta;
-
-  // Track updates from each evaluation
-  const evaluationUpdates: {
-    criterion: Criterion | undefined;
-    evaluation: CriterionEvaluation;
-    strengthFactor: number;
-    confidenceFactor: number;
-    importanceFactor: number;
-    pseudoCount: number;
-    alphaChange: number;
-    betaChange: number;
-  }[] = [];
-
-  criteriaEvaluations.forEach((evaluation) => {
-    const criterion = criteria.find(c => c.id === evaluation.criterionId);
-    const importance = criterion?.importance ?? 50;
-
-    const strengthFactor = evaluation.strength / 5;
-    const confidenceFactor = evaluation.confidence / 5;
-    const importanceFactor = importance / 100;
-
-    const pseudoCount = strengthFactor * confidenceFactor * importanceFactor * 5;
-
-    const alphaChange = evaluation.supportsDecision ? pseudoCount : 0;
-    const betaChange = evaluation.supportsDecision ? 0 : pseudoCount;
-
-    evaluationUpdates.push({
-      criterion,
-      evaluation,
-      strengthFactor,
-      confidenceFactor,
-      importanceFactor,
-      pseudoCount,
-      alphaChange,
-      betaChange,
-    });
-
-    alpha += alphaChange;
-    beta += betaChange;
-  });
-
-  const finalAlpha = alpha;
-  const finalBeta = beta;
+  // Everything below is read from the engine's own derivation, not recomputed here
+  const { posterior, credibleInterval, winPercentage, convergenceDiagnostic, derivation, sensitivityAnalysis = [] } = results;
+  const {
+    priorProbability,
+    priorConcentration,
+    evidenceStrengthScale,
+    priorAlpha,
+    priorBeta,
+    steps,
+    evidenceSteps,
+    alpha: finalAlpha,
+    beta: finalBeta,
+  } = derivation;
+  const allSteps = [...steps, ...evidenceSteps];
+  const totalAlphaIncrement = allSteps.reduce((sum, step) => sum + step.alphaIncrement, 0);
+  const totalBetaIncrement = allSteps.reduce((sum, step) => sum + step.betaIncrement, 0);
   const expectedValue = finalAlpha / (finalAlpha + finalBeta);
+  const sampleCount = MONTE_CARLO_SAMPLES.toLocaleString();
+
+  // Sub-criteria listed under their parent, each level ordered by impact
+  const sensitivityTree = (parentId: string | null): SensitivityItem[] =>
+    sensitivityAnalysis
+      .filter(item => item.parentId === parentId)
+      .flatMap(item => [item, ...sensitivityTree(item.criterionId)]);
 
   return (
     <div className="mt-8">
@@ -107,14 +68,14 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
                   Your starting belief before considering any evidence. The Beta distribution is ideal for modeling probabilities because it's bounded between 0 and 1. The concentration factor controls how strongly you hold your initial belief—higher values mean more conviction.
                 </p>
                 <div className="space-y-1 text-muted-foreground">
-                  <p>Initial confidence: <span className="text-foreground">{initialConfidence}%</span></p>
-                  <p>Prior probability: <span className="text-foreground">{priorProb.toFixed(2)}</span></p>
-                  <p>Concentration factor: <span className="text-foreground">{concentration}</span></p>
+                  <p>Initial confidence: <span className="text-foreground">{Math.round(priorProbability * 100)}%</span></p>
+                  <p>Prior probability: <span className="text-foreground">{priorProbability.toFixed(2)}</span></p>
+                  <p>Concentration factor: <span className="text-foreground">{priorConcentration}</span></p>
                   <p className="pt-2">
-                    α₀ = prior × concentration = {priorProb.toFixed(2)} × {concentration} = <span className="text-primary font-bold">{initialAlpha.toFixed(2)}</span>
+                    α₀ = max(0.5, prior × concentration) = max(0.5, {priorProbability.toFixed(2)} × {priorConcentration}) = <span className="text-primary font-bold">{priorAlpha.toFixed(2)}</span>
                   </p>
                   <p>
-                    β₀ = (1 - prior) × concentration = {(1 - priorProb).toFixed(2)} × {concentration} = <span className="text-primary font-bold">{initialBeta.toFixed(2)}</span>
+                    β₀ = max(0.5, (1 - prior) × concentration) = max(0.5, {(1 - priorProbability).toFixed(2)} × {priorConcentration}) = <span className="text-primary font-bold">{priorBeta.toFixed(2)}</span>
                   </p>
                 </div>
               </section>
@@ -123,31 +84,62 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
               <section>
                 <h4 className="text-base font-bold text-primary mb-2">2. Evidence Updates</h4>
                 <p className="text-xs text-muted-foreground mb-3 font-sans italic">
-                  Each piece of evidence shifts your belief. Strong, confident evidence on important criteria has more weight. Supporting evidence increases α (making success more likely), while opposing evidence increases β (making success less likely).
+                  Each evaluation adds pseudo-observations. Confidence and importance decide how many; strength decides how they split. Supporting evidence sends the strength share to α (making success more likely) and the rest to β; opposing evidence does the reverse. A neutral 50% strength adds equally to both, which tightens the distribution without moving it.
                 </p>
-                {evaluationUpdates.length === 0 ? (
-                  <p className="text-muted-foreground">No criteria evaluations.</p>
+                {allSteps.length === 0 ? (
+                  <p className="text-muted-foreground">No criteria evaluations or evidence.</p>
                 ) : (
                   <div className="space-y-4">
-                    {evaluationUpdates.map((update, i) => (
-                      <div key={i} className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                    {steps.map((step) => {
+                      const adjustedPseudoCount = step.pseudoCount * step.correlationMultiplier;
+                      const favoringShare = step.supportsDecision ? step.strength / 100 : 1 - step.strength / 100;
+                      return (
+                        <div key={step.criterionId} className="p-4 rounded-lg bg-secondary/30 border border-border/50">
+                          <p className="font-bold text-foreground mb-2">
+                            {step.criterionName}
+                            <span className={`ml-2 text-xs ${step.supportsDecision ? 'text-confidence-high' : 'text-confidence-low'}`}>
+                              ({step.supportsDecision ? 'Supports' : 'Opposes'})
+                            </span>
+                          </p>
+                          <div className="text-muted-foreground space-y-1 text-xs">
+                            <p>Confidence: {step.confidence}% → factor = <span className="text-foreground">{(step.confidence / 100).toFixed(2)}</span></p>
+                            <p>Importance: {Number(step.importance.toFixed(1))}% → factor = <span className="text-foreground">{(step.importance / 100).toFixed(2)}</span></p>
+                            <p className="pt-1">
+                              Pseudo-count = {(step.confidence / 100).toFixed(2)} × {(step.importance / 100).toFixed(2)} × {evidenceStrengthScale} = <span className="text-primary font-bold">{step.pseudoCount.toFixed(3)}</span>
+                            </p>
+                            {step.correlationMultiplier !== 1 && (
+                              <p>
+                                Correlation adjustment = {step.pseudoCount.toFixed(3)} × {step.correlationMultiplier.toFixed(2)} = <span className="text-primary font-bold">{adjustedPseudoCount.toFixed(3)}</span>
+                              </p>
+                            )}
+                            <p className="pt-1">
+                              Strength: {step.strength}% {step.supportsDecision ? 'for' : 'against'} → share favoring the decision = <span className="text-foreground">{favoringShare.toFixed(2)}</span>
+                            </p>
+                            <p>
+                              α += {favoringShare.toFixed(2)} × {adjustedPseudoCount.toFixed(3)} = <span className="text-foreground">{step.alphaIncrement.toFixed(3)}</span>
+                            </p>
+                            <p>
+                              β += {(1 - favoringShare).toFixed(2)} × {adjustedPseudoCount.toFixed(3)} = <span className="text-foreground">{step.betaIncrement.toFixed(3)}</span>
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {evidenceSteps.map((step) => (
+                      <div key={step.evidenceId} className="p-4 rounded-lg bg-secondary/30 border border-border/50">
                         <p className="font-bold text-foreground mb-2">
-                          {update.criterion?.name || 'Unknown Criterion'}
-                          <span className={`ml-2 text-xs ${update.evaluation.supportsDecision ? 'text-confidence-high' : 'text-confidence-low'}`}>
-                            ({update.evaluation.supportsDecision ? 'Supports' : 'Opposes'})
-                          </span>
+                          {step.label}
+                          <span className="ml-2 text-xs text-muted-foreground">(Evidence · {step.type})</span>
                         </p>
                         <div className="text-muted-foreground space-y-1 text-xs">
-                          <p>Strength: {update.evaluation.strength}/5 → factor = <span className="text-foreground">{update.strengthFactor.toFixed(2)}</span></p>
-                          <p>Confidence: {update.evaluation.confidence}/5 → factor = <span className="text-foreground">{update.confidenceFactor.toFixed(2)}</span></p>
-                          <p>Importance: {update.criterion?.importance ?? 50}% → factor = <span className="text-foreground">{update.importanceFactor.toFixed(2)}</span></p>
-                          <p className="pt-1">
-                            Pseudo-count = {update.strengthFactor.toFixed(2)} × {update.confidenceFactor.toFixed(2)} × {update.importanceFactor.toFixed(2)} × 5 = <span className="text-primary font-bold">{update.pseudoCount.toFixed(3)}</span>
+                          <p>
+                            Pseudo-count = {(step.weight / 100).toFixed(2)} × {evidenceStrengthScale} = <span className="text-primary font-bold">{step.pseudoCount.toFixed(3)}</span>
+                          </p>
+                          <p>
+                            α += {(step.value / 100).toFixed(2)} × {step.pseudoCount.toFixed(3)} = <span className="text-foreground">{step.alphaIncrement.toFixed(3)}</span>
                           </p>
                           <p>
-                            {update.evaluation.supportsDecision 
-                              ? `α += ${update.pseudoCount.toFixed(3)}` 
-                              : `β += ${update.pseudoCount.toFixed(3)}`}
+                            β += {(1 - step.value / 100).toFixed(2)} × {step.pseudoCount.toFixed(3)} = <span className="text-foreground">{step.betaIncrement.toFixed(3)}</span>
                           </p>
                         </div>
                       </div>
@@ -163,8 +155,8 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
                   Your updated belief after incorporating all evidence. This is the mathematical combination of your prior belief and the evidence you've evaluated. The expected value represents the most likely probability of success.
                 </p>
                 <div className="space-y-1 text-muted-foreground">
-                  <p>Final α = {initialAlpha.toFixed(2)} + {evaluationUpdates.reduce((sum, u) => sum + u.alphaChange, 0).toFixed(3)} = <span className="text-primary font-bold">{finalAlpha.toFixed(3)}</span></p>
-                  <p>Final β = {initialBeta.toFixed(2)} + {evaluationUpdates.reduce((sum, u) => sum + u.betaChange, 0).toFixed(3)} = <span className="text-primary font-bold">{finalBeta.toFixed(3)}</span></p>
+                  <p>Final α = {priorAlpha.toFixed(2)} + {totalAlphaIncrement.toFixed(3)} = <span className="text-primary font-bold">{finalAlpha.toFixed(3)}</span></p>
+                  <p>Final β = {priorBeta.toFixed(2)} + {totalBetaIncrement.toFixed(3)} = <span className="text-primary font-bold">{finalBeta.toFixed(3)}</span></p>
                   <p className="pt-2">
                     Expected value = α / (α + β) = {finalAlpha.toFixed(3)} / {(finalAlpha + finalBeta).toFixed(3)} = <span className="text-foreground font-bold">{(expectedValue * 100).toFixed(1)}%</span>
                   </p>
@@ -173,9 +165,9 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
 
               {/* Monte Carlo Results */}
               <section>
-                <h4 className="text-base font-bold text-primary mb-2">4. Monte Carlo Simulation (10,000 samples)</h4>
+                <h4 className="text-base font-bold text-primary mb-2">4. Monte Carlo Simulation ({sampleCount} samples)</h4>
                 <p className="text-xs text-muted-foreground mb-3 font-sans italic">
-                  We simulate 10,000 possible futures by randomly sampling from your posterior distribution. This reveals the full range of possible outcomes, not just the average. The credible interval shows where 95% of outcomes fall; the win percentage shows how often success is more likely than not.
+                  We simulate {sampleCount} possible futures by sampling from Beta({finalAlpha.toFixed(2)}, {finalBeta.toFixed(2)}) above. This reveals the full range of possible outcomes, not just the average. The credible interval shows where 95% of outcomes fall; the win percentage shows how often success is more likely than not.
                 </p>
                 <div className="space-y-1 text-muted-foreground">
                   <p>Posterior mean: <span className="text-foreground font-bold">{posterior.toFixed(1)}%</span></p>
@@ -225,6 +217,26 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
                 </section>
               )}
 
+              {/* Sensitivity */}
+              {sensitivityAnalysis.length > 0 && (
+                <section>
+                  <h4 className="text-base font-bold text-primary mb-2">6. Sensitivity</h4>
+                  <p className="text-xs text-muted-foreground mb-3 font-sans italic">
+                    How far the posterior would move if each criterion were left out. Leaving out a criterion that has sub-criteria leaves out all of them.
+                  </p>
+                  <div className="space-y-1 text-muted-foreground">
+                    {sensitivityTree(null).map((item) => (
+                      <p key={item.criterionId} style={{ paddingLeft: `${item.depth * 1.25}rem` }}>
+                        {item.depth > 0 && '↳ '}{item.criterionName}:{' '}
+                        <span className={item.direction === 'supporting' ? 'text-confidence-high' : 'text-confidence-low'}>
+                          {item.impact > 0 ? '+' : ''}{item.impact.toFixed(1)} pts
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                </section>
+              )}
+
               {/* Formula Summary */}
               <section className="pt-4 border-t border-border">
                 <h4 className="text-xs font-bold text-muted-foreground mb-2">FORMULA SUMMARY</h4>
@@ -233,13 +245,15 @@ export function CalculationsPane({ state, posterior, credibleInterval, winPercen
                 </p>
                 <div className="text-xs text-muted-foreground space-y-1">
                   <p>• Beta distribution: Prior ~ Beta(α₀, β₀)</p>
-                  <p>• Pseudo-count = (strength/5) × (confidence/5) × (importance/100) × 5</p>
-                  <p>• Supporting evidence: α += pseudo-count</p>
-                  <p>• Opposing evidence: β += pseudo-count</p>
+                  <p>• Pseudo-count = (confidence/100) × (importance/100) × {evidenceStrengthScale} × correlation adjustment</p>
+                  <p>• Sub-criterion importance = parent importance × (own importance / sum of siblings')</p>
+                  <p>• Supporting evidence: α += (strength/100) × pseudo-count, β += the remainder</p>
+                  <p>• Opposing evidence: β += (strength/100) × pseudo-count, α += the remainder</p>
+                  <p>• Evidence items: pseudo-count = (weight/100) × {evidenceStrengthScale}, α += (value/100) × pseudo-count, β += the remainder</p>
                   <p>• Halton sequence: Quasi-random sampling for variance reduction</p>
                   <p>• Geweke: |Z| &lt; 1.96 indicates convergence</p>
                   <p>• ESS: &gt;400 samples adequate, &gt;1000 excellent</p>
-                  <p>• Win % = proportion of 10,000 samples where value &gt; 0.5</p>
+                  <p>• Win % = proportion of {sampleCount} samples where value &gt; 0.5</p>
                 </div>
               </section>
             </div>
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { SavedExperiment } from '@/hooks/useExperimentsPersistence';
+import { SavedDecision } from '@/hooks/useDecisionPersistence';
+import { ExperimentResult, ExperimentResultDirection, isMultiOptionDecision } from '@/types/decision';
+import { getLeafCriteria } from '@/lib/criteriaTree';
+
+interface CompleteExperimentDialogProps {
+  experiment: SavedExperiment | null;
+  decision?: SavedDecision;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete: (result: ExperimentResult) => void;
+  onCompleteWithoutResult: () => void;
+}
+
+export function CompleteExperimentDialog({
+  experiment,
+  decision,
+  saving,
+  onOpenChange,
+  onComplete,
+  onCompleteWithoutResult,
+}: CompleteExperimentDialogProps) {
+  const [criterionId, setCriterionId] = useState('');
+  const [optionId, setOptionId] = useState('');
+  const [direction, setDirection] = useState<ExperimentResultDirection>('supports');
+  const [conclusiveness, setConclusiveness] = useState(50);
+  const [notes, setNotes] = useState('');
+
+  const isComparingOptions = decision ? isMultiOptionDecision(decision) : false;
+
+  // Start from the criterion the experiment was designed to target
+  useEffect(() => {
+    if (!experiment || !decision) return;
+    const target = experiment.targetCriterion?.trim().toLowerCase();
+    const matched = decision.criteria.find(c => c.name.trim().toLowerCase() === target);
+    setCriterionId(matched?.id ?? decision.criteria[0]?.id ?? '');
+    setOptionId(decision.options[0]?.id ?? '');
+    setDirection('supports');
+    setConclusiveness(50);
+    setNotes('');
+  }, [experiment, decision]);
+
+  const canSubmit = !!criterionId && (!isComparingOptions || !!optionId);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onComplete({
+      criterionId,
+      optionId: isComparingOptions ? optionId : undefined,
+      direction,
+      conclusiveness,
+      notes,
+    });
+  };
+
+  const subject = isComparingOptions
+    ? decision?.options.find(o => o.id === optionId)?.name ?? 'this option'
+    : 'the decision';
+
+  return (
+    <Dialog open={!!experiment} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>What did you learn?</DialogTitle>
+          <DialogDescription>{experiment?.title}</DialogDescription>
+        </DialogHeader>
+
+        {!decision ? (
+          <p className="text-sm text-muted-foreground py-2">
+            This experiment isn't linked to a decision, so its result can't update a posterior.
+            Link it to a decision first, or mark it complete without a result.
+          </p>
+        ) : (
+          <div className="space-y-6 py-2">
+            <div className="space-y-2">
+              <Label>Which criterion did it inform?</Label>
+              <Select value={criterionId} onValueChange={setCriterionId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a criterion..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {getLeafCriteria(decision.criteria).map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isComparingOptions && (
+              <div className="space-y-2">
+                <Label>Which option was it about?</Label>
+                <Select value={optionId} onValueChange={setOptionId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an option..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {decision.options.map(o => (
+                      <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Which way did it point?</Label>
+              <RadioGroup
+                value={direction}
+                onValueChange={(value) => setDirection(value as ExperimentResultDirection)}
+                className="grid grid-cols-3 gap-2"
+              >
+                {([
+                  ['supports', `For ${subject}`],
+                  ['opposes', `Against ${subject}`],
+                  ['inconclusive', 'Inconclusive'],
+                ] as const).map(([value, label]) => (
+                  <div key={value} className="flex items-center space-x-2 p-3 rounded-xl border border-border">
+                    <RadioGroupItem value={value} id={`direction-${value}`} />
+                    <Label htmlFor={`direction-${value}`} className="cursor-pointer text-xs">{label}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>How conclusive was it?</Label>
+                <span className="text-sm font-mono text-primary">{conclusiveness}%</span>
+              </div>
+              <Slider
+                value={[conclusiveness]}
+                onValueChange={([value]) => setConclusiveness(value)}
+                min={1}
+                max={100}
+                step={1}
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Barely suggestive</span>
+                <span>Settles it</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="experiment-notes">Notes</Label>
+              <Textarea
+                id="experiment-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What happened?"
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCompleteWithoutResult} disabled={saving}>
+            Complete without result
+          </Button>
+          {decision && (
+            <Button onClick={handleSubmit} disabled={saving || !canSubmit}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Update decision
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Criterion, CriteriaCorrelationGroup } from '@/types/decision';
+import { Link2, Trash2, Sparkles, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { criteriaOverlapSchema, parseAIResponse } from '@/lib/aiSchemas';
+
+interface CorrelationGroupsEditorProps {
+  decision: string;
+  criteria: Criterion[];
+  groups: CriteriaCorrelationGroup[];
+  onChange: (groups: CriteriaCorrelationGroup[]) => void;
+}
+
+const DEFAULT_CORRELATION_FACTOR = 0.5;
+
+export function CorrelationGroupsEditor({ decision, criteria, groups, onChange }: CorrelationGroupsEditorProps) {
+  const isMountedRef = useRef(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoadingAI, setIsLoadingAI] = useState(false);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // The engine discounts each criterion by one group, so a criterion can only be in one
+  const groupedIds = new Set(groups.flatMap(g => g.criterionIds));
+  const ungrouped = criteria.filter(c => !groupedIds.has(c.id));
+  const criterionName = (id: string) => criteria.find(c => c.id === id)?.name ?? 'Unknown';
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const addGroup = () => {
+    // Criteria removed since they were selected drop out
+    const criterionIds = selectedIds.filter(id => ungrouped.some(c => c.id === id));
+    if (criterionIds.length < 2) return;
+    onChange([
+      ...groups,
+      { id: crypto.randomUUID(), criterionIds, correlationFactor: DEFAULT_CORRELATION_FACTOR },
+    ]);
+    setSelectedIds([]);
+  };
+
+  const updateCorrelation = (id: string, correlationFactor: number) => {
+    onChange(groups.map(g => (g.id === id ? { ...g, correlationFactor } : g)));
+  };
+
+  const removeGroup = (id: string) => {
+    onChange(groups.filter(g => g.id !== id));
+  };
+
+  const fetchAIOverlaps = async () => {
+    setIsLoadingAI(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('detect-criteria-overlap', {
+        body: {
+          decision,
+          criteria: criteria.map(c => ({ name: c.name, description: c.description })),
+        },
+      });
+
+      // Check if component is still mounted before updating state
+      if (!isMountedRef.current) return;
+
+      if (error) throw error;
+
+      // Match names back to criteria, skipping anything already grouped
+      const taken = new Set(groupedIds);
+      const newGroups: CriteriaCorrelationGroup[] = [];
+      parseAIResponse(criteriaOverlapSchema, data).groups.forEach(g => {
+        const ids = g.criteria
+          .map(name => criteria.find(c => c.name.toLowerCase() === name.toLowerCase())?.id)
+          .filter((id): id is string => !!id && !taken.has(id));
+        const uniqueIds = [...new Set(ids)];
+        if (uniqueIds.length < 2) return;
+
+        uniqueIds.forEach(id => taken.add(id));
+        newGroups.push({
+          id: crypto.randomUUID(),
+          criterionIds: uniqueIds,
+          correlationFactor: g.correlationFactor || DEFAULT_CORRELATION_FACTOR,
+          reason: g.reason,
+          isAISuggested: true,
+        });
+      });
+
+      if (newGroups.length > 0) {
+        onChange([...groups, ...newGroups]);
+        toast.success(`Flagged ${newGroups.length} overlapping group${newGroups.length === 1 ? '' : 's'}`);
+      } else {
+        toast.info('No overlapping criteria found');
+      }
+    } catch (error) {
+      if (!isMountedRef.current) return;
+      console.error('Error detecting overlapping criteria:', error);
+      toast.error('Failed to check for overlapping criteria');
+    } finally {
+      if (isMountedRef.current) {
+        setIsLoadingAI(false);
+      }
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="glass-card rounded-2xl p-8 mb-6"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-mono text-muted-foreground">
+          OVERLAPPING CRITERIA
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchAIOverlaps}
+          disabled={isLoadingAI || ungrouped.length < 2}
+          className="gap-2"
+        >
+          {isLoadingAI ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Sparkles className="w-4 h-4" />
+          )}
+          Find overlaps
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Criteria that measure the same thing (like "Salary" and "Financial security") would otherwise be counted twice.
+        Group them so their evidence is discounted.
+      </p>
+
+      {/* Existing groups */}
+      <AnimatePresence mode="popLayout">
+        {groups.map((group) => {
+          // Mirrors computeCorrelationAdjustedWeight: fully overlapping criteria count once in total
+          const effectiveCount = 1 + (group.criterionIds.length - 1) * (1 - group.correlationFactor);
+          return (
+            <motion.div
+              key={group.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className={`p-4 rounded-xl border mb-3 ${
+                group.isAISuggested
+                  ? 'bg-primary/5 border-primary/20'
+                  : 'bg-secondary/50 border-border'
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <Link2 className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-1" />
+                <div className="flex-1">
+                  <div className="flex items-start gap-2 flex-wrap">
+                    <span className="font-medium">{group.criterionIds.map(criterionName).join(' + ')}</span>
+                    {group.isAISuggested && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary font-mono">
+                        AI
+                      </span>
+                    )}
+                  </div>
+                  {group.reason && (
+                    <p className="text-sm text-muted-foreground mt-2">{group.reason}</p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeGroup(group.id)}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center justify-between pl-7 pt-3 mt-3 border-t border-border/50">
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-muted-foreground">Overlap</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={Math.round(group.correlationFactor * 100)}
+                    onChange={(e) => updateCorrelation(group.id, Number(e.target.value) / 100)}
+                    className="w-24 h-1 accent-primary cursor-pointer"
+                  />
+                  <span className="text-xs font-mono w-8">
+                    {Math.round(group.correlationFactor * 100)}%
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground font-mono">
+                  counts as {effectiveCount.toFixed(1)} of {group.criterionIds.length}
+                </span>
+              </div>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+
+      {/* New group */}
+      {ungrouped.length >= 2 && (
+        <div className={groups.length > 0 ? 'pt-3' : ''}>
+          <p className="text-xs text-muted-foreground mb-3">Select two or more criteria that overlap:</p>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {ungrouped.map((criterion) => {
+              const isSelected = selectedIds.includes(criterion.id);
+              return (
+                <button
+                  key={criterion.id}
+                  type="button"
+                  onClick={() => toggleSelected(criterion.id)}
+                  className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                    isSelected
+                      ? 'bg-primary/10 border-primary/40 text-primary'
+                      : 'bg-secondary/50 border-border text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {criterion.name}
+                </button>
+              );
+            })}
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={addGroup}
+            disabled={selectedIds.filter(id => ungrouped.some(c => c.id === id)).length < 2}
+            className="gap-2"
+          >
+            <Link2 className="w-4 h-4" />
+            Group selected
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,31 +1,55 @@
-import { useState, useEffect, forwardRef, useRef } from 'react';
+import { useState, useEffect, forwardRef, useRef, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Slider } from '@/components/ui/slider';
 import { ArrowLeft, ArrowRight, Loader2, Lightbulb, CheckCircle2 } from 'lucide-react';
-import { Criterion, CriterionEvaluation as CriterionEvaluationType } from '@/types/decision';
+import { Criterion, CriterionEvaluation as CriterionEvaluationType, DecisionOption, OptionScore, MIN_DECISION_OPTIONS } from '@/types/decision';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { computeEffectiveImportance, getCriterionAncestors, getLeafCriteria } from '@/lib/criteriaTree';
+import { criterionFactsSchema, parseAIResponse } from '@/lib/aiSchemas';
 
 interface CriteriaEvaluationProps {
   decision: string;
   criteria: Criterion[];
+  options?: DecisionOption[];
   initialEvaluations: CriterionEvaluationType[];
-  onSubmit: (evaluations: CriterionEvaluationType[]) => void;
+  initialOptionScores?: OptionScore[];
+  onSubmit: (evaluations: CriterionEvaluationType[], optionScores: OptionScore[]) => void;
   onBack: () => void;
 }
 
 export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationProps>(({
   decision,
-  criteria,
+  criteria: allCriteria,
+  options = [],
   initialEvaluations,
+  initialOptionScores = [],
   onSubmit,
   onBack,
 }, ref) => {
   const isMountedRef = useRef(true);
   const [currentIndex, setCurrentIndex] = useState(0);
+  // Parent criteria are weighed through their sub-criteria, so only the leaves get assessed
+  const criteria = useMemo(() => getLeafCriteria(allCriteria), [allCriteria]);
+  const effectiveImportance = useMemo(() => computeEffectiveImportance(allCriteria), [allCriteria]);
+  const isComparingOptions = options.length >= MIN_DECISION_OPTIONS;
+
+  // Every option needs a score on every criterion; missing ones start neutral
+  const fillOptionScores = (existingScores: OptionScore[]): OptionScore[] => {
+    if (!isComparingOptions) return [];
+    return criteria.flatMap(c => options.map(o => {
+      const existing = existingScores.find(s => s.criterionId === c.id && s.optionId === o.id);
+      return existing ?? {
+        criterionId: c.id,
+        optionId: o.id,
+        score: 50,
+        confidence: 50,
+      };
+    }));
+  };
   
   // Initialize evaluations from props or create defaults for all criteria
   const getInitialEvaluations = (): CriterionEvaluationType[] => {
@@ -50,6 +74,7 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
   };
   
   const [evaluations, setEvaluations] = useState<CriterionEvaluationType[]>(getInitialEvaluations);
+  const [optionScores, setOptionScores] = useState<OptionScore[]>(() => fillOptionScores(initialOptionScores));
   const [facts, setFacts] = useState<string[]>([]);
   const [isLoadingFacts, setIsLoadingFacts] = useState(false);
 
@@ -57,7 +82,12 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
   const safeCurrentIndex = Math.min(currentIndex, Math.max(0, criteria.length - 1));
   const currentCriterion = criteria[safeCurrentIndex];
   const currentEvaluation = evaluations.find(e => e.criterionId === currentCriterion?.id);
+  const currentOptionScores = optionScores.filter(s => s.criterionId === currentCriterion?.id);
   const isLastCriterion = safeCurrentIndex === criteria.length - 1;
+  const currentImportance = currentCriterion
+    ? Math.round(effectiveImportance.get(currentCriterion.id) ?? currentCriterion.importance)
+    : 0;
+  const currentAncestors = currentCriterion ? getCriterionAncestors(allCriteria, currentCriterion.id) : [];
 
   // Cleanup on unmount
   useEffect(() => {
@@ -82,8 +112,9 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
           };
         });
       });
+      setOptionScores(prev => fillOptionScores(prev));
     }
-  }, [criteria]);
+  }, [criteria, options]);
 
   // Reset index if it goes out of bounds
   useEffect(() => {
@@ -111,7 +142,7 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
           criterion: {
             name: currentCriterion.name,
             description: currentCriterion.description,
-            importance: currentCriterion.importance,
+            importance: currentImportance,
           },
         },
       });
@@ -125,9 +156,7 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
         return;
       }
 
-      if (data?.facts) {
-        setFacts(data.facts);
-      }
+      setFacts(parseAIResponse(criterionFactsSchema, data).facts);
     } catch (err) {
       // Check if component is still mounted before updating state
       if (!isMountedRef.current) return;
@@ -151,9 +180,31 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
     );
   };
 
+  const updateOptionScore = (optionId: string, score: number) => {
+    setOptionScores(prev =>
+      prev.map(s =>
+        s.criterionId === currentCriterion?.id && s.optionId === optionId
+          ? { ...s, score }
+          : s
+      )
+    );
+  };
+
+  // Confidence is asked once per criterion and applies to every option's score
+  const updateOptionConfidence = (confidence: number) => {
+    setOptionScores(prev =>
+      prev.map(s =>
+        s.criterionId === currentCriterion?.id
+          ? { ...s, confidence }
+          : s
+      )
+    );
+  };
+
   const handleNext = () => {
     if (isLastCriterion) {
-      onSubmit(evaluations);
+      // Options are scored directly, so the binary evaluations don't apply
+      onSubmit(isComparingOptions ? [] : evaluations, optionScores);
     } else {
       setCurrentIndex(prev => prev + 1);
     }
@@ -220,6 +271,11 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
         className="space-y-6"
       >
         <div className="p-6 rounded-2xl border border-primary/20 bg-primary/5">
+          {currentAncestors.length > 0 && (
+            <p className="text-xs font-mono text-muted-foreground mb-1">
+              {currentAncestors.map(c => c.name).join(' › ')} ›
+            </p>
+          )}
           <h2 className="text-2xl font-bold gradient-text mb-2">
             {currentCriterion.name}
           </h2>
@@ -231,10 +287,10 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
             <div className="h-2 w-24 bg-secondary rounded-full overflow-hidden">
               <div 
                 className="h-full bg-primary transition-all"
-                style={{ width: `${currentCriterion.importance}%` }}
+                style={{ width: `${currentImportance}%` }}
               />
             </div>
-            <span className="text-xs font-mono text-primary">{currentCriterion.importance}%</span>
+            <span className="text-xs font-mono text-primary">{currentImportance}%</span>
           </div>
         </div>
 
@@ -273,78 +329,135 @@ export const CriteriaEvaluation = forwardRef<HTMLDivElement, CriteriaEvaluationP
         </div>
 
         {/* Assessment questions */}
-        <div className="space-y-8 p-6 rounded-2xl border border-border bg-card">
-          {/* Question 1: Support direction */}
-          <div className="space-y-4">
-            <Label className="text-base font-semibold">
-              Based on this criterion, which option does this support?
-            </Label>
-            <RadioGroup
-              value={currentEvaluation.supportsDecision ? 'decision' : 'status-quo'}
-              onValueChange={(value) => updateEvaluation({ supportsDecision: value === 'decision' })}
-              className="flex flex-col gap-3"
-            >
-              <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-primary/50 transition-colors cursor-pointer">
-                <RadioGroupItem value="status-quo" id="status-quo" />
-                <Label htmlFor="status-quo" className="cursor-pointer flex-1">
-                  <span className="font-medium">Status Quo</span>
-                  <span className="block text-sm text-muted-foreground">Keep things as they are</span>
-                </Label>
-              </div>
-              <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-primary/50 transition-colors cursor-pointer">
-                <RadioGroupItem value="decision" id="decision" />
-                <Label htmlFor="decision" className="cursor-pointer flex-1">
-                  <span className="font-medium">{decision}</span>
-                  <span className="block text-sm text-muted-foreground">Make the change</span>
-                </Label>
+        {isComparingOptions ? (
+          <div className="space-y-8 p-6 rounded-2xl border border-border bg-card">
+            {/* Question 1: Score each option */}
+            <div className="space-y-6">
+              <Label className="text-base font-semibold">
+                How well does each option do on this criterion?
+              </Label>
+              {options.map((option) => {
+                const optionScore = currentOptionScores.find(s => s.optionId === option.id);
+                if (!optionScore) return null;
+                return (
+                  <div key={option.id} className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{option.name}</span>
+                      <span className="text-sm font-mono text-primary">{optionScore.score}%</span>
+                    </div>
+                    <Slider
+                      value={[optionScore.score]}
+                      onValueChange={([value]) => updateOptionScore(option.id, value)}
+                      min={1}
+                      max={100}
+                      step={1}
+                      className="w-full"
+                    />
+                  </div>
+                );
+              })}
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Very poorly</span>
+                <span>Very well</span>
               </div>
-            </RadioGroup>
-          </div>
-
-          {/* Question 2: Strength */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label className="text-base font-semibold">How strongly?</Label>
-              <span className="text-sm font-mono text-primary">
-                {currentEvaluation.strength}%
-              </span>
             </div>
-            <Slider
-              value={[currentEvaluation.strength]}
-              onValueChange={([value]) => updateEvaluation({ strength: value })}
-              min={1}
-              max={100}
-              step={1}
-              className="w-full"
-            />
-            <div className="flex justify-between text-xs text-muted-foreground">
-              <span>Very weakly</span>
-              <span>Very strongly</span>
+
+            {/* Question 2: Confidence */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">How sure are you about these scores?</Label>
+                <span className="text-sm font-mono text-primary">
+                  {currentOptionScores[0]?.confidence ?? 50}%
+                </span>
+              </div>
+              <Slider
+                value={[currentOptionScores[0]?.confidence ?? 50]}
+                onValueChange={([value]) => updateOptionConfidence(value)}
+                min={1}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Not very sure</span>
+                <span>Very sure</span>
+              </div>
             </div>
           </div>
+        ) : (
+          <div className="space-y-8 p-6 rounded-2xl border border-border bg-card">
+            {/* Question 1: Support direction */}
+            <div className="space-y-4">
+              <Label className="text-base font-semibold">
+                Based on this criterion, which option does this support?
+              </Label>
+              <RadioGroup
+                value={currentEvaluation.supportsDecision ? 'decision' : 'status-quo'}
+                onValueChange={(value) => updateEvaluation({ supportsDecision: value === 'decision' })}
+                className="flex flex-col gap-3"
+              >
+                <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-primary/50 transition-colors cursor-pointer">
+                  <RadioGroupItem value="status-quo" id="status-quo" />
+                  <Label htmlFor="status-quo" className="cursor-pointer flex-1">
+                    <span className="font-medium">Status Quo</span>
+                    <span className="block text-sm text-muted-foreground">Keep things as they are</span>
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-primary/50 transition-colors cursor-pointer">
+                  <RadioGroupItem value="decision" id="decision" />
+                  <Label htmlFor="decision" className="cursor-pointer flex-1">
+                    <span className="font-medium">{decision}</span>
+                    <span className="block text-sm text-muted-foreground">Make the change</span>
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
 
-          {/* Question 3: Confidence */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label className="text-base font-semibold">How sure are you about this assessment?</Label>
-              <span className="text-sm font-mono text-primary">
-                {currentEvaluation.confidence}%
-              </span>
+            {/* Question 2: Strength */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">How strongly?</Label>
+                <span className="text-sm font-mono text-primary">
+                  {currentEvaluation.strength}%
+                </span>
+              </div>
+              <Slider
+                value={[currentEvaluation.strength]}
+                onValueChange={([value]) => updateEvaluation({ strength: value })}
+                min={1}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Very weakly</span>
+                <span>Very strongly</span>
+              </div>
             </div>
-            <Slider
-              value={[currentEvaluation.confidence]}
-              onValueChange={([value]) => updateEvaluation({ confidence: value })}
-              min={1}
-              max={100}
-              step={1}
-              className="w-full"
-            />
-            <div className="flex justify-between text-xs text-muted-foreground">
-              <span>Not very sure</span>
-              <span>Very sure</span>
+
+            {/* Question 3: Confidence */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">How sure are you about this assessment?</Label>
+                <span className="text-sm font-mono text-primary">
+                  {currentEvaluation.confidence}%
+                </span>
+              </div>
+              <Slider
+                value={[currentEvaluation.confidence]}
+                onValueChange={([value]) => updateEvaluation({ confidence: value })}
+                min={1}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Not very sure</span>
+                <span>Very sure</span>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Navigation */}
         <div className="flex justify-between pt-4">
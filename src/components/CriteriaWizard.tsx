@@ -1,25 +1,50 @@
 import { useState, forwardRef, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Criterion } from '@/types/decision';
-import { Plus, Trash2, GripVertical, Sparkles, ArrowRight, ChevronLeft, Loader2 } from 'lucide-react';
+import { Criterion, CriteriaCorrelationGroup, PairwiseJudgment } from '@/types/decision';
+import { Plus, Trash2, GripVertical, Sparkles, ArrowRight, ChevronLeft, Loader2, CornerDownRight, Scale } from 'lucide-react';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { CorrelationGroupsEditor } from './CorrelationGroupsEditor';
+import { PairwiseComparisonEditor } from './PairwiseComparisonEditor';
+import { getChildCriteria, getLeafCriteria, getSubtreeIds } from '@/lib/criteriaTree';
+import { applyPairwiseWeights, getComparisonGroups, prunePairwiseJudgments } from '@/lib/ahp';
+import { criterionSuggestionsSchema, parseAIResponse } from '@/lib/aiSchemas';
 
 interface CriteriaWizardProps {
   decision: string;
   initialCriteria?: Criterion[];
-  onSubmit: (criteria: Criterion[]) => void;
+  initialCorrelationGroups?: CriteriaCorrelationGroup[];
+  initialPairwiseJudgments?: PairwiseJudgment[];
+  onSubmit: (criteria: Criterion[], correlationGroups: CriteriaCorrelationGroup[], pairwiseJudgments: PairwiseJudgment[]) => void;
   onBack: () => void;
 }
 
-export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({ decision, initialCriteria = [], onSubmit, onBack }, ref) => {
+/** Criteria can be broken down this many levels deep (e.g. Compensation → Equity → Vesting) */
+const MAX_CRITERIA_DEPTH = 3;
+
+type WeightingMode = 'sliders' | 'pairwise';
+
+export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({ decision, initialCriteria = [], initialCorrelationGroups = [], initialPairwiseJudgments = [], onSubmit, onBack }, ref) => {
   const isMountedRef = useRef(true);
   const [criteria, setCriteria] = useState<Criterion[]>(initialCriteria);
+  const [correlationGroups, setCorrelationGroups] = useState<CriteriaCorrelationGroup[]>(initialCorrelationGroups);
+  const [weightingMode, setWeightingMode] = useState<WeightingMode>(initialPairwiseJudgments.length > 0 ? 'pairwise' : 'sliders');
+  const [pairwiseJudgments, setPairwiseJudgments] = useState<PairwiseJudgment[]>(initialPairwiseJudgments);
   const [newCriterion, setNewCriterion] = useState('');
+  const [addingChildTo, setAddingChildTo] = useState<string | null>(null);
+  const [newChildCriterion, setNewChildCriterion] = useState('');
   const [isLoadingAI, setIsLoadingAI] = useState(false);
 
+  const rootCriteria = getChildCriteria(criteria, null);
+  // Only criteria without sub-criteria get assessed, so only they can overlap
+  const leafCriteria = getLeafCriteria(criteria);
+  const comparisonGroups = getComparisonGroups(criteria);
+  // In pairwise mode importance is derived from the answers rather than set directly
+  const weightedCriteria = weightingMode === 'pairwise' ? applyPairwiseWeights(criteria, pairwiseJudgments) : criteria;
+  const comparedIds = new Set(comparisonGroups.flat().map(c => c.id));
+
   // Cleanup on unmount
   useEffect(() => {
     isMountedRef.current = true;
@@ -41,8 +66,38 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
     }
   };
 
+  // Drop criteria from their groups, and a group once it no longer links two criteria
+  const removeFromGroups = (ids: string[]) => {
+    setCorrelationGroups(correlationGroups
+      .map(g => ({ ...g, criterionIds: g.criterionIds.filter(c => !ids.includes(c)) }))
+      .filter(g => g.criterionIds.length >= 2));
+  };
+
+  const addChildCriterion = (parentId: string) => {
+    if (!newChildCriterion.trim()) return;
+    const criterion: Criterion = {
+      id: crypto.randomUUID(),
+      name: newChildCriterion.trim(),
+      importance: 50,
+      isAISuggested: false,
+      parentId,
+    };
+    setCriteria([...criteria, criterion]);
+    // The parent is now weighed through its sub-criteria instead of assessed itself
+    removeFromGroups([parentId]);
+    setNewChildCriterion('');
+    setAddingChildTo(null);
+  };
+
   const removeCriterion = (id: string) => {
-    setCriteria(criteria.filter(c => c.id !== id));
+    // Sub-criteria go with their parent
+    const removedIds = getSubtreeIds(criteria, id);
+    setCriteria(criteria.filter(c => !removedIds.includes(c.id)));
+    removeFromGroups(removedIds);
+  };
+
+  const reorderRootCriteria = (roots: Criterion[]) => {
+    setCriteria([...roots, ...criteria.filter(c => !roots.includes(c))]);
   };
 
   const updateImportance = (id: string, importance: number) => {
@@ -51,6 +106,12 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
     ));
   };
 
+  const changeWeightingMode = (mode: WeightingMode) => {
+    // Sliders pick up where the pairwise answers left off
+    if (mode === 'sliders') setCriteria(weightedCriteria);
+    setWeightingMode(mode);
+  };
+
   const fetchAISuggestions = async () => {
     setIsLoadingAI(true);
     try {
@@ -63,17 +124,16 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
 
       if (error) throw error;
 
-      if (data?.suggestions && Array.isArray(data.suggestions)) {
-        const newCriteria: Criterion[] = data.suggestions.map((s: { name: string; description?: string }) => ({
-          id: crypto.randomUUID(),
-          name: s.name,
-          description: s.description,
-          importance: 50,
-          isAISuggested: true,
-        }));
-        setCriteria([...criteria, ...newCriteria]);
-        toast.success(`Added ${newCriteria.length} AI-suggested criteria`);
-      }
+      const { suggestions } = parseAIResponse(criterionSuggestionsSchema, data);
+      const newCriteria: Criterion[] = suggestions.map(s => ({
+        id: crypto.randomUUID(),
+        name: s.name,
+        description: s.description,
+        importance: 50,
+        isAISuggested: true,
+      }));
+      setCriteria([...criteria, ...newCriteria]);
+      toast.success(`Added ${newCriteria.length} AI-suggested criteria`);
     } catch (error) {
       if (!isMountedRef.current) return;
       console.error('Error fetching AI suggestions:', error);
@@ -87,7 +147,11 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
 
   const handleSubmit = () => {
     if (criteria.length > 0) {
-      onSubmit(criteria);
+      if (weightingMode === 'pairwise') {
+        onSubmit(weightedCriteria, correlationGroups, prunePairwiseJudgments(criteria, pairwiseJudgments));
+      } else {
+        onSubmit(criteria, correlationGroups, []);
+      }
     }
   };
 
@@ -98,6 +162,137 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
     }
   };
 
+  const renderCriterion = (criterion: Criterion, label: string, depth: number): JSX.Element => {
+    const children = getChildCriteria(criteria, criterion.id);
+    const siblings = depth > 0 ? getChildCriteria(weightedCriteria, criterion.parentId ?? null) : [];
+    const siblingTotal = siblings.reduce((sum, c) => sum + c.importance, 0);
+    const parent = criteria.find(c => c.id === criterion.parentId);
+    const importance = weightedCriteria.find(c => c.id === criterion.id)?.importance ?? criterion.importance;
+    const isDerived = weightingMode === 'pairwise' && comparedIds.has(criterion.id);
+
+    return (
+      <div>
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 20 }}
+          className={`p-4 rounded-xl border ${
+            criterion.isAISuggested
+              ? 'bg-primary/5 border-primary/20'
+              : 'bg-secondary/50 border-border'
+          }`}
+        >
+          <div className="flex flex-col gap-3">
+            <div className="flex items-start gap-4">
+              {depth === 0 ? (
+                <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-1" />
+              ) : (
+                <CornerDownRight className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-1" />
+              )}
+              
+              <span className="text-sm font-mono text-muted-foreground min-w-6 mt-0.5">
+                #{label}
+              </span>
+              
+              <div className="flex-1">
+                <div className="flex items-start gap-2 flex-wrap">
+                  <span className="font-medium">{criterion.name}</span>
+                  {criterion.isAISuggested && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary font-mono">
+                      AI
+                    </span>
+                  )}
+                </div>
+                {criterion.description && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    {criterion.description}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between pl-10 pt-2 border-t border-border/50">
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-muted-foreground">Importance</span>
+                <input
+                  type="range"
+                  min="1"
+                  max="100"
+                  value={importance}
+                  onChange={(e) => updateImportance(criterion.id, Number(e.target.value))}
+                  disabled={isDerived}
+                  title={isDerived ? 'Set by your pairwise comparisons' : undefined}
+                  className="w-24 h-1 accent-primary cursor-pointer disabled:cursor-default disabled:opacity-60"
+                />
+                <span className="text-xs font-mono w-8">
+                  {importance}%
+                </span>
+                {parent && siblingTotal > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    = {Math.round(importance / siblingTotal * 100)}% of {parent.name}
+                  </span>
+                )}
+              </div>
+              
+              <div className="flex items-center gap-1">
+                {depth < MAX_CRITERIA_DEPTH - 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setAddingChildTo(addingChildTo === criterion.id ? null : criterion.id);
+                      setNewChildCriterion('');
+                    }}
+                    className="h-8 gap-1 text-xs text-muted-foreground"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Sub-criterion
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeCriterion(criterion.id)}
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+
+        {(children.length > 0 || addingChildTo === criterion.id) && (
+          <div className="ml-6 pl-4 mt-3 space-y-3 border-l border-border/50 cursor-default">
+            {children.map((child, index) => (
+              <div key={child.id}>{renderCriterion(child, `${label}.${index + 1}`, depth + 1)}</div>
+            ))}
+            {addingChildTo === criterion.id && (
+              <div className="flex gap-3">
+                <Input
+                  autoFocus
+                  value={newChildCriterion}
+                  onChange={(e) => setNewChildCriterion(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addChildCriterion(criterion.id);
+                    }
+                  }}
+                  placeholder={`Part of ${criterion.name}, e.g. base pay, equity...`}
+                  className="flex-1"
+                />
+                <Button onClick={() => addChildCriterion(criterion.id)} disabled={!newChildCriterion.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div ref={ref} className="max-w-3xl mx-auto">
       <motion.div
@@ -178,78 +373,17 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
           ) : (
             <Reorder.Group
               axis="y"
-              values={criteria}
-              onReorder={setCriteria}
+              values={rootCriteria}
+              onReorder={reorderRootCriteria}
               className="space-y-3"
             >
-              {criteria.map((criterion, index) => (
+              {rootCriteria.map((criterion, index) => (
                 <Reorder.Item
                   key={criterion.id}
                   value={criterion}
                   className="cursor-grab active:cursor-grabbing"
                 >
-                  <motion.div
-                    initial={{ opacity: 0, x: -20 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    exit={{ opacity: 0, x: 20 }}
-                    className={`p-4 rounded-xl border ${
-                      criterion.isAISuggested
-                        ? 'bg-primary/5 border-primary/20'
-                        : 'bg-secondary/50 border-border'
-                    }`}
-                  >
-                    <div className="flex flex-col gap-3">
-                      <div className="flex items-start gap-4">
-                        <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-1" />
-                        
-                        <span className="text-sm font-mono text-muted-foreground w-6 mt-0.5">
-                          #{index + 1}
-                        </span>
-                        
-                        <div className="flex-1">
-                          <div className="flex items-start gap-2 flex-wrap">
-                            <span className="font-medium">{criterion.name}</span>
-                            {criterion.isAISuggested && (
-                              <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary font-mono">
-                                AI
-                              </span>
-                            )}
-                          </div>
-                          {criterion.description && (
-                            <p className="text-sm text-muted-foreground mt-2">
-                              {criterion.description}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-
-                      <div className="flex items-center justify-between pl-10 pt-2 border-t border-border/50">
-                        <div className="flex items-center gap-3">
-                          <span className="text-xs text-muted-foreground">Importance</span>
-                          <input
-                            type="range"
-                            min="1"
-                            max="100"
-                            value={criterion.importance}
-                            onChange={(e) => updateImportance(criterion.id, Number(e.target.value))}
-                            className="w-24 h-1 accent-primary cursor-pointer"
-                          />
-                          <span className="text-xs font-mono w-8">
-                            {criterion.importance}%
-                          </span>
-                        </div>
-                        
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeCriterion(criterion.id)}
-                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </motion.div>
+                  {renderCriterion(criterion, `${index + 1}`, 0)}
                 </Reorder.Item>
               ))}
             </Reorder.Group>
@@ -258,11 +392,74 @@ export const CriteriaWizard = forwardRef<HTMLDivElement, CriteriaWizardProps>(({
 
         {criteria.length > 0 && (
           <p className="text-xs text-muted-foreground mt-4 text-center">
-            Drag to reorder by priority. Higher position = higher priority.
+            Drag to reorder by priority. Higher position = higher priority. Break a criterion down into sub-criteria to weigh its parts separately.
           </p>
         )}
       </motion.div>
 
+      {comparisonGroups.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+          className="glass-card rounded-2xl p-8 mb-6"
+        >
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <div className="flex items-center gap-3">
+              <Scale className="w-5 h-5 text-primary" />
+              <label className="block text-sm font-mono text-muted-foreground">WEIGHTING</label>
+            </div>
+            <div className="flex gap-1">
+              {(['sliders', 'pairwise'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => changeWeightingMode(mode)}
+                  className={`text-xs font-mono px-3 py-1.5 rounded-md border transition-colors ${
+                    weightingMode === mode
+                      ? 'bg-primary/10 border-primary/40 text-primary'
+                      : 'border-border text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {mode === 'sliders' ? 'Sliders' : 'Pairwise'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            {weightingMode === 'sliders'
+              ? 'Set each importance directly, or compare criteria two at a time and let their weights follow from your answers.'
+              : 'For each pair, slide toward the one that matters more. Weights follow from all your answers together.'}
+          </p>
+
+          {weightingMode === 'pairwise' && (
+            <div className="space-y-4">
+              {comparisonGroups.map(siblings => {
+                const parent = criteria.find(c => c.id === siblings[0].parentId);
+                return (
+                  <PairwiseComparisonEditor
+                    key={parent?.id ?? 'top-level'}
+                    title={parent ? `Within ${parent.name}` : 'Top-level criteria'}
+                    criteria={siblings}
+                    judgments={pairwiseJudgments}
+                    onChange={setPairwiseJudgments}
+                  />
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+      )}
+
+      {leafCriteria.length >= 2 && (
+        <CorrelationGroupsEditor
+          decision={decision}
+          criteria={leafCriteria}
+          groups={correlationGroups}
+          onChange={setCorrelationGroups}
+        />
+      )}
+
       <motion.div
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
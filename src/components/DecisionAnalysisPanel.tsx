@@ -0,0 +1,104 @@
+import { Fragment, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { DecisionState } from '@/types/decision';
+import { DecisionResults } from '@/lib/bayesian';
+import { InlineNode, parseMarkdown } from '@/lib/markdown';
+import { useDecisionAnalysis } from '@/hooks/useDecisionAnalysis';
+import { Sparkles, Square, Loader2, RotateCcw } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface DecisionAnalysisPanelProps {
+  state: DecisionState;
+  analysis: DecisionResults;
+}
+
+function renderInline(nodes: InlineNode[]) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'strong':
+        return <strong key={i} className="font-semibold text-foreground">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={i} className="font-mono text-xs px-1 py-0.5 rounded bg-secondary">{node.text}</code>;
+      default:
+        return <Fragment key={i}>{node.text}</Fragment>;
+    }
+  });
+}
+
+function AnalysisMarkdown({ text }: { text: string }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className="space-y-3 text-sm leading-relaxed text-muted-foreground">
+      {blocks.map((block, i) => {
+        if (block.type === 'heading') {
+          return <p key={i} className="font-bold text-foreground">{renderInline(block.content)}</p>;
+        }
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`space-y-2 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+            </List>
+          );
+        }
+        return <p key={i}>{renderInline(block.content)}</p>;
+      })}
+    </div>
+  );
+}
+
+export function DecisionAnalysisPanel({ state, analysis }: DecisionAnalysisPanelProps) {
+  const { analysis: text, isLoading, isStreaming, error, analyzeDecision, cancelAnalysis } = useDecisionAnalysis();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.95 }}
+      className="glass-card rounded-2xl p-6 mb-8"
+    >
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Sparkles className="w-5 h-5 text-primary" />
+          <h3 className="font-mono text-sm text-muted-foreground">AI ANALYSIS</h3>
+        </div>
+        {isStreaming ? (
+          <Button onClick={cancelAnalysis} variant="outline" size="sm" className="gap-2">
+            <Square className="w-3 h-3" />
+            Stop
+          </Button>
+        ) : text && (
+          <Button onClick={() => analyzeDecision(state, analysis)} variant="ghost" size="sm" className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Regenerate
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading your analysis...
+        </div>
+      ) : text ? (
+        <>
+          <AnalysisMarkdown text={text} />
+          {isStreaming && <span className="inline-block w-2 h-4 mt-1 bg-primary/70 animate-pulse" />}
+        </>
+      ) : (
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground mb-4">
+            {error ?? 'Get a second opinion on your criteria, the estimate and what might be missing.'}
+          </p>
+          <Button onClick={() => analyzeDecision(state, analysis)} variant="secondary" className="gap-2">
+            <Sparkles className="w-4 h-4" />
+            {error ? 'Try again' : 'Analyze with AI'}
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
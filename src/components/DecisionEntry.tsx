@@ -1,30 +1,55 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
-import { ArrowRight, Sparkles, Gauge, RotateCcw } from 'lucide-react';
+import { ArrowRight, Sparkles, Gauge, RotateCcw, Plus, Trash2, Split } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getConfidenceLabel, getConfidenceColor } from '@/lib/bayesian';
+import { DecisionOption, MIN_DECISION_OPTIONS } from '@/types/decision';
 
 interface DecisionEntryProps {
-  onSubmit: (decision: string, confidence: number) => void;
+  onSubmit: (decision: string, confidence: number, options: DecisionOption[]) => void;
   initialValue?: string;
   initialConfidence?: number;
+  initialOptions?: DecisionOption[];
   hasCriteria?: boolean;
   onReset?: () => void;
 }
 
-export function DecisionEntry({ onSubmit, initialValue = '', initialConfidence = 50, hasCriteria = false, onReset }: DecisionEntryProps) {
+export function DecisionEntry({ onSubmit, initialValue = '', initialConfidence = 50, initialOptions = [], hasCriteria = false, onReset }: DecisionEntryProps) {
   const [decision, setDecision] = useState(initialValue);
   const [confidence, setConfidence] = useState(initialConfidence);
+  const [options, setOptions] = useState<DecisionOption[]>(initialOptions);
+  const [newOption, setNewOption] = useState('');
 
   const hasDecision = decision.trim().length > 0;
+  const isComparingOptions = options.length >= MIN_DECISION_OPTIONS;
   const confidenceLabel = getConfidenceLabel(confidence);
   const confidenceColorClass = getConfidenceColor(confidence);
 
+  const addOption = () => {
+    if (newOption.trim()) {
+      setOptions([...options, { id: crypto.randomUUID(), name: newOption.trim() }]);
+      setNewOption('');
+    }
+  };
+
+  const removeOption = (id: string) => {
+    setOptions(options.filter(o => o.id !== id));
+  };
+
+  const handleOptionKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addOption();
+    }
+  };
+
   const handleSubmit = () => {
     if (hasDecision) {
-      onSubmit(decision.trim(), confidence);
+      // A single named option is not a comparison; fall back to decision vs. status quo
+      onSubmit(decision.trim(), confidence, isComparingOptions ? options : []);
     }
   };
 
@@ -91,6 +116,72 @@ export function DecisionEntry({ onSubmit, initialValue = '', initialConfidence =
 
       <AnimatePresence>
         {hasDecision && (
+          <motion.div
+            initial={{ opacity: 0, height: 0, marginBottom: 0 }}
+            animate={{ opacity: 1, height: 'auto', marginBottom: 32 }}
+            exit={{ opacity: 0, height: 0, marginBottom: 0 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            className="overflow-hidden"
+          >
+            <div className="glass-card rounded-2xl p-8">
+              <div className="flex items-center gap-2 mb-2">
+                <Split className="w-5 h-5 text-accent" />
+                <span className="text-sm font-mono text-accent">ALTERNATIVES (OPTIONAL)</span>
+              </div>
+              <p className="text-sm text-muted-foreground mb-6">
+                Comparing several options, like vendors, job offers or locations? Add at least {MIN_DECISION_OPTIONS} and we'll
+                score each one against your criteria. Leave this empty to weigh your decision against the status quo.
+              </p>
+
+              <div className="flex gap-3 mb-4">
+                <Input
+                  value={newOption}
+                  onChange={(e) => setNewOption(e.target.value)}
+                  onKeyDown={handleOptionKeyDown}
+                  placeholder="e.g., Vendor A, Offer from Acme, Lisbon..."
+                  className="flex-1"
+                />
+                <Button onClick={addOption} disabled={!newOption.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {options.length > 0 && (
+                <div className="space-y-2">
+                  {options.map((option, index) => (
+                    <div
+                      key={option.id}
+                      className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50 border border-border"
+                    >
+                      <span className="text-sm font-mono text-muted-foreground w-6">
+                        {String.fromCharCode(65 + index)}
+                      </span>
+                      <span className="flex-1 font-medium">{option.name}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeOption(option.id)}
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {options.length === 1 && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  Add one more option to compare alternatives.
+                </p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {hasDecision && !isComparingOptions && (
           <motion.div
             initial={{ opacity: 0, height: 0, marginBottom: 0 }}
             animate={{ opacity: 1, height: 'auto', marginBottom: 32 }}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, UserPlus, Users, X } from 'lucide-react';
+import { DecisionMember, MemberRole } from '@/types/decision';
+
+interface DecisionMembersPanelProps {
+  members: DecisionMember[];
+  submittedIds: Set<string>; // Members who have submitted an evaluation
+  currentUserId: string;
+  canManage: boolean;
+  canManageOwners: boolean; // Only the creator adds, changes or removes owners
+  saving: boolean;
+  onAdd: (email: string, role: MemberRole) => Promise<boolean>;
+  onChangeRole: (userId: string, role: MemberRole) => void;
+  onRemove: (userId: string) => void;
+}
+
+const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: 'Owner',
+  evaluator: 'Evaluator',
+  viewer: 'Viewer',
+};
+
+export function DecisionMembersPanel({
+  members,
+  submittedIds,
+  currentUserId,
+  canManage,
+  canManageOwners,
+  saving,
+  onAdd,
+  onChangeRole,
+  onRemove,
+}: DecisionMembersPanelProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('evaluator');
+  const assignableRoles = (Object.keys(ROLE_LABELS) as MemberRole[]).filter(r => canManageOwners || r !== 'owner');
+
+  const handleAdd = async () => {
+    if (await onAdd(email, role)) setEmail('');
+  };
+
+  return (
+    <div className="glass-card rounded-2xl p-6 mb-8">
+      <div className="flex items-center gap-3 mb-4">
+        <Users className="w-5 h-5 text-primary" />
+        <h3 className="font-mono text-sm text-muted-foreground">MEMBERS</h3>
+      </div>
+
+      <ul className="space-y-2 mb-4">
+        {members.map(member => {
+          const editable = canManage && !member.isCreator && member.userId !== currentUserId
+            && (canManageOwners || member.role !== 'owner');
+          return (
+            <li key={member.userId} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">
+                  {member.email}
+                  {member.userId === currentUserId && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                {submittedIds.has(member.userId) ? (
+                  <p className="flex items-center gap-1 text-xs text-confidence-high">
+                    <Check className="w-3 h-3" /> Evaluation submitted
+                  </p>
+                ) : member.role !== 'viewer' && (
+                  <p className="text-xs text-muted-foreground">No evaluation yet</p>
+                )}
+              </div>
+              {editable ? (
+                <>
+                  <Select value={member.role} onValueChange={(v) => onChangeRole(member.userId, v as MemberRole)}>
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map(r => (
+                        <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => onRemove(member.userId)}
+                    aria-label={`Remove ${member.email}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <span className="text-xs font-mono text-muted-foreground">{ROLE_LABELS[member.role].toUpperCase()}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {canManage && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="email"
+            placeholder="colleague@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && email.trim()) handleAdd(); }}
+            className="flex-1 min-w-48"
+          />
+          <Select value={role} onValueChange={(v) => setRole(v as MemberRole)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableRoles.map(r => (
+                <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={saving || !email.trim()}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
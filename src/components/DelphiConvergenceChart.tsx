@@ -0,0 +1,87 @@
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
+import { TrendingDown } from 'lucide-react';
+import { Criterion } from '@/types/decision';
+import { DelphiRoundSummary } from '@/lib/delphi';
+
+interface DelphiConvergenceChartProps {
+  rounds: { roundNumber: number; summary: DelphiRoundSummary }[];
+  criteria: Criterion[];
+  iqrThreshold: number;
+}
+
+/** How each criterion's interquartile range narrowed from round to round */
+export function DelphiConvergenceChart({ rounds, criteria, iqrThreshold }: DelphiConvergenceChartProps) {
+  const criterionIds = Array.from(new Set(rounds.flatMap(r => r.summary.criteria.map(c => c.criterionId))));
+  const data = rounds.map(({ roundNumber, summary }) => ({
+    round: roundNumber,
+    widest: Math.round(summary.maxIqr * 10) / 10,
+    ...Object.fromEntries(summary.criteria.map(c => [c.criterionId, Math.round(c.iqr * 10) / 10])),
+  }));
+  const nameOf = (id: string) => (id === 'widest' ? 'Widest' : criteria.find(c => c.id === id)?.name ?? 'Unknown');
+
+  return (
+    <div className="glass-card rounded-2xl p-6 mb-8">
+      <div className="flex items-center gap-3 mb-2">
+        <TrendingDown className="w-5 h-5 text-primary" />
+        <h3 className="font-mono text-sm text-muted-foreground">CONVERGENCE OF OPINION</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Interquartile range of the group's leanings per criterion. The process stops once every criterion falls below the dashed line.
+      </p>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <XAxis
+              dataKey="round"
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={10}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => `R${value}`}
+              allowDecimals={false}
+            />
+            <YAxis
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={10}
+              tickLine={false}
+              axisLine={false}
+              width={32}
+              domain={[0, 'auto']}
+            />
+            <Tooltip
+              contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', borderRadius: 8, fontSize: 12 }}
+              labelFormatter={(value) => `Round ${value}`}
+              formatter={(value: number, id: string) => [`${value} pts`, nameOf(id)]}
+            />
+            <ReferenceLine
+              y={iqrThreshold}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              label={{ value: 'Threshold', position: 'right', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+            />
+            {criterionIds.map(id => (
+              <Line
+                key={id}
+                type="monotone"
+                dataKey={id}
+                stroke="hsl(var(--muted-foreground))"
+                strokeOpacity={0.5}
+                strokeWidth={1}
+                dot={{ r: 2 }}
+                connectNulls
+              />
+            ))}
+            <Line
+              type="monotone"
+              dataKey="widest"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
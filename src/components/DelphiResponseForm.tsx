@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquareQuote, Send } from 'lucide-react';
+import { Criterion, DelphiResponse } from '@/types/decision';
+import { DelphiCriterionSummary, DelphiRoundSummary } from '@/lib/delphi';
+
+interface DelphiResponseFormProps {
+  decision: string;
+  criteria: Criterion[]; // The criteria being rated (leaves only)
+  roundNumber: number;
+  initialResponses: DelphiResponse[];
+  previousSummary: DelphiRoundSummary | null; // What the group said last round
+  saving: boolean;
+  onSubmit: (responses: DelphiResponse[]) => void;
+}
+
+/** Where the group stood on a criterion last round: the middle half of its leanings and the median */
+function PreviousRound({ summary }: { summary: DelphiCriterionSummary }) {
+  return (
+    <div className="p-3 rounded-xl bg-secondary/50 space-y-2">
+      <div className="flex justify-between text-xs font-mono text-muted-foreground">
+        <span>LAST ROUND · {summary.count} RATINGS</span>
+        <span>MEDIAN {Math.round(summary.median)} · IQR {Math.round(summary.iqr)}</span>
+      </div>
+      <div className="relative h-3 rounded-full bg-background/60">
+        <div className="absolute left-1/2 top-0 bottom-0 w-px bg-border" />
+        <div
+          className="absolute top-0 bottom-0 rounded-full bg-primary/30"
+          style={{ left: `${summary.q1}%`, width: `${Math.max(1, summary.iqr)}%` }}
+        />
+        <div
+          className="absolute top-0 bottom-0 w-1 -translate-x-1/2 rounded-full bg-primary"
+          style={{ left: `${summary.median}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Status quo</span>
+        <span>Decision</span>
+      </div>
+      {summary.rationales.length > 0 && (
+        <ul className="space-y-1 pt-1">
+          {summary.rationales.map((rationale, i) => (
+            <li key={i} className="flex items-start gap-2 text-sm text-foreground/80">
+              <MessageSquareQuote className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+              <span>{rationale}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function DelphiResponseForm({
+  decision,
+  criteria,
+  roundNumber,
+  initialResponses,
+  previousSummary,
+  saving,
+  onSubmit,
+}: DelphiResponseFormProps) {
+  // Later rounds start from the member's own previous answers when there are any
+  const [responses, setResponses] = useState<DelphiResponse[]>(() => criteria.map(c => (
+    initialResponses.find(r => r.criterionId === c.id) ?? {
+      criterionId: c.id,
+      supportsDecision: true,
+      strength: 50,
+      confidence: 50,
+      rationale: '',
+    }
+  )));
+
+  const update = (criterionId: string, updates: Partial<DelphiResponse>) => {
+    setResponses(prev => prev.map(r => (r.criterionId === criterionId ? { ...r, ...updates } : r)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Round {roundNumber}. Your ratings are anonymous: the group only ever sees the distribution and the rationales, never who gave them.
+        {previousSummary && ' Reconsider each rating in light of where the group landed last round.'}
+      </p>
+
+      {criteria.map(criterion => {
+        const response = responses.find(r => r.criterionId === criterion.id);
+        const previous = previousSummary?.criteria.find(s => s.criterionId === criterion.id);
+        if (!response) return null;
+
+        return (
+          <div key={criterion.id} className="glass-card rounded-2xl p-6 space-y-5">
+            <div>
+              <h4 className="font-semibold">{criterion.name}</h4>
+              {criterion.description && (
+                <p className="text-sm text-muted-foreground">{criterion.description}</p>
+              )}
+            </div>
+
+            {previous && <PreviousRound summary={previous} />}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={response.supportsDecision ? 'outline' : 'secondary'}
+                onClick={() => update(criterion.id, { supportsDecision: false })}
+                className={response.supportsDecision ? '' : 'border border-primary'}
+              >
+                Favors the status quo
+              </Button>
+              <Button
+                type="button"
+                variant={response.supportsDecision ? 'secondary' : 'outline'}
+                onClick={() => update(criterion.id, { supportsDecision: true })}
+                className={`truncate ${response.supportsDecision ? 'border border-primary' : ''}`}
+                title={decision}
+              >
+                Favors the decision
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>How strongly?</Label>
+                <span className="text-sm font-mono text-primary">{response.strength}%</span>
+              </div>
+              <Slider
+                value={[response.strength]}
+                onValueChange={([value]) => update(criterion.id, { strength: value })}
+                min={1}
+                max={100}
+                step={1}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>How sure are you?</Label>
+                <span className="text-sm font-mono text-primary">{response.confidence}%</span>
+              </div>
+              <Slider
+                value={[response.confidence]}
+                onValueChange={([value]) => update(criterion.id, { confidence: value })}
+                min={1}
+                max={100}
+                step={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`rationale-${criterion.id}`}>Why? (optional, shared anonymously)</Label>
+              <Textarea
+                id={`rationale-${criterion.id}`}
+                value={response.rationale}
+                onChange={(e) => update(criterion.id, { rationale: e.target.value })}
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button onClick={() => onSubmit(responses)} disabled={saving}>
+          <Send className="w-4 h-4 mr-2" />
+          Submit round {roundNumber} ratings
+        </Button>
+      </div>
+    </div>
+  );
+}
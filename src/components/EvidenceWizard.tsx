@@ -26,7 +26,7 @@ export function EvidenceWizard({ decision, category, initialEvidence, onSubmit,
 
   const addEvidence = (type: string, label: string, description: string) => {
     const newEvidence: EvidenceItem = {
-      id: `${type}-${Date.now()}`,
+      id: crypto.randomUUID(),
       type: type as EvidenceItem['type'],
       label,
       value: 50,
@@ -65,7 +65,7 @@ export function EvidenceWizard({ decision, category, initialEvidence, onSubmit,
           Map your <span className="gradient-text">evidence</span>
         </h2>
         <p className="text-muted-foreground text-lg max-w-xl mx-auto">
-          Add factors that influence your decision. Rate each on a scale and assign importance weights.
+          Optionally add factors beyond your criteria. Rate each on a scale and assign importance weights; they're weighed together with your evaluations.
         </p>
       </motion.div>
 
@@ -227,7 +227,7 @@ export function EvidenceWizard({ decision, category, initialEvidence, onSubmit,
           Back
         </Button>
         <Button onClick={() => onSubmit(evidence)} size="xl" variant="glow" className="group">
-          Calculate Posterior
+          {evidence.length === 0 ? 'Skip' : 'Continue'}
           <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" />
         </Button>
       </motion.div>
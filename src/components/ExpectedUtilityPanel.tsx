@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { DecisionOption } from '@/types/decision';
+import { CVAR_TAIL, ExpectedUtilityResult, computeCertaintyEquivalent, recommendAlternative } from '@/lib/bayesian';
+import { Coins, ShieldAlert } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface ExpectedUtilityPanelProps {
+  decision: string;
+  options: DecisionOption[];
+  utility: ExpectedUtilityResult;
+}
+
+type RiskAttitude = 'neutral' | 'averse';
+
+const DEFAULT_RISK_AVERSION = 2;
+
+const formatPayoff = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+export function ExpectedUtilityPanel({ decision, options, utility }: ExpectedUtilityPanelProps) {
+  const [attitude, setAttitude] = useState<RiskAttitude>('neutral');
+  const [riskAversion, setRiskAversion] = useState(DEFAULT_RISK_AVERSION);
+
+  const coefficient = attitude === 'averse' ? riskAversion : 0;
+  const recommendation = recommendAlternative(utility, coefficient);
+  const neutralRecommendation = recommendAlternative(utility, 0);
+
+  const nameOf = (optionId: string | null) =>
+    optionId === null ? decision : options.find(o => o.id === optionId)?.name ?? 'Unknown option';
+  const recommendedName = recommendation.alternative ? nameOf(recommendation.alternative.optionId) : 'Status quo';
+  const neutralName = neutralRecommendation.alternative ? nameOf(neutralRecommendation.alternative.optionId) : 'Status quo';
+
+  const rows = [
+    ...utility.alternatives.map(alternative => ({
+      key: alternative.optionId ?? 'decision',
+      name: nameOf(alternative.optionId),
+      expectedUtility: alternative.expectedUtility,
+      certaintyEquivalent: computeCertaintyEquivalent(alternative.draws, coefficient, utility.scale),
+      cvar: alternative.cvar,
+      lossProbability: alternative.lossProbability,
+      isRecommended: recommendation.alternative === alternative,
+    })),
+    // Staying put pays nothing either way
+    ...(utility.includesStatusQuo
+      ? [{
+          key: 'status-quo',
+          name: 'Status quo',
+          expectedUtility: 0,
+          certaintyEquivalent: 0,
+          cvar: 0,
+          lossProbability: 0,
+          isRecommended: recommendation.alternative === null,
+        }]
+      : []),
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.95 }}
+      className="glass-card rounded-2xl p-6 mb-8"
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <Coins className="w-5 h-5 text-primary" />
+        <h3 className="font-mono text-sm text-muted-foreground">EXPECTED PAYOFF</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="flex gap-1">
+          {(['neutral', 'averse'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setAttitude(option)}
+              className={`text-xs font-mono px-3 py-1.5 rounded-md border transition-colors ${
+                attitude === option
+                  ? 'bg-primary/10 border-primary/40 text-primary'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {option === 'neutral' ? 'Risk-neutral' : 'Risk-averse'}
+            </button>
+          ))}
+        </div>
+        {attitude === 'averse' && (
+          <div className="flex items-center gap-3 flex-1 min-w-[200px]">
+            <span className="text-xs text-muted-foreground">Caution</span>
+            <Slider
+              value={[riskAversion]}
+              onValueChange={(v) => setRiskAversion(v[0])}
+              min={0.5}
+              max={5}
+              step={0.5}
+              className="flex-1"
+            />
+            <span className="text-xs font-mono w-8">{riskAversion.toFixed(1)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 rounded-xl bg-primary/10 border border-primary/30 mb-6">
+        <p className="text-xs font-mono text-primary mb-1">RECOMMENDATION</p>
+        <p className="text-lg font-bold">{recommendedName}</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          {attitude === 'neutral'
+            ? <>Highest expected payoff: {formatPayoff(recommendation.certaintyEquivalent)}</>
+            : <>Worth a sure {formatPayoff(recommendation.certaintyEquivalent)} to you, once the downside is weighed</>}
+        </p>
+        {attitude === 'averse' && neutralName !== recommendedName && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Judged on expected payoff alone, {neutralName} would come out ahead.
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs font-mono text-muted-foreground text-right">
+              <th className="text-left font-normal pb-2">ALTERNATIVE</th>
+              <th className="font-normal pb-2">EXPECTED</th>
+              {attitude === 'averse' && <th className="font-normal pb-2">CERTAINTY EQUIV.</th>}
+              <th className="font-normal pb-2">WORST {Math.round(CVAR_TAIL * 100)}% AVG</th>
+              <th className="font-normal pb-2">CHANCE OF LOSS</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className={`border-t border-border/50 font-mono text-right ${row.isRecommended ? 'text-primary' : ''}`}>
+                <td className="py-2 text-left font-sans font-medium">{row.name}</td>
+                <td className="py-2">{formatPayoff(row.expectedUtility)}</td>
+                {attitude === 'averse' && <td className="py-2">{formatPayoff(row.certaintyEquivalent)}</td>}
+                <td className="py-2">{formatPayoff(row.cvar)}</td>
+                <td className="py-2">{Math.round(row.lossProbability)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="flex items-start gap-2 text-xs text-muted-foreground mt-4">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        Payoffs are relative to today. Risk-averse mode weighs bad outcomes more heavily than good ones,
+        so a safer alternative can win even with a lower expected payoff.
+      </p>
+    </motion.div>
+  );
+}
@@ -3,10 +3,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { DecisionState } from '@/types/decision';
-import { ChevronLeft, FlaskConical, Plus, Trash2, Clock, Target, Loader2, Lightbulb, Beaker, ArrowRight } from 'lucide-react';
+import { ChevronLeft, FlaskConical, Plus, Trash2, Clock, Target, Loader2, Lightbulb, Beaker, ArrowRight, Gauge } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { ValueOfInformationItem, ValueOfInformationResult } from '@/lib/bayesian';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { experimentSuggestionsSchema, parseAIResponse } from '@/lib/aiSchemas';
 
 interface Experiment {
   id: string;
@@ -43,11 +46,33 @@ export function ExperimentDesign({ state, winPercentage, onBack, onComplete }: E
     difficulty: 'medium',
   });
 
+  // Rank criteria by how much resolving them could improve the choice
+  const [valueOfInformation, setValueOfInformation] = useState<ValueOfInformationResult | null>(null);
+  const { run: runValueOfInformation, running: weighingCriteria, progress: weighingProgress } = useBayesianJob<'valueOfInformation'>();
+
+  const getCriterionValue = (targetCriterion: string): ValueOfInformationItem | undefined => {
+    const target = targetCriterion.trim().toLowerCase();
+    return valueOfInformation?.criteria.find(c => c.criterionName.trim().toLowerCase() === target);
+  };
+
+  // Experiments on the most valuable criteria first; unmatched targets go last
+  const rankedExperiments = [...experiments].sort((a, b) =>
+    (getCriterionValue(b.targetCriterion)?.evppi ?? -1) - (getCriterionValue(a.targetCriterion)?.evppi ?? -1)
+  );
+
+  // Suggestions are generated once we know which criteria are worth investigating
   useEffect(() => {
-    generateExperiments();
+    runValueOfInformation({
+      kind: 'valueOfInformation',
+      state,
+      config: { seed: state.seed },
+    }).then((result) => {
+      setValueOfInformation(result);
+      generateExperiments(result);
+    });
   }, []);
 
-  const generateExperiments = async () => {
+  const generateExperiments = async (voi: ValueOfInformationResult | null) => {
     setIsLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('generate-experiments', {
@@ -56,14 +81,23 @@ export function ExperimentDesign({ state, winPercentage, onBack, onComplete }: E
           criteria: state.criteria,
           evaluations: state.criteriaEvaluations,
           winPercentage,
+          valueOfInformation: voi?.criteria.map(c => ({
+            criterion: c.criterionName,
+            evppi: c.evppi,
+            decisionChangeProbability: c.decisionChangeProbability,
+          })),
         },
       });
 
       if (error) throw error;
 
-      const aiExperiments = (data.experiments || []).map((exp: any, idx: number) => ({
-        ...exp,
+      const aiExperiments: Experiment[] = parseAIResponse(experimentSuggestionsSchema, data).experiments.map((exp, idx) => ({
         id: `ai-${idx}-${Date.now()}`,
+        title: exp.title,
+        description: exp.description,
+        targetCriterion: exp.targetCriterion,
+        timeEstimate: exp.timeEstimate,
+        difficulty: exp.difficulty,
         isUserAdded: false,
       }));
 
@@ -180,6 +214,48 @@ export function ExperimentDesign({ state, winPercentage, onBack, onComplete }: E
         </div>
       </motion.div>
 
+      {/* Value of information */}
+      {valueOfInformation && valueOfInformation.criteria.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+          className="glass-card rounded-2xl p-6 mb-8"
+        >
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <Gauge className="w-5 h-5 text-primary" />
+              <h3 className="font-mono text-sm text-muted-foreground">WHERE LEARNING MORE MATTERS</h3>
+            </div>
+            <span className="text-xs font-mono text-muted-foreground">
+              EVPI: +{valueOfInformation.evpi.toFixed(1)} pts
+            </span>
+          </div>
+          <div className="space-y-3">
+            {valueOfInformation.criteria.map((item) => (
+              <div key={item.criterionId}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium">{item.criterionName}</span>
+                  <span className="font-mono text-muted-foreground">
+                    +{item.evppi.toFixed(1)} pts · {item.decisionChangeProbability}% could flip
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full"
+                    style={{ width: `${valueOfInformation.evpi > 0 ? Math.min(100, (item.evppi / valueOfInformation.evpi) * 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-4">
+            Expected gain in your odds of success from learning a criterion's true value before choosing.
+            Criteria that can't change your choice score zero, however uncertain they are.
+          </p>
+        </motion.div>
+      )}
+
       {/* Experiments list */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -197,55 +273,67 @@ export function ExperimentDesign({ state, winPercentage, onBack, onComplete }: E
         {isLoading ? (
           <div className="glass-card rounded-2xl p-12 text-center">
             <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-4" />
-            <p className="text-muted-foreground">Generating experiments based on your decision...</p>
+            <p className="text-muted-foreground">
+              {weighingCriteria
+                ? `Weighing which criteria are worth investigating... ${Math.round(weighingProgress * 100)}%`
+                : 'Generating experiments based on your decision...'}
+            </p>
           </div>
         ) : (
           <AnimatePresence>
-            {experiments.map((experiment, index) => (
-              <motion.div
-                key={experiment.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, height: 0 }}
-                transition={{ delay: index * 0.1 }}
-                className="glass-card rounded-xl p-5 border border-border hover:border-primary/30 transition-colors"
-              >
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3 mb-2">
-                      <FlaskConical className="w-5 h-5 text-primary" />
-                      <h4 className="font-semibold text-lg">{experiment.title}</h4>
-                      {experiment.isUserAdded && (
-                        <span className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary">
-                          Your idea
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-muted-foreground mb-4">{experiment.description}</p>
-                    <div className="flex flex-wrap items-center gap-3">
-                      <div className="flex items-center gap-1.5 text-sm">
-                        <Target className="w-4 h-4 text-muted-foreground" />
-                        <span className="text-muted-foreground">Targets:</span>
-                        <span className="font-medium">{experiment.targetCriterion}</span>
+            {rankedExperiments.map((experiment, index) => {
+              const criterionValue = getCriterionValue(experiment.targetCriterion);
+              return (
+                <motion.div
+                  key={experiment.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, height: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="glass-card rounded-xl p-5 border border-border hover:border-primary/30 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <FlaskConical className="w-5 h-5 text-primary" />
+                        <h4 className="font-semibold text-lg">{experiment.title}</h4>
+                        {experiment.isUserAdded && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary">
+                            Your idea
+                          </span>
+                        )}
                       </div>
-                      <div className="flex items-center gap-1.5 text-sm">
-                        <Clock className="w-4 h-4 text-muted-foreground" />
-                        <span className="font-medium">{experiment.timeEstimate}</span>
+                      <p className="text-muted-foreground mb-4">{experiment.description}</p>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <div className="flex items-center gap-1.5 text-sm">
+                          <Target className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-muted-foreground">Targets:</span>
+                          <span className="font-medium">{experiment.targetCriterion}</span>
+                        </div>
+                        <div className="flex items-center gap-1.5 text-sm">
+                          <Clock className="w-4 h-4 text-muted-foreground" />
+                          <span className="font-medium">{experiment.timeEstimate}</span>
+                        </div>
+                        <span className={`text-xs px-2 py-1 rounded-full border ${getDifficultyColor(experiment.difficulty)}`}>
+                          {experiment.difficulty}
+                        </span>
+                        {criterionValue && (
+                          <span className="text-xs font-mono px-2 py-1 rounded-full bg-primary/10 text-primary">
+                            +{criterionValue.evppi.toFixed(1)} pts info value
+                          </span>
+                        )}
                       </div>
-                      <span className={`text-xs px-2 py-1 rounded-full border ${getDifficultyColor(experiment.difficulty)}`}>
-                        {experiment.difficulty}
-                      </span>
                     </div>
+                    <button
+                      onClick={() => removeExperiment(experiment.id)}
+                      className="p-2 rounded-lg hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                   </div>
-                  <button
-                    onClick={() => removeExperiment(experiment.id)}
-                    className="p-2 rounded-lg hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-              </motion.div>
-            ))}
+                </motion.div>
+              );
+            })}
           </AnimatePresence>
         )}
       </motion.div>
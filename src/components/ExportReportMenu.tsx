@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, FileCode, FileJson, FileText, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DecisionResults } from '@/lib/bayesian';
+import { ReportFormat, ReportInputs, buildDecisionReport, serializeReport } from '@/lib/report';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { useExperimentsPersistence } from '@/hooks/useExperimentsPersistence';
+import { DecisionState } from '@/types/decision';
+
+interface ExportReportMenuProps {
+  state: ReportInputs & Pick<DecisionState, 'correlationGroups' | 'payoffs'>;
+  analysis?: DecisionResults; // Re-simulated from the saved seed when not already at hand
+  decisionId?: string | null; // Links the decision's experiments into the report
+  size?: 'sm' | 'lg';
+  variant?: 'ghost' | 'secondary';
+}
+
+const FORMATS: { id: ReportFormat; label: string; icon: typeof FileText }[] = [
+  { id: 'markdown', label: 'Markdown', icon: FileText },
+  { id: 'html', label: 'Printable page (HTML)', icon: FileCode },
+  { id: 'json', label: 'JSON', icon: FileJson },
+];
+
+function downloadFile(content: string, mimeType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toFilename(decision: string, extension: string): string {
+  const slug = decision.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${slug || 'decision'}.${extension}`;
+}
+
+export function ExportReportMenu({ state, analysis, decisionId = null, size = 'lg', variant = 'secondary' }: ExportReportMenuProps) {
+  const simulation = useBayesianJob<'decisionResults'>();
+  const { loadExperiments } = useExperimentsPersistence();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ReportFormat) => {
+    setExporting(true);
+    try {
+      const results = analysis ?? await simulation.run({
+        kind: 'decisionResults',
+        state,
+        config: { seed: state.seed },
+      });
+      if (!results) return;
+
+      const experiments = decisionId
+        ? (await loadExperiments()).filter(e => e.decisionId === decisionId)
+        : [];
+      const { content, mimeType, extension } = serializeReport(buildDecisionReport(state, results, experiments), format);
+      downloadFile(content, mimeType, toFilename(state.decision, extension));
+    } catch (error: unknown) {
+      console.error('Error exporting decision:', error);
+      toast.error('Failed to export decision');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    // Stop clicks (including those inside the portaled menu) from opening the decision card
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={variant} size={size} disabled={exporting} className={variant === 'ghost' ? 'text-muted-foreground' : ''}>
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {FORMATS.map(({ id, label, icon: Icon }) => (
+            <DropdownMenuItem key={id} onSelect={() => handleExport(id)}>
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
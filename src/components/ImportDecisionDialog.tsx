@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertTriangle, FileUp, Upload } from 'lucide-react';
+import { CSV_COLUMNS, ImportedDecision, ImportResult, importDecisionCsv, importDecisionJson } from '@/lib/decisionImport';
+
+interface ImportDecisionDialogProps {
+  onImport: (decision: ImportedDecision) => void;
+}
+
+/** "job-offer_matrix.csv" → "job offer matrix" */
+function decisionFromFilename(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+}
+
+export function ImportDecisionDialog({ onImport }: ImportDecisionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [filename, setFilename] = useState<string | null>(null);
+  const [isCsv, setIsCsv] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [decisionText, setDecisionText] = useState('');
+
+  const reset = () => {
+    setFilename(null);
+    setResult(null);
+    setDecisionText('');
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const csv = !/\.json$/i.test(file.name);
+    setFilename(file.name);
+    setIsCsv(csv);
+    if (csv) {
+      // A sheet only holds criteria, so the decision itself is asked for here
+      const decision = decisionFromFilename(file.name);
+      setDecisionText(decision);
+      setResult(importDecisionCsv(text, decision));
+    } else {
+      setResult(importDecisionJson(text));
+    }
+  };
+
+  const handleImport = () => {
+    if (!result?.decision) return;
+    onImport(isCsv ? { ...result.decision, decision: decisionText.trim() } : result.decision);
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="hidden sm:flex">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import a decision</DialogTitle>
+          <DialogDescription>
+            Upload a criteria sheet (CSV) or a report you exported as JSON.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <label className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border border-dashed border-border hover:border-primary/50 transition-colors cursor-pointer text-center">
+            <FileUp className="w-6 h-6 text-muted-foreground" />
+            <span className="text-sm">{filename ?? 'Choose a .csv or .json file'}</span>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {!filename && (
+            <p className="text-xs text-muted-foreground">
+              CSV columns: <span className="font-mono">{CSV_COLUMNS.join(', ')}</span>. One row per criterion;
+              direction is "supports" or "opposes", and importance, strength and confidence run from 1 to 100.
+              Leave direction, strength and confidence blank for criteria broken down into sub-criteria (named in the parent column).
+            </p>
+          )}
+
+          {result && result.issues.length > 0 && (
+            <div className="p-4 rounded-xl bg-destructive/10 border border-destructive/30">
+              <p className="flex items-center gap-2 text-sm font-medium text-destructive mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                {result.issues.length} problem{result.issues.length > 1 ? 's' : ''} to fix before importing
+              </p>
+              <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                {result.issues.map((issue, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-xs text-muted-foreground">{issue.location}</span>{' '}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result?.decision && (
+            <>
+              {isCsv && (
+                <div className="space-y-2">
+                  <Label htmlFor="import-decision">What are you deciding?</Label>
+                  <Input
+                    id="import-decision"
+                    value={decisionText}
+                    onChange={(e) => setDecisionText(e.target.value)}
+                  />
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                {result.decision.criteria.length} criteria
+                {result.decision.options.length > 0 && `, ${result.decision.options.length} options`}
+                {' '}and {result.decision.criteriaEvaluations.length + result.decision.optionScores.length} assessments ready to review.
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!result?.decision || (isCsv && !decisionText.trim())}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { motion } from 'framer-motion';
+import { Split } from 'lucide-react';
+import { CriterionDisagreement } from '@/lib/groupAggregation';
+
+interface MemberDisagreementPanelProps {
+  disagreements: CriterionDisagreement[];
+}
+
+/** Spreads smaller than this are treated as agreement */
+const AGREEMENT_SPREAD = 5;
+
+export function MemberDisagreementPanel({ disagreements }: MemberDisagreementPanelProps) {
+  const contested = disagreements.filter(d => d.spread >= AGREEMENT_SPREAD);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-card rounded-2xl p-6 mb-8"
+    >
+      <div className="flex items-center gap-3 mb-2">
+        <Split className="w-5 h-5 text-primary" />
+        <h3 className="font-mono text-sm text-muted-foreground">WHERE THE GROUP DISAGREES</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Each marker is one member's assessment, from favoring the status quo (left) to favoring the decision (right).
+      </p>
+
+      {contested.length === 0 ? (
+        <p className="text-sm text-center py-4 text-muted-foreground">
+          {disagreements.length === 0
+            ? 'Disagreement shows up once at least two members have assessed the same criteria.'
+            : 'The group assesses every criterion much the same way.'}
+        </p>
+      ) : (
+        <ul className="space-y-5">
+          {contested.map(d => (
+            <li key={d.criterionId}>
+              <div className="flex items-baseline justify-between gap-3 mb-2">
+                <span className="font-medium">{d.criterionName}</span>
+                <span className="text-xs font-mono text-muted-foreground">
+                  {d.splitDirection && <span className="text-confidence-low">SPLIT · </span>}
+                  ±{Math.round(d.spread)} pts
+                </span>
+              </div>
+              <div className="relative h-6 rounded-full bg-secondary/50">
+                <div className="absolute left-1/2 top-0 bottom-0 w-px bg-border" />
+                <div
+                  className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full bg-primary/30"
+                  style={{ left: `${d.range[0]}%`, width: `${d.range[1] - d.range[0]}%` }}
+                />
+                {d.positions.map(p => (
+                  <div
+                    key={p.userId}
+                    title={`${p.name}: ${Math.round(p.leaning)}% toward the decision, ${Math.round(p.confidence)}% confident`}
+                    className="absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary border-2 border-background"
+                    style={{ left: `${p.leaning}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>{d.positions[d.positions.length - 1].name}</span>
+                <span>{d.positions[0].name}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Button } from '@/components/ui/button';
 
 interface MonteCarloVisualizationProps {
   isRunning: boolean;
+  progress?: number; // 0-1 progress of the real computation; when set, the animation never runs ahead of it
   onComplete?: () => void;
-  duration?: number; // Total animation duration in ms
+  onCancel?: () => void;
+  duration?: number; // Total animation duration in ms (the minimum when following progress)
   pathCount?: number; // Total paths to draw
 }
 
@@ -20,7 +23,9 @@ const TOTAL_SIMULATIONS = 10000;
 
 export function MonteCarloVisualization({ 
   isRunning, 
+  progress,
   onComplete,
+  onCancel,
   duration = 7000,
   pathCount = 300
 }: MonteCarloVisualizationProps) {
@@ -30,6 +35,10 @@ export function MonteCarloVisualization({
   const startTimeRef = useRef<number>(0);
   const pathIdRef = useRef<number>(0);
   const phaseRef = useRef<'intro' | 'running' | 'complete'>('intro');
+  // Read inside the animation loop, so progress updates don't restart it
+  const progressRef = useRef(progress);
+  progressRef.current = progress;
+  const finishedAtRef = useRef<number | null>(null);
   const [simulationCount, setSimulationCount] = useState(0);
   const [displayPhase, setDisplayPhase] = useState<'intro' | 'running' | 'complete'>('intro');
 
@@ -130,6 +139,7 @@ export function MonteCarloVisualization({
 
     pathsRef.current = [];
     pathIdRef.current = 0;
+    finishedAtRef.current = null;
     startTimeRef.current = performance.now();
     phaseRef.current = 'intro';
     setDisplayPhase('intro');
@@ -148,6 +158,12 @@ export function MonteCarloVisualization({
       return Math.min(pathCount, Math.floor(eased * pathCount * 1.5));
     };
 
+    // When following real progress, paths track the computation but never outpace the minimum duration
+    const getShownProgress = (elapsed: number): number => {
+      if (elapsed < introDelay) return 0;
+      return Math.min(progressRef.current ?? 0, (elapsed - introDelay) / duration);
+    };
+
     const animate = (currentTime: number) => {
       const elapsed = currentTime - startTimeRef.current;
       const rect = canvas.getBoundingClientRect();
@@ -162,8 +178,12 @@ export function MonteCarloVisualization({
       ctx.fillStyle = 'hsla(222, 47%, 6%, 0.12)';
       ctx.fillRect(0, 0, rect.width, rect.height);
 
-      // Add new paths with easing
-      const expectedPaths = getExpectedPaths(elapsed);
+      // Add new paths with easing, or in step with the computation
+      const followsProgress = progressRef.current !== undefined;
+      const shownProgress = getShownProgress(elapsed);
+      const expectedPaths = followsProgress
+        ? Math.floor(shownProgress * pathCount)
+        : getExpectedPaths(elapsed);
       while (pathsRef.current.length < expectedPaths) {
         // Mark previous highlighted path as normal
         pathsRef.current.forEach(p => p.isHighlighted = false);
@@ -178,10 +198,12 @@ export function MonteCarloVisualization({
       }
 
       // Update simulation counter (scaled to represent 10,000)
-      const displayCount = Math.min(
-        TOTAL_SIMULATIONS,
-        Math.floor((pathsRef.current.length / pathCount) * TOTAL_SIMULATIONS)
-      );
+      const displayCount = followsProgress
+        ? Math.floor(shownProgress * TOTAL_SIMULATIONS)
+        : Math.min(
+          TOTAL_SIMULATIONS,
+          Math.floor((pathsRef.current.length / pathCount) * TOTAL_SIMULATIONS)
+        );
       setSimulationCount(displayCount);
 
       // Draw paths (non-highlighted first, then highlighted on top)
@@ -204,7 +226,13 @@ export function MonteCarloVisualization({
       pathsRef.current = pathsRef.current.filter(p => p.opacity > 0);
 
       // Check if animation is complete
-      if (elapsed >= introDelay + duration + pathDrawDuration + fadeOutDuration) {
+      if (followsProgress && shownProgress >= 1 && finishedAtRef.current === null) {
+        finishedAtRef.current = elapsed;
+      }
+      const isComplete = followsProgress
+        ? finishedAtRef.current !== null && elapsed >= finishedAtRef.current + pathDrawDuration + fadeOutDuration
+        : elapsed >= introDelay + duration + pathDrawDuration + fadeOutDuration;
+      if (isComplete) {
         phaseRef.current = 'complete';
         setDisplayPhase('complete');
         onComplete?.();
@@ -252,6 +280,11 @@ export function MonteCarloVisualization({
           <p className="text-sm text-foreground/80">
             Testing your decision across thousands of possible futures
           </p>
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} className="mt-2 text-muted-foreground">
+              Cancel
+            </Button>
+          )}
         </motion.div>
       </div>
 
@@ -0,0 +1,124 @@
+import { MultiOptionPosteriorResult } from '@/lib/bayesian';
+import { Trophy, Scale } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface OptionRankingProps {
+  decision: string;
+  result: MultiOptionPosteriorResult;
+}
+
+export function OptionRanking({ decision, result }: OptionRankingProps) {
+  const [leader, runnerUp] = result.options;
+  const isTooClose = leader && runnerUp && leader.winPercentage - runnerUp.winPercentage <= 10;
+
+  return (
+    <>
+      {/* Hero Result */}
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ type: 'spring', stiffness: 200, delay: 0.1 }}
+        className="text-center mb-12"
+      >
+        <motion.div
+          initial={{ rotate: -10, scale: 0 }}
+          animate={{ rotate: 0, scale: 1 }}
+          transition={{ type: 'spring', stiffness: 300, delay: 0.3 }}
+          className="inline-flex items-center justify-center w-24 h-24 rounded-full bg-primary/20 border-2 border-primary mb-6"
+        >
+          <Trophy className="w-12 h-12 text-primary" />
+        </motion.div>
+
+        <h2 className="text-3xl md:text-4xl font-bold mb-4">
+          Based on your analysis...
+        </h2>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+          className="glass-card rounded-2xl p-8 mb-6"
+        >
+          <p className="text-xl text-muted-foreground mb-4">
+            For "{decision}", the strongest option is
+          </p>
+
+          <p className="text-2xl md:text-3xl font-bold text-primary mb-6">
+            {leader?.optionName}
+          </p>
+
+          <div className="flex items-center justify-center gap-4">
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              transition={{ type: 'spring', stiffness: 200, delay: 0.7 }}
+              className="relative"
+            >
+              <div className="text-7xl md:text-9xl font-mono font-black text-primary">
+                {leader?.winPercentage ?? 0}
+              </div>
+              <div className="absolute -right-8 top-4 text-2xl md:text-3xl font-mono text-muted-foreground">
+                %
+              </div>
+            </motion.div>
+          </div>
+
+          <p className="text-xl mt-4 text-foreground">
+            of simulated scenarios it comes out on top
+          </p>
+
+          {isTooClose && (
+            <motion.p
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 1 }}
+              className="text-muted-foreground mt-4 text-sm"
+            >
+              ⚖️ {leader.optionName} and {runnerUp.optionName} are very close — more information could help separate them.
+            </motion.p>
+          )}
+        </motion.div>
+      </motion.div>
+
+      {/* Option ranking */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.8 }}
+        className="glass-card rounded-2xl p-6 mb-8"
+      >
+        <div className="flex items-center gap-3 mb-4">
+          <Scale className="w-5 h-5 text-primary" />
+          <h3 className="font-mono text-sm text-muted-foreground">OPTION RANKING (10,000 SCENARIOS)</h3>
+        </div>
+
+        <div className="space-y-4">
+          {result.options.map((option, index) => (
+            <div key={option.optionId}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium">
+                  <span className="text-sm font-mono text-muted-foreground mr-2">#{index + 1}</span>
+                  {option.optionName}
+                </span>
+                <span className={`text-sm font-mono ${index === 0 ? 'text-primary font-bold' : 'text-muted-foreground'}`}>
+                  {option.winPercentage}% wins
+                </span>
+              </div>
+              <div className="h-2 bg-secondary rounded-full overflow-hidden">
+                <motion.div
+                  initial={{ width: 0 }}
+                  animate={{ width: `${option.winPercentage}%` }}
+                  transition={{ delay: 0.9 + index * 0.1, duration: 0.5 }}
+                  className={`h-full ${index === 0 ? 'bg-primary' : 'bg-primary/40'}`}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1 font-mono">
+                Score {Math.round(option.posterior)}% · 95% range {Math.round(option.credibleInterval[0])}–{Math.round(option.credibleInterval[1])}%
+              </p>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </>
+  );
+}
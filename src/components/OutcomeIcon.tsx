@@ -0,0 +1,25 @@
+import { CheckCircle2, CircleDot, XCircle } from 'lucide-react';
+import { DecisionOutcome } from '@/types/decision';
+import { cn } from '@/lib/utils';
+
+const OUTCOME_ICONS: Record<DecisionOutcome, typeof CheckCircle2> = {
+  success: CheckCircle2,
+  partial: CircleDot,
+  failure: XCircle,
+};
+
+const OUTCOME_COLORS: Record<DecisionOutcome, string> = {
+  success: 'text-confidence-high',
+  partial: 'text-confidence-mid',
+  failure: 'text-confidence-low',
+};
+
+interface OutcomeIconProps {
+  outcome: DecisionOutcome;
+  className?: string;
+}
+
+export function OutcomeIcon({ outcome, className }: OutcomeIconProps) {
+  const Icon = OUTCOME_ICONS[outcome];
+  return <Icon className={cn(OUTCOME_COLORS[outcome], className)} />;
+}
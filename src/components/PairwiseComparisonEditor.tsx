@@ -0,0 +1,129 @@
+import { Slider } from '@/components/ui/slider';
+import { Criterion, PairwiseJudgment } from '@/types/decision';
+import { CONSISTENCY_THRESHOLD, MAX_JUDGMENT, analyzePairwiseJudgments } from '@/lib/ahp';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface PairwiseComparisonEditorProps {
+  title: string;
+  criteria: Criterion[]; // Siblings, compared with each other
+  judgments: PairwiseJudgment[]; // May include judgments for other groups
+  onChange: (judgments: PairwiseJudgment[]) => void;
+}
+
+const INTENSITIES: { upTo: number; label: string }[] = [
+  { upTo: 1, label: 'Equally important' },
+  { upTo: 3, label: 'moderately more important' },
+  { upTo: 5, label: 'strongly more important' },
+  { upTo: 7, label: 'very strongly more important' },
+  { upTo: MAX_JUDGMENT, label: 'extremely more important' },
+];
+
+/**
+ * The slider runs from "left much more important" (negative) to "right much
+ * more important" (positive), so position -2 is a judgment of 3 for the left one.
+ */
+function judgmentToPosition(value: number): number {
+  return Math.round(value >= 1 ? -(value - 1) : 1 / value - 1);
+}
+
+function positionToJudgment(position: number): number {
+  return position <= 0 ? 1 - position : 1 / (1 + position);
+}
+
+function describeJudgment(value: number, left: string, right: string): string {
+  const ratio = value >= 1 ? value : 1 / value;
+  const intensity = INTENSITIES.find(i => Math.round(ratio) <= i.upTo) ?? INTENSITIES[INTENSITIES.length - 1];
+  if (Math.round(ratio) === 1) return intensity.label;
+  return `${value >= 1 ? left : right} is ${intensity.label} (${Math.round(ratio)}×)`;
+}
+
+export function PairwiseComparisonEditor({ title, criteria, judgments, onChange }: PairwiseComparisonEditorProps) {
+  const ids = criteria.map(c => c.id);
+  const result = analyzePairwiseJudgments(ids, judgments);
+
+  const pairs = criteria.flatMap((left, i) => criteria.slice(i + 1).map(right => ({ left, right })));
+
+  const judgmentFor = (leftId: string, rightId: string) => {
+    const direct = judgments.find(j => j.criterionId === leftId && j.comparedToId === rightId);
+    if (direct) return direct.value;
+    const reverse = judgments.find(j => j.criterionId === rightId && j.comparedToId === leftId);
+    return reverse ? 1 / reverse.value : 1;
+  };
+
+  const updateJudgment = (leftId: string, rightId: string, value: number) => {
+    // Each pair is stored once, in the order it's shown
+    const others = judgments.filter(j =>
+      !(j.criterionId === leftId && j.comparedToId === rightId) &&
+      !(j.criterionId === rightId && j.comparedToId === leftId)
+    );
+    onChange([...others, { criterionId: leftId, comparedToId: rightId, value }]);
+  };
+
+  const isFlagged = (leftId: string, rightId: string) => {
+    const flagged = result.mostInconsistent;
+    return !!flagged && flagged.criterionId === leftId && flagged.comparedToId === rightId;
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-secondary/30 border border-border">
+      <p className="text-sm font-medium mb-4">{title}</p>
+
+      <div className="space-y-4">
+        {pairs.map(({ left, right }) => {
+          const value = judgmentFor(left.id, right.id);
+          const flagged = isFlagged(left.id, right.id);
+          return (
+            <div
+              key={`${left.id}-${right.id}`}
+              className={`p-3 rounded-lg border ${flagged ? 'border-confidence-low/50 bg-confidence-low/5' : 'border-transparent'}`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-sm w-1/4 truncate text-right" title={left.name}>{left.name}</span>
+                <Slider
+                  value={[judgmentToPosition(value)]}
+                  onValueChange={(v) => updateJudgment(left.id, right.id, positionToJudgment(v[0]))}
+                  min={-(MAX_JUDGMENT - 1)}
+                  max={MAX_JUDGMENT - 1}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="text-sm w-1/4 truncate" title={right.name}>{right.name}</span>
+              </div>
+              <p className="text-xs text-muted-foreground text-center mt-2">
+                {describeJudgment(value, left.name, right.name)}
+              </p>
+              {flagged && (
+                <p className="flex items-center justify-center gap-1 text-xs text-confidence-low mt-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  This answer disagrees most with your others
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-border/50 space-y-2">
+        {criteria.map((criterion, index) => (
+          <div key={criterion.id} className="flex items-center gap-3">
+            <span className="text-xs w-1/4 truncate">{criterion.name}</span>
+            <div className="flex-1 h-1.5 rounded-full bg-secondary overflow-hidden">
+              <div className="h-full bg-primary" style={{ width: `${result.weights[index] * 100}%` }} />
+            </div>
+            <span className="text-xs font-mono w-10 text-right">{Math.round(result.weights[index] * 100)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {criteria.length > 2 && (
+        <p className={`flex items-center gap-2 text-xs mt-4 ${result.isConsistent ? 'text-muted-foreground' : 'text-confidence-low'}`}>
+          {result.isConsistent ? <CheckCircle2 className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          Consistency ratio {result.consistencyRatio.toFixed(2)}
+          {result.isConsistent
+            ? ' — your answers hang together'
+            : ` — above ${CONSISTENCY_THRESHOLD}, so some answers contradict each other. Consider revisiting the flagged one.`}
+        </p>
+      )}
+    </div>
+  );
+}
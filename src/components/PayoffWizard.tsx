@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DecisionOption, OutcomePayoff, PayoffOutcome, PayoffShape } from '@/types/decision';
+import { ChevronLeft, ArrowRight, Coins } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface PayoffWizardProps {
+  decision: string;
+  options: DecisionOption[]; // empty = decision vs. status quo
+  initialPayoffs: OutcomePayoff[];
+  onSubmit: (payoffs: OutcomePayoff[]) => void;
+  onBack: () => void;
+}
+
+const OUTCOMES: { id: PayoffOutcome; label: string }[] = [
+  { id: 'success', label: 'If it works out' },
+  { id: 'failure', label: "If it doesn't" },
+];
+
+const SHAPES: { id: PayoffShape; label: string; hint: string }[] = [
+  { id: 'triangular', label: 'Triangular', hint: 'Every value between the extremes is plausible' },
+  { id: 'pert', label: 'PERT', hint: 'Values cluster around the most likely one' },
+];
+
+const DEFAULT_PAYOFFS: Record<PayoffOutcome, Pick<OutcomePayoff, 'min' | 'likely' | 'max'>> = {
+  success: { min: 0, likely: 10, max: 25 },
+  failure: { min: -25, likely: -10, max: 0 },
+};
+
+function isValidPayoff({ min, likely, max }: OutcomePayoff): boolean {
+  return [min, likely, max].every(Number.isFinite) && min <= likely && likely <= max;
+}
+
+export function PayoffWizard({ decision, options, initialPayoffs, onSubmit, onBack }: PayoffWizardProps) {
+  // Binary decisions have a single alternative: going ahead (no option ID)
+  const alternatives: { optionId?: string; name: string }[] = options.length > 0
+    ? options.map(o => ({ optionId: o.id, name: o.name }))
+    : [{ name: decision }];
+
+  const [enabled, setEnabled] = useState(initialPayoffs.length > 0);
+  const [payoffs, setPayoffs] = useState<OutcomePayoff[]>(() =>
+    alternatives.flatMap(({ optionId }) => OUTCOMES.map(({ id: outcome }) =>
+      initialPayoffs.find(p => p.optionId === optionId && p.outcome === outcome) ?? {
+        id: crypto.randomUUID(),
+        optionId,
+        outcome,
+        shape: 'pert',
+        ...DEFAULT_PAYOFFS[outcome],
+      }
+    ))
+  );
+
+  const updatePayoff = (id: string, changes: Partial<OutcomePayoff>) => {
+    setPayoffs(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const allValid = payoffs.every(isValidPayoff);
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="text-center mb-10"
+      >
+        <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 border border-primary/20 mb-6">
+          <Coins className="w-4 h-4 text-primary" />
+          <span className="text-sm font-mono text-primary">Payoffs</span>
+        </div>
+        <h2 className="text-4xl font-bold mb-4">
+          What's at <span className="gradient-text">stake</span>?
+        </h2>
+        <p className="text-muted-foreground text-lg max-w-xl mx-auto">
+          Optionally estimate how much better or worse off you'd be than today for each outcome.
+          Use any unit (dollars, a 0–10 happiness score...) as long as you stick to it.
+        </p>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="flex justify-center gap-2 mb-6"
+      >
+        <Button variant={enabled ? 'outline' : 'secondary'} onClick={() => setEnabled(false)}>
+          Probability only
+        </Button>
+        <Button variant={enabled ? 'secondary' : 'outline'} onClick={() => setEnabled(true)}>
+          Weigh payoffs
+        </Button>
+      </motion.div>
+
+      {enabled && alternatives.map((alternative, index) => (
+        <motion.div
+          key={alternative.optionId ?? 'decision'}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 + index * 0.05 }}
+          className="glass-card rounded-2xl p-6 mb-6"
+        >
+          <h3 className="font-bold mb-4">{alternative.name}</h3>
+          <div className="space-y-4">
+            {OUTCOMES.map((outcome) => {
+              const payoff = payoffs.find(p => p.optionId === alternative.optionId && p.outcome === outcome.id);
+              if (!payoff) return null;
+              return (
+                <div key={outcome.id} className="p-4 rounded-xl bg-secondary/30 border border-border">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <span className={`text-sm font-medium ${outcome.id === 'success' ? 'text-confidence-high' : 'text-confidence-low'}`}>
+                      {outcome.label}
+                    </span>
+                    <div className="flex gap-1">
+                      {SHAPES.map(shape => (
+                        <button
+                          key={shape.id}
+                          type="button"
+                          title={shape.hint}
+                          onClick={() => updatePayoff(payoff.id, { shape: shape.id })}
+                          className={`text-xs font-mono px-2 py-1 rounded-md border transition-colors ${
+                            payoff.shape === shape.id
+                              ? 'bg-primary/10 border-primary/40 text-primary'
+                              : 'border-border text-muted-foreground hover:text-foreground'
+                          }`}
+                        >
+                          {shape.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    {(['min', 'likely', 'max'] as const).map(field => (
+                      <label key={field} className="block">
+                        <span className="block text-xs font-mono text-muted-foreground mb-1">
+                          {field === 'min' ? 'WORST' : field === 'likely' ? 'MOST LIKELY' : 'BEST'}
+                        </span>
+                        <Input
+                          type="number"
+                          value={Number.isFinite(payoff[field]) ? payoff[field] : ''}
+                          onChange={(e) => updatePayoff(payoff.id, { [field]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  {!isValidPayoff(payoff) && (
+                    <p className="text-xs text-destructive mt-2">Worst ≤ most likely ≤ best</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      ))}
+
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.4 }}
+        className="flex justify-between mt-8"
+      >
+        <Button onClick={onBack} variant="outline" size="lg">
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <Button
+          onClick={() => onSubmit(enabled ? payoffs : [])}
+          disabled={enabled && !allValid}
+          size="xl"
+          variant="glow"
+          className="group"
+        >
+          Run simulation
+          <ArrowRight className="w-5 h-5 transition-transform group-hover:translate-x-1" />
+        </Button>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Flag, Loader2 } from 'lucide-react';
+import { DecisionOutcome, DecisionResolution } from '@/types/decision';
+import { useOutcomesPersistence } from '@/hooks/useOutcomesPersistence';
+import { OUTCOME_LABELS } from '@/lib/calibration';
+import { OutcomeIcon } from './OutcomeIcon';
+
+interface ResolveDecisionDialogProps {
+  decisionId: string;
+  decisionText: string;
+  forecast: number | null; // The decision's current probability of success, stored with a new outcome
+  resolution?: DecisionResolution;
+  onResolved: (resolution: DecisionResolution) => void;
+}
+
+export function ResolveDecisionDialog({ decisionId, decisionText, forecast, resolution, onResolved }: ResolveDecisionDialogProps) {
+  const { resolveDecision, saving } = useOutcomesPersistence();
+  const [open, setOpen] = useState(false);
+  const [outcome, setOutcome] = useState<DecisionOutcome>(resolution?.outcome ?? 'success');
+  const [resolvedAt, setResolvedAt] = useState(resolution?.resolvedAt ?? format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState(resolution?.notes ?? '');
+
+  const handleSave = async () => {
+    const saved = await resolveDecision({
+      decisionId,
+      outcome,
+      resolvedAt,
+      notes,
+      // Editing an outcome keeps the forecast it was first recorded against
+      forecast: resolution?.forecast ?? forecast,
+    });
+    if (saved) {
+      onResolved(saved);
+      setOpen(false);
+    }
+  };
+
+  return (
+    // Stop clicks (including those inside the portaled dialog) from opening the decision card
+    <div onClick={(e) => e.stopPropagation()}>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={resolution ? undefined : 'text-muted-foreground'}
+          >
+            {resolution ? (
+              <OutcomeIcon outcome={resolution.outcome} className="w-4 h-4 mr-2" />
+            ) : (
+              <Flag className="w-4 h-4 mr-2" />
+            )}
+            {resolution ? OUTCOME_LABELS[resolution.outcome] : 'Record outcome'}
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>How did it turn out?</DialogTitle>
+            <DialogDescription className="line-clamp-2">"{decisionText}"</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 py-2">
+            <RadioGroup
+              value={outcome}
+              onValueChange={(value) => setOutcome(value as DecisionOutcome)}
+              className="flex flex-col gap-3"
+            >
+              {(Object.keys(OUTCOME_LABELS) as DecisionOutcome[]).map((value) => (
+                <div
+                  key={value}
+                  className="flex items-center space-x-3 p-3 rounded-xl border border-border hover:border-primary/50 transition-colors"
+                >
+                  <RadioGroupItem value={value} id={`outcome-${value}`} />
+                  <Label htmlFor={`outcome-${value}`} className="cursor-pointer flex-1 flex items-center gap-2">
+                    <OutcomeIcon outcome={value} className="w-4 h-4" />
+                    {OUTCOME_LABELS[value]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="space-y-2">
+              <Label htmlFor="resolved-at">When did you know?</Label>
+              <Input
+                id="resolved-at"
+                type="date"
+                value={resolvedAt}
+                onChange={(e) => setResolvedAt(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="resolution-notes">Notes</Label>
+              <Textarea
+                id="resolution-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What happened? What would you weigh differently next time?"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !resolvedAt}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save outcome
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
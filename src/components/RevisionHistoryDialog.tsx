@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitCompare, Minus, Pencil, Plus } from 'lucide-react';
+import { useDecisionPersistence, DecisionRevision } from '@/hooks/useDecisionPersistence';
+import { diffRevisions, RevisionChange, RevisionChangeKind } from '@/lib/revisions';
+
+interface RevisionHistoryDialogProps {
+  decisionId: string;
+  decisionText: string;
+}
+
+const changeIcons: Record<RevisionChangeKind, { icon: typeof Plus; color: string }> = {
+  added: { icon: Plus, color: 'text-confidence-high' },
+  removed: { icon: Minus, color: 'text-confidence-low' },
+  changed: { icon: Pencil, color: 'text-confidence-mid' },
+};
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+function ChangeList({ title, changes }: { title: string; changes: RevisionChange[] }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-mono text-xs text-muted-foreground mb-2">{title}</h4>
+      <ul className="space-y-1">
+        {changes.map((change, i) => {
+          const { icon: Icon, color } = changeIcons[change.kind];
+          return (
+            <li key={i} className="flex items-start gap-2 text-sm">
+              <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+              <span>
+                <span className="font-medium">{change.label}</span>{' '}
+                <span className="text-muted-foreground">{change.detail}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export function RevisionHistoryDialog({ decisionId, decisionText }: RevisionHistoryDialogProps) {
+  const { loadRevisions } = useDecisionPersistence();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [revisions, setRevisions] = useState<DecisionRevision[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  // Load lazily, and default to comparing the two most recent revisions
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadRevisions(decisionId).then((loaded) => {
+      setRevisions(loaded);
+      setFromId(loaded[Math.max(0, loaded.length - 2)]?.id ?? '');
+      setToId(loaded[loaded.length - 1]?.id ?? '');
+      setLoading(false);
+    });
+  }, [open, decisionId, loadRevisions]);
+
+  const timeline = revisions.map(r => ({
+    revision: r.revisionNumber,
+    posterior: r.posteriorProbability !== null ? Math.round(r.posteriorProbability * 10) / 10 : null,
+  }));
+
+  const from = revisions.find(r => r.id === fromId);
+  const to = revisions.find(r => r.id === toId);
+  const diff = useMemo(() => (from && to && from !== to ? diffRevisions(from, to) : null), [from, to]);
+  const hasChanges = diff && (
+    diff.decisionText || diff.priorDelta !== 0 ||
+    diff.criteria.length > 0 || diff.options.length > 0 || diff.assessments.length > 0 ||
+    diff.evidence.length > 0 || diff.payoffs.length > 0
+  );
+
+  return (
+    // Stop clicks (including those inside the portaled dialog) from opening the decision card
+    <div onClick={(e) => e.stopPropagation()}>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-muted-foreground">
+            <GitCompare className="w-4 h-4 mr-2" />
+            Revisions
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Revision history</DialogTitle>
+            <DialogDescription className="line-clamp-2">"{decisionText}"</DialogDescription>
+          </DialogHeader>
+
+          {loading && (
+            <div className="text-center py-8 text-muted-foreground">Loading revisions...</div>
+          )}
+
+          {!loading && revisions.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No revisions recorded for this decision yet.
+            </div>
+          )}
+
+          {!loading && revisions.length > 0 && (
+            <div className="space-y-6">
+              {/* Posterior timeline */}
+              <div>
+                <h3 className="font-mono text-sm text-muted-foreground mb-3">POSTERIOR OVER TIME</h3>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={timeline} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                      <XAxis
+                        dataKey="revision"
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={10}
+                        tickFormatter={(value) => `v${value}`}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={10}
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <ReferenceLine y={50} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                      <Tooltip
+                        labelFormatter={(value) => `Revision ${value}`}
+                        formatter={(value: number) => [`${value}%`, 'Posterior']}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="posterior"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={{ r: 4, fill: 'hsl(var(--primary))' }}
+                        connectNulls
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Revision picker */}
+              {revisions.length > 1 && (
+                <div className="grid grid-cols-2 gap-4">
+                  {([
+                    ['Compare', fromId, setFromId],
+                    ['With', toId, setToId],
+                  ] as const).map(([label, value, onChange]) => (
+                    <div key={label} className="space-y-2">
+                      <Label>{label}</Label>
+                      <Select value={value} onValueChange={onChange}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a revision..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {revisions.map(r => (
+                            <SelectItem key={r.id} value={r.id}>
+                              v{r.revisionNumber} · {format(new Date(r.createdAt), 'MMM d, h:mm a')}
+                              {r.posteriorProbability !== null && ` · ${Math.round(r.posteriorProbability)}%`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Diff */}
+              {diff && from && to && (
+                <div className="rounded-xl bg-secondary/30 border border-border/50 p-4 space-y-4">
+                  <div className="flex flex-wrap items-center gap-6 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Prior:</span>{' '}
+                      <span className="font-mono">
+                        {Math.round(from.initialConfidence)}% → {Math.round(to.initialConfidence)}%
+                      </span>
+                    </div>
+                    {diff.posteriorDelta !== null && (
+                      <div>
+                        <span className="text-muted-foreground">Posterior:</span>{' '}
+                        <span className="font-mono">
+                          {Math.round(from.posteriorProbability as number)}% → {Math.round(to.posteriorProbability as number)}%
+                        </span>{' '}
+                        <span className={`font-mono text-xs ${diff.posteriorDelta >= 0 ? 'text-confidence-high' : 'text-confidence-low'}`}>
+                          ({formatDelta(diff.posteriorDelta)})
+                        </span>
+                      </div>
+                    )}
+                    {diff.winPercentageDelta !== null && (
+                      <div>
+                        <span className="text-muted-foreground">Win rate:</span>{' '}
+                        <span className="font-mono">{formatDelta(diff.winPercentageDelta)}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  {diff.decisionText && (
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Reworded from</span>{' '}
+                      <span className="italic">"{diff.decisionText.from}"</span>
+                    </div>
+                  )}
+
+                  <ChangeList title="CRITERIA" changes={diff.criteria} />
+                  <ChangeList title="OPTIONS" changes={diff.options} />
+                  <ChangeList title="ASSESSMENTS" changes={diff.assessments} />
+                  <ChangeList title="EVIDENCE" changes={diff.evidence} />
+                  <ChangeList title="PAYOFFS" changes={diff.payoffs} />
+
+                  {!hasChanges && (
+                    <p className="text-sm text-muted-foreground">
+                      Same inputs in both revisions — any difference in the posterior is simulation noise.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
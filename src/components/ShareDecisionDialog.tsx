@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Ban, Copy, Link2, Share2 } from 'lucide-react';
+import { useSharesPersistence, getShareUrl } from '@/hooks/useSharesPersistence';
+import { DecisionShare } from '@/types/decision';
+
+interface ShareDecisionDialogProps {
+  decisionId: string;
+  decisionText: string;
+}
+
+function isActive(share: DecisionShare, now = new Date()): boolean {
+  return !share.revokedAt && (!share.expiresAt || new Date(share.expiresAt) > now);
+}
+
+function describeShare(share: DecisionShare): string {
+  if (share.revokedAt) return `Revoked ${format(new Date(share.revokedAt), 'MMM d, yyyy')}`;
+  if (!share.expiresAt) return 'Never expires';
+  const expiry = format(new Date(share.expiresAt), 'MMM d, yyyy');
+  return isActive(share) ? `Expires ${expiry}` : `Expired ${expiry}`;
+}
+
+export function ShareDecisionDialog({ decisionId, decisionText }: ShareDecisionDialogProps) {
+  const { createShare, loadShares, revokeShare, saving } = useSharesPersistence();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [shares, setShares] = useState<DecisionShare[]>([]);
+  const [expiryDate, setExpiryDate] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    loadShares(decisionId).then((loaded) => {
+      setShares(loaded);
+      setLoading(false);
+    });
+  }, [open, decisionId, loadShares]);
+
+  const copyLink = async (share: DecisionShare) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleCreate = async () => {
+    // An expiry date keeps the link working through the end of that day
+    const expiresAt = expiryDate ? new Date(`${expiryDate}T23:59:59`).toISOString() : null;
+    const share = await createShare(decisionId, expiresAt);
+    if (share) {
+      setShares(prev => [share, ...prev]);
+      setExpiryDate('');
+      copyLink(share);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    const revoked = await revokeShare(shareId);
+    if (revoked) setShares(prev => prev.map(s => (s.id === revoked.id ? revoked : s)));
+  };
+
+  return (
+    // Stop clicks (including those inside the portaled dialog) from opening the decision card
+    <div onClick={(e) => e.stopPropagation()}>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-muted-foreground">
+            <Share2 className="w-4 h-4 mr-2" />
+            Share
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Share a read-only link</DialogTitle>
+            <DialogDescription className="line-clamp-2">"{decisionText}"</DialogDescription>
+          </DialogHeader>
+
+          <p className="text-sm text-muted-foreground">
+            Anyone with the link can see the latest revision's results and calculations without signing in.
+            They can't edit it or see your other decisions.
+          </p>
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="share-expiry">Expires (optional)</Label>
+              <Input
+                id="share-expiry"
+                type="date"
+                min={format(new Date(), 'yyyy-MM-dd')}
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={saving}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Create link
+            </Button>
+          </div>
+
+          {loading && (
+            <div className="text-center py-4 text-muted-foreground">Loading links...</div>
+          )}
+
+          {!loading && shares.length > 0 && (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {shares.map(share => {
+                const active = isActive(share);
+                return (
+                  <li
+                    key={share.id}
+                    className={`flex items-center gap-2 p-3 rounded-xl bg-secondary/50 ${active ? '' : 'opacity-60'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-mono text-xs truncate">{getShareUrl(share.token)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Created {format(new Date(share.createdAt), 'MMM d, yyyy')} · {describeShare(share)}
+                      </p>
+                    </div>
+                    {active && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => copyLink(share)} aria-label="Copy link">
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive"
+                          onClick={() => handleRevoke(share.id)}
+                          aria-label="Revoke link"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { BayesianJob, BayesianJobResults, runBayesianJob, isAbortError } from '@/lib/bayesianWorker';
+
+/**
+ * Runs Bayesian engine jobs in a Web Worker, one at a time.
+ * Starting a new job cancels the previous one, as does unmounting.
+ */
+export function useBayesianJob<K extends BayesianJob['kind']>() {
+  const [progress, setProgress] = useState(0);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const run = useCallback(async (
+    job: Extract<BayesianJob, { kind: K }>
+  ): Promise<BayesianJobResults[K] | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setProgress(0);
+    setRunning(true);
+    try {
+      return await runBayesianJob(job, { signal: controller.signal, onProgress: setProgress });
+    } catch (error: unknown) {
+      if (!isAbortError(error)) {
+        console.error('Error running simulation:', error);
+        toast.error('Simulation failed');
+      }
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return {
+    run,
+    cancel,
+    progress,
+    running,
+  };
+}
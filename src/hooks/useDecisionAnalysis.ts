@@ -1,52 +1,120 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { DecisionState } from '@/types/decision';
+import { DecisionResults, getDecisionWinPercentage } from '@/lib/bayesian';
+import { readEventStream } from '@/lib/eventStream';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
+// The prompt stays short; the most influential criteria say enough
+const MAX_SENSITIVITY_ITEMS = 5;
+
+/** The message an edge function sent with its error status, if it sent one */
+async function getFunctionErrorMessage(error: unknown): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (typeof body?.error === 'string') return body.error;
+    } catch {
+      // Not JSON; fall through to the generic message
+    }
+  }
+  return error instanceof Error ? error.message : 'Failed to analyze decision';
+}
+
+/**
+ * Streams the AI's commentary on a decision. `analysis` grows as text arrives;
+ * `isLoading` is true until the first of it does, `isStreaming` until the end.
+ */
 export function useDecisionAnalysis() {
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the results screen stops generation rather than letting it run on unseen
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancelAnalysis = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const analyzeDecision = useCallback(async (state: DecisionState, results: DecisionResults) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
 
-  const analyzeDecision = async (state: DecisionState) => {
     setIsLoading(true);
+    setIsStreaming(true);
     setError(null);
     setAnalysis(null);
 
+    const { posterior, credibleInterval, sensitivityAnalysis = [] } = results.results;
+
     try {
       const { data, error: fnError } = await supabase.functions.invoke('analyze-decision', {
         body: {
           decision: state.decision,
           category: state.category,
           initialConfidence: state.initialConfidence,
-          posteriorProbability: state.posteriorProbability,
-          credibleInterval: state.credibleInterval,
+          posteriorProbability: posterior,
+          credibleInterval,
+          winPercentage: getDecisionWinPercentage(results),
+          criteria: state.criteria.map(c => ({ id: c.id, name: c.name, importance: c.importance, parentId: c.parentId })),
+          criteriaEvaluations: state.criteriaEvaluations,
+          sensitivity: sensitivityAnalysis
+            .filter(item => item.depth === 0)
+            .slice(0, MAX_SENSITIVITY_ITEMS)
+            .map(item => ({ criterionName: item.criterionName, impact: item.impact, direction: item.direction })),
           evidence: state.evidence,
         },
+        signal: controller.signal,
       });
 
       if (fnError) {
-        throw fnError;
+        throw new Error(await getFunctionErrorMessage(fnError));
       }
 
-      if (data?.error) {
-        throw new Error(data.error);
+      const response = data as Response;
+      if (!response.body) {
+        throw new Error('The analysis stream was empty');
       }
 
-      setAnalysis(data.analysis);
+      let text = '';
+      for await (const event of readEventStream(response.body)) {
+        if (event.event === 'error') {
+          throw new Error(JSON.parse(event.data).error ?? 'The analysis stopped partway through');
+        }
+        if (event.data === '[DONE]') break;
+
+        text += JSON.parse(event.data).delta ?? '';
+        setAnalysis(text);
+        setIsLoading(false);
+      }
     } catch (err) {
+      // Cancelled on purpose: keep whatever arrived, without an error
+      if (controller.signal.aborted) return;
+
       const message = err instanceof Error ? err.message : 'Failed to analyze decision';
       setError(message);
       toast.error(message);
     } finally {
-      setIsLoading(false);
+      // A newer request has taken over the state
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
-  };
+  }, []);
 
   return {
     analysis,
     isLoading,
+    isStreaming,
     error,
     analyzeDecision,
+    cancelAnalysis,
   };
 }
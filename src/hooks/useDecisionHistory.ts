@@ -0,0 +1,44 @@
+import { useEffect, useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DECISIONS_QUERY_KEY,
+  DECISIONS_STALE_TIME,
+  DecisionsCursor,
+  SavedDecision,
+  fetchDecisionsPage,
+} from '@/hooks/useDecisionPersistence';
+import { toast } from 'sonner';
+
+/** The user's decisions newest first, loaded a page at a time and cached until a save or delete */
+export function useDecisionHistory() {
+  const { user } = useAuth();
+
+  const query = useInfiniteQuery({
+    queryKey: [...DECISIONS_QUERY_KEY, user?.id, 'history'],
+    queryFn: ({ pageParam }) => fetchDecisionsPage(user!.id, pageParam),
+    initialPageParam: null as DecisionsCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: DECISIONS_STALE_TIME,
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!query.error) return;
+    console.error('Error loading decisions:', query.error);
+    toast.error('Failed to load decision history');
+  }, [query.error]);
+
+  const decisions = useMemo(
+    (): SavedDecision[] => query.data?.pages.flatMap(page => page.decisions) ?? [],
+    [query.data]
+  );
+
+  return {
+    decisions,
+    loading: query.isPending && !!user,
+    loadingMore: query.isFetchingNextPage,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+  };
+}
@@ -1,7 +1,12 @@
 import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { QueryData } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { DecisionState, Criterion, CriterionEvaluation } from '@/types/decision';
+import { DecisionState, AggregationMethod, DelphiSettings, MemberRole, Criterion, CriteriaCorrelationGroup, CriterionEvaluation, DecisionOption, EvidenceItem, OptionScore, OutcomePayoff, PairwiseJudgment } from '@/types/decision';
 import { useAuth } from '@/contexts/AuthContext';
+import { Json } from '@/integrations/supabase/types';
+import { isNetworkError } from '@/lib/syncQueue';
+import { queueOperation } from '@/lib/offlineStore';
 import { toast } from 'sonner';
 
 export interface SavedDecision {
@@ -12,21 +17,259 @@ export interface SavedDecision {
   credibleIntervalLow: number | null;
   credibleIntervalHigh: number | null;
   winPercentage: number | null;
+  seed: number | null; // null for decisions saved before runs were seeded
   createdAt: string;
   updatedAt: string;
+  role: MemberRole; // The current user's role; 'owner' for decisions they created
+  aggregationMethod: AggregationMethod;
+  delphiSettings: DelphiSettings;
   criteria: Criterion[];
+  correlationGroups: CriteriaCorrelationGroup[];
+  pairwiseJudgments: PairwiseJudgment[];
   evaluations: CriterionEvaluation[];
+  evidence: EvidenceItem[];
+  options: DecisionOption[];
+  optionScores: OptionScore[];
+  payoffs: OutcomePayoff[];
+}
+
+/** The assessments behind a decision at the time it was run */
+export interface DecisionSnapshot {
+  criteria: Criterion[];
+  correlationGroups: CriteriaCorrelationGroup[];
+  pairwiseJudgments: PairwiseJudgment[];
+  evaluations: CriterionEvaluation[];
+  evidence: EvidenceItem[];
+  options: DecisionOption[];
+  optionScores: OptionScore[];
+  payoffs: OutcomePayoff[];
+}
+
+/** A decision's graph as the database stored it. IDs the client minted may have been replaced. */
+export interface SavedDecisionGraph extends DecisionSnapshot {
+  id: string;
+  revisionNumber: number;
+  updatedAt: string | null; // The decision's updated_at after the save, the base for the next one
+}
+
+export interface DecisionRevision extends DecisionSnapshot {
+  id: string;
+  decisionId: string;
+  revisionNumber: number;
+  decision: string;
+  initialConfidence: number;
+  posteriorProbability: number | null;
+  credibleIntervalLow: number | null;
+  credibleIntervalHigh: number | null;
+  winPercentage: number | null;
+  seed: number | null;
+  createdAt: string;
+}
+
+export const DECISIONS_QUERY_KEY = ['decisions'];
+export const DECISIONS_PAGE_SIZE = 20;
+// Saves and deletes invalidate the cache, so it only goes stale through other members' changes
+export const DECISIONS_STALE_TIME = 60_000;
+
+/** Where the next page of decisions starts: the newest-first position of the last one loaded */
+export interface DecisionsCursor {
+  createdAt: string;
+  id: string;
+}
+
+/** What lists and pickers show of a decision, without the assessments behind it */
+export interface DecisionSummary {
+  id: string;
+  decision: string;
+  posteriorProbability: number | null;
+  winPercentage: number | null;
+  role: MemberRole;
+  createdAt: string;
+}
+
+export interface DecisionsPage {
+  decisions: SavedDecision[];
+  nextCursor: DecisionsCursor | null; // null on the last page
+}
+
+// A decision and everything saved with it, in one round trip
+const DECISION_SELECT = '*, decision_criteria(*), decision_evaluations(*), decision_options(*), decision_option_scores(*), decision_correlation_groups(*), decision_pairwise_judgments(*), decision_evidence(*), decision_payoffs(*), decision_members(user_id, role)';
+
+// Only what lists show, plus the memberships that decide the user's role
+const DECISION_SUMMARY_SELECT = 'id, user_id, decision, posterior_probability, win_percentage, created_at, decision_members(user_id, role)';
+
+const decisionsQuery = supabase.from('decisions').select(DECISION_SELECT);
+type DecisionRow = QueryData<typeof decisionsQuery>[number];
+
+const decisionSummariesQuery = supabase.from('decisions').select(DECISION_SUMMARY_SELECT);
+type DecisionSummaryRow = QueryData<typeof decisionSummariesQuery>[number];
+
+// Decisions others shared with this user come back too; their membership says what the user may do
+function getRole(d: Pick<DecisionRow, 'user_id' | 'decision_members'>, userId: string): MemberRole {
+  const membership = d.decision_members.find(m => m.user_id === userId);
+  return d.user_id === userId ? 'owner' : (membership?.role as MemberRole) ?? 'viewer';
+}
+
+function toDecisionSummary(d: DecisionSummaryRow, userId: string): DecisionSummary {
+  return {
+    id: d.id,
+    decision: d.decision,
+    posteriorProbability: d.posterior_probability !== null ? Number(d.posterior_probability) : null,
+    winPercentage: d.win_percentage !== null ? Number(d.win_percentage) : null,
+    role: getRole(d, userId),
+    createdAt: d.created_at,
+  };
+}
+
+function toSavedDecision(d: DecisionRow, userId: string): SavedDecision {
+  const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+  return {
+    id: d.id,
+    decision: d.decision,
+    initialConfidence: Number(d.initial_confidence),
+    posteriorProbability: d.posterior_probability ? Number(d.posterior_probability) : null,
+    credibleIntervalLow: d.credible_interval_low ? Number(d.credible_interval_low) : null,
+    credibleIntervalHigh: d.credible_interval_high ? Number(d.credible_interval_high) : null,
+    winPercentage: d.win_percentage ? Number(d.win_percentage) : null,
+    seed: d.seed !== null ? Number(d.seed) : null,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+    role: getRole(d, userId),
+    aggregationMethod: d.aggregation_method as AggregationMethod,
+    delphiSettings: {
+      maxRounds: d.delphi_max_rounds,
+      iqrThreshold: Number(d.delphi_iqr_threshold),
+    },
+    criteria: d.decision_criteria.map((c) => ({
+      id: c.id,
+      name: c.name,
+      importance: Number(c.importance),
+      description: c.description,
+      isAISuggested: c.is_ai_suggested,
+      parentId: c.parent_id ?? undefined,
+    })),
+    correlationGroups: d.decision_correlation_groups.map((g) => ({
+      id: g.id,
+      criterionIds: g.criterion_ids,
+      correlationFactor: Number(g.correlation_factor),
+      reason: g.reason ?? undefined,
+      isAISuggested: g.is_ai_suggested ?? false,
+    })),
+    pairwiseJudgments: d.decision_pairwise_judgments.map((j) => ({
+      criterionId: j.criterion_id,
+      comparedToId: j.compared_to_id,
+      value: Number(j.value),
+    })),
+    evaluations: d.decision_evaluations.map((e) => ({
+      criterionId: e.criterion_id,
+      supportsDecision: e.supports_decision,
+      strength: Number(e.strength),
+      confidence: Number(e.confidence),
+    })),
+    evidence: [...d.decision_evidence].sort(byPosition).map((e) => ({
+      id: e.id,
+      type: e.type as EvidenceItem['type'],
+      label: e.label,
+      value: Number(e.value),
+      weight: Number(e.weight),
+      description: e.description ?? '',
+    })),
+    options: [...d.decision_options].sort(byPosition).map((o) => ({
+      id: o.id,
+      name: o.name,
+      description: o.description ?? undefined,
+    })),
+    optionScores: d.decision_option_scores.map((s) => ({
+      criterionId: s.criterion_id,
+      optionId: s.option_id,
+      score: Number(s.score),
+      confidence: Number(s.confidence),
+    })),
+    payoffs: d.decision_payoffs.map((p) => ({
+      id: p.id,
+      optionId: p.option_id ?? undefined,
+      outcome: p.outcome as OutcomePayoff['outcome'],
+      shape: p.shape as OutcomePayoff['shape'],
+      min: Number(p.min_value),
+      likely: Number(p.likely_value),
+      max: Number(p.max_value),
+    })),
+  };
+}
+
+/** One page of decisions, newest first, starting after the cursor */
+export async function fetchDecisionsPage(
+  userId: string,
+  cursor: DecisionsCursor | null,
+  pageSize = DECISIONS_PAGE_SIZE
+): Promise<DecisionsPage> {
+  let query = supabase
+    .from('decisions')
+    .select(DECISION_SELECT)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether there is another page
+    .limit(pageSize + 1);
+
+  if (cursor) {
+    // Timestamps are quoted because they contain PostgREST's reserved characters
+    query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const decisions = rows.slice(0, pageSize).map(d => toSavedDecision(d, userId));
+  const last = decisions[decisions.length - 1];
+  return {
+    decisions,
+    nextCursor: rows.length > pageSize && last ? { createdAt: last.createdAt, id: last.id } : null,
+  };
+}
+
+/** The save_decision RPC's document: the run's results and everything assessed with it */
+export function toDecisionDocument(state: DecisionState, winPercentage: number): Json {
+  const snapshot: DecisionSnapshot = {
+    criteria: state.criteria,
+    correlationGroups: state.correlationGroups,
+    pairwiseJudgments: state.pairwiseJudgments,
+    evaluations: state.criteriaEvaluations,
+    evidence: state.evidence,
+    options: state.options,
+    optionScores: state.optionScores,
+    payoffs: state.payoffs,
+  };
+
+  return {
+    decision: state.decision,
+    initialConfidence: state.initialConfidence,
+    posteriorProbability: state.posteriorProbability,
+    credibleIntervalLow: state.credibleInterval[0],
+    credibleIntervalHigh: state.credibleInterval[1],
+    winPercentage,
+    gewekeZScore: state.convergenceDiagnostic?.gewekeZScore ?? null,
+    effectiveSampleSize: state.convergenceDiagnostic?.effectiveSampleSize ?? null,
+    mcError: state.convergenceDiagnostic?.mcError ?? null,
+    seed: state.seed,
+    ...snapshot,
+  } as unknown as Json;
 }
 
 export function useDecisionPersistence() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  /** Saves the decision and its whole graph in one transaction, returning the graph as stored */
   const saveDecision = useCallback(async (
     state: DecisionState,
-    winPercentage: number
-  ): Promise<string | null> => {
+    winPercentage: number,
+    decisionId: string | null = null,
+    baseUpdatedAt: string | null = null // The decision's updatedAt as loaded, to detect conflicting edits offline
+  ): Promise<SavedDecisionGraph | null> => {
     if (!user) {
       toast.error('Please sign in to save your decision');
       return null;
@@ -34,143 +277,144 @@ export function useDecisionPersistence() {
 
     setSaving(true);
     try {
-      // 1. Insert the main decision record
-      const { data: decisionData, error: decisionError } = await supabase
-        .from('decisions')
-        .insert({
-          user_id: user.id,
-          decision: state.decision,
-          initial_confidence: state.initialConfidence,
-          posterior_probability: state.posteriorProbability,
-          credible_interval_low: state.credibleInterval[0],
-          credible_interval_high: state.credibleInterval[1],
-          win_percentage: winPercentage,
-          geweke_z_score: state.convergenceDiagnostic?.gewekeZScore ?? null,
-          effective_sample_size: state.convergenceDiagnostic?.effectiveSampleSize ?? null,
-          mc_error: state.convergenceDiagnostic?.mcError ?? null,
-        })
-        .select('id')
-        .single();
-
-      if (decisionError) throw decisionError;
-
-      const decisionId = decisionData.id;
-
-      // 2. Insert criteria with a mapping of old IDs to new IDs
-      const criteriaMapping = new Map<string, string>();
-      
-      for (const criterion of state.criteria) {
-        const { data: criterionData, error: criterionError } = await supabase
-          .from('decision_criteria')
-          .insert({
-            decision_id: decisionId,
-            name: criterion.name,
-            importance: criterion.importance,
-            description: criterion.description ?? null,
-            is_ai_suggested: criterion.isAISuggested ?? false,
-          })
-          .select('id')
-          .single();
-
-        if (criterionError) throw criterionError;
-        criteriaMapping.set(criterion.id, criterionData.id);
-      }
+      const { data, error } = await supabase.rpc('save_decision', {
+        document: toDecisionDocument(state, winPercentage),
+        target_decision_id: decisionId ?? undefined,
+      });
 
-      // 3. Insert evaluations using the new criterion IDs
-      for (const evaluation of state.criteriaEvaluations) {
-        const newCriterionId = criteriaMapping.get(evaluation.criterionId);
-        if (!newCriterionId) continue;
-
-        const { error: evalError } = await supabase
-          .from('decision_evaluations')
-          .insert({
-            decision_id: decisionId,
-            criterion_id: newCriterionId,
-            supports_decision: evaluation.supportsDecision,
-            strength: evaluation.strength,
-            confidence: evaluation.confidence,
-          });
-
-        if (evalError) throw evalError;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        // Keep the run on this device; useOfflineSync replays it on reconnect
+        await queueOperation(user.id, {
+          kind: 'saveDecision',
+          decisionId,
+          state: { ...state, samples: undefined },
+          winPercentage,
+          queuedAt: new Date().toISOString(),
+          baseUpdatedAt,
+        });
+        toast.info("You're offline. The decision is kept on this device and will sync when you reconnect.");
+        return null;
       }
 
-      toast.success('Decision saved to your history');
-      return decisionId;
-    } catch (error: any) {
+      const graph = data as unknown as Omit<SavedDecisionGraph, 'updatedAt'>;
+      // save_decision doesn't return the row's version; a failed read only loses conflict detection
+      const { data: row } = await supabase
+        .from('decisions')
+        .select('updated_at')
+        .eq('id', graph.id)
+        .maybeSingle();
+
+      queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
+      toast.success(decisionId ? 'Decision updated with a new revision' : 'Decision saved to your history');
+      return { ...graph, updatedAt: row?.updated_at ?? null };
+    } catch (error: unknown) {
       console.error('Error saving decision:', error);
       toast.error('Failed to save decision');
       return null;
     } finally {
       setSaving(false);
     }
-  }, [user]);
+  }, [user, queryClient]);
+
+  /** A single decision and its graph, for pages opened by the decision's ID */
+  const loadDecision = useCallback(async (decisionId: string): Promise<SavedDecision | null> => {
+    if (!user) return null;
 
-  const loadDecisions = useCallback(async (): Promise<SavedDecision[]> => {
+    setLoading(true);
+    try {
+      return await queryClient.fetchQuery({
+        queryKey: [...DECISIONS_QUERY_KEY, user.id, 'decision', decisionId],
+        staleTime: DECISIONS_STALE_TIME,
+        queryFn: async () => {
+          const { data, error } = await supabase
+            .from('decisions')
+            .select(DECISION_SELECT)
+            .eq('id', decisionId)
+            .maybeSingle();
+
+          if (error) throw error;
+          return data ? toSavedDecision(data, user.id) : null;
+        },
+      });
+    } catch (error: unknown) {
+      console.error('Error loading decision:', error);
+      toast.error('Failed to load decision');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [user, queryClient]);
+
+  /** Every decision the user can see, without the assessments, for lists that only name them */
+  const loadDecisionSummaries = useCallback(async (): Promise<DecisionSummary[]> => {
     if (!user) return [];
 
     setLoading(true);
     try {
-      // Load all decisions with their criteria and evaluations
-      const { data: decisions, error: decisionsError } = await supabase
-        .from('decisions')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (decisionsError) throw decisionsError;
-
-      const result: SavedDecision[] = [];
-
-      for (const d of decisions) {
-        // Load criteria for this decision
-        const { data: criteriaData } = await supabase
-          .from('decision_criteria')
-          .select('*')
-          .eq('decision_id', d.id);
-
-        // Load evaluations for this decision
-        const { data: evaluationsData } = await supabase
-          .from('decision_evaluations')
-          .select('*')
-          .eq('decision_id', d.id);
-
-        const criteria: Criterion[] = (criteriaData ?? []).map((c: any) => ({
-          id: c.id,
-          name: c.name,
-          importance: Number(c.importance),
-          description: c.description,
-          isAISuggested: c.is_ai_suggested,
-        }));
-
-        const evaluations: CriterionEvaluation[] = (evaluationsData ?? []).map((e: any) => ({
-          criterionId: e.criterion_id,
-          supportsDecision: e.supports_decision,
-          strength: Number(e.strength),
-          confidence: Number(e.confidence),
-        }));
-
-        result.push({
-          id: d.id,
-          decision: d.decision,
-          initialConfidence: Number(d.initial_confidence),
-          posteriorProbability: d.posterior_probability ? Number(d.posterior_probability) : null,
-          credibleIntervalLow: d.credible_interval_low ? Number(d.credible_interval_low) : null,
-          credibleIntervalHigh: d.credible_interval_high ? Number(d.credible_interval_high) : null,
-          winPercentage: d.win_percentage ? Number(d.win_percentage) : null,
-          createdAt: d.created_at,
-          updatedAt: d.updated_at,
-          criteria,
-          evaluations,
-        });
-      }
+      return await queryClient.fetchQuery({
+        queryKey: [...DECISIONS_QUERY_KEY, user.id, 'summaries'],
+        staleTime: DECISIONS_STALE_TIME,
+        queryFn: async () => {
+          const { data, error } = await supabase
+            .from('decisions')
+            .select(DECISION_SUMMARY_SELECT)
+            .order('created_at', { ascending: false });
 
-      return result;
-    } catch (error: any) {
+          if (error) throw error;
+          return (data ?? []).map(d => toDecisionSummary(d, user.id));
+        },
+      });
+    } catch (error: unknown) {
       console.error('Error loading decisions:', error);
       toast.error('Failed to load decision history');
       return [];
     } finally {
       setLoading(false);
     }
+  }, [user, queryClient]);
+
+  const loadRevisions = useCallback(async (decisionId: string): Promise<DecisionRevision[]> => {
+    if (!user) return [];
+
+    try {
+      const { data: revisions, error } = await supabase
+        .from('decision_revisions')
+        .select('*')
+        .eq('decision_id', decisionId)
+        .order('revision_number', { ascending: true });
+
+      if (error) throw error;
+
+      return (revisions ?? []).map((r) => {
+        const snapshot = (r.snapshot ?? {}) as unknown as Partial<DecisionSnapshot>;
+        return {
+          id: r.id,
+          decisionId: r.decision_id,
+          revisionNumber: r.revision_number,
+          decision: r.decision,
+          initialConfidence: Number(r.initial_confidence),
+          posteriorProbability: r.posterior_probability !== null ? Number(r.posterior_probability) : null,
+          credibleIntervalLow: r.credible_interval_low !== null ? Number(r.credible_interval_low) : null,
+          credibleIntervalHigh: r.credible_interval_high !== null ? Number(r.credible_interval_high) : null,
+          winPercentage: r.win_percentage !== null ? Number(r.win_percentage) : null,
+          seed: r.seed !== null ? Number(r.seed) : null,
+          createdAt: r.created_at,
+          criteria: snapshot.criteria ?? [],
+          correlationGroups: snapshot.correlationGroups ?? [],
+          pairwiseJudgments: snapshot.pairwiseJudgments ?? [],
+          evaluations: snapshot.evaluations ?? [],
+          evidence: snapshot.evidence ?? [],
+          options: snapshot.options ?? [],
+          optionScores: snapshot.optionScores ?? [],
+          payoffs: snapshot.payoffs ?? [],
+        };
+      });
+    } catch (error: unknown) {
+      console.error('Error loading revisions:', error);
+      toast.error('Failed to load revision history');
+      return [];
+    }
   }, [user]);
 
   const deleteDecision = useCallback(async (decisionId: string): Promise<boolean> => {
@@ -183,6 +427,7 @@ export function useDecisionPersistence() {
         .eq('id', decisionId);
 
       if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
       toast.success('Decision deleted');
       return true;
     } catch (error: any) {
@@ -190,11 +435,13 @@ export function useDecisionPersistence() {
       toast.error('Failed to delete decision');
       return false;
     }
-  }, [user]);
+  }, [user, queryClient]);
 
   return {
     saveDecision,
-    loadDecisions,
+    loadDecision,
+    loadDecisionSummaries,
+    loadRevisions,
     deleteDecision,
     saving,
     loading,
@@ -0,0 +1,227 @@
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DECISIONS_QUERY_KEY } from '@/hooks/useDecisionPersistence';
+import { DelphiResponse, DelphiSettings } from '@/types/decision';
+import { AnonymousDelphiResponse, DelphiRoundSummary, DelphiStopReason } from '@/lib/delphi';
+import { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+export interface DelphiRound {
+  id: string;
+  roundNumber: number;
+  status: 'open' | 'closed';
+  summary: DelphiRoundSummary | null; // Set once the round closes
+  stopReason: DelphiStopReason | null; // Set on the round that ended the process
+  createdAt: string;
+  closedAt: string | null;
+}
+
+export function useDelphiPersistence() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+
+  const loadRounds = useCallback(async (decisionId: string): Promise<DelphiRound[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('decision_delphi_rounds')
+        .select('*')
+        .eq('decision_id', decisionId)
+        .order('round_number', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []).map((r) => ({
+        id: r.id,
+        roundNumber: r.round_number,
+        status: r.status as DelphiRound['status'],
+        summary: r.summary as unknown as DelphiRoundSummary | null,
+        stopReason: r.stop_reason as DelphiStopReason | null,
+        createdAt: r.created_at,
+        closedAt: r.closed_at,
+      }));
+    } catch (error: unknown) {
+      console.error('Error loading Delphi rounds:', error);
+      toast.error('Failed to load Delphi rounds');
+      return [];
+    }
+  }, [user]);
+
+  const startRound = useCallback(async (decisionId: string, roundNumber: number): Promise<boolean> => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('decision_delphi_rounds')
+        .insert({ decision_id: decisionId, round_number: roundNumber });
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      console.error('Error starting Delphi round:', error);
+      toast.error('Failed to start the round');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const closeRound = useCallback(async (
+    roundId: string,
+    summary: DelphiRoundSummary,
+    stopReason: DelphiStopReason | null
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('decision_delphi_rounds')
+        .update({
+          status: 'closed',
+          summary: summary as unknown as Json,
+          stop_reason: stopReason,
+          closed_at: new Date().toISOString(),
+        })
+        .eq('id', roundId);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      console.error('Error closing Delphi round:', error);
+      toast.error('Failed to close the round');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  /** The current user's own responses to a round */
+  const loadMyResponses = useCallback(async (roundId: string): Promise<DelphiResponse[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('decision_delphi_responses')
+        .select('*')
+        .eq('round_id', roundId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data ?? []).map((r) => ({
+        criterionId: r.criterion_id,
+        supportsDecision: r.supports_decision,
+        strength: Number(r.strength),
+        confidence: Number(r.confidence),
+        rationale: r.rationale,
+      }));
+    } catch (error: unknown) {
+      console.error('Error loading Delphi responses:', error);
+      toast.error('Failed to load your responses');
+      return [];
+    }
+  }, [user]);
+
+  /** Everyone's responses to a round, without who gave them */
+  const loadAnonymousResponses = useCallback(async (roundId: string): Promise<AnonymousDelphiResponse[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('get_delphi_responses', { target_round_id: roundId });
+
+      if (error) throw error;
+      return (data ?? []).map((r) => ({
+        respondent: r.respondent,
+        criterionId: r.criterion_id,
+        supportsDecision: r.supports_decision,
+        strength: Number(r.strength),
+        confidence: Number(r.confidence),
+        rationale: r.rationale,
+      }));
+    } catch (error: unknown) {
+      console.error('Error loading Delphi round:', error);
+      toast.error('Failed to load the round\'s responses');
+      return [];
+    }
+  }, [user]);
+
+  /** Replaces the current user's responses to an open round */
+  const submitResponses = useCallback(async (
+    decisionId: string,
+    roundId: string,
+    responses: DelphiResponse[]
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('decision_delphi_responses')
+        .delete()
+        .eq('round_id', roundId)
+        .eq('user_id', user.id);
+
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabase
+        .from('decision_delphi_responses')
+        .insert(responses.map(response => ({
+          round_id: roundId,
+          decision_id: decisionId,
+          user_id: user.id,
+          criterion_id: response.criterionId,
+          supports_decision: response.supportsDecision,
+          strength: response.strength,
+          confidence: response.confidence,
+          rationale: response.rationale.trim(),
+        })));
+
+      if (insertError) throw insertError;
+      toast.success('Your ratings were submitted');
+      return true;
+    } catch (error: unknown) {
+      console.error('Error submitting Delphi responses:', error);
+      toast.error('Failed to submit your ratings');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const saveSettings = useCallback(async (decisionId: string, settings: DelphiSettings): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('decisions')
+        .update({
+          delphi_max_rounds: settings.maxRounds,
+          delphi_iqr_threshold: settings.iqrThreshold,
+        })
+        .eq('id', decisionId);
+
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
+      return true;
+    } catch (error: unknown) {
+      console.error('Error saving Delphi settings:', error);
+      toast.error('Failed to save Delphi settings');
+      return false;
+    }
+  }, [user, queryClient]);
+
+  return {
+    loadRounds,
+    startRound,
+    closeRound,
+    loadMyResponses,
+    loadAnonymousResponses,
+    submitResponses,
+    saveSettings,
+    saving,
+  };
+}
@@ -1,7 +1,15 @@
 import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { DECISIONS_QUERY_KEY, SavedDecision, toDecisionDocument } from '@/hooks/useDecisionPersistence';
+import { DecisionState, ExperimentResult, ExperimentResultDirection } from '@/types/decision';
+import { generateSeed } from '@/lib/bayesian';
+import { runBayesianJob } from '@/lib/bayesianWorker';
+import { Json } from '@/integrations/supabase/types';
+import { isNetworkError } from '@/lib/syncQueue';
+import { queueOperation } from '@/lib/offlineStore';
 
 export interface SavedExperiment {
   id: string;
@@ -13,12 +21,38 @@ export interface SavedExperiment {
   timeEstimate: string | null;
   difficulty: 'easy' | 'medium' | 'hard' | null;
   status: 'planned' | 'in_progress' | 'completed' | 'cancelled';
+  result: ExperimentResult | null;
+  posteriorBefore: number | null;
+  posteriorAfter: number | null;
+  completedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** The saved decision as the engine and save_decision take it */
+function toDecisionState(decision: SavedDecision): DecisionState {
+  return {
+    decision: decision.decision,
+    category: '',
+    options: decision.options,
+    criteria: decision.criteria,
+    correlationGroups: decision.correlationGroups,
+    pairwiseJudgments: decision.pairwiseJudgments,
+    criteriaEvaluations: decision.evaluations,
+    optionScores: decision.optionScores,
+    initialConfidence: decision.initialConfidence,
+    evidence: decision.evidence,
+    payoffs: decision.payoffs,
+    posteriorProbability: decision.posteriorProbability ?? 50,
+    credibleInterval: [decision.credibleIntervalLow ?? 35, decision.credibleIntervalHigh ?? 65],
+    // Decisions saved before seeds were recorded get one now, and keep it from this save on
+    seed: decision.seed ?? generateSeed(),
+  };
+}
+
 export function useExperimentsPersistence() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -90,6 +124,18 @@ export function useExperimentsPersistence() {
         timeEstimate: e.time_estimate,
         difficulty: e.difficulty,
         status: e.status,
+        result: e.result_criterion_id && e.result_direction
+          ? {
+              criterionId: e.result_criterion_id,
+              optionId: e.result_option_id ?? undefined,
+              direction: e.result_direction as ExperimentResultDirection,
+              conclusiveness: Number(e.result_conclusiveness),
+              notes: e.result_notes ?? undefined,
+            }
+          : null,
+        posteriorBefore: e.posterior_before !== null ? Number(e.posterior_before) : null,
+        posteriorAfter: e.posterior_after !== null ? Number(e.posterior_after) : null,
+        completedAt: e.completed_at,
         createdAt: e.created_at,
         updatedAt: e.updated_at,
       }));
@@ -104,44 +150,142 @@ export function useExperimentsPersistence() {
 
   const updateExperimentStatus = useCallback(async (
     experimentId: string,
-    status: 'planned' | 'in_progress' | 'completed' | 'cancelled'
-  ): Promise<boolean> => {
-    if (!user) return false;
+    status: 'planned' | 'in_progress' | 'completed' | 'cancelled',
+    baseUpdatedAt: string | null = null // The experiment's updatedAt as loaded, to detect conflicting edits offline
+  ): Promise<Pick<SavedExperiment, 'status'> & Partial<Pick<SavedExperiment, 'updatedAt'>> | null> => {
+    if (!user) return null;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('experiments')
         .update({ status })
-        .eq('id', experimentId);
+        .eq('id', experimentId)
+        .select('updated_at')
+        .single();
 
-      if (error) throw error;
-      return true;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        // Keep the change on this device; useOfflineSync replays it on reconnect
+        await queueOperation(user.id, {
+          kind: 'experimentStatus',
+          experimentId,
+          status,
+          queuedAt: new Date().toISOString(),
+          baseUpdatedAt,
+        });
+        toast.info("You're offline. The change will sync when you reconnect.");
+        // The server row hasn't moved, so the version loaded stays the base for later changes
+        return { status };
+      }
+      // The new version is the base for the next change, which may be made offline
+      return { status, updatedAt: data.updated_at };
     } catch (error: any) {
       console.error('Error updating experiment:', error);
       toast.error('Failed to update experiment');
-      return false;
+      return null;
     }
   }, [user]);
 
+  const completeExperiment = useCallback(async (
+    experimentId: string,
+    result: ExperimentResult,
+    decision: SavedDecision | null
+  ): Promise<Pick<SavedExperiment, 'status' | 'result' | 'posteriorBefore' | 'posteriorAfter' | 'completedAt' | 'updatedAt'> | null> => {
+    if (!user) return null;
+
+    try {
+      let posteriorBefore: number | null = null;
+      let posteriorAfter: number | null = null;
+      let decisionDocument: Json | null = null;
+
+      // 1. Re-run the linked decision with the result folded in, off the main thread
+      if (decision) {
+        const state = toDecisionState(decision);
+        const impact = await runBayesianJob({
+          kind: 'experimentResult',
+          state,
+          result,
+          config: { seed: state.seed },
+        });
+        posteriorBefore = impact.posteriorBefore;
+        posteriorAfter = impact.posteriorAfter;
+        decisionDocument = toDecisionDocument({
+          ...state,
+          criteriaEvaluations: impact.criteriaEvaluations,
+          optionScores: impact.optionScores,
+          posteriorProbability: impact.posteriorAfter ?? state.posteriorProbability,
+          credibleInterval: impact.credibleInterval ?? state.credibleInterval,
+          convergenceDiagnostic: impact.convergenceDiagnostic ?? undefined,
+        }, impact.winPercentage);
+      }
+
+      // 2. Save the updated decision as a new revision and mark the experiment complete,
+      // together; a result that was already recorded is not applied again
+      const { data, error } = await supabase.rpc('complete_experiment', {
+        target_experiment_id: experimentId,
+        result: {
+          criterionId: result.criterionId,
+          optionId: result.optionId ?? null,
+          direction: result.direction,
+          conclusiveness: result.conclusiveness,
+          notes: result.notes ?? null,
+        },
+        posterior_before: posteriorBefore ?? undefined,
+        posterior_after: posteriorAfter ?? undefined,
+        decision_document: decisionDocument ?? undefined,
+      });
+
+      if (error) throw error;
+      const completed = data as {
+        alreadyCompleted: boolean;
+        posteriorBefore: number | null;
+        posteriorAfter: number | null;
+        completedAt: string;
+        updatedAt: string;
+      };
+
+      if (decision) queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
+      if (completed.alreadyCompleted) {
+        toast.info('This result was already recorded');
+      } else {
+        toast.success(decision ? 'Result recorded and decision updated' : 'Result recorded');
+      }
+      return {
+        status: 'completed',
+        result,
+        posteriorBefore: completed.posteriorBefore !== null ? Number(completed.posteriorBefore) : null,
+        posteriorAfter: completed.posteriorAfter !== null ? Number(completed.posteriorAfter) : null,
+        completedAt: completed.completedAt,
+        updatedAt: completed.updatedAt,
+      };
+    } catch (error: unknown) {
+      console.error('Error completing experiment:', error);
+      toast.error('Failed to record experiment result');
+      return null;
+    }
+  }, [user, queryClient]);
+
   const linkExperimentToDecision = useCallback(async (
     experimentId: string,
     decisionId: string | null
-  ): Promise<boolean> => {
-    if (!user) return false;
+  ): Promise<Pick<SavedExperiment, 'decisionId' | 'updatedAt'> | null> => {
+    if (!user) return null;
 
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('experiments')
         .update({ decision_id: decisionId })
-        .eq('id', experimentId);
+        .eq('id', experimentId)
+        .select('updated_at')
+        .single();
 
       if (error) throw error;
       toast.success(decisionId ? 'Experiment linked to decision' : 'Experiment unlinked');
-      return true;
+      return { decisionId, updatedAt: data.updated_at };
     } catch (error: any) {
       console.error('Error linking experiment:', error);
       toast.error('Failed to link experiment');
-      return false;
+      return null;
     }
   }, [user]);
 
@@ -168,6 +312,7 @@ export function useExperimentsPersistence() {
     saveExperiment,
     loadExperiments,
     updateExperimentStatus,
+    completeExperiment,
     linkExperimentToDecision,
     deleteExperiment,
     saving,
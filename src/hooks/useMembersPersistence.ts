@@ -0,0 +1,235 @@
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DECISIONS_QUERY_KEY } from '@/hooks/useDecisionPersistence';
+import { AggregationMethod, CriterionEvaluation, DecisionMember, MemberRole } from '@/types/decision';
+import { toast } from 'sonner';
+
+/** Postgres error codes raised by add_decision_member */
+const NO_ACCOUNT_ERROR = 'P0002';
+const ALREADY_OWNER_ERROR = '23505';
+const NOT_CREATOR_ERROR = '42501';
+
+function getErrorCode(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null && 'code' in error
+    ? String((error as { code: unknown }).code)
+    : undefined;
+}
+
+export function useMembersPersistence() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+
+  const loadMembers = useCallback(async (decisionId: string): Promise<DecisionMember[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase.rpc('get_decision_members', { target_decision_id: decisionId });
+
+      if (error) throw error;
+      return (data ?? []).map((m) => ({
+        userId: m.user_id,
+        email: m.email,
+        role: m.role as MemberRole,
+        isCreator: m.is_creator,
+        createdAt: m.created_at,
+      }));
+    } catch (error: unknown) {
+      console.error('Error loading members:', error);
+      toast.error('Failed to load members');
+      return [];
+    }
+  }, [user]);
+
+  const addMember = useCallback(async (
+    decisionId: string,
+    email: string,
+    role: MemberRole
+  ): Promise<DecisionMember | null> => {
+    if (!user) return null;
+
+    setSaving(true);
+    try {
+      // Accounts are looked up by email on the server, where the auth schema is visible
+      const { data, error } = await supabase.rpc('add_decision_member', {
+        target_decision_id: decisionId,
+        member_email: email,
+        member_role: role,
+      });
+
+      if (error) throw error;
+      toast.success(`Added ${email.trim()}`);
+      return {
+        userId: data.user_id,
+        email: email.trim(),
+        role: data.role as MemberRole,
+        isCreator: false,
+        createdAt: data.created_at,
+      };
+    } catch (error: unknown) {
+      console.error('Error adding member:', error);
+      const code = getErrorCode(error);
+      if (code === NO_ACCOUNT_ERROR) {
+        toast.error('No account uses that email — ask them to sign up first');
+      } else if (code === ALREADY_OWNER_ERROR) {
+        toast.error('That account already owns this decision');
+      } else if (code === NOT_CREATOR_ERROR) {
+        toast.error("Only the decision's creator can add or change owners");
+      } else {
+        toast.error('Failed to add member');
+      }
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const updateMemberRole = useCallback(async (
+    decisionId: string,
+    userId: string,
+    role: MemberRole
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('decision_members')
+        .update({ role })
+        .eq('decision_id', decisionId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      console.error('Error updating member role:', error);
+      toast.error('Failed to change role');
+      return false;
+    }
+  }, [user]);
+
+  const removeMember = useCallback(async (decisionId: string, userId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('decision_members')
+        .delete()
+        .eq('decision_id', decisionId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return true;
+    } catch (error: unknown) {
+      console.error('Error removing member:', error);
+      toast.error('Failed to remove member');
+      return false;
+    }
+  }, [user]);
+
+  /** Every member's submitted evaluations, keyed by user ID */
+  const loadMemberEvaluations = useCallback(async (decisionId: string): Promise<Record<string, CriterionEvaluation[]>> => {
+    if (!user) return {};
+
+    try {
+      const { data, error } = await supabase
+        .from('decision_member_evaluations')
+        .select('*')
+        .eq('decision_id', decisionId);
+
+      if (error) throw error;
+
+      const byMember: Record<string, CriterionEvaluation[]> = {};
+      (data ?? []).forEach((e) => {
+        byMember[e.user_id] = [...(byMember[e.user_id] ?? []), {
+          criterionId: e.criterion_id,
+          supportsDecision: e.supports_decision,
+          strength: Number(e.strength),
+          confidence: Number(e.confidence),
+        }];
+      });
+      return byMember;
+    } catch (error: unknown) {
+      console.error('Error loading member evaluations:', error);
+      toast.error('Failed to load the group\'s evaluations');
+      return {};
+    }
+  }, [user]);
+
+  /** Replaces the current user's own evaluations */
+  const saveMemberEvaluations = useCallback(async (
+    decisionId: string,
+    evaluations: CriterionEvaluation[]
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    setSaving(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('decision_member_evaluations')
+        .delete()
+        .eq('decision_id', decisionId)
+        .eq('user_id', user.id);
+
+      if (deleteError) throw deleteError;
+
+      if (evaluations.length > 0) {
+        const { error: insertError } = await supabase
+          .from('decision_member_evaluations')
+          .insert(evaluations.map(evaluation => ({
+            decision_id: decisionId,
+            user_id: user.id,
+            criterion_id: evaluation.criterionId,
+            supports_decision: evaluation.supportsDecision,
+            strength: evaluation.strength,
+            confidence: evaluation.confidence,
+          })));
+
+        if (insertError) throw insertError;
+      }
+
+      toast.success('Your evaluation was saved');
+      return true;
+    } catch (error: unknown) {
+      console.error('Error saving member evaluations:', error);
+      toast.error('Failed to save your evaluation');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const saveAggregationMethod = useCallback(async (
+    decisionId: string,
+    method: AggregationMethod
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('decisions')
+        .update({ aggregation_method: method })
+        .eq('id', decisionId);
+
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
+      return true;
+    } catch (error: unknown) {
+      console.error('Error saving aggregation method:', error);
+      toast.error('Failed to change how opinions are combined');
+      return false;
+    }
+  }, [user, queryClient]);
+
+  return {
+    loadMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    loadMemberEvaluations,
+    saveMemberEvaluations,
+    saveAggregationMethod,
+    saving,
+  };
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DECISIONS_QUERY_KEY, toDecisionDocument } from '@/hooks/useDecisionPersistence';
+import { loadDraft, loadQueue, saveDraft, saveQueue } from '@/lib/offlineStore';
+import { QueuedOperation, getOperationTarget, hasSyncConflict, isNetworkError } from '@/lib/syncQueue';
+import { toast } from 'sonner';
+
+// A conflict carries the server's updated_at, or null when the row is gone
+type ReplayOutcome = { status: 'synced' } | { status: 'conflict'; serverUpdatedAt: string | null };
+
+/** Identifies an operation across reloads of the queue */
+function operationKey(operation: QueuedOperation): string {
+  return `${operation.kind}:${getOperationTarget(operation) ?? 'new'}:${operation.queuedAt}`;
+}
+
+async function replayOperation(operation: QueuedOperation): Promise<ReplayOutcome> {
+  if (operation.kind === 'experimentStatus') {
+    const { data, error } = await supabase
+      .from('experiments')
+      .select('updated_at')
+      .eq('id', operation.experimentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    // Deleted elsewhere; there is nothing left to update
+    if (!data) return { status: 'synced' };
+    if (hasSyncConflict(operation, data.updated_at)) return { status: 'conflict', serverUpdatedAt: data.updated_at };
+
+    const { error: updateError } = await supabase
+      .from('experiments')
+      .update({ status: operation.status })
+      .eq('id', operation.experimentId);
+
+    if (updateError) throw updateError;
+    return { status: 'synced' };
+  }
+
+  if (operation.decisionId) {
+    const { data, error } = await supabase
+      .from('decisions')
+      .select('updated_at')
+      .eq('id', operation.decisionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { status: 'conflict', serverUpdatedAt: null };
+    if (hasSyncConflict(operation, data.updated_at)) return { status: 'conflict', serverUpdatedAt: data.updated_at };
+  }
+
+  const { error } = await supabase.rpc('save_decision', {
+    document: toDecisionDocument(operation.state, operation.winPercentage),
+    target_decision_id: operation.decisionId ?? undefined,
+  });
+
+  if (error) throw error;
+  return { status: 'synced' };
+}
+
+/**
+ * Replays changes queued while offline, on load and whenever the browser reconnects.
+ * Changes to rows edited elsewhere in the meantime are not applied; a conflicting
+ * decision comes back as the unfinished draft so the work isn't lost.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const syncing = useRef(false);
+
+  const replay = useCallback(async () => {
+    if (!user || syncing.current || navigator.onLine === false) return;
+
+    syncing.current = true;
+    try {
+      const queue = await loadQueue(user.id);
+      if (queue.length === 0) return;
+
+      const done = new Set<string>();
+      let synced = 0;
+      for (const operation of queue) {
+        try {
+          const outcome = await replayOperation(operation);
+          done.add(operationKey(operation));
+
+          if (outcome.status === 'synced') {
+            synced++;
+          } else if (operation.kind === 'saveDecision') {
+            const exists = outcome.serverUpdatedAt !== null;
+            toast.warning(`"${operation.state.decision}" was ${exists ? 'changed' : 'deleted'} elsewhere while you were offline`, {
+              description: 'Your offline edit was not applied. Resume it from the home page to review it.',
+            });
+            if (!(await loadDraft(user.id))) {
+              // The draft now builds on the version the user was just warned about, so saving it
+              // again is checked against that; a decision deleted elsewhere comes back as a new one
+              await saveDraft({
+                userId: user.id,
+                state: operation.state,
+                step: 'payoffs',
+                editingDecisionId: exists ? operation.decisionId : null,
+                editingDecisionUpdatedAt: outcome.serverUpdatedAt,
+                savedAt: operation.queuedAt,
+              });
+            }
+          } else {
+            toast.warning('An experiment was changed elsewhere while you were offline', {
+              description: 'Your offline status change was not applied.',
+            });
+          }
+        } catch (error: unknown) {
+          // Still unreachable: keep this and everything after it for the next reconnect
+          if (isNetworkError(error)) break;
+          console.error('Error syncing offline change:', error);
+          toast.error('An offline change could not be saved');
+          done.add(operationKey(operation));
+        }
+      }
+
+      // Reload rather than reuse the queue, in case changes were queued while replaying
+      const remaining = (await loadQueue(user.id)).filter(op => !done.has(operationKey(op)));
+      await saveQueue(user.id, remaining);
+
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: DECISIONS_QUERY_KEY });
+        toast.success(`Synced ${synced} offline ${synced === 1 ? 'change' : 'changes'}`);
+      }
+    } catch (error: unknown) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      syncing.current = false;
+    }
+  }, [user, queryClient]);
+
+  useEffect(() => {
+    replay();
+    window.addEventListener('online', replay);
+    return () => window.removeEventListener('online', replay);
+  }, [replay]);
+}
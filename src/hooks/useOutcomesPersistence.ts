@@ -0,0 +1,116 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DecisionOutcome, DecisionResolution } from '@/types/decision';
+import { toast } from 'sonner';
+
+export function useOutcomesPersistence() {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const resolveDecision = useCallback(async (
+    resolution: {
+      decisionId: string;
+      outcome: DecisionOutcome;
+      resolvedAt: string;
+      notes?: string;
+      forecast: number | null;
+    }
+  ): Promise<DecisionResolution | null> => {
+    if (!user) {
+      toast.error('Please sign in to record outcomes');
+      return null;
+    }
+
+    setSaving(true);
+    try {
+      // One outcome per decision: re-resolving overwrites the previous record
+      const { data, error } = await supabase
+        .from('decision_outcomes')
+        .upsert({
+          user_id: user.id,
+          decision_id: resolution.decisionId,
+          outcome: resolution.outcome,
+          resolved_at: resolution.resolvedAt,
+          notes: resolution.notes || null,
+          forecast: resolution.forecast,
+        }, { onConflict: 'decision_id' })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      toast.success('Outcome recorded');
+      return {
+        id: data.id,
+        decisionId: data.decision_id,
+        outcome: data.outcome as DecisionOutcome,
+        resolvedAt: data.resolved_at,
+        notes: data.notes,
+        forecast: data.forecast,
+      };
+    } catch (error: unknown) {
+      console.error('Error recording outcome:', error);
+      toast.error('Failed to record outcome');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const loadOutcomes = useCallback(async (): Promise<DecisionResolution[]> => {
+    if (!user) return [];
+
+    setLoading(true);
+    try {
+      const { data: outcomes, error } = await supabase
+        .from('decision_outcomes')
+        .select('*')
+        .order('resolved_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (outcomes ?? []).map((o) => ({
+        id: o.id,
+        decisionId: o.decision_id,
+        outcome: o.outcome as DecisionOutcome,
+        resolvedAt: o.resolved_at,
+        notes: o.notes,
+        forecast: o.forecast,
+      }));
+    } catch (error: unknown) {
+      console.error('Error loading outcomes:', error);
+      toast.error('Failed to load outcomes');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const deleteOutcome = useCallback(async (outcomeId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('decision_outcomes')
+        .delete()
+        .eq('id', outcomeId);
+
+      if (error) throw error;
+      toast.success('Outcome cleared');
+      return true;
+    } catch (error: unknown) {
+      console.error('Error deleting outcome:', error);
+      toast.error('Failed to clear outcome');
+      return false;
+    }
+  }, [user]);
+
+  return {
+    resolveDecision,
+    loadOutcomes,
+    deleteOutcome,
+    saving,
+    loading,
+  };
+}
@@ -0,0 +1,155 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DecisionShare } from '@/types/decision';
+import { DecisionSnapshot } from '@/hooks/useDecisionPersistence';
+import { toast } from 'sonner';
+
+/** What a share link exposes: the decision's latest revision, nothing about its owner */
+export interface SharedDecision {
+  decision: string;
+  initialConfidence: number;
+  seed: number | null;
+  snapshot: DecisionSnapshot;
+  revisionCreatedAt: string;
+  expiresAt: string | null;
+}
+
+type ShareRow = {
+  id: string;
+  decision_id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+function toShare(row: ShareRow): DecisionShare {
+  return {
+    id: row.id,
+    decisionId: row.decision_id,
+    token: row.token,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export function useSharesPersistence() {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const createShare = useCallback(async (
+    decisionId: string,
+    expiresAt: string | null
+  ): Promise<DecisionShare | null> => {
+    if (!user) {
+      toast.error('Please sign in to share decisions');
+      return null;
+    }
+
+    setSaving(true);
+    try {
+      // The token is generated by the database so it never depends on client randomness
+      const { data, error } = await supabase
+        .from('decision_shares')
+        .insert({ decision_id: decisionId, expires_at: expiresAt })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return toShare(data);
+    } catch (error: unknown) {
+      console.error('Error creating share link:', error);
+      toast.error('Failed to create share link');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const loadShares = useCallback(async (decisionId: string): Promise<DecisionShare[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('decision_shares')
+        .select('*')
+        .eq('decision_id', decisionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []).map(toShare);
+    } catch (error: unknown) {
+      console.error('Error loading share links:', error);
+      toast.error('Failed to load share links');
+      return [];
+    }
+  }, [user]);
+
+  const revokeShare = useCallback(async (shareId: string): Promise<DecisionShare | null> => {
+    if (!user) return null;
+
+    try {
+      // Revoked rather than deleted, so the owner can still see which links went out
+      const { data, error } = await supabase
+        .from('decision_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', shareId)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      toast.success('Link revoked');
+      return toShare(data);
+    } catch (error: unknown) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke link');
+      return null;
+    }
+  }, [user]);
+
+  /** Works signed out: the RPC checks the token instead of RLS */
+  const loadSharedDecision = useCallback(async (token: string): Promise<SharedDecision | null> => {
+    const { data, error } = await supabase.rpc('get_shared_decision', { share_token: token });
+
+    if (error) {
+      console.error('Error loading shared decision:', error);
+      return null;
+    }
+
+    const row = data?.[0];
+    if (!row) return null;
+
+    const snapshot = (row.snapshot ?? {}) as unknown as Partial<DecisionSnapshot>;
+    return {
+      decision: row.decision,
+      initialConfidence: Number(row.initial_confidence),
+      seed: row.seed !== null ? Number(row.seed) : null,
+      snapshot: {
+        criteria: snapshot.criteria ?? [],
+        correlationGroups: snapshot.correlationGroups ?? [],
+        pairwiseJudgments: snapshot.pairwiseJudgments ?? [],
+        evaluations: snapshot.evaluations ?? [],
+        evidence: snapshot.evidence ?? [],
+        options: snapshot.options ?? [],
+        optionScores: snapshot.optionScores ?? [],
+        payoffs: snapshot.payoffs ?? [],
+      },
+      revisionCreatedAt: row.revision_created_at,
+      expiresAt: row.expires_at,
+    };
+  }, []);
+
+  return {
+    createShare,
+    loadShares,
+    revokeShare,
+    loadSharedDecision,
+    saving,
+  };
+}
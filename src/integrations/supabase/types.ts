@@ -23,6 +23,7 @@ export type Database = {
           importance: number
           is_ai_suggested: boolean | null
           name: string
+          parent_id: string | null
         }
         Insert: {
           created_at?: string
@@ -32,6 +33,7 @@ export type Database = {
           importance?: number
           is_ai_suggested?: boolean | null
           name: string
+          parent_id?: string | null
         }
         Update: {
           created_at?: string
@@ -41,6 +43,7 @@ export type Database = {
           importance?: number
           is_ai_suggested?: boolean | null
           name?: string
+          parent_id?: string | null
         }
         Relationships: [
           {
@@ -50,6 +53,176 @@ export type Database = {
             referencedRelation: "decisions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "decision_criteria_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_correlation_groups: {
+        Row: {
+          correlation_factor: number
+          created_at: string
+          criterion_ids: string[]
+          decision_id: string
+          id: string
+          is_ai_suggested: boolean | null
+          reason: string | null
+        }
+        Insert: {
+          correlation_factor: number
+          created_at?: string
+          criterion_ids: string[]
+          decision_id: string
+          id?: string
+          is_ai_suggested?: boolean | null
+          reason?: string | null
+        }
+        Update: {
+          correlation_factor?: number
+          created_at?: string
+          criterion_ids?: string[]
+          decision_id?: string
+          id?: string
+          is_ai_suggested?: boolean | null
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_correlation_groups_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_delphi_responses: {
+        Row: {
+          confidence: number
+          created_at: string
+          criterion_id: string
+          decision_id: string
+          id: string
+          rationale: string
+          round_id: string
+          strength: number
+          supports_decision: boolean
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          criterion_id: string
+          decision_id: string
+          id?: string
+          rationale?: string
+          round_id: string
+          strength: number
+          supports_decision: boolean
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          criterion_id?: string
+          decision_id?: string
+          id?: string
+          rationale?: string
+          round_id?: string
+          strength?: number
+          supports_decision?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_delphi_responses_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_delphi_responses_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_delphi_responses_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: false
+            referencedRelation: "decision_delphi_rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_delphi_round_salts: {
+        Row: {
+          round_id: string
+          salt: string
+        }
+        Insert: {
+          round_id: string
+          salt?: string
+        }
+        Update: {
+          round_id?: string
+          salt?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_delphi_round_salts_round_id_fkey"
+            columns: ["round_id"]
+            isOneToOne: true
+            referencedRelation: "decision_delphi_rounds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_delphi_rounds: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          decision_id: string
+          id: string
+          round_number: number
+          status: string
+          stop_reason: string | null
+          summary: Json | null
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          decision_id: string
+          id?: string
+          round_number: number
+          status?: string
+          stop_reason?: string | null
+          summary?: Json | null
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          decision_id?: string
+          id?: string
+          round_number?: number
+          status?: string
+          stop_reason?: string | null
+          summary?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_delphi_rounds_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       decision_evaluations: {
@@ -97,48 +270,503 @@ export type Database = {
           },
         ]
       }
+      decision_evidence: {
+        Row: {
+          created_at: string
+          decision_id: string
+          description: string | null
+          id: string
+          label: string
+          position: number
+          type: string
+          value: number
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          description?: string | null
+          id?: string
+          label: string
+          position?: number
+          type: string
+          value: number
+          weight: number
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          description?: string | null
+          id?: string
+          label?: string
+          position?: number
+          type?: string
+          value?: number
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_evidence_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_member_evaluations: {
+        Row: {
+          confidence: number
+          created_at: string
+          criterion_id: string
+          decision_id: string
+          id: string
+          strength: number
+          supports_decision: boolean
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          criterion_id: string
+          decision_id: string
+          id?: string
+          strength: number
+          supports_decision: boolean
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          criterion_id?: string
+          decision_id?: string
+          id?: string
+          strength?: number
+          supports_decision?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_member_evaluations_criterion_id_fkey"
+            columns: ["criterion_id", "decision_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id", "decision_id"]
+          },
+          {
+            foreignKeyName: "decision_member_evaluations_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_members: {
+        Row: {
+          created_at: string
+          decision_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_members_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_option_scores: {
+        Row: {
+          confidence: number
+          created_at: string
+          criterion_id: string
+          decision_id: string
+          id: string
+          option_id: string
+          score: number
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          criterion_id: string
+          decision_id: string
+          id?: string
+          option_id: string
+          score: number
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          criterion_id?: string
+          decision_id?: string
+          id?: string
+          option_id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_option_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_option_scores_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_option_scores_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "decision_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_options: {
+        Row: {
+          created_at: string
+          decision_id: string
+          description: string | null
+          id: string
+          name: string
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          description?: string | null
+          id?: string
+          name: string
+          position?: number
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          description?: string | null
+          id?: string
+          name?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_options_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_outcomes: {
+        Row: {
+          created_at: string
+          decision_id: string
+          forecast: number | null
+          id: string
+          notes: string | null
+          outcome: string
+          resolved_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          forecast?: number | null
+          id?: string
+          notes?: string | null
+          outcome: string
+          resolved_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          forecast?: number | null
+          id?: string
+          notes?: string | null
+          outcome?: string
+          resolved_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_outcomes_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: true
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_pairwise_judgments: {
+        Row: {
+          compared_to_id: string
+          created_at: string
+          criterion_id: string
+          decision_id: string
+          id: string
+          value: number
+        }
+        Insert: {
+          compared_to_id: string
+          created_at?: string
+          criterion_id: string
+          decision_id: string
+          id?: string
+          value: number
+        }
+        Update: {
+          compared_to_id?: string
+          created_at?: string
+          criterion_id?: string
+          decision_id?: string
+          id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_pairwise_judgments_compared_to_id_fkey"
+            columns: ["compared_to_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_pairwise_judgments_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_pairwise_judgments_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_payoffs: {
+        Row: {
+          created_at: string
+          decision_id: string
+          id: string
+          likely_value: number
+          max_value: number
+          min_value: number
+          option_id: string | null
+          outcome: string
+          shape: string
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          id?: string
+          likely_value: number
+          max_value: number
+          min_value: number
+          option_id?: string | null
+          outcome: string
+          shape: string
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          id?: string
+          likely_value?: number
+          max_value?: number
+          min_value?: number
+          option_id?: string | null
+          outcome?: string
+          shape?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_payoffs_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "decision_payoffs_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "decision_options"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_revisions: {
+        Row: {
+          created_at: string
+          credible_interval_high: number | null
+          credible_interval_low: number | null
+          decision: string
+          decision_id: string
+          id: string
+          initial_confidence: number
+          posterior_probability: number | null
+          revision_number: number
+          seed: number | null
+          snapshot: Json
+          win_percentage: number | null
+        }
+        Insert: {
+          created_at?: string
+          credible_interval_high?: number | null
+          credible_interval_low?: number | null
+          decision: string
+          decision_id: string
+          id?: string
+          initial_confidence: number
+          posterior_probability?: number | null
+          revision_number: number
+          seed?: number | null
+          snapshot?: Json
+          win_percentage?: number | null
+        }
+        Update: {
+          created_at?: string
+          credible_interval_high?: number | null
+          credible_interval_low?: number | null
+          decision?: string
+          decision_id?: string
+          id?: string
+          initial_confidence?: number
+          posterior_probability?: number | null
+          revision_number?: number
+          seed?: number | null
+          snapshot?: Json
+          win_percentage?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_revisions_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      decision_shares: {
+        Row: {
+          created_at: string
+          decision_id: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "decision_shares_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: false
+            referencedRelation: "decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       decisions: {
         Row: {
+          aggregation_method: string
           created_at: string
           credible_interval_high: number | null
           credible_interval_low: number | null
           decision: string
+          delphi_iqr_threshold: number
+          delphi_max_rounds: number
           effective_sample_size: number | null
           geweke_z_score: number | null
           id: string
           initial_confidence: number
           mc_error: number | null
           posterior_probability: number | null
+          seed: number | null
           updated_at: string
           user_id: string
           win_percentage: number | null
         }
         Insert: {
+          aggregation_method?: string
           created_at?: string
           credible_interval_high?: number | null
           credible_interval_low?: number | null
           decision: string
+          delphi_iqr_threshold?: number
+          delphi_max_rounds?: number
           effective_sample_size?: number | null
           geweke_z_score?: number | null
           id?: string
           initial_confidence?: number
           mc_error?: number | null
           posterior_probability?: number | null
+          seed?: number | null
           updated_at?: string
           user_id: string
           win_percentage?: number | null
         }
         Update: {
+          aggregation_method?: string
           created_at?: string
           credible_interval_high?: number | null
           credible_interval_low?: number | null
           decision?: string
+          delphi_iqr_threshold?: number
+          delphi_max_rounds?: number
           effective_sample_size?: number | null
           geweke_z_score?: number | null
           id?: string
           initial_confidence?: number
           mc_error?: number | null
           posterior_probability?: number | null
+          seed?: number | null
           updated_at?: string
           user_id?: string
           win_percentage?: number | null
@@ -147,11 +775,19 @@ export type Database = {
       }
       experiments: {
         Row: {
+          completed_at: string | null
           created_at: string
           decision_id: string | null
           description: string | null
           difficulty: string | null
           id: string
+          posterior_after: number | null
+          posterior_before: number | null
+          result_conclusiveness: number | null
+          result_criterion_id: string | null
+          result_direction: string | null
+          result_notes: string | null
+          result_option_id: string | null
           status: string
           target_criterion: string | null
           time_estimate: string | null
@@ -160,11 +796,19 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          completed_at?: string | null
           created_at?: string
           decision_id?: string | null
           description?: string | null
           difficulty?: string | null
           id?: string
+          posterior_after?: number | null
+          posterior_before?: number | null
+          result_conclusiveness?: number | null
+          result_criterion_id?: string | null
+          result_direction?: string | null
+          result_notes?: string | null
+          result_option_id?: string | null
           status?: string
           target_criterion?: string | null
           time_estimate?: string | null
@@ -173,11 +817,19 @@ export type Database = {
           user_id: string
         }
         Update: {
+          completed_at?: string | null
           created_at?: string
           decision_id?: string | null
           description?: string | null
           difficulty?: string | null
           id?: string
+          posterior_after?: number | null
+          posterior_before?: number | null
+          result_conclusiveness?: number | null
+          result_criterion_id?: string | null
+          result_direction?: string | null
+          result_notes?: string | null
+          result_option_id?: string | null
           status?: string
           target_criterion?: string | null
           time_estimate?: string | null
@@ -193,6 +845,20 @@ export type Database = {
             referencedRelation: "decisions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "experiments_result_criterion_id_fkey"
+            columns: ["result_criterion_id"]
+            isOneToOne: false
+            referencedRelation: "decision_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "experiments_result_option_id_fkey"
+            columns: ["result_option_id"]
+            isOneToOne: false
+            referencedRelation: "decision_options"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -200,7 +866,86 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_decision_member: {
+        Args: {
+          member_email: string
+          member_role: string
+          target_decision_id: string
+        }
+        Returns: {
+          created_at: string
+          decision_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+      }
+      complete_experiment: {
+        Args: {
+          decision_document?: Json
+          posterior_after?: number
+          posterior_before?: number
+          result: Json
+          target_experiment_id: string
+        }
+        Returns: Json
+      }
+      get_decision_members: {
+        Args: { target_decision_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          is_creator: boolean
+          role: string
+          user_id: string
+        }[]
+      }
+      get_delphi_responses: {
+        Args: { target_round_id: string }
+        Returns: {
+          confidence: number
+          criterion_id: string
+          rationale: string
+          respondent: number
+          strength: number
+          supports_decision: boolean
+        }[]
+      }
+      get_shared_decision: {
+        Args: { share_token: string }
+        Returns: {
+          credible_interval_high: number | null
+          credible_interval_low: number | null
+          decision: string
+          expires_at: string | null
+          initial_confidence: number
+          posterior_probability: number | null
+          revision_created_at: string
+          seed: number | null
+          snapshot: Json
+          win_percentage: number | null
+        }[]
+      }
+      has_decision_role: {
+        Args: { allowed_roles: string[]; target_decision_id: string }
+        Returns: boolean
+      }
+      is_decision_creator: {
+        Args: { target_decision_id: string }
+        Returns: boolean
+      }
+      resolve_client_id: {
+        Args: {
+          client_id: string
+          target_decision_id: string
+          target_table: unknown
+        }
+        Returns: string
+      }
+      save_decision: {
+        Args: { document: Json; target_decision_id?: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Criterion, PairwiseJudgment } from '@/types/decision';
+import {
+  CONSISTENCY_THRESHOLD,
+  analyzePairwiseJudgments,
+  applyPairwiseWeights,
+  buildComparisonMatrix,
+  prunePairwiseJudgments,
+} from '@/lib/ahp';
+
+const IDS = ['a', 'b', 'c'];
+
+const judge = (criterionId: string, comparedToId: string, value: number): PairwiseJudgment =>
+  ({ criterionId, comparedToId, value });
+
+describe('buildComparisonMatrix', () => {
+  it('fills in reciprocals and treats unanswered pairs as equal', () => {
+    const matrix = buildComparisonMatrix(IDS, [judge('a', 'b', 3), judge('c', 'a', 2)]);
+
+    expect(matrix[0][1]).toBe(3);
+    expect(matrix[1][0]).toBeCloseTo(1 / 3);
+    expect(matrix[0][2]).toBeCloseTo(0.5);
+    expect(matrix[1][2]).toBe(1);
+    expect(matrix.map((row, i) => row[i])).toEqual([1, 1, 1]);
+  });
+});
+
+describe('analyzePairwiseJudgments', () => {
+  it('recovers the weights behind perfectly consistent answers', () => {
+    // a = 2b, b = 3c, so a = 6c: weights 6 : 3 : 1
+    const result = analyzePairwiseJudgments(IDS, [judge('a', 'b', 2), judge('b', 'c', 3), judge('a', 'c', 6)]);
+
+    expect(result.weights[0]).toBeCloseTo(0.6, 6);
+    expect(result.weights[1]).toBeCloseTo(0.3, 6);
+    expect(result.weights[2]).toBeCloseTo(0.1, 6);
+    expect(result.lambdaMax).toBeCloseTo(3, 6);
+    expect(result.consistencyRatio).toBeCloseTo(0, 6);
+    expect(result.isConsistent).toBe(true);
+    expect(result.mostInconsistent).toBeNull();
+  });
+
+  it('flags contradictory answers and the judgment behind them', () => {
+    // a beats b, b beats c, yet c strongly beats a
+    const result = analyzePairwiseJudgments(IDS, [judge('a', 'b', 5), judge('b', 'c', 5), judge('c', 'a', 5)]);
+
+    expect(result.consistencyRatio).toBeGreaterThan(CONSISTENCY_THRESHOLD);
+    expect(result.isConsistent).toBe(false);
+    expect(result.mostInconsistent).not.toBeNull();
+  });
+
+  it('returns positive weights summing to 1 for any answers', () => {
+    const saaty = fc.integer({ min: -8, max: 8 }).map(p => (p >= 0 ? p + 1 : 1 / (1 - p)));
+    fc.assert(
+      fc.property(saaty, saaty, saaty, (ab, bc, ac) => {
+        const { weights, consistencyRatio } = analyzePairwiseJudgments(IDS, [
+          judge('a', 'b', ab),
+          judge('b', 'c', bc),
+          judge('a', 'c', ac),
+        ]);
+        expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 9);
+        weights.forEach(w => expect(w).toBeGreaterThan(0));
+        expect(consistencyRatio).toBeGreaterThanOrEqual(0);
+      })
+    );
+  });
+});
+
+describe('applyPairwiseWeights', () => {
+  const criteria: Criterion[] = [
+    { id: 'pay', name: 'Pay', importance: 50 },
+    { id: 'growth', name: 'Growth', importance: 50 },
+    { id: 'base', name: 'Base', importance: 50, parentId: 'pay' },
+    { id: 'equity', name: 'Equity', importance: 50, parentId: 'pay' },
+  ];
+
+  it('weighs each level separately, scaling the most important sibling to 100', () => {
+    const weighted = applyPairwiseWeights(criteria, [judge('pay', 'growth', 4), judge('equity', 'base', 2)]);
+    const importance = Object.fromEntries(weighted.map(c => [c.id, c.importance]));
+
+    expect(importance).toEqual({ pay: 100, growth: 25, base: 50, equity: 100 });
+  });
+
+  it('drops judgments between criteria that are no longer siblings', () => {
+    const judgments = [judge('pay', 'growth', 4), judge('pay', 'base', 2), judge('base', 'gone', 3)];
+
+    expect(prunePairwiseJudgments(criteria, judgments)).toEqual([judge('pay', 'growth', 4)]);
+  });
+});
@@ -0,0 +1,173 @@
+import { Criterion, PairwiseJudgment } from '@/types/decision';
+import { getChildCriteria } from '@/lib/criteriaTree';
+
+// ============================================================================
+// CONFIGURATION CONSTANTS
+// ============================================================================
+
+/** Judgments are made on Saaty's 1-9 scale (and its reciprocals) */
+export const MAX_JUDGMENT = 9;
+
+/** Above this consistency ratio the answers contradict each other too much to trust */
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+/**
+ * Saaty's random consistency index: the average consistency index of random
+ * reciprocal matrices, by matrix size. Matrices of size 1 and 2 are always consistent.
+ */
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+const MAX_POWER_ITERATIONS = 100;
+const POWER_ITERATION_TOLERANCE = 1e-10;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AhpResult {
+  weights: number[]; // Same order as the criteria, summing to 1
+  lambdaMax: number; // Principal eigenvalue
+  consistencyRatio: number; // 0 = perfectly consistent
+  isConsistent: boolean;
+  mostInconsistent: PairwiseJudgment | null; // The answer furthest from what the weights imply
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+/**
+ * Builds the reciprocal comparison matrix: entry [i][j] says how many times
+ * more important criterion i is than j. Unanswered pairs count as equal.
+ */
+export function buildComparisonMatrix(ids: string[], judgments: PairwiseJudgment[]): number[][] {
+  return ids.map((rowId, i) => ids.map((colId, j) => {
+    if (i === j) return 1;
+    const direct = judgments.find(p => p.criterionId === rowId && p.comparedToId === colId);
+    if (direct) return direct.value;
+    const reverse = judgments.find(p => p.criterionId === colId && p.comparedToId === rowId);
+    return reverse ? 1 / reverse.value : 1;
+  }));
+}
+
+/**
+ * Principal eigenvector by power iteration, normalized to sum to 1.
+ * Positive reciprocal matrices have a unique positive principal eigenvector
+ * (Perron-Frobenius), so starting from equal weights always converges.
+ */
+function computePrincipalEigenvector(matrix: number[][]): { weights: number[]; lambdaMax: number } {
+  const n = matrix.length;
+  let weights = new Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < MAX_POWER_ITERATIONS; iteration++) {
+    const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+    const total = product.reduce((sum, value) => sum + value, 0);
+    const next = product.map(value => value / total);
+    const change = Math.max(...next.map((value, i) => Math.abs(value - weights[i])));
+    weights = next;
+    if (change < POWER_ITERATION_TOLERANCE) break;
+  }
+
+  // λmax = average of (A·w)_i / w_i
+  const lambdaMax = matrix.reduce((sum, row, i) =>
+    sum + row.reduce((rowSum, value, j) => rowSum + value * weights[j], 0) / weights[i], 0) / n;
+
+  return { weights, lambdaMax };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Derives criterion weights from pairwise judgments (Analytic Hierarchy Process).
+ *
+ * Consistency index CI = (λmax − n) / (n − 1) measures how far the answers are
+ * from a perfectly consistent set (where A = 2×B and B = 3×C imply A = 6×C).
+ * The consistency ratio CR = CI / RI compares it with random answers.
+ */
+export function analyzePairwiseJudgments(ids: string[], judgments: PairwiseJudgment[]): AhpResult {
+  const n = ids.length;
+  if (n === 0) {
+    return { weights: [], lambdaMax: 0, consistencyRatio: 0, isConsistent: true, mostInconsistent: null };
+  }
+
+  const matrix = buildComparisonMatrix(ids, judgments);
+  const { weights, lambdaMax } = computePrincipalEigenvector(matrix);
+
+  const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+  const consistencyIndex = n > 2 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const consistencyRatio = randomIndex > 0 ? consistencyIndex / randomIndex : 0;
+
+  // The answer whose ratio strays furthest (on a log scale) from what the weights imply
+  let mostInconsistent: PairwiseJudgment | null = null;
+  let worstError = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const error = Math.abs(Math.log(matrix[i][j]) - Math.log(weights[i] / weights[j]));
+      if (error > worstError) {
+        worstError = error;
+        mostInconsistent = { criterionId: ids[i], comparedToId: ids[j], value: matrix[i][j] };
+      }
+    }
+  }
+
+  const isConsistent = consistencyRatio <= CONSISTENCY_THRESHOLD;
+  return {
+    weights,
+    lambdaMax,
+    consistencyRatio,
+    isConsistent,
+    mostInconsistent: isConsistent ? null : mostInconsistent,
+  };
+}
+
+/**
+ * Turns AHP weights into importance (1-100). The most important criterion
+ * gets 100 and the rest keep their ratios to it, which is what the engine
+ * and the normalization within each level of the hierarchy read.
+ */
+export function weightsToImportance(weights: number[]): number[] {
+  const max = Math.max(...weights);
+  return weights.map(w => (max > 0 ? Math.max(1, Math.round(w / max * 100)) : 50));
+}
+
+// ============================================================================
+// HIERARCHY
+// ============================================================================
+
+/**
+ * The sets of criteria compared with each other: the top level, then the
+ * sub-criteria of each parent. Sets of one have nothing to compare.
+ */
+export function getComparisonGroups(criteria: Criterion[]): Criterion[][] {
+  return [null, ...criteria.map(c => c.id)]
+    .map(parentId => getChildCriteria(criteria, parentId))
+    .filter(siblings => siblings.length >= 2);
+}
+
+/** Judgments between criteria that are still siblings (criteria may have been removed or moved) */
+export function prunePairwiseJudgments(criteria: Criterion[], judgments: PairwiseJudgment[]): PairwiseJudgment[] {
+  const groups = getComparisonGroups(criteria).map(siblings => siblings.map(c => c.id));
+  return judgments.filter(j =>
+    j.criterionId !== j.comparedToId &&
+    groups.some(ids => ids.includes(j.criterionId) && ids.includes(j.comparedToId))
+  );
+}
+
+/**
+ * Sets every criterion's importance from the judgments among its siblings.
+ * Unanswered pairs count as equal, so a new criterion starts level with the rest.
+ */
+export function applyPairwiseWeights(criteria: Criterion[], judgments: PairwiseJudgment[]): Criterion[] {
+  const importance = new Map<string, number>();
+  getComparisonGroups(criteria).forEach(siblings => {
+    const ids = siblings.map(c => c.id);
+    const groupImportance = weightsToImportance(analyzePairwiseJudgments(ids, judgments).weights);
+    ids.forEach((id, index) => importance.set(id, groupImportance[index]));
+  });
+  return criteria.map(criterion => {
+    const derived = importance.get(criterion.id);
+    return derived === undefined ? criterion : { ...criterion, importance: derived };
+  });
+}
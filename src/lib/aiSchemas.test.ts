@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  criteriaOverlapSchema,
+  criterionFactsSchema,
+  describeIssues,
+  experimentSuggestionsSchema,
+  parseAIResponse,
+} from '@/lib/aiSchemas';
+
+const experiment = {
+  title: 'Price out the first month',
+  description: 'List every cost of the first month and check the biggest against real quotes.',
+  targetCriterion: 'Financial impact',
+  timeEstimate: '2 hours',
+  difficulty: 'easy',
+};
+
+describe('parseAIResponse', () => {
+  it('returns the validated data, trimmed', () => {
+    const parsed = parseAIResponse(experimentSuggestionsSchema, {
+      experiments: [{ ...experiment, title: '  Price out the first month ' }],
+    });
+    expect(parsed.experiments[0].title).toBe('Price out the first month');
+  });
+
+  it('rejects a difficulty the experiments table would refuse', () => {
+    expect(() => parseAIResponse(experimentSuggestionsSchema, {
+      experiments: [{ ...experiment, difficulty: 'trivial' }],
+    })).toThrow(/experiments\.0\.difficulty/);
+  });
+
+  it('rejects a reply that is not an object at all', () => {
+    expect(() => parseAIResponse(criterionFactsSchema, '<html>Bad gateway</html>')).toThrow(/Unexpected AI response/);
+  });
+});
+
+describe('describeIssues', () => {
+  it('names each field that was wrong so the model can fix it', () => {
+    const result = criteriaOverlapSchema.safeParse({
+      groups: [{ criteria: ['Salary'], correlationFactor: 1.4, reason: 'Both are about money' }],
+    });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+
+    const issues = describeIssues(result.error);
+    expect(issues).toContain('groups.0.criteria');
+    expect(issues).toContain('groups.0.correlationFactor');
+  });
+});
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { describeIssues } from '../../supabase/functions/_shared/aiSchemas.ts';
+
+// The edge functions validate with the same schemas; see supabase/functions/_shared/aiSchemas.ts
+export {
+  criterionSuggestionsSchema,
+  criterionFactsSchema,
+  experimentSuggestionsSchema,
+  criteriaOverlapSchema,
+  describeIssues,
+} from '../../supabase/functions/_shared/aiSchemas.ts';
+export type {
+  CriterionSuggestions,
+  CriterionFacts,
+  ExperimentSuggestions,
+  CriteriaOverlap,
+} from '../../supabase/functions/_shared/aiSchemas.ts';
+
+/**
+ * An edge function's response checked against its schema, so a deployment running an
+ * older function (or a proxy's error page) fails loudly instead of rendering garbage.
+ */
+export function parseAIResponse<T>(schema: z.ZodType<T>, data: unknown): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Unexpected AI response: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,837 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Criterion, CriterionEvaluation, DecisionOption, EvidenceItem, OptionScore, OutcomePayoff } from '@/types/decision';
+import {
+  DEFAULT_PRIOR_CONCENTRATION,
+  EVIDENCE_STRENGTH_SCALE,
+  MONTE_CARLO_SAMPLES,
+  calculateOptionPosteriors,
+  calculatePosterior,
+  calculatePosteriorFromEvaluations,
+  computeCertaintyEquivalent,
+  computeCorrelationAdjustedWeight,
+  computeCredibleInterval,
+  computeEffectiveSampleSize,
+  computeExpectedUtility,
+  computeExperimentResultImpact,
+  computeGewekeDiagnostic,
+  computeValueOfInformation,
+  createSeededRandom,
+  derivePosteriorParams,
+  recommendAlternative,
+  sampleBetaStable,
+  samplePayoff,
+} from '@/lib/bayesian';
+import type { OptionPosterior } from '@/lib/bayesian';
+
+// Each posterior run draws MONTE_CARLO_SAMPLES inverse-CDF samples per criterion
+// (sensitivity re-runs included), so keep property runs small
+const PROPERTY_RUNS = 15;
+const SEED = 12345;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const makeCriteria = (importances: number[]): Criterion[] =>
+  importances.map((importance, i) => ({ id: `c${i}`, name: `Criterion ${i}`, importance }));
+
+/** Closed-form Beta parameters the engine should arrive at, mirroring its update rule */
+function expectedBetaParams(prior: number, evaluations: CriterionEvaluation[], criteria: Criterion[]) {
+  let alpha = Math.max(0.5, (prior / 100) * DEFAULT_PRIOR_CONCENTRATION);
+  let beta = Math.max(0.5, (1 - prior / 100) * DEFAULT_PRIOR_CONCENTRATION);
+
+  evaluations.forEach((evaluation) => {
+    const importance = criteria.find(c => c.id === evaluation.criterionId)?.importance ?? 50;
+    const pseudoCount = (evaluation.confidence / 100) * (importance / 100) * EVIDENCE_STRENGTH_SCALE;
+    const favoring = (evaluation.strength / 100) * pseudoCount;
+    const against = pseudoCount - favoring;
+    if (evaluation.supportsDecision) {
+      alpha += favoring;
+      beta += against;
+    } else {
+      alpha += against;
+      beta += favoring;
+    }
+  });
+
+  return { alpha, beta };
+}
+
+const evaluationArb = fc.record({
+  supportsDecision: fc.boolean(),
+  strength: fc.integer({ min: 1, max: 100 }),
+  confidence: fc.integer({ min: 1, max: 100 }),
+});
+
+// ============================================================================
+// STATISTICAL UTILITIES
+// ============================================================================
+
+describe('computeCredibleInterval', () => {
+  it('returns the 2.5th and 97.5th percentiles', () => {
+    const samples = Array.from({ length: 1000 }, (_, i) => i);
+    expect(computeCredibleInterval(samples)).toEqual([25, 975]);
+  });
+
+  it('does not depend on sample order and leaves the input untouched', () => {
+    const samples = [0.9, 0.1, 0.5, 0.3, 0.7, 0.2, 0.8, 0.4, 0.6, 0.0];
+    const copy = [...samples];
+    expect(computeCredibleInterval(samples)).toEqual(computeCredibleInterval([...samples].reverse()));
+    expect(samples).toEqual(copy);
+  });
+
+  it('always brackets the lower and upper bounds in order', () => {
+    fc.assert(
+      fc.property(fc.array(fc.double({ min: 0, max: 1, noNaN: true }), { minLength: 1, maxLength: 200 }), (samples) => {
+        const [low, high] = computeCredibleInterval(samples);
+        expect(low).toBeLessThanOrEqual(high);
+        expect(low).toBeGreaterThanOrEqual(Math.min(...samples));
+        expect(high).toBeLessThanOrEqual(Math.max(...samples));
+      })
+    );
+  });
+});
+
+describe('computeEffectiveSampleSize', () => {
+  it('returns the sample count for tiny or constant chains', () => {
+    expect(computeEffectiveSampleSize([0.1, 0.2, 0.3])).toBe(3);
+    expect(computeEffectiveSampleSize(new Array(100).fill(0.5))).toBe(100);
+  });
+
+  it('is close to n for independent draws', () => {
+    const random = createSeededRandom(SEED);
+    const samples = Array.from({ length: 5000 }, () => random());
+    const ess = computeEffectiveSampleSize(samples);
+    expect(ess).toBeGreaterThan(4500);
+    expect(ess).toBeLessThan(5500);
+  });
+
+  it('shrinks for strongly autocorrelated chains', () => {
+    const samples = Array.from({ length: 1000 }, (_, i) => i / 1000);
+    // Lag-1 autocorrelation is clamped at 0.99, so ESS bottoms out at n / 2.98
+    expect(computeEffectiveSampleSize(samples)).toBe(Math.round(1000 / 2.98));
+  });
+});
+
+describe('computeGewekeDiagnostic', () => {
+  it('is near zero for a stationary chain', () => {
+    const random = createSeededRandom(SEED);
+    const samples = Array.from({ length: 5000 }, () => random());
+    expect(Math.abs(computeGewekeDiagnostic(samples))).toBeLessThan(1.96);
+  });
+
+  it('flags a drifting chain', () => {
+    const samples = Array.from({ length: 1000 }, (_, i) => i / 1000);
+    expect(Math.abs(computeGewekeDiagnostic(samples))).toBeGreaterThan(1.96);
+  });
+
+  it('returns 0 rather than NaN for a constant chain', () => {
+    expect(computeGewekeDiagnostic(new Array(100).fill(0.5))).toBe(0);
+  });
+});
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+describe('sampleBetaStable', () => {
+  it.each([
+    [2, 5],
+    [30, 10],
+    [0.5, 0.5],
+  ])('matches the closed-form mean for Beta(%f, %f)', (alpha, beta) => {
+    for (const useQuasiRandom of [true, false]) {
+      const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, createSeededRandom(SEED));
+      expect(samples).toHaveLength(MONTE_CARLO_SAMPLES);
+      expect(mean(samples)).toBeCloseTo(alpha / (alpha + beta), 2);
+    }
+  });
+
+  it('uses the rejection path for extreme parameters and stays accurate', () => {
+    const alpha = 2000;
+    const beta = 1000;
+    const samples = sampleBetaStable(alpha, beta, 2000, true, createSeededRandom(SEED));
+    expect(samples).toHaveLength(2000);
+    expect(samples.every(s => Number.isFinite(s) && s > 0 && s < 1)).toBe(true);
+    expect(mean(samples)).toBeCloseTo(alpha / (alpha + beta), 2);
+    // Rejection draws come from the seeded generator, not the quasi-random grid
+    expect(new Set(samples).size).toBeGreaterThan(1900);
+  });
+
+  it('keeps tiny shape parameters inside the unit interval', () => {
+    const samples = sampleBetaStable(0.05, 0.05, 2000, true, createSeededRandom(SEED));
+    expect(samples).toHaveLength(2000);
+    expect(samples.every(s => Number.isFinite(s) && s >= 0 && s <= 1)).toBe(true);
+    expect(mean(samples)).toBeCloseTo(0.5, 1);
+  });
+
+  it('is reproducible for a given seed', () => {
+    const first = sampleBetaStable(3, 4, 500, false, createSeededRandom(SEED));
+    const second = sampleBetaStable(3, 4, 500, false, createSeededRandom(SEED));
+    expect(first).toEqual(second);
+  });
+});
+
+// ============================================================================
+// CORRELATION ADJUSTMENT
+// ============================================================================
+
+describe('computeCorrelationAdjustedWeight', () => {
+  it('leaves independent or singleton evidence unchanged', () => {
+    expect(computeCorrelationAdjustedWeight(0.8, 0, 4)).toBe(0.8);
+    expect(computeCorrelationAdjustedWeight(0.8, 0.9, 1)).toBe(0.8);
+  });
+
+  it('counts fully correlated evidence once across the group', () => {
+    expect(computeCorrelationAdjustedWeight(1, 1, 4)).toBeCloseTo(0.25);
+  });
+
+  it('interpolates the effective count for partial correlation', () => {
+    // effective count = 1 + (3 - 1) * (1 - 0.5) = 2, spread over 3 items
+    expect(computeCorrelationAdjustedWeight(0.9, 0.5, 3)).toBeCloseTo(0.6);
+  });
+
+  it('stays between base/n and base, and never grows with correlation', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 10, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        fc.integer({ min: 1, max: 20 }),
+        (base, r1, r2, groupSize) => {
+          const [low, high] = r1 <= r2 ? [r1, r2] : [r2, r1];
+          const weakly = computeCorrelationAdjustedWeight(base, low, groupSize);
+          const strongly = computeCorrelationAdjustedWeight(base, high, groupSize);
+          expect(strongly).toBeLessThanOrEqual(weakly + 1e-12);
+          expect(weakly).toBeLessThanOrEqual(base + 1e-12);
+          expect(strongly).toBeGreaterThanOrEqual(base / groupSize - 1e-12);
+        }
+      )
+    );
+  });
+});
+
+// ============================================================================
+// POSTERIORS
+// ============================================================================
+
+describe('calculatePosteriorFromEvaluations', () => {
+  it('matches the closed-form Beta mean', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 95 }),
+        fc.array(fc.tuple(evaluationArb, fc.integer({ min: 1, max: 100 })), { minLength: 1, maxLength: 3 }),
+        (prior, entries) => {
+          const criteria = makeCriteria(entries.map(([, importance]) => importance));
+          const evaluations = entries.map(([evaluation], i) => ({ ...evaluation, criterionId: `c${i}` }));
+          const { alpha, beta } = expectedBetaParams(prior, evaluations, criteria);
+          const expected = Math.max(1, Math.min(99, (alpha / (alpha + beta)) * 100));
+
+          const result = calculatePosteriorFromEvaluations(prior, evaluations, criteria, { seed: SEED });
+          expect(Math.abs(result.posterior - expected)).toBeLessThan(0.25);
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('never lowers the posterior when supporting evidence gets stronger', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 95 }),
+        fc.integer({ min: 1, max: 100 }),
+        fc.integer({ min: 1, max: 100 }),
+        fc.integer({ min: 1, max: 100 }),
+        evaluationArb,
+        (prior, s1, s2, confidence, other) => {
+          const criteria = makeCriteria([70, 50]);
+          const [weaker, stronger] = s1 <= s2 ? [s1, s2] : [s2, s1];
+          const run = (strength: number) => calculatePosteriorFromEvaluations(
+            prior,
+            [
+              { criterionId: 'c0', supportsDecision: true, strength, confidence },
+              { ...other, criterionId: 'c1' },
+            ],
+            criteria,
+            { seed: SEED }
+          );
+
+          // Same seed means the same uniforms, so the comparison is free of sampling noise
+          expect(run(stronger).posterior).toBeGreaterThanOrEqual(run(weaker).posterior - 1e-6);
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('never lowers the posterior when opposing evidence is flipped to supporting', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 95 }),
+        fc.integer({ min: 50, max: 100 }),
+        fc.integer({ min: 1, max: 100 }),
+        (prior, strength, confidence) => {
+          const criteria = makeCriteria([60]);
+          const run = (supportsDecision: boolean) => calculatePosteriorFromEvaluations(
+            prior,
+            [{ criterionId: 'c0', supportsDecision, strength, confidence }],
+            criteria,
+            { seed: SEED }
+          );
+
+          expect(run(true).posterior).toBeGreaterThanOrEqual(run(false).posterior - 1e-6);
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('returns the prior when there are no evaluations', () => {
+    const result = calculatePosteriorFromEvaluations(70, [], [], { seed: SEED });
+    expect(result.posterior).toBeCloseTo(70, 0);
+    expect(result.sensitivityAnalysis).toEqual([]);
+    expect(result.samples).toHaveLength(MONTE_CARLO_SAMPLES);
+    expect(result.winPercentage).toBeGreaterThan(50);
+  });
+
+  it('reports a whole win percentage when only evidence informs the decision', () => {
+    const evidence = [
+      { id: 'e1', type: 'data', label: 'Strong for', description: '', value: 85, weight: 70 },
+      { id: 'e2', type: 'past_outcome', label: 'Mild against', description: '', value: 40, weight: 30 },
+    ] satisfies EvidenceItem[];
+    const result = calculatePosteriorFromEvaluations(55, [], [], { seed: SEED }, [], evidence);
+
+    expect(Number.isInteger(result.winPercentage)).toBe(true);
+    expect(result.winPercentage).toBeGreaterThan(50);
+    expect(result.sensitivityAnalysis).toEqual([]);
+  });
+
+  it('pulls the posterior toward 50% without tipping it when every strength is neutral', () => {
+    const criteria = makeCriteria([80, 60, 40]);
+    const evaluations = criteria.map((c, i) => ({
+      criterionId: c.id,
+      supportsDecision: i % 2 === 0,
+      strength: 50,
+      confidence: 90,
+    }));
+    const { alpha, beta } = expectedBetaParams(75, evaluations, criteria);
+
+    const withoutEvidence = calculatePosteriorFromEvaluations(75, [], criteria, { seed: SEED });
+    const neutral = calculatePosteriorFromEvaluations(75, evaluations, criteria, { seed: SEED });
+
+    expect(neutral.posterior).toBeCloseTo((alpha / (alpha + beta)) * 100, 0);
+    expect(neutral.posterior).toBeLessThan(withoutEvidence.posterior);
+    expect(neutral.posterior).toBeGreaterThan(50);
+    // More pseudo-observations tighten the interval even though they carry no direction
+    const width = (r: { credibleInterval: [number, number] }) => r.credibleInterval[1] - r.credibleInterval[0];
+    expect(width(neutral)).toBeLessThan(width(withoutEvidence));
+  });
+
+  it('leaves an even prior at 50% when every strength is neutral', () => {
+    const criteria = makeCriteria([80, 60]);
+    const evaluations = criteria.map(c => ({ criterionId: c.id, supportsDecision: true, strength: 50, confidence: 70 }));
+    const result = calculatePosteriorFromEvaluations(50, evaluations, criteria, { seed: SEED });
+
+    expect(result.posterior).toBeCloseTo(50, 1);
+    result.sensitivityAnalysis?.forEach(item => expect(Math.abs(item.impact)).toBeLessThan(0.1));
+  });
+
+  it('gives identical results for the same seed', () => {
+    const criteria = makeCriteria([60]);
+    const evaluations = [{ criterionId: 'c0', supportsDecision: true, strength: 80, confidence: 60 }];
+    const first = calculatePosteriorFromEvaluations(40, evaluations, criteria, { seed: SEED });
+    const second = calculatePosteriorFromEvaluations(40, evaluations, criteria, { seed: SEED });
+    expect(second.posterior).toBe(first.posterior);
+    expect(second.credibleInterval).toEqual(first.credibleInterval);
+  });
+});
+
+describe('derivePosteriorParams', () => {
+  it('sums prior and per-evaluation increments to the final parameters', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 99 }),
+        fc.array(evaluationArb, { minLength: 0, maxLength: 5 }),
+        (prior, entries) => {
+          const criteria = makeCriteria(entries.map((_, i) => 20 + i * 15));
+          const evaluations = entries.map((evaluation, i) => ({ ...evaluation, criterionId: `c${i}` }));
+          const trace = derivePosteriorParams(prior, evaluations, criteria);
+          const expected = expectedBetaParams(prior, evaluations, criteria);
+
+          expect(trace.alpha).toBeCloseTo(expected.alpha, 10);
+          expect(trace.beta).toBeCloseTo(expected.beta, 10);
+          expect(trace.priorAlpha + trace.steps.reduce((sum, step) => sum + step.alphaIncrement, 0)).toBeCloseTo(trace.alpha, 10);
+          expect(trace.priorBeta + trace.steps.reduce((sum, step) => sum + step.betaIncrement, 0)).toBeCloseTo(trace.beta, 10);
+        }
+      )
+    );
+  });
+
+  it('records correlation multipliers and scales the increments by them', () => {
+    const criteria = makeCriteria([100, 100, 100]);
+    const evaluations = criteria.map(c => ({ criterionId: c.id, supportsDecision: true, strength: 100, confidence: 100 }));
+    const trace = derivePosteriorParams(50, evaluations, criteria, {}, [{ ids: ['c0', 'c1'], correlationFactor: 1 }]);
+
+    expect(trace.steps.map(step => step.correlationMultiplier)).toEqual([0.5, 0.5, 1]);
+    expect(trace.steps[0].alphaIncrement).toBeCloseTo(EVIDENCE_STRENGTH_SCALE / 2);
+    expect(trace.steps[2].alphaIncrement).toBeCloseTo(EVIDENCE_STRENGTH_SCALE);
+  });
+
+  it('only counts evaluated criteria toward a correlation group', () => {
+    const criteria = makeCriteria([100, 100, 100]);
+    const evaluations = [{ criterionId: 'c0', supportsDecision: true, strength: 100, confidence: 100 }];
+    const trace = derivePosteriorParams(50, evaluations, criteria, {}, [{ ids: ['c0', 'c1', 'c2'], correlationFactor: 1 }]);
+
+    expect(trace.steps[0].correlationMultiplier).toBe(1);
+  });
+
+  it('is what calculatePosteriorFromEvaluations samples from', () => {
+    const criteria = makeCriteria([80, 40]);
+    const evaluations = [
+      { criterionId: 'c0', supportsDecision: true, strength: 70, confidence: 90 },
+      { criterionId: 'c1', supportsDecision: false, strength: 60, confidence: 50 },
+    ];
+    const result = calculatePosteriorFromEvaluations(35, evaluations, criteria, { seed: SEED });
+    const { alpha, beta } = derivePosteriorParams(35, evaluations, criteria);
+
+    expect(result.derivation).toEqual(derivePosteriorParams(35, evaluations, criteria));
+    expect(result.posterior).toBeCloseTo((alpha / (alpha + beta)) * 100, 0);
+  });
+
+  it('adds evidence items on top of the evaluations', () => {
+    const criteria = makeCriteria([60]);
+    const evaluations = [{ criterionId: 'c0', supportsDecision: true, strength: 80, confidence: 70 }];
+    const evidence = [
+      { id: 'e1', type: 'constraint', label: 'Savings cushion', description: '', value: 75, weight: 60 },
+    ] satisfies EvidenceItem[];
+    const expected = expectedBetaParams(50, evaluations, criteria);
+    const pseudoCount = 0.6 * EVIDENCE_STRENGTH_SCALE;
+    const trace = derivePosteriorParams(50, evaluations, criteria, {}, [], evidence);
+
+    expect(trace.evidenceSteps).toHaveLength(1);
+    expect(trace.alpha).toBeCloseTo(expected.alpha + 0.75 * pseudoCount, 10);
+    expect(trace.beta).toBeCloseTo(expected.beta + 0.25 * pseudoCount, 10);
+  });
+});
+
+describe('criteria hierarchy', () => {
+  const tree: Criterion[] = [
+    { id: 'pay', name: 'Compensation', importance: 80 },
+    { id: 'base', name: 'Base', importance: 30, parentId: 'pay' },
+    { id: 'equity', name: 'Equity', importance: 10, parentId: 'pay' },
+    { id: 'team', name: 'Team', importance: 40 },
+  ];
+  const evaluate = (criterionId: string, supportsDecision = true) =>
+    ({ criterionId, supportsDecision, strength: 80, confidence: 70 });
+
+  it('splits a parent\'s importance across its sub-criteria and ignores its own evaluation', () => {
+    const trace = derivePosteriorParams(50, ['pay', 'base', 'equity', 'team'].map(id => evaluate(id)), tree);
+
+    expect(trace.steps.map(step => step.criterionId)).toEqual(['base', 'equity', 'team']);
+    expect(trace.steps.map(step => step.importance)).toEqual([60, 20, 40]);
+  });
+
+  it('weighs a lone sub-criterion exactly like its parent would have been', () => {
+    const flat = derivePosteriorParams(50, [evaluate('team')], tree.filter(c => c.id === 'team'));
+    const nested = derivePosteriorParams(
+      50,
+      [evaluate('culture')],
+      [...tree.filter(c => c.id === 'team'), { id: 'culture', name: 'Culture', importance: 5, parentId: 'team' }]
+    );
+
+    expect(nested.alpha).toBeCloseTo(flat.alpha, 10);
+    expect(nested.beta).toBeCloseTo(flat.beta, 10);
+  });
+
+  it('reports sensitivity for every level of the tree', () => {
+    const result = calculatePosteriorFromEvaluations(
+      50,
+      [evaluate('base'), evaluate('equity', false), evaluate('team')],
+      tree,
+      { seed: SEED }
+    );
+    const byId = new Map(result.sensitivityAnalysis?.map(item => [item.criterionId, item]));
+
+    expect([...byId.keys()].sort()).toEqual(['base', 'equity', 'pay', 'team']);
+    expect(byId.get('pay')).toMatchObject({ depth: 0, parentId: null });
+    expect(byId.get('equity')).toMatchObject({ depth: 1, parentId: 'pay', direction: 'opposing' });
+    // Leaving out the parent drops both sub-criteria, whose pulls partly cancel
+    expect(Math.abs(byId.get('pay')!.impact)).toBeLessThan(Math.abs(byId.get('base')!.impact));
+  });
+});
+
+describe('calculatePosterior', () => {
+  it('matches the closed-form Beta mean for weighted evidence', () => {
+    const evidence = [
+      { id: 'e1', type: 'data', label: 'Strong for', description: '', value: 90, weight: 80 },
+      { id: 'e2', type: 'emotional', label: 'Mild against', description: '', value: 30, weight: 40 },
+    ] satisfies EvidenceItem[];
+    let alpha = 0.6 * DEFAULT_PRIOR_CONCENTRATION;
+    let beta = 0.4 * DEFAULT_PRIOR_CONCENTRATION;
+    evidence.forEach(({ value, weight }) => {
+      const pseudoCount = (weight / 100) * EVIDENCE_STRENGTH_SCALE;
+      alpha += (value / 100) * pseudoCount;
+      beta += (1 - value / 100) * pseudoCount;
+    });
+
+    const result = calculatePosterior(60, evidence, { seed: SEED });
+    expect(result.posterior).toBeCloseTo((alpha / (alpha + beta)) * 100, 0);
+  });
+});
+
+// ============================================================================
+// EXPECTED UTILITY
+// ============================================================================
+
+describe('calculateOptionPosteriors', () => {
+  const options: DecisionOption[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }];
+  const threeOptions: DecisionOption[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }, { id: 'c', name: 'C' }];
+  const scoreArb = fc.record({
+    score: fc.integer({ min: 0, max: 100 }),
+    confidence: fc.integer({ min: 1, max: 100 }),
+  });
+
+  it('splits the wins across the options, so the shares add up to 100', () => {
+    fc.assert(
+      fc.property(
+        fc.array(scoreArb, { minLength: 6, maxLength: 6 }),
+        (entries) => {
+          const criteria = makeCriteria([70, 40]);
+          const optionScores = entries.map((entry, i): OptionScore => ({
+            ...entry,
+            optionId: threeOptions[i % 3].id,
+            criterionId: `c${Math.floor(i / 3)}`,
+          }));
+          const { options: results } = calculateOptionPosteriors(threeOptions, optionScores, criteria, { seed: SEED });
+          const total = results.reduce((sum, o) => sum + o.winPercentage, 0);
+
+          // Each share is rounded on its own, so allow half a point per option
+          expect(Math.abs(total - 100)).toBeLessThanOrEqual(1.5);
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('gives identically scored options roughly equal shares', () => {
+    const criteria = makeCriteria([80, 50]);
+    const optionScores: OptionScore[] = threeOptions.flatMap(option => criteria.map(c => (
+      { criterionId: c.id, optionId: option.id, score: 65, confidence: 70 }
+    )));
+    const { options: results } = calculateOptionPosteriors(threeOptions, optionScores, criteria, { seed: SEED });
+
+    results.forEach(o => expect(Math.abs(o.winPercentage - 100 / 3)).toBeLessThan(5));
+  });
+
+  it('lets an option scored higher on every criterion win more often', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({ score: fc.integer({ min: 0, max: 80 }), lead: fc.integer({ min: 20, max: 100 }), confidence: fc.integer({ min: 50, max: 100 }) }),
+          { minLength: 2, maxLength: 2 }
+        ),
+        (entries) => {
+          const criteria = makeCriteria([80, 50]);
+          const optionScores = entries.flatMap(({ score, lead, confidence }, i): OptionScore[] => [
+            { criterionId: `c${i}`, optionId: 'a', score: Math.min(100, score + lead), confidence },
+            { criterionId: `c${i}`, optionId: 'b', score, confidence },
+          ]);
+          const result = calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED });
+          const [a, b] = ['a', 'b'].map(id => result.options.find(o => o.optionId === id) as OptionPosterior);
+
+          expect(result.leadingOptionId).toBe('a');
+          expect(a.winPercentage).toBeGreaterThan(b.winPercentage);
+          expect(a.posterior).toBeGreaterThan(b.posterior);
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('leaves unscored options level at the neutral prior, so none is reported as ahead', () => {
+    const criteria = makeCriteria([80, 50]);
+    const { options: results } = calculateOptionPosteriors(threeOptions, [], criteria, { seed: SEED });
+
+    expect(results).toHaveLength(3);
+    results.forEach((o) => {
+      expect(o.posterior).toBeCloseTo(50, 0);
+      expect(Math.abs(o.winPercentage - 100 / 3)).toBeLessThan(5);
+    });
+    expect(calculateOptionPosteriors([], [], criteria, { seed: SEED })).toEqual({ options: [], leadingOptionId: null });
+  });
+
+  it('counts fully correlated criteria once, as the binary engine does', () => {
+    const criteria = makeCriteria([100, 100]);
+    const optionScores: OptionScore[] = criteria.flatMap(c => [
+      { criterionId: c.id, optionId: 'a', score: 90, confidence: 100 },
+      { criterionId: c.id, optionId: 'b', score: 30, confidence: 100 },
+    ]);
+    const group = [{ ids: ['c0', 'c1'], correlationFactor: 1 }];
+
+    const independent = calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED });
+    const correlated = calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED }, group);
+    const single = calculateOptionPosteriors(options, optionScores.filter(s => s.criterionId === 'c0'), criteria, { seed: SEED });
+    const posteriorOf = (result: typeof independent, id: string) => result.options.find(o => o.optionId === id)?.posterior as number;
+
+    expect(posteriorOf(correlated, 'a')).toBeLessThan(posteriorOf(independent, 'a'));
+    expect(posteriorOf(correlated, 'b')).toBeGreaterThan(posteriorOf(independent, 'b'));
+    expect(posteriorOf(correlated, 'a')).toBeCloseTo(posteriorOf(single, 'a'), 0);
+    expect(posteriorOf(correlated, 'b')).toBeCloseTo(posteriorOf(single, 'b'), 0);
+  });
+
+  it('only counts the criteria an option was scored on toward a correlation group', () => {
+    const criteria = makeCriteria([100, 100]);
+    const optionScores: OptionScore[] = [
+      { criterionId: 'c0', optionId: 'a', score: 90, confidence: 100 },
+      { criterionId: 'c0', optionId: 'b', score: 30, confidence: 100 },
+    ];
+    const group = [{ ids: ['c0', 'c1'], correlationFactor: 1 }];
+
+    expect(calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED }, group))
+      .toEqual(calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED }));
+  });
+});
+
+describe('samplePayoff', () => {
+  it.each([
+    ['triangular', (min: number, likely: number, max: number) => (min + likely + max) / 3],
+    ['pert', (min: number, likely: number, max: number) => (min + 4 * likely + max) / 6],
+  ] as const)('matches the closed-form %s mean', (shape, expectedMean) => {
+    const random = createSeededRandom(SEED);
+    const draws = Array.from({ length: 20000 }, () => samplePayoff({ shape, min: -20, likely: 5, max: 40 }, random));
+    expect(draws.every(d => d >= -20 && d <= 40)).toBe(true);
+    expect(mean(draws)).toBeCloseTo(expectedMean(-20, 5, 40), 0);
+  });
+
+  it('returns the value itself for a degenerate range', () => {
+    expect(samplePayoff({ shape: 'pert', min: 7, likely: 7, max: 7 }, createSeededRandom(SEED))).toBe(7);
+  });
+});
+
+describe('computeExpectedUtility', () => {
+  const payoffs: OutcomePayoff[] = [
+    { id: 'p1', outcome: 'success', shape: 'triangular', min: 10, likely: 20, max: 30 },
+    { id: 'p2', outcome: 'failure', shape: 'triangular', min: -30, likely: -20, max: -10 },
+  ];
+  const withSamples = (samples: number[]) => ({
+    results: { samples } as Parameters<typeof computeExpectedUtility>[1]['results'],
+    optionResults: null,
+  });
+
+  it('weighs success and failure payoffs by the posterior', () => {
+    const utility = computeExpectedUtility(payoffs, withSamples(new Array(MONTE_CARLO_SAMPLES).fill(75)), { seed: SEED });
+    const [alternative] = utility.alternatives;
+
+    expect(utility.includesStatusQuo).toBe(true);
+    expect(alternative.expectedUtility).toBeCloseTo(0.75 * 20 + 0.25 * -20, 0);
+    expect(alternative.lossProbability).toBeCloseTo(25, 0);
+    expect(alternative.cvar).toBeLessThan(alternative.expectedUtility);
+  });
+
+  it('never loses when success is certain and every success payoff is positive', () => {
+    const utility = computeExpectedUtility(payoffs, withSamples(new Array(1000).fill(100)), { seed: SEED });
+    expect(utility.alternatives[0].lossProbability).toBe(0);
+    expect(utility.alternatives[0].cvar).toBeGreaterThanOrEqual(10);
+  });
+});
+
+describe('computeCertaintyEquivalent', () => {
+  it('is the mean when risk-neutral', () => {
+    expect(computeCertaintyEquivalent([-10, 0, 40], 0, 40)).toBeCloseTo(10);
+  });
+
+  it('never exceeds the mean and falls as risk aversion grows', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: -100, max: 100, noNaN: true }), { minLength: 1, maxLength: 50 }),
+        fc.double({ min: 0.1, max: 5, noNaN: true }),
+        (draws, riskAversion) => {
+          const neutral = computeCertaintyEquivalent(draws, 0, 100);
+          const averse = computeCertaintyEquivalent(draws, riskAversion, 100);
+          const moreAverse = computeCertaintyEquivalent(draws, riskAversion * 2, 100);
+          expect(averse).toBeLessThanOrEqual(neutral + 1e-9);
+          expect(moreAverse).toBeLessThanOrEqual(averse + 1e-9);
+          expect(moreAverse).toBeGreaterThanOrEqual(Math.min(...draws) - 1e-9);
+        }
+      )
+    );
+  });
+});
+
+describe('recommendAlternative', () => {
+  const safe = { optionId: 'safe', expectedUtility: 5, cvar: 5, lossProbability: 0, draws: new Array(100).fill(5) };
+  const risky = {
+    optionId: 'risky',
+    expectedUtility: 10,
+    cvar: -50,
+    lossProbability: 50,
+    draws: [...new Array(50).fill(-50), ...new Array(50).fill(70)],
+  };
+
+  it('picks the higher expected payoff when risk-neutral and the safer one when risk-averse', () => {
+    const utility = { alternatives: [safe, risky], includesStatusQuo: false, scale: 70 };
+    expect(recommendAlternative(utility, 0).alternative?.optionId).toBe('risky');
+    expect(recommendAlternative(utility, 2).alternative?.optionId).toBe('safe');
+  });
+
+  it('prefers the status quo when every alternative is worth less than nothing', () => {
+    const utility = { alternatives: [risky], includesStatusQuo: true, scale: 70 };
+    expect(recommendAlternative(utility, 0).alternative).toBe(risky);
+    expect(recommendAlternative(utility, 3)).toEqual({ alternative: null, certaintyEquivalent: 0 });
+  });
+});
+
+describe('computeValueOfInformation', () => {
+  const criteria = makeCriteria([80, 60, 40]);
+  const baseState = {
+    initialConfidence: 50,
+    criteria,
+    correlationGroups: [],
+    criteriaEvaluations: [] as CriterionEvaluation[],
+    evidence: [],
+    options: [],
+    optionScores: [],
+  };
+
+  it('finds no value in more information when the decision is already certain', () => {
+    const voi = computeValueOfInformation({
+      ...baseState,
+      initialConfidence: 95,
+      criteriaEvaluations: criteria.map(c => ({ criterionId: c.id, supportsDecision: true, strength: 100, confidence: 100 })),
+    }, { seed: SEED });
+
+    expect(voi.evpi).toBeCloseTo(0, 1);
+    voi.criteria.forEach(item => expect(item.evppi).toBeCloseTo(0, 1));
+  });
+
+  it('never values learning about one criterion above resolving everything', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 95 }),
+        fc.array(evaluationArb, { minLength: 3, maxLength: 3 }),
+        (initialConfidence, evaluations) => {
+          const voi = computeValueOfInformation({
+            ...baseState,
+            initialConfidence,
+            criteriaEvaluations: evaluations.map((e, i) => ({ ...e, criterionId: `c${i}` })),
+          }, { seed: SEED });
+
+          // Both are rounded to one decimal place
+          voi.criteria.forEach(item => expect(item.evppi).toBeLessThanOrEqual(voi.evpi + 0.1));
+        }
+      ),
+      { numRuns: PROPERTY_RUNS }
+    );
+  });
+
+  it('gives the same answer for the same seed', () => {
+    const options: DecisionOption[] = [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }];
+    const optionScores: OptionScore[] = criteria.flatMap(c => [
+      { criterionId: c.id, optionId: 'a', score: 60, confidence: 40 },
+      { criterionId: c.id, optionId: 'b', score: 55, confidence: 40 },
+    ]);
+    const binary = {
+      ...baseState,
+      criteriaEvaluations: [{ criterionId: 'c0', supportsDecision: true, strength: 60, confidence: 30 }],
+    };
+    const multi = { ...baseState, options, optionScores };
+
+    expect(computeValueOfInformation(binary, { seed: SEED })).toEqual(computeValueOfInformation(binary, { seed: SEED }));
+    expect(computeValueOfInformation(multi, { seed: SEED })).toEqual(computeValueOfInformation(multi, { seed: SEED }));
+  });
+});
+
+describe('computeExperimentResultImpact', () => {
+  const criteria = makeCriteria([80, 60]);
+  const binaryState = {
+    initialConfidence: 50,
+    criteria,
+    correlationGroups: [],
+    criteriaEvaluations: [
+      { criterionId: 'c0', supportsDecision: false, strength: 60, confidence: 40 },
+      { criterionId: 'c1', supportsDecision: true, strength: 70, confidence: 70 },
+    ],
+    evidence: [],
+    options: [],
+    optionScores: [],
+  };
+
+  it('updates the tested evaluation in place and raises the posterior for a supporting result', () => {
+    const impact = computeExperimentResultImpact(
+      binaryState,
+      { criterionId: 'c0', direction: 'supports', conclusiveness: 90 },
+      { seed: SEED }
+    );
+
+    expect(impact.criteriaEvaluations.map(e => e.criterionId)).toEqual(['c0', 'c1']);
+    expect(impact.criteriaEvaluations[0].supportsDecision).toBe(true);
+    expect(impact.criteriaEvaluations[1]).toBe(binaryState.criteriaEvaluations[1]);
+    expect(impact.posteriorAfter).toBeGreaterThan(impact.posteriorBefore as number);
+    expect(impact.winPercentage).toBeGreaterThan(0);
+  });
+
+  it('adds an evaluation at the neutral midpoint when the tested criterion was never assessed', () => {
+    const state = { ...binaryState, criteriaEvaluations: binaryState.criteriaEvaluations.slice(1) };
+    const impact = computeExperimentResultImpact(
+      state,
+      { criterionId: 'c0', direction: 'opposes', conclusiveness: 80 },
+      { seed: SEED }
+    );
+
+    expect(impact.criteriaEvaluations).toHaveLength(2);
+    expect(impact.criteriaEvaluations[1]).toMatchObject({ criterionId: 'c0', supportsDecision: false });
+    expect(impact.posteriorAfter).toBeLessThan(impact.posteriorBefore as number);
+  });
+
+  it('runs before and after on the same seed, so the delta is the result alone', () => {
+    const result = { criterionId: 'c1', direction: 'supports' as const, conclusiveness: 60 };
+    const first = computeExperimentResultImpact(binaryState, result, { seed: SEED });
+
+    expect(computeExperimentResultImpact(binaryState, result, { seed: SEED })).toEqual(first);
+    const direct = calculatePosteriorFromEvaluations(
+      binaryState.initialConfidence, binaryState.criteriaEvaluations, criteria,
+      { seed: SEED, applyCorrelationAdjustment: true }
+    );
+    expect(first.posteriorBefore).toBe(direct.posterior);
+  });
+
+  describe('with named options', () => {
+    const options: DecisionOption[] = [{ id: 'lisbon', name: 'Lisbon' }, { id: 'berlin', name: 'Berlin' }];
+    const optionScores: OptionScore[] = [
+      { criterionId: 'c0', optionId: 'lisbon', score: 70, confidence: 60 },
+      { criterionId: 'c1', optionId: 'lisbon', score: 60, confidence: 60 },
+      { criterionId: 'c0', optionId: 'berlin', score: 55, confidence: 60 },
+      { criterionId: 'c1', optionId: 'berlin', score: 50, confidence: 60 },
+    ];
+    const multiState = { ...binaryState, criteriaEvaluations: [], options, optionScores };
+
+    it('updates the option\'s existing score and reports the leading option', () => {
+      const impact = computeExperimentResultImpact(
+        multiState,
+        { criterionId: 'c0', optionId: 'berlin', direction: 'supports', conclusiveness: 100 },
+        { seed: SEED }
+      );
+
+      expect(impact.optionScores).toHaveLength(4);
+      expect(impact.optionScores[2].score).toBeGreaterThan(55);
+      expect(impact.criteriaEvaluations).toEqual([]);
+
+      const after = calculateOptionPosteriors(options, impact.optionScores, criteria, { seed: SEED });
+      expect(impact.posteriorAfter).toBe(after.options[0].posterior);
+      expect(impact.winPercentage).toBe(after.options[0].winPercentage);
+      const before = calculateOptionPosteriors(options, optionScores, criteria, { seed: SEED });
+      expect(impact.posteriorBefore).toBe(before.options[0].posterior);
+    });
+
+    it('adds a score from the neutral midpoint when the option was never scored on the criterion', () => {
+      const impact = computeExperimentResultImpact(
+        { ...multiState, optionScores: optionScores.slice(0, 3) },
+        { criterionId: 'c1', optionId: 'berlin', direction: 'opposes', conclusiveness: 50 },
+        { seed: SEED }
+      );
+
+      expect(impact.optionScores).toHaveLength(4);
+      expect(impact.optionScores[3]).toMatchObject({ criterionId: 'c1', optionId: 'berlin' });
+      expect(impact.optionScores[3].score).toBeLessThan(50);
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { EvidenceItem, CriterionEvaluation, Criterion } from '@/types/decision';
+import { EvidenceItem, CriterionEvaluation, Criterion, CriteriaCorrelationGroup, DecisionOption, OptionScore, OutcomePayoff, ExperimentResult, DecisionState, isMultiOptionDecision } from '@/types/decision';
 import jStat from 'jstat';
+import { computeEffectiveImportance, getLeafCriteria, getSubtreeIds, hasChildCriteria, walkCriteriaTree } from '@/lib/criteriaTree';
 
 // ============================================================================
 // CONFIGURATION CONSTANTS
@@ -36,6 +37,23 @@ const GEWEKE_BATCHES = 10;
 /** Threshold for Geweke z-score (|z| < 1.96 indicates convergence at 95% level) */
 const GEWEKE_THRESHOLD = 1.96;
 
+/** Number of simulated "true" assessments drawn per criterion when estimating EVPPI */
+export const VOI_OUTER_SAMPLES = 500;
+
+/**
+ * How tightly a criterion's true value clusters around the user's assessment,
+ * per unit of confidence odds. At 50% confidence the true share is drawn from
+ * a Beta with concentration ≈ 10 (sd ≈ 0.15 around a neutral assessment);
+ * at 90% confidence it is ≈ 90 (sd ≈ 0.05).
+ */
+const ASSESSMENT_CONCENTRATION_SCALE = 10;
+
+/** Share of worst-case payoff draws averaged for the CVaR downside measure */
+export const CVAR_TAIL = 0.05;
+
+/** Offsets the payoff draws' seed so outcomes aren't drawn from the same stream as the posterior */
+const UTILITY_SEED_SALT = 0x9e3779b9;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -49,6 +67,10 @@ export interface BayesianConfig {
   applyCorrelationAdjustment?: boolean;
   /** Use quasi-random sampling for variance reduction (default: true) */
   useQuasiRandom?: boolean;
+  /** Seed for the pseudo-random generator; the same seed and inputs give identical results (default: a fresh random seed) */
+  seed?: number;
+  /** Called with the completed fraction (0-1) as the heavier calculations work through their steps */
+  onProgress?: (fraction: number) => void;
 }
 
 export interface PosteriorResult {
@@ -68,20 +90,222 @@ export interface ConvergenceDiagnostic {
 export interface EvaluationPosteriorResult extends PosteriorResult {
   winPercentage: number;
   sensitivityAnalysis?: SensitivityItem[];
+  derivation: PosteriorDerivation; // The α/β the samples were drawn from, and how they were reached
+}
+
+/** One criterion evaluation's contribution to the posterior Beta parameters */
+export interface DerivationStep {
+  criterionId: string;
+  criterionName: string;
+  supportsDecision: boolean;
+  strength: number; // 1-100, as assessed
+  confidence: number; // 1-100, as assessed
+  importance: number; // 1-100, the criterion's share of importance after rolling up the hierarchy (50 if it no longer exists)
+  pseudoCount: number; // confidence × importance × scale, before correlation adjustment
+  correlationMultiplier: number; // 1 unless the criterion shares a correlation group
+  alphaIncrement: number;
+  betaIncrement: number;
+}
+
+/** One evidence item's contribution to the posterior Beta parameters */
+export interface EvidenceDerivationStep {
+  evidenceId: string;
+  label: string;
+  type: EvidenceItem['type'];
+  value: number; // 0-100, how strongly it points toward the decision
+  weight: number; // 0-100
+  pseudoCount: number; // weight × scale
+  alphaIncrement: number;
+  betaIncrement: number;
+}
+
+/** How the engine turned a prior, evaluations and evidence into the posterior Beta(α, β) */
+export interface PosteriorDerivation {
+  priorProbability: number; // 0-1
+  priorConcentration: number;
+  evidenceStrengthScale: number;
+  priorAlpha: number;
+  priorBeta: number;
+  steps: DerivationStep[];
+  evidenceSteps: EvidenceDerivationStep[];
+  alpha: number;
+  beta: number;
 }
 
 export interface SensitivityItem {
   criterionId: string;
   criterionName: string;
-  impact: number; // Change in posterior when this criterion is removed
+  parentId: string | null; // Reported for every level of the criteria tree
+  depth: number; // 0 = top-level
+  impact: number; // Change in posterior when this criterion (and everything under it) is removed
   direction: 'supporting' | 'opposing';
 }
 
+export interface OptionPosterior {
+  optionId: string;
+  optionName: string;
+  posterior: number;
+  credibleInterval: [number, number];
+  winPercentage: number; // How often this option comes out on top across the joint draws
+  samples: number[];
+  convergenceDiagnostic?: ConvergenceDiagnostic;
+}
+
+export interface MultiOptionPosteriorResult {
+  options: OptionPosterior[]; // Sorted by win percentage, best first
+  leadingOptionId: string | null;
+}
+
+/** Payoffs of one alternative across the Monte Carlo draws */
+export interface UtilityAlternative {
+  optionId: string | null; // null = going ahead with a binary decision
+  expectedUtility: number; // Mean payoff
+  cvar: number; // Mean payoff across the worst CVAR_TAIL of draws
+  lossProbability: number; // 0-100, share of draws that leave you worse off than today
+  draws: number[]; // Sorted ascending
+}
+
+export interface ExpectedUtilityResult {
+  alternatives: UtilityAlternative[];
+  includesStatusQuo: boolean; // Binary decisions can also stay put, which pays 0
+  scale: number; // Largest absolute payoff entered, so risk aversion doesn't depend on units
+}
+
+/** Everything the results screen shows for a decision */
+export interface DecisionResults {
+  results: EvaluationPosteriorResult;
+  optionResults: MultiOptionPosteriorResult | null; // Only when comparing named options
+  utility: ExpectedUtilityResult | null; // Only when payoffs were entered
+}
+
+export interface ValueOfInformationItem {
+  criterionId: string;
+  criterionName: string;
+  evppi: number; // Expected gain in success probability (percentage points) from learning this criterion perfectly
+  decisionChangeProbability: number; // 0-100, how often learning it would change which choice comes out ahead
+}
+
+export interface ValueOfInformationResult {
+  evpi: number; // Expected gain (percentage points) from resolving all uncertainty
+  criteria: ValueOfInformationItem[]; // Sorted by EVPPI, most valuable first
+}
+
+/** A decision re-run with an experiment's result folded into the assessment it tested */
+export interface ExperimentResultImpact {
+  posteriorBefore: number | null; // The leading option's when comparing alternatives
+  posteriorAfter: number | null;
+  credibleInterval: [number, number] | null;
+  winPercentage: number | null;
+  convergenceDiagnostic: ConvergenceDiagnostic | null;
+  criteriaEvaluations: CriterionEvaluation[]; // The decision's assessments with the result applied
+  optionScores: OptionScore[];
+}
+
 export interface CorrelationGroup {
   ids: string[]; // IDs of correlated evidence/evaluations
   correlationFactor: number; // 0-1, how correlated they are (1 = identical)
 }
 
+// ============================================================================
+// SEEDED RANDOM NUMBER GENERATION
+// ============================================================================
+
+/** Returns uniform draws in [0, 1) */
+export type RandomSource = () => number;
+
+/**
+ * Picks a fresh 32-bit seed. This is the only place the engine touches Math.random;
+ * everything else draws from a generator built from the seed.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * SplitMix32, used only to expand a single seed into xoshiro's four state words
+ * (an all-zero state would make xoshiro emit zeros forever).
+ */
+function splitMix32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) | 0;
+  };
+}
+
+/**
+ * xoshiro128** pseudo-random generator. Fast, statistically solid for
+ * Monte Carlo work, and fully determined by its seed.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  const next = splitMix32(seed);
+  let s0 = next();
+  let s1 = next();
+  let s2 = next();
+  let s3 = next();
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+
+    return result / 0x100000000;
+  };
+}
+
+/** Standard normal draw (Box-Muller) */
+function sampleStandardNormal(random: RandomSource): number {
+  const u = 1 - random(); // (0, 1] so the log is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Gamma(shape, 1) draw using Marsaglia-Tsang, boosted for shape < 1.
+ */
+function sampleGamma(shape: number, random: RandomSource): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/** Beta(alpha, beta) draw as a ratio of Gamma draws */
+function sampleBeta(alpha: number, beta: number, random: RandomSource): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
 // ============================================================================
 // QUASI-RANDOM SAMPLING (SOBOL-LIKE SEQUENCES)
 // ============================================================================
@@ -109,10 +333,10 @@ function vanDerCorput(n: number, base: number = 2): number {
  * Generates quasi-random samples using Halton sequence (generalized van der Corput).
  * Uses base 2 for the primary dimension.
  */
-function generateQuasiRandomSequence(n: number): number[] {
+function generateQuasiRandomSequence(n: number, random: RandomSource): number[] {
   const sequence: number[] = [];
   // Start from a random offset to avoid correlation across runs
-  const offset = Math.floor(Math.random() * 1000);
+  const offset = Math.floor(random() * 1000);
   
   for (let i = 0; i < n; i++) {
     sequence.push(vanDerCorput(i + offset + 1, 2));
@@ -149,25 +373,26 @@ function logBetaPdf(x: number, alpha: number, beta: number): number {
  * Sample from Beta distribution using inverse CDF with quasi-random input.
  * Falls back to log-space rejection sampling for extreme parameters.
  */
-function sampleBetaStable(
+export function sampleBetaStable(
   alpha: number, 
   beta: number, 
   n: number, 
-  useQuasiRandom: boolean = true
+  useQuasiRandom: boolean,
+  random: RandomSource
 ): number[] {
   const samples: number[] = [];
   
   // For moderate parameters, use standard sampling with optional quasi-random input
   if (alpha >= 0.1 && beta >= 0.1 && alpha <= 1000 && beta <= 1000) {
     if (useQuasiRandom) {
-      const quasiUniform = generateQuasiRandomSequence(n);
+      const quasiUniform = generateQuasiRandomSequence(n, random);
       for (let i = 0; i < n; i++) {
         // Use inverse CDF (quantile function) with quasi-random input
         samples.push(jStat.beta.inv(quasiUniform[i], alpha, beta));
       }
     } else {
       for (let i = 0; i < n; i++) {
-        samples.push(jStat.beta.sample(alpha, beta));
+        samples.push(sampleBeta(alpha, beta, random));
       }
     }
     return samples;
@@ -187,20 +412,20 @@ function sampleBetaStable(
   while (samples.length < n && attempts < maxAttempts) {
     attempts++;
     // Sample from a proposal distribution (uniform)
-    const x = Math.random();
+    const x = random();
     const logPdfX = logBetaPdf(x, alpha, beta);
     
     // Accept with probability proportional to the density ratio
     const logAcceptProb = logPdfX - logPdfMode;
-    if (Math.log(Math.random()) < logAcceptProb) {
+    if (Math.log(random()) < logAcceptProb) {
       samples.push(x);
     }
   }
   
-  // If we couldn't get enough samples, fall back to jStat
+  // If we couldn't get enough samples, fall back to direct Gamma-ratio draws
   while (samples.length < n) {
     try {
-      samples.push(jStat.beta.sample(alpha, beta));
+      samples.push(sampleBeta(alpha, beta, random));
     } catch {
       // Ultimate fallback: use the mode
       samples.push(mode);
@@ -219,7 +444,7 @@ function sampleBetaStable(
  * Compares mean of first 10% of samples to last 50%.
  * A z-score near 0 indicates the chain has converged.
  */
-function computeGewekeDiagnostic(samples: number[]): number {
+export function computeGewekeDiagnostic(samples: number[]): number {
   const n = samples.length;
   const firstPct = 0.1;
   const lastPct = 0.5;
@@ -249,7 +474,7 @@ function computeGewekeDiagnostic(samples: number[]): number {
  * Computes effective sample size (ESS) accounting for autocorrelation.
  * ESS indicates how many independent samples the chain represents.
  */
-function computeEffectiveSampleSize(samples: number[]): number {
+export function computeEffectiveSampleSize(samples: number[]): number {
   const n = samples.length;
   if (n < 10) return n;
   
@@ -310,7 +535,7 @@ function computeConvergenceDiagnostic(samples: number[]): ConvergenceDiagnostic
  * @param correlationFactor - 0 = independent, 1 = fully correlated
  * @param groupSize - Number of items in the correlation group
  */
-function computeCorrelationAdjustedWeight(
+export function computeCorrelationAdjustedWeight(
   baseWeight: number,
   correlationFactor: number,
   groupSize: number
@@ -325,6 +550,29 @@ function computeCorrelationAdjustedWeight(
   return baseWeight * adjustmentFactor;
 }
 
+/**
+ * Converts the criteria groups a user defined into the engine's correlation groups.
+ */
+export function toCorrelationGroups(groups: CriteriaCorrelationGroup[]): CorrelationGroup[] {
+  return groups.map(group => ({ ids: group.criterionIds, correlationFactor: group.correlationFactor }));
+}
+
+/**
+ * Maps each assessed criterion in a correlation group to the multiplier on its
+ * pseudo-observations. Only assessed members count toward a group's size, so
+ * leaving one out relaxes the others.
+ */
+function computeCorrelationAdjustments(assessedIds: Set<string>, correlationGroups: CorrelationGroup[]): Map<string, number> {
+  const adjustments = new Map<string, number>();
+  correlationGroups.forEach(group => {
+    const ids = group.ids.filter(id => assessedIds.has(id));
+    ids.forEach(id => {
+      adjustments.set(id, computeCorrelationAdjustedWeight(1, group.correlationFactor, ids.length));
+    });
+  });
+  return adjustments;
+}
+
 /**
  * Performs Monte Carlo Bayesian inference using beta distributions.
  * 
@@ -337,20 +585,16 @@ export function calculatePosterior(
   config: BayesianConfig = {}
 ): PosteriorResult {
   const {
-    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
-    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
     useQuasiRandom = true,
+    seed = generateSeed(),
   } = config;
+  const random = createSeededRandom(seed);
 
-  // Convert prior percentage to probability
-  const priorProb = prior / 100;
-  
-  // Parameterize beta distribution from prior
-  let alpha = Math.max(MIN_BETA_PARAM, priorProb * priorConcentration);
-  let beta = Math.max(MIN_BETA_PARAM, (1 - priorProb) * priorConcentration);
+  // Parameterize beta distribution from prior, then add evidence as pseudo-observations
+  const { alpha, beta } = derivePosteriorParams(prior, [], [], config, [], evidence);
 
   if (evidence.length === 0) {
-    const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom);
+    const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
     const posterior = mean(samples) * 100;
     const credibleInterval = computeCredibleInterval(samples);
     const convergenceDiagnostic = computeConvergenceDiagnostic(samples);
@@ -363,25 +607,8 @@ export function calculatePosterior(
     };
   }
 
-  // Update beta parameters based on evidence using pseudo-observations
-  evidence.forEach((item) => {
-    const weight = item.weight / 100;
-    const value = item.value / 100;
-    
-    // Convert evidence to pseudo-observations
-    const pseudoCount = weight * evidenceStrengthScale;
-    
-    // Evidence supporting the hypothesis adds to alpha
-    // Evidence against adds to beta
-    const support = value * pseudoCount;
-    const against = (1 - value) * pseudoCount;
-    
-    alpha += support;
-    beta += against;
-  });
-
   // Monte Carlo sampling from posterior beta distribution
-  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom);
+  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
   
   // Compute statistics from samples
   const posterior = mean(samples) * 100;
@@ -431,6 +658,110 @@ function computeEvaluationPseudoCount(
   return { pseudoCount, evidenceStrength };
 }
 
+/**
+ * Derives the posterior Beta parameters for a decision vs. the status quo,
+ * recording each step. Every binary-decision calculation goes through here,
+ * so what the calculations pane explains is exactly what gets sampled.
+ * Evidence items add pseudo-observations alongside the criteria evaluations.
+ */
+export function derivePosteriorParams(
+  prior: number,
+  evaluations: CriterionEvaluation[],
+  criteria: Criterion[],
+  config: Pick<BayesianConfig, 'evidenceStrengthScale' | 'priorConcentration'> = {},
+  correlationGroups: CorrelationGroup[] = [],
+  evidence: EvidenceItem[] = []
+): PosteriorDerivation {
+  const {
+    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
+    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
+  } = config;
+
+  const priorProbability = prior / 100;
+  const priorAlpha = Math.max(MIN_BETA_PARAM, priorProbability * priorConcentration);
+  const priorBeta = Math.max(MIN_BETA_PARAM, (1 - priorProbability) * priorConcentration);
+
+  // Only criteria without sub-criteria are assessed; their parents are weighed through them
+  const leafEvaluations = evaluations.filter(e => !hasChildCriteria(criteria, e.criterionId));
+  const effectiveImportance = computeEffectiveImportance(criteria);
+
+  const correlationAdjustments = computeCorrelationAdjustments(
+    new Set(leafEvaluations.map(e => e.criterionId)),
+    correlationGroups
+  );
+
+  let alpha = priorAlpha;
+  let beta = priorBeta;
+
+  const steps = leafEvaluations.map((evaluation): DerivationStep => {
+    const criterion = criteria.find(c => c.id === evaluation.criterionId);
+    const importance = effectiveImportance.get(evaluation.criterionId) ?? 50;
+
+    const { pseudoCount, evidenceStrength } = computeEvaluationPseudoCount(
+      evaluation.strength,
+      evaluation.confidence,
+      importance,
+      evidenceStrengthScale
+    );
+
+    const correlationMultiplier = correlationAdjustments.get(evaluation.criterionId) ?? 1;
+    const adjustedPseudoCount = pseudoCount * correlationMultiplier;
+
+    // Supporting evidence: strength is the share of pseudo-observations favoring the decision.
+    // Opposing evidence: strength is the share favoring the status quo.
+    const share = evaluation.supportsDecision ? evidenceStrength : 1 - evidenceStrength;
+    const alphaIncrement = share * adjustedPseudoCount;
+    const betaIncrement = (1 - share) * adjustedPseudoCount;
+    alpha += alphaIncrement;
+    beta += betaIncrement;
+
+    return {
+      criterionId: evaluation.criterionId,
+      criterionName: criterion?.name ?? 'Unknown',
+      supportsDecision: evaluation.supportsDecision,
+      strength: evaluation.strength,
+      confidence: evaluation.confidence,
+      importance,
+      pseudoCount,
+      correlationMultiplier,
+      alphaIncrement,
+      betaIncrement,
+    };
+  });
+
+  const evidenceSteps = evidence.map((item): EvidenceDerivationStep => {
+    // Weight sets how many pseudo-observations the item is worth; value sets how they split
+    const pseudoCount = (item.weight / 100) * evidenceStrengthScale;
+    const alphaIncrement = (item.value / 100) * pseudoCount;
+    const betaIncrement = (1 - item.value / 100) * pseudoCount;
+    alpha += alphaIncrement;
+    beta += betaIncrement;
+
+    return {
+      evidenceId: item.id,
+      label: item.label,
+      type: item.type,
+      value: item.value,
+      weight: item.weight,
+      pseudoCount,
+      alphaIncrement,
+      betaIncrement,
+    };
+  });
+
+  return {
+    priorProbability,
+    priorConcentration,
+    evidenceStrengthScale,
+    priorAlpha,
+    priorBeta,
+    steps,
+    evidenceSteps,
+    alpha,
+    beta,
+  };
+}
+
 /**
  * Calculate posterior from criteria evaluations with optional correlation handling.
  */
@@ -439,21 +770,22 @@ export function calculatePosteriorFromEvaluations(
   evaluations: CriterionEvaluation[],
   criteria: Criterion[],
   config: BayesianConfig = {},
-  correlationGroups: CorrelationGroup[] = []
+  correlationGroups: CorrelationGroup[] = [],
+  evidence: EvidenceItem[] = []
 ): EvaluationPosteriorResult {
   const {
-    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
-    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
     applyCorrelationAdjustment = false,
     useQuasiRandom = true,
+    seed = generateSeed(),
   } = config;
+  const random = createSeededRandom(seed);
 
-  const priorProb = prior / 100;
-  let alpha = Math.max(MIN_BETA_PARAM, priorProb * priorConcentration);
-  let beta = Math.max(MIN_BETA_PARAM, (1 - priorProb) * priorConcentration);
+  const activeCorrelationGroups = applyCorrelationAdjustment ? correlationGroups : [];
+  const derivation = derivePosteriorParams(prior, evaluations, criteria, config, activeCorrelationGroups, evidence);
+  const { alpha, beta } = derivation;
 
   if (evaluations.length === 0) {
-    const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom);
+    const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
     const posterior = mean(samples) * 100;
     const credibleInterval = computeCredibleInterval(samples);
     const winPercentage = samples.filter(s => s > 0.5).length / samples.length * 100;
@@ -463,52 +795,15 @@ export function calculatePosteriorFromEvaluations(
       posterior,
       credibleInterval: [credibleInterval[0] * 100, credibleInterval[1] * 100],
       samples: samples.map(s => s * 100),
-      winPercentage,
+      winPercentage: Math.round(winPercentage),
       sensitivityAnalysis: [],
       convergenceDiagnostic,
+      derivation,
     };
   }
 
-  // Build a map of criterionId -> correlation adjustment factor
-  const correlationAdjustments = new Map<string, number>();
-  if (applyCorrelationAdjustment && correlationGroups.length > 0) {
-    correlationGroups.forEach(group => {
-      group.ids.forEach(id => {
-        const adjustment = computeCorrelationAdjustedWeight(1, group.correlationFactor, group.ids.length);
-        correlationAdjustments.set(id, adjustment);
-      });
-    });
-  }
-
-  // Update based on evaluations
-  evaluations.forEach((evaluation) => {
-    const criterion = criteria.find(c => c.id === evaluation.criterionId);
-    const importance = criterion?.importance ?? 50;
-    
-    const { pseudoCount, evidenceStrength } = computeEvaluationPseudoCount(
-      evaluation.strength,
-      evaluation.confidence,
-      importance,
-      evidenceStrengthScale
-    );
-    
-    // Apply correlation adjustment if enabled
-    const correlationMultiplier = correlationAdjustments.get(evaluation.criterionId) ?? 1;
-    const adjustedPseudoCount = pseudoCount * correlationMultiplier;
-    
-    if (evaluation.supportsDecision) {
-      // Supporting evidence: strength determines how strongly it supports
-      alpha += evidenceStrength * adjustedPseudoCount;
-      beta += (1 - evidenceStrength) * adjustedPseudoCount;
-    } else {
-      // Opposing evidence: strength determines how strongly it opposes
-      beta += evidenceStrength * adjustedPseudoCount;
-      alpha += (1 - evidenceStrength) * adjustedPseudoCount;
-    }
-  });
-
   // Monte Carlo sampling
-  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom);
+  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
   
   // Win percentage = how often decision beats status quo (>50%)
   const winPercentage = samples.filter(s => s > 0.5).length / samples.length * 100;
@@ -516,14 +811,20 @@ export function calculatePosteriorFromEvaluations(
   const posterior = mean(samples) * 100;
   const credibleInterval = computeCredibleInterval(samples);
   const convergenceDiagnostic = computeConvergenceDiagnostic(samples);
+  const sensitivityNodes = getSensitivityNodes(evaluations, criteria);
+  config.onProgress?.(evaluations.length > 1 ? 1 / (sensitivityNodes.length + 1) : 1);
 
-  // Perform sensitivity analysis (leave-one-out)
+  // Perform sensitivity analysis (leave-one-out). Reusing the seed gives every
+  // re-run the same random draws, so impacts reflect the criterion, not sampling noise.
   const sensitivityAnalysis = computeSensitivityAnalysis(
     prior,
     evaluations,
     criteria,
+    sensitivityNodes,
     posterior,
-    config
+    { ...config, seed },
+    activeCorrelationGroups,
+    evidence
   );
 
   return {
@@ -536,6 +837,7 @@ export function calculatePosteriorFromEvaluations(
     winPercentage: Math.round(winPercentage),
     sensitivityAnalysis,
     convergenceDiagnostic,
+    derivation,
   };
 }
 
@@ -543,41 +845,84 @@ export function calculatePosteriorFromEvaluations(
 // SENSITIVITY ANALYSIS
 // ============================================================================
 
+interface SensitivityNode {
+  criterionId: string;
+  criterionName: string;
+  parentId: string | null;
+  depth: number;
+  evaluations: CriterionEvaluation[]; // The assessed criteria at or below this one
+}
+
+/**
+ * The criteria sensitivity is reported for: every level of the tree that has
+ * assessed criteria beneath it, plus any evaluation whose criterion is gone.
+ */
+function getSensitivityNodes(evaluations: CriterionEvaluation[], criteria: Criterion[]): SensitivityNode[] {
+  const nodes = walkCriteriaTree(criteria)
+    .map(({ criterion, depth }): SensitivityNode => {
+      const subtree = new Set(getSubtreeIds(criteria, criterion.id));
+      return {
+        criterionId: criterion.id,
+        criterionName: criterion.name,
+        parentId: depth > 0 ? criterion.parentId ?? null : null,
+        depth,
+        evaluations: evaluations.filter(e => subtree.has(e.criterionId) && !hasChildCriteria(criteria, e.criterionId)),
+      };
+    })
+    .filter(node => node.evaluations.length > 0);
+
+  evaluations
+    .filter(e => !criteria.some(c => c.id === e.criterionId))
+    .forEach(e => nodes.push({ criterionId: e.criterionId, criterionName: 'Unknown', parentId: null, depth: 0, evaluations: [e] }));
+
+  return nodes;
+}
+
 /**
  * Performs leave-one-out sensitivity analysis.
  * For each criterion, computes how the posterior would change if that criterion were removed.
  * This reveals which criteria have the most influence on the final decision.
+ * A parent criterion is removed together with all of its sub-criteria.
  */
 function computeSensitivityAnalysis(
   prior: number,
   evaluations: CriterionEvaluation[],
   criteria: Criterion[],
+  nodes: SensitivityNode[],
   fullPosterior: number,
-  config: BayesianConfig
+  config: BayesianConfig,
+  correlationGroups: CorrelationGroup[],
+  evidence: EvidenceItem[]
 ): SensitivityItem[] {
   if (evaluations.length <= 1) {
     return [];
   }
 
-  return evaluations.map(evaluation => {
-    const criterion = criteria.find(c => c.id === evaluation.criterionId);
-    
-    // Calculate posterior without this evaluation
-    const reducedEvaluations = evaluations.filter(e => e.criterionId !== evaluation.criterionId);
+  return nodes.map((node, i) => {
+    // Calculate posterior without this criterion's evaluations
+    const reducedEvaluations = evaluations.filter(e => !node.evaluations.includes(e));
     const reducedResult = calculatePosteriorFromEvaluationsInternal(
       prior,
       reducedEvaluations,
       criteria,
-      config
+      config,
+      correlationGroups,
+      evidence
     );
+    // The full run is the first step, then one step per left-out criterion
+    config.onProgress?.((i + 2) / (nodes.length + 1));
     
     // Impact = how much the posterior changes when this criterion is removed
     const impact = fullPosterior - reducedResult.posterior;
     
-    const direction: 'supporting' | 'opposing' = evaluation.supportsDecision ? 'supporting' : 'opposing';
+    // A parent's sub-criteria can pull both ways, so its net effect decides
+    const supports = node.evaluations.length === 1 ? node.evaluations[0].supportsDecision : impact >= 0;
+    const direction: 'supporting' | 'opposing' = supports ? 'supporting' : 'opposing';
     return {
-      criterionId: evaluation.criterionId,
-      criterionName: criterion?.name ?? 'Unknown',
+      criterionId: node.criterionId,
+      criterionName: node.criterionName,
+      parentId: node.parentId,
+      depth: node.depth,
       impact: Math.round(impact * 10) / 10, // Round to 1 decimal
       direction,
     };
@@ -591,40 +936,667 @@ function calculatePosteriorFromEvaluationsInternal(
   prior: number,
   evaluations: CriterionEvaluation[],
   criteria: Criterion[],
-  config: BayesianConfig
+  config: BayesianConfig,
+  correlationGroups: CorrelationGroup[],
+  evidence: EvidenceItem[]
 ): { posterior: number } {
   const {
-    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
-    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
     useQuasiRandom = true,
+    seed = generateSeed(),
   } = config;
+  const random = createSeededRandom(seed);
 
-  const priorProb = prior / 100;
-  let alpha = Math.max(MIN_BETA_PARAM, priorProb * priorConcentration);
-  let beta = Math.max(MIN_BETA_PARAM, (1 - priorProb) * priorConcentration);
+  const { alpha, beta } = derivePosteriorParams(prior, evaluations, criteria, config, correlationGroups, evidence);
+
+  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
+  return { posterior: mean(samples) * 100 };
+}
+
+// ============================================================================
+// MULTI-OPTION INFERENCE
+// ============================================================================
+
+/**
+ * Beta parameters for one option: a neutral prior plus its per-criterion scores,
+ * with correlated criteria discounted the same way as in a binary decision.
+ */
+function computeOptionBetaParams(
+  scores: OptionScore[],
+  criteria: Criterion[],
+  evidenceStrengthScale: number,
+  priorConcentration: number,
+  correlationGroups: CorrelationGroup[] = []
+): { alpha: number; beta: number } {
+  let alpha = Math.max(MIN_BETA_PARAM, 0.5 * priorConcentration);
+  let beta = Math.max(MIN_BETA_PARAM, 0.5 * priorConcentration);
+  const effectiveImportance = computeEffectiveImportance(criteria);
+  const leafScores = scores.filter(s => effectiveImportance.has(s.criterionId) && !hasChildCriteria(criteria, s.criterionId));
+  const correlationAdjustments = computeCorrelationAdjustments(
+    new Set(leafScores.map(s => s.criterionId)),
+    correlationGroups
+  );
+
+  leafScores.forEach((score) => {
+    const importance = effectiveImportance.get(score.criterionId) as number;
 
-  evaluations.forEach((evaluation) => {
-    const criterion = criteria.find(c => c.id === evaluation.criterionId);
-    const importance = criterion?.importance ?? 50;
-    
     const { pseudoCount, evidenceStrength } = computeEvaluationPseudoCount(
-      evaluation.strength,
-      evaluation.confidence,
+      score.score,
+      score.confidence,
       importance,
       evidenceStrengthScale
     );
-    
-    if (evaluation.supportsDecision) {
-      alpha += evidenceStrength * pseudoCount;
-      beta += (1 - evidenceStrength) * pseudoCount;
-    } else {
-      beta += evidenceStrength * pseudoCount;
-      alpha += (1 - evidenceStrength) * pseudoCount;
+    const adjustedPseudoCount = pseudoCount * (correlationAdjustments.get(score.criterionId) ?? 1);
+
+    alpha += evidenceStrength * adjustedPseudoCount;
+    beta += (1 - evidenceStrength) * adjustedPseudoCount;
+  });
+
+  return { alpha, beta };
+}
+
+/**
+ * Compares N named alternatives using one Beta posterior per option.
+ *
+ * Every option starts from the same neutral prior, so only the per-criterion
+ * scores separate them. A score is turned into pseudo-observations the same way
+ * a binary evaluation is: confidence × importance sets how many, the score sets
+ * how they split between α and β. The options are then sampled jointly and we
+ * count how often each one has the highest draw.
+ */
+export function calculateOptionPosteriors(
+  options: DecisionOption[],
+  scores: OptionScore[],
+  criteria: Criterion[],
+  config: BayesianConfig = {},
+  correlationGroups: CorrelationGroup[] = []
+): MultiOptionPosteriorResult {
+  const {
+    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
+    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
+    useQuasiRandom = true,
+    seed = generateSeed(),
+  } = config;
+  const random = createSeededRandom(seed);
+
+  if (options.length === 0) {
+    return { options: [], leadingOptionId: null };
+  }
+
+  const optionSamples = options.map((option, o) => {
+    config.onProgress?.(o / options.length);
+    const { alpha, beta } = computeOptionBetaParams(
+      scores.filter(s => s.optionId === option.id),
+      criteria,
+      evidenceStrengthScale,
+      priorConcentration,
+      correlationGroups
+    );
+
+    const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom, random);
+    // Quasi-random draws come out in the same low-discrepancy order for every
+    // option, which would correlate them. Shuffling keeps each marginal intact
+    // while making the joint draws independent.
+    return useQuasiRandom ? shuffle(samples, random) : samples;
+  });
+
+  // Count how often each option has the highest draw
+  const wins = new Array(options.length).fill(0);
+  for (let i = 0; i < MONTE_CARLO_SAMPLES; i++) {
+    let best = 0;
+    for (let o = 1; o < options.length; o++) {
+      if (optionSamples[o][i] > optionSamples[best][i]) best = o;
+    }
+    wins[best]++;
+  }
+
+  config.onProgress?.(1);
+
+  const results = options.map((option, o): OptionPosterior => {
+    const samples = optionSamples[o];
+    const credibleInterval = computeCredibleInterval(samples);
+
+    return {
+      optionId: option.id,
+      optionName: option.name,
+      posterior: mean(samples) * 100,
+      credibleInterval: [credibleInterval[0] * 100, credibleInterval[1] * 100],
+      winPercentage: Math.round(wins[o] / MONTE_CARLO_SAMPLES * 100),
+      samples: samples.map(s => s * 100),
+      convergenceDiagnostic: computeConvergenceDiagnostic(samples),
+    };
+  }).sort((a, b) => b.winPercentage - a.winPercentage || b.posterior - a.posterior);
+
+  return {
+    options: results,
+    leadingOptionId: results[0].optionId,
+  };
+}
+
+/**
+ * Runs the analysis the results screen needs: the decision-vs-status-quo
+ * posterior, plus per-option posteriors when comparing alternatives.
+ * Progress is reported for whichever of the two does the heavy lifting.
+ */
+export function calculateDecisionResults(
+  state: Pick<DecisionState, 'initialConfidence' | 'criteria' | 'correlationGroups' | 'criteriaEvaluations' | 'evidence' | 'options' | 'optionScores' | 'payoffs'>,
+  config: BayesianConfig = {}
+): DecisionResults {
+  const { onProgress, ...rest } = config;
+  const seededConfig = { ...rest, seed: config.seed ?? generateSeed() };
+  const isComparingOptions = isMultiOptionDecision(state);
+
+  const results = calculatePosteriorFromEvaluations(
+    state.initialConfidence,
+    state.criteriaEvaluations,
+    state.criteria,
+    {
+      ...seededConfig,
+      applyCorrelationAdjustment: true,
+      ...(isComparingOptions ? {} : { onProgress }),
+    },
+    toCorrelationGroups(state.correlationGroups),
+    state.evidence
+  );
+  const optionResults = isComparingOptions
+    ? calculateOptionPosteriors(
+      state.options, state.optionScores, state.criteria, { ...seededConfig, onProgress }, toCorrelationGroups(state.correlationGroups)
+    )
+    : null;
+  const utility = state.payoffs.length > 0
+    ? computeExpectedUtility(state.payoffs, { results, optionResults }, seededConfig)
+    : null;
+
+  return { results, optionResults, utility };
+}
+
+/** The headline win percentage: the leading option's share of wins when comparing alternatives */
+export function getDecisionWinPercentage({ results, optionResults }: DecisionResults): number {
+  return optionResults ? optionResults.options[0]?.winPercentage ?? 0 : results.winPercentage;
+}
+
+// ============================================================================
+// EXPECTED UTILITY
+// ============================================================================
+
+/** Inverse-CDF draw from a triangular distribution */
+function sampleTriangular(min: number, likely: number, max: number, random: RandomSource): number {
+  const range = max - min;
+  if (range <= 0) return min;
+
+  const u = random();
+  return u < (likely - min) / range
+    ? min + Math.sqrt(u * range * (likely - min))
+    : max - Math.sqrt((1 - u) * range * (max - likely));
+}
+
+/**
+ * PERT draw: a Beta stretched over [min, max] with its mode at the most likely
+ * value. Compared to a triangular distribution it puts less weight on the extremes.
+ */
+function samplePert(min: number, likely: number, max: number, random: RandomSource): number {
+  const range = max - min;
+  if (range <= 0) return min;
+
+  const alpha = 1 + 4 * (likely - min) / range;
+  const beta = 1 + 4 * (max - likely) / range;
+  return min + sampleBeta(alpha, beta, random) * range;
+}
+
+export function samplePayoff(
+  payoff: Pick<OutcomePayoff, 'shape' | 'min' | 'likely' | 'max'>,
+  random: RandomSource
+): number {
+  const { min, likely, max } = payoff;
+  return payoff.shape === 'pert'
+    ? samplePert(min, likely, max, random)
+    : sampleTriangular(min, likely, max, random);
+}
+
+function summarizeUtility(optionId: string | null, draws: number[]): UtilityAlternative {
+  const sorted = [...draws].sort((a, b) => a - b);
+  const tail = sorted.slice(0, Math.max(1, Math.floor(sorted.length * CVAR_TAIL)));
+
+  return {
+    optionId,
+    expectedUtility: mean(sorted),
+    cvar: mean(tail),
+    lossProbability: sorted.filter(d => d < 0).length / sorted.length * 100,
+    draws: sorted,
+  };
+}
+
+/**
+ * Turns success probabilities into payoffs.
+ *
+ * Each posterior draw is one plausible success probability for an alternative.
+ * For each one we draw whether it works out, then draw the payoff for that
+ * outcome from the user's distribution, so the spread reflects uncertainty
+ * about both the odds and the stakes. A missing payoff counts as 0 (no
+ * better or worse off than today).
+ */
+export function computeExpectedUtility(
+  payoffs: OutcomePayoff[],
+  { results, optionResults }: Pick<DecisionResults, 'results' | 'optionResults'>,
+  config: Pick<BayesianConfig, 'seed'> = {}
+): ExpectedUtilityResult {
+  const random = createSeededRandom(((config.seed ?? generateSeed()) ^ UTILITY_SEED_SALT) >>> 0);
+
+  const simulate = (optionId: string | null, samples: number[]) => {
+    const forAlternative = payoffs.filter(p => (p.optionId ?? null) === optionId);
+    const success = forAlternative.find(p => p.outcome === 'success');
+    const failure = forAlternative.find(p => p.outcome === 'failure');
+
+    const draws = samples.map((sample) => {
+      const payoff = random() < sample / 100 ? success : failure;
+      return payoff ? samplePayoff(payoff, random) : 0;
+    });
+    return summarizeUtility(optionId, draws);
+  };
+
+  const alternatives = optionResults
+    ? optionResults.options.map(option => simulate(option.optionId, option.samples))
+    : [simulate(null, results.samples)];
+  const scale = Math.max(...payoffs.flatMap(p => [Math.abs(p.min), Math.abs(p.likely), Math.abs(p.max)]), 0);
+
+  return {
+    alternatives,
+    includesStatusQuo: !optionResults,
+    scale: scale > 0 ? scale : 1,
+  };
+}
+
+/**
+ * Certainty equivalent under exponential utility u(x) = 1 − e^(−a·x / scale):
+ * the sure payoff that would be worth as much as the gamble. Dividing by the
+ * largest payoff keeps the coefficient unit-free. a = 0 is risk-neutral (the
+ * plain expected payoff); the larger a, the more the bad draws dominate.
+ */
+export function computeCertaintyEquivalent(draws: number[], riskAversion: number, scale: number): number {
+  if (draws.length === 0) return 0;
+  if (riskAversion <= 0) return mean(draws);
+
+  const a = riskAversion / scale;
+  const expectedDisutility = mean(draws.map(d => Math.exp(-a * d)));
+  return -Math.log(expectedDisutility) / a;
+}
+
+/**
+ * The alternative with the highest certainty equivalent at the given risk
+ * aversion, or null when staying with the status quo (worth 0) beats them all.
+ */
+export function recommendAlternative(
+  utility: ExpectedUtilityResult,
+  riskAversion: number
+): { alternative: UtilityAlternative | null; certaintyEquivalent: number } {
+  let best: UtilityAlternative | null = null;
+  let bestValue = utility.includesStatusQuo ? 0 : -Infinity;
+
+  for (const alternative of utility.alternatives) {
+    const value = computeCertaintyEquivalent(alternative.draws, riskAversion, utility.scale);
+    if (value > bestValue) {
+      best = alternative;
+      bestValue = value;
+    }
+  }
+
+  return { alternative: best, certaintyEquivalent: Number.isFinite(bestValue) ? bestValue : 0 };
+}
+
+// ============================================================================
+// EXPERIMENT FEEDBACK
+// ============================================================================
+
+/**
+ * Blends an experiment result into an existing assessment.
+ *
+ * Both are expressed the way the engine sees them: a share of pseudo-observations
+ * favoring the decision (0-1) and a weight (confidence). The experiment acts as
+ * one more pseudo-observation weighted by its conclusiveness, so a conclusive
+ * result dominates a shaky prior assessment but barely moves a confident one.
+ * Learning something always makes us more sure, never less.
+ */
+function blendExperimentResult(
+  share: number,
+  confidence: number,
+  result: ExperimentResult
+): { share: number; confidence: number } {
+  const conclusiveness = result.conclusiveness / 100;
+  const resultShare = result.direction === 'supports'
+    ? 0.5 + 0.5 * conclusiveness
+    : result.direction === 'opposes'
+    ? 0.5 - 0.5 * conclusiveness
+    : 0.5;
+
+  const weight = confidence / 100;
+  const blendedShare = (weight * share + conclusiveness * resultShare) / (weight + conclusiveness || 1);
+  const blendedConfidence = confidence + conclusiveness * (100 - confidence);
+
+  return {
+    share: blendedShare,
+    confidence: Math.round(Math.min(100, blendedConfidence)),
+  };
+}
+
+/**
+ * Returns the evaluation for the experiment's criterion, updated with its result.
+ */
+export function applyExperimentResult(
+  evaluation: CriterionEvaluation,
+  result: ExperimentResult
+): CriterionEvaluation {
+  // Share of pseudo-observations favoring the decision, as computed in derivePosteriorParams
+  const share = evaluation.supportsDecision ? evaluation.strength / 100 : 1 - evaluation.strength / 100;
+  const blended = blendExperimentResult(share, evaluation.confidence, result);
+  const supportsDecision = blended.share >= 0.5;
+
+  return {
+    ...evaluation,
+    supportsDecision,
+    strength: Math.round((supportsDecision ? blended.share : 1 - blended.share) * 100),
+    confidence: blended.confidence,
+  };
+}
+
+/**
+ * Returns an option's score on the experiment's criterion, updated with its result.
+ */
+export function applyExperimentResultToScore(
+  score: OptionScore,
+  result: ExperimentResult
+): OptionScore {
+  const blended = blendExperimentResult(score.score / 100, score.confidence, result);
+
+  return {
+    ...score,
+    score: Math.max(1, Math.round(blended.share * 100)),
+    confidence: blended.confidence,
+  };
+}
+
+/**
+ * Re-runs the decision with the experiment result folded in. The result updates the
+ * tested assessment (or adds it at the neutral midpoint if it was never made), and
+ * both runs share the seed, so the before/after delta reflects the result rather
+ * than sampling noise.
+ */
+export function computeExperimentResultImpact(
+  state: Pick<DecisionState, 'initialConfidence' | 'criteria' | 'correlationGroups' | 'criteriaEvaluations' | 'evidence' | 'options' | 'optionScores'>,
+  result: ExperimentResult,
+  config: BayesianConfig = {}
+): ExperimentResultImpact {
+  const seededConfig = { ...config, seed: config.seed ?? generateSeed() };
+
+  if (isMultiOptionDecision(state)) {
+    const existing = state.optionScores.find(
+      s => s.criterionId === result.criterionId && s.optionId === result.optionId
+    );
+    const updatedScore = applyExperimentResultToScore(existing ?? {
+      criterionId: result.criterionId,
+      optionId: result.optionId as string,
+      score: 50,
+      confidence: 50,
+    }, result);
+    const optionScores = existing
+      ? state.optionScores.map(s => (s === existing ? updatedScore : s))
+      : [...state.optionScores, updatedScore];
+
+    const correlationGroups = toCorrelationGroups(state.correlationGroups);
+    const before = calculateOptionPosteriors(state.options, state.optionScores, state.criteria, seededConfig, correlationGroups);
+    const after = calculateOptionPosteriors(state.options, optionScores, state.criteria, seededConfig, correlationGroups);
+    const leader = after.options[0];
+
+    return {
+      posteriorBefore: before.options[0]?.posterior ?? null,
+      posteriorAfter: leader?.posterior ?? null,
+      credibleInterval: leader?.credibleInterval ?? null,
+      winPercentage: leader?.winPercentage ?? null,
+      convergenceDiagnostic: leader?.convergenceDiagnostic ?? null,
+      criteriaEvaluations: state.criteriaEvaluations,
+      optionScores,
+    };
+  }
+
+  const existing = state.criteriaEvaluations.find(e => e.criterionId === result.criterionId);
+  const updatedEvaluation = applyExperimentResult(existing ?? {
+    criterionId: result.criterionId,
+    supportsDecision: true,
+    strength: 50,
+    confidence: 50,
+  }, result);
+  const criteriaEvaluations = existing
+    ? state.criteriaEvaluations.map(e => (e === existing ? updatedEvaluation : e))
+    : [...state.criteriaEvaluations, updatedEvaluation];
+
+  const correlationGroups = toCorrelationGroups(state.correlationGroups);
+  const evaluationConfig = { ...seededConfig, applyCorrelationAdjustment: true };
+  const before = calculatePosteriorFromEvaluations(
+    state.initialConfidence, state.criteriaEvaluations, state.criteria, evaluationConfig, correlationGroups, state.evidence
+  );
+  const after = calculatePosteriorFromEvaluations(
+    state.initialConfidence, criteriaEvaluations, state.criteria, evaluationConfig, correlationGroups, state.evidence
+  );
+
+  return {
+    posteriorBefore: before.posterior,
+    posteriorAfter: after.posterior,
+    credibleInterval: after.credibleInterval,
+    winPercentage: after.winPercentage,
+    convergenceDiagnostic: after.convergenceDiagnostic ?? null,
+    criteriaEvaluations,
+    optionScores: state.optionScores,
+  };
+}
+
+// ============================================================================
+// VALUE OF INFORMATION
+// ============================================================================
+
+/**
+ * Draws plausible "true" values for an assessment the user gave with the given
+ * confidence. The lower the confidence, the further the truth may sit from the
+ * assessed share. Returned shares are 0-1.
+ */
+function sampleTrueShares(
+  share: number,
+  confidence: number,
+  n: number,
+  useQuasiRandom: boolean,
+  random: RandomSource
+): number[] {
+  const clampedConfidence = Math.min(99, Math.max(1, confidence));
+  const concentration = ASSESSMENT_CONCENTRATION_SCALE * clampedConfidence / (100 - clampedConfidence);
+  const clampedShare = Math.min(0.99, Math.max(0.01, share));
+
+  const samples = sampleBetaStable(
+    Math.max(MIN_BETA_PARAM, clampedShare * concentration),
+    Math.max(MIN_BETA_PARAM, (1 - clampedShare) * concentration),
+    n,
+    useQuasiRandom,
+    random
+  );
+  return useQuasiRandom ? shuffle(samples, random) : samples;
+}
+
+/**
+ * Binary decision: proceed if the expected success probability beats the
+ * 50% status-quo threshold, so the value of acting on beliefs p is max(p, 0.5).
+ *
+ * EVPI = E[max(p, 0.5)] − max(E[p], 0.5), computed exactly from the Beta posterior.
+ * EVPPI for a criterion simulates learning its true share (drawn around the
+ * current assessment, spread by its confidence) and re-weighs it at full
+ * confidence. Each draw scores how much better the best choice is than
+ * today's choice under the updated beliefs, so a criterion that can never
+ * flip the choice is worth nothing.
+ */
+function computeBinaryValueOfInformation(
+  state: Pick<DecisionState, 'initialConfidence' | 'criteria' | 'correlationGroups' | 'criteriaEvaluations' | 'evidence'>,
+  config: BayesianConfig
+): ValueOfInformationResult {
+  const {
+    useQuasiRandom = true,
+    seed = generateSeed(),
+  } = config;
+  const random = createSeededRandom(seed);
+  const { initialConfidence, criteria, criteriaEvaluations, evidence } = state;
+  const correlationGroups = toCorrelationGroups(state.correlationGroups);
+
+  const { alpha, beta } = derivePosteriorParams(
+    initialConfidence, criteriaEvaluations, criteria, config, correlationGroups, evidence
+  );
+  const currentMean = alpha / (alpha + beta);
+  const currentValue = Math.max(currentMean, 0.5);
+  const currentlyProceeds = currentMean > 0.5;
+
+  // E[max(p, 0.5)] = 0.5·P(p ≤ 0.5) + E[p · 1(p > 0.5)]
+  const perfectValue =
+    0.5 * jStat.beta.cdf(0.5, alpha, beta) +
+    currentMean * (1 - jStat.beta.cdf(0.5, alpha + 1, beta));
+  const evpi = Math.max(0, perfectValue - currentValue) * 100;
+
+  // Parent criteria are only learned about through their sub-criteria
+  const leaves = getLeafCriteria(criteria);
+  const items = leaves.map((criterion, c): ValueOfInformationItem => {
+    config.onProgress?.(c / leaves.length);
+    const existing = criteriaEvaluations.find(e => e.criterionId === criterion.id);
+    // An unassessed criterion is treated as a neutral guess made with almost no confidence
+    const share = existing
+      ? (existing.supportsDecision ? existing.strength : 100 - existing.strength) / 100
+      : 0.5;
+    const confidence = existing?.confidence ?? 1;
+    const others = criteriaEvaluations.filter(e => e.criterionId !== criterion.id);
+
+    let regretSum = 0;
+    let changes = 0;
+    sampleTrueShares(share, confidence, VOI_OUTER_SAMPLES, useQuasiRandom, random).forEach((trueShare) => {
+      const learned = derivePosteriorParams(
+        initialConfidence,
+        [...others, { criterionId: criterion.id, supportsDecision: true, strength: trueShare * 100, confidence: 100 }],
+        criteria,
+        config,
+        correlationGroups,
+        evidence
+      );
+      const learnedMean = learned.alpha / (learned.alpha + learned.beta);
+      // Gain over sticking with today's choice, judged by what we'd then believe
+      regretSum += Math.max(learnedMean, 0.5) - (currentlyProceeds ? learnedMean : 0.5);
+      if ((learnedMean > 0.5) !== currentlyProceeds) changes++;
+    });
+
+    return {
+      criterionId: criterion.id,
+      criterionName: criterion.name,
+      evppi: Math.round(regretSum / VOI_OUTER_SAMPLES * 1000) / 10,
+      decisionChangeProbability: Math.round(changes / VOI_OUTER_SAMPLES * 100),
+    };
+  });
+
+  return {
+    evpi: Math.round(evpi * 10) / 10,
+    criteria: items.sort((a, b) => b.evppi - a.evppi || b.decisionChangeProbability - a.decisionChangeProbability),
+  };
+}
+
+/**
+ * Multi-option decision: pick the option with the highest expected success probability.
+ *
+ * EVPI = E[max_k p_k] − max_k E[p_k] over the joint posterior draws.
+ * EVPPI for a criterion simulates learning every option's true score on it at once.
+ */
+function computeMultiOptionValueOfInformation(
+  state: Pick<DecisionState, 'criteria' | 'correlationGroups' | 'options' | 'optionScores'>,
+  config: BayesianConfig
+): ValueOfInformationResult {
+  const {
+    evidenceStrengthScale = EVIDENCE_STRENGTH_SCALE,
+    priorConcentration = DEFAULT_PRIOR_CONCENTRATION,
+    useQuasiRandom = true,
+    seed = generateSeed(),
+  } = config;
+  const random = createSeededRandom(seed);
+  const { criteria, options, optionScores } = state;
+  const correlationGroups = toCorrelationGroups(state.correlationGroups);
+
+  const currentMeans = options.map((option) => {
+    const { alpha, beta } = computeOptionBetaParams(
+      optionScores.filter(s => s.optionId === option.id), criteria, evidenceStrengthScale, priorConcentration, correlationGroups
+    );
+    return alpha / (alpha + beta);
+  });
+  const currentBest = currentMeans.indexOf(Math.max(...currentMeans));
+  const currentValue = currentMeans[currentBest];
+
+  const { options: posteriors } = calculateOptionPosteriors(options, optionScores, criteria, { ...config, seed }, correlationGroups);
+  let perfectSum = 0;
+  for (let i = 0; i < MONTE_CARLO_SAMPLES; i++) {
+    perfectSum += Math.max(...posteriors.map(p => p.samples[i] / 100));
+  }
+  const evpi = Math.max(0, perfectSum / MONTE_CARLO_SAMPLES - currentValue) * 100;
+
+  const leaves = getLeafCriteria(criteria);
+  const items = leaves.map((criterion, c): ValueOfInformationItem => {
+    config.onProgress?.(c / leaves.length);
+    const trueShares = options.map((option) => {
+      const existing = optionScores.find(s => s.optionId === option.id && s.criterionId === criterion.id);
+      return sampleTrueShares(
+        (existing?.score ?? 50) / 100,
+        existing?.confidence ?? 1,
+        VOI_OUTER_SAMPLES,
+        useQuasiRandom,
+        random
+      );
+    });
+
+    let regretSum = 0;
+    let changes = 0;
+    for (let j = 0; j < VOI_OUTER_SAMPLES; j++) {
+      const learnedMeans = options.map((option, o) => {
+        const { alpha, beta } = computeOptionBetaParams(
+          [
+            ...optionScores.filter(s => s.optionId === option.id && s.criterionId !== criterion.id),
+            { criterionId: criterion.id, optionId: option.id, score: trueShares[o][j] * 100, confidence: 100 },
+          ],
+          criteria,
+          evidenceStrengthScale,
+          priorConcentration,
+          correlationGroups
+        );
+        return alpha / (alpha + beta);
+      });
+      const learnedValue = Math.max(...learnedMeans);
+      regretSum += learnedValue - learnedMeans[currentBest];
+      if (learnedMeans.indexOf(learnedValue) !== currentBest) changes++;
     }
+
+    return {
+      criterionId: criterion.id,
+      criterionName: criterion.name,
+      evppi: Math.round(regretSum / VOI_OUTER_SAMPLES * 1000) / 10,
+      decisionChangeProbability: Math.round(changes / VOI_OUTER_SAMPLES * 100),
+    };
   });
 
-  const samples = sampleBetaStable(alpha, beta, MONTE_CARLO_SAMPLES, useQuasiRandom);
-  return { posterior: mean(samples) * 100 };
+  return {
+    evpi: Math.round(evpi * 10) / 10,
+    criteria: items.sort((a, b) => b.evppi - a.evppi || b.decisionChangeProbability - a.decisionChangeProbability),
+  };
+}
+
+/**
+ * Expected value of perfect information (EVPI) for the whole decision, and of
+ * partial perfect information (EVPPI) for each criterion.
+ *
+ * Values are in percentage points of success probability: how much better the
+ * choice we'd make is expected to turn out if the uncertainty were resolved
+ * first. Unlike leave-one-out sensitivity, this is zero for a criterion that
+ * can't plausibly change the choice, however much it moves the posterior.
+ */
+export function computeValueOfInformation(
+  state: Pick<DecisionState, 'initialConfidence' | 'criteria' | 'correlationGroups' | 'criteriaEvaluations' | 'evidence' | 'options' | 'optionScores'>,
+  config: BayesianConfig = {}
+): ValueOfInformationResult {
+  return isMultiOptionDecision(state)
+    ? computeMultiOptionValueOfInformation(state, config)
+    : computeBinaryValueOfInformation(state, config);
 }
 
 // ============================================================================
@@ -634,13 +1606,25 @@ function calculatePosteriorFromEvaluationsInternal(
 /**
  * Compute 95% credible interval from samples
  */
-function computeCredibleInterval(samples: number[]): [number, number] {
+export function computeCredibleInterval(samples: number[]): [number, number] {
   const sorted = [...samples].sort((a, b) => a - b);
   const lowerIdx = Math.floor(samples.length * 0.025);
   const upperIdx = Math.floor(samples.length * 0.975);
   return [sorted[lowerIdx], sorted[upperIdx]];
 }
 
+/**
+ * Fisher-Yates shuffle (returns a new array)
+ */
+function shuffle(values: number[], random: RandomSource): number[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
 /**
  * Compute mean of samples
  */
@@ -0,0 +1,103 @@
+import { DecisionState, ExperimentResult } from '@/types/decision';
+import type { BayesianConfig, DecisionResults, ExperimentResultImpact, OptionPosterior, ValueOfInformationResult } from '@/lib/bayesian';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DecisionInputs = Pick<DecisionState, 'initialConfidence' | 'criteria' | 'correlationGroups' | 'criteriaEvaluations' | 'evidence' | 'options' | 'optionScores' | 'payoffs'>;
+
+/** Functions can't cross the worker boundary, so progress is reported by message instead */
+type WorkerConfig = Omit<BayesianConfig, 'onProgress'>;
+
+/** A saved multi-option decision to rank, re-run with the seed it was saved with */
+export interface OptionRankingInputs extends Pick<DecisionState, 'options' | 'optionScores' | 'criteria' | 'correlationGroups'> {
+  id: string; // Echoed back as the result's key
+  seed?: number;
+}
+
+/** How often each option comes out on top, best first; samples stay in the worker */
+export type OptionRanking = Pick<OptionPosterior, 'optionId' | 'optionName' | 'winPercentage'>[];
+
+export type BayesianJob =
+  | { kind: 'decisionResults'; state: DecisionInputs; config?: WorkerConfig }
+  | { kind: 'valueOfInformation'; state: DecisionInputs; config?: WorkerConfig }
+  | { kind: 'experimentResult'; state: DecisionInputs; result: ExperimentResult; config?: WorkerConfig }
+  | { kind: 'optionRankings'; decisions: OptionRankingInputs[] };
+
+export interface BayesianJobResults {
+  decisionResults: DecisionResults;
+  valueOfInformation: ValueOfInformationResult;
+  experimentResult: ExperimentResultImpact;
+  optionRankings: Record<string, OptionRanking>; // Keyed by each input's id
+}
+
+export type BayesianWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: BayesianJobResults[BayesianJob['kind']] }
+  | { type: 'error'; message: string };
+
+export interface RunBayesianJobOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * Runs a Monte Carlo job off the main thread.
+ *
+ * Each job gets its own worker. The engine is synchronous, so a running job
+ * can't be interrupted by a message; aborting terminates its worker instead
+ * and rejects with an AbortError.
+ */
+export function runBayesianJob<K extends BayesianJob['kind']>(
+  job: Extract<BayesianJob, { kind: K }>,
+  { onProgress, signal }: RunBayesianJobOptions = {}
+): Promise<BayesianJobResults[K]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Simulation cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/bayesian.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Simulation cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<BayesianWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result as BayesianJobResults[K]);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Simulation failed'));
+    };
+
+    worker.postMessage(job);
+  });
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
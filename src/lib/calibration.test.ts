@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeCalibration } from '@/lib/calibration';
+
+describe('computeCalibration', () => {
+  it('has nothing to score without resolved decisions', () => {
+    expect(computeCalibration([])).toBeNull();
+  });
+
+  it('scores forecasts against outcomes, counting a partial success as half', () => {
+    const result = computeCalibration([
+      { forecast: 80, outcome: 'success' },
+      { forecast: 30, outcome: 'failure' },
+      { forecast: 60, outcome: 'partial' },
+    ]);
+
+    // (0.2² + 0.3² + 0.1²) / 3
+    expect(result?.count).toBe(3);
+    expect(result?.brierScore).toBeCloseTo(0.14 / 3, 10);
+    // (−ln 0.8 − ln 0.7 − (ln 0.6 + ln 0.4) / 2) / 3
+    expect(result?.logLoss).toBeCloseTo(0.431126, 6);
+  });
+
+  it('matches the reference values for always saying 50%', () => {
+    const result = computeCalibration([
+      { forecast: 50, outcome: 'success' },
+      { forecast: 50, outcome: 'failure' },
+    ]);
+
+    expect(result?.brierScore).toBeCloseTo(0.25, 10);
+    expect(result?.logLoss).toBeCloseTo(Math.LN2, 10);
+  });
+
+  it('clamps a certain forecast so a miss costs a finite log loss', () => {
+    const result = computeCalibration([{ forecast: 100, outcome: 'failure' }]);
+
+    expect(result?.brierScore).toBe(1);
+    // −ln(0.001)
+    expect(result?.logLoss).toBeCloseTo(6.907755, 6);
+    expect(result?.bins).toEqual([{ lower: 90, upper: 100, count: 1, meanForecast: 100, observedRate: 0 }]);
+  });
+
+  it('groups forecasts into ten-point bins and drops the empty ones', () => {
+    const result = computeCalibration([
+      { forecast: 72, outcome: 'success' },
+      { forecast: 78, outcome: 'failure' },
+      { forecast: 30, outcome: 'partial' },
+      { forecast: 5, outcome: 'failure' },
+    ]);
+
+    expect(result?.bins).toHaveLength(3);
+    expect(result?.bins.map(bin => [bin.lower, bin.upper, bin.count])).toEqual([[0, 10, 1], [30, 40, 1], [70, 80, 2]]);
+    expect(result?.bins[1].observedRate).toBeCloseTo(50, 10);
+    expect(result?.bins[2].meanForecast).toBeCloseTo(75, 10);
+    expect(result?.bins[2].observedRate).toBeCloseTo(50, 10);
+  });
+});
@@ -0,0 +1,119 @@
+import { DecisionOutcome } from '@/types/decision';
+
+// ============================================================================
+// CONFIGURATION CONSTANTS
+// ============================================================================
+
+/** Number of equal-width forecast bins in the reliability diagram */
+export const RELIABILITY_BINS = 10;
+
+/** Forecasts are clamped away from 0 and 1 so a single confident miss can't make log loss infinite */
+const LOG_LOSS_EPSILON = 1e-3;
+
+/**
+ * Realized value of each outcome. A partial success counts as half a success,
+ * which keeps Brier score and log loss well-defined for it.
+ */
+export const OUTCOME_VALUES: Record<DecisionOutcome, number> = {
+  success: 1,
+  partial: 0.5,
+  failure: 0,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalibrationPoint {
+  forecast: number; // 0-100, the probability of success we predicted
+  outcome: DecisionOutcome;
+}
+
+export interface ReliabilityBin {
+  lower: number; // 0-100
+  upper: number; // 0-100
+  count: number;
+  meanForecast: number; // 0-100, average prediction of decisions in this bin
+  observedRate: number; // 0-100, how often those decisions actually succeeded
+}
+
+export interface CalibrationResult {
+  count: number;
+  brierScore: number; // 0 = perfect, 0.25 = always saying 50%
+  logLoss: number; // 0 = perfect, ln(2) ≈ 0.693 = always saying 50%
+  bins: ReliabilityBin[]; // Only bins that contain at least one decision
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Scores past forecasts against what actually happened.
+ *
+ * Brier score is the mean squared error between forecast and outcome;
+ * log loss punishes confident misses much harder. The reliability diagram
+ * groups forecasts into bins and compares the average prediction with the
+ * observed success rate — a well-calibrated forecaster sits on the diagonal.
+ */
+export function computeCalibration(points: CalibrationPoint[]): CalibrationResult | null {
+  if (points.length === 0) return null;
+
+  let brierSum = 0;
+  let logLossSum = 0;
+
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, i) => ({
+    lower: (i / RELIABILITY_BINS) * 100,
+    upper: ((i + 1) / RELIABILITY_BINS) * 100,
+    count: 0,
+    forecastSum: 0,
+    outcomeSum: 0,
+  }));
+
+  points.forEach(({ forecast, outcome }) => {
+    const p = Math.min(1, Math.max(0, forecast / 100));
+    const y = OUTCOME_VALUES[outcome];
+
+    brierSum += (p - y) ** 2;
+
+    const clamped = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, p));
+    logLossSum += -(y * Math.log(clamped) + (1 - y) * Math.log(1 - clamped));
+
+    const binIndex = Math.min(RELIABILITY_BINS - 1, Math.floor(p * RELIABILITY_BINS));
+    bins[binIndex].count++;
+    bins[binIndex].forecastSum += p;
+    bins[binIndex].outcomeSum += y;
+  });
+
+  return {
+    count: points.length,
+    brierScore: brierSum / points.length,
+    logLoss: logLossSum / points.length,
+    bins: bins
+      .filter(bin => bin.count > 0)
+      .map(bin => ({
+        lower: bin.lower,
+        upper: bin.upper,
+        count: bin.count,
+        meanForecast: (bin.forecastSum / bin.count) * 100,
+        observedRate: (bin.outcomeSum / bin.count) * 100,
+      })),
+  };
+}
+
+// ============================================================================
+// UI HELPERS
+// ============================================================================
+
+export function getBrierLabel(brierScore: number): string {
+  if (brierScore < 0.1) return 'Excellent';
+  if (brierScore < 0.2) return 'Good';
+  if (brierScore < 0.25) return 'Fair';
+  return 'Worse than a coin flip';
+}
+
+export const OUTCOME_LABELS: Record<DecisionOutcome, string> = {
+  success: 'Succeeded',
+  partial: 'Partially succeeded',
+  failure: 'Failed',
+};
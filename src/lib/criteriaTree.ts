@@ -0,0 +1,106 @@
+import { Criterion } from '@/types/decision';
+
+// ============================================================================
+// TREE WALKING
+// ============================================================================
+
+export interface CriterionNode {
+  criterion: Criterion;
+  depth: number; // 0 = top-level
+}
+
+/** Top-level criteria, including any whose parent no longer exists */
+function isRootCriterion(criteria: Criterion[], criterion: Criterion): boolean {
+  return !criterion.parentId || !criteria.some(c => c.id === criterion.parentId);
+}
+
+export function getChildCriteria(criteria: Criterion[], parentId: string | null): Criterion[] {
+  return parentId === null
+    ? criteria.filter(c => isRootCriterion(criteria, c))
+    : criteria.filter(c => c.parentId === parentId);
+}
+
+export function hasChildCriteria(criteria: Criterion[], id: string): boolean {
+  return criteria.some(c => c.parentId === id);
+}
+
+/**
+ * Every criterion in depth-first order (parents before their children),
+ * keeping the list order among siblings.
+ */
+export function walkCriteriaTree(criteria: Criterion[]): CriterionNode[] {
+  const nodes: CriterionNode[] = [];
+  const visited = new Set<string>();
+
+  const visit = (parentId: string | null, depth: number) => {
+    getChildCriteria(criteria, parentId).forEach(criterion => {
+      // A malformed parent cycle would otherwise recurse forever
+      if (visited.has(criterion.id)) return;
+      visited.add(criterion.id);
+      nodes.push({ criterion, depth });
+      visit(criterion.id, depth + 1);
+    });
+  };
+
+  visit(null, 0);
+  return nodes;
+}
+
+/** The criteria that actually get assessed: those without sub-criteria, in tree order */
+export function getLeafCriteria(criteria: Criterion[]): Criterion[] {
+  return walkCriteriaTree(criteria)
+    .map(node => node.criterion)
+    .filter(c => !hasChildCriteria(criteria, c.id));
+}
+
+/** The criterion and everything below it */
+export function getSubtreeIds(criteria: Criterion[], id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    criteria
+      .filter(c => c.parentId === ids[i] && !ids.includes(c.id))
+      .forEach(c => ids.push(c.id));
+  }
+  return ids;
+}
+
+/** Ancestors from the top level down to the criterion's parent */
+export function getCriterionAncestors(criteria: Criterion[], id: string): Criterion[] {
+  const ancestors: Criterion[] = [];
+  let parent = criteria.find(c => c.id === criteria.find(c => c.id === id)?.parentId);
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    parent = criteria.find(c => c.id === parent?.parentId);
+  }
+  return ancestors;
+}
+
+// ============================================================================
+// IMPORTANCE
+// ============================================================================
+
+/**
+ * Importance of every criterion once the hierarchy is rolled up (1-100 scale).
+ *
+ * Top-level criteria keep their own importance, so a flat list weighs exactly
+ * as before. Sub-criteria split their parent's importance in proportion to
+ * their own (AHP-style normalization within each level), so breaking
+ * "Compensation" into base, equity and benefits doesn't make it count more.
+ */
+export function computeEffectiveImportance(criteria: Criterion[]): Map<string, number> {
+  const effective = new Map<string, number>();
+
+  walkCriteriaTree(criteria).forEach(({ criterion, depth }) => {
+    if (depth === 0) {
+      effective.set(criterion.id, criterion.importance);
+      return;
+    }
+
+    const siblings = getChildCriteria(criteria, criterion.parentId ?? null);
+    const total = siblings.reduce((sum, c) => sum + c.importance, 0);
+    const parentImportance = effective.get(criterion.parentId ?? '') ?? 0;
+    effective.set(criterion.id, total > 0 ? parentImportance * criterion.importance / total : 0);
+  });
+
+  return effective;
+}
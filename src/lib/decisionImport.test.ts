@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDecisionResults } from '@/lib/bayesian';
+import { buildDecisionReport } from '@/lib/report';
+import { importDecisionCsv, importDecisionJson, parseCsv } from '@/lib/decisionImport';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('detects semicolon-separated sheets', () => {
+    expect(parseCsv('criterion;importance\nCost;80')).toEqual([['criterion', 'importance'], ['Cost', '80']]);
+  });
+});
+
+describe('importDecisionCsv', () => {
+  it('maps rows to criteria and evaluations, nesting sub-criteria under their parent', () => {
+    const csv = [
+      'Criterion,Importance,Direction,Strength,Confidence,Parent',
+      'Cost of living,80,supports,70,90,',
+      'Career,60,,,,',
+      'Network,50,opposes,40,60,Career',
+    ].join('\n');
+
+    const { decision, issues } = importDecisionCsv(csv, 'Move abroad', 55);
+
+    expect(issues).toEqual([]);
+    expect(decision?.decision).toBe('Move abroad');
+    expect(decision?.initialConfidence).toBe(55);
+    const [cost, career, network] = decision?.criteria ?? [];
+    expect(network.parentId).toBe(career.id);
+    // Career is weighed through Network, so only the leaves are assessed
+    expect(decision?.criteriaEvaluations).toEqual([
+      { criterionId: cost.id, supportsDecision: true, strength: 70, confidence: 90 },
+      { criterionId: network.id, supportsDecision: false, strength: 40, confidence: 60 },
+    ]);
+  });
+
+  it('reports every problem with the row it is on', () => {
+    const csv = [
+      'criterion,importance,direction,strength,confidence,parent',
+      'Cost,abc,supports,70,90,',
+      ',50,supports,70,90,',
+      'Growth,50,sideways,70,,',
+      'Cost,40,opposes,10,10,',
+      'Team,40,opposes,10,10,Nowhere',
+    ].join('\n');
+
+    const { decision, issues } = importDecisionCsv(csv, 'Take the job');
+
+    expect(decision).toBeNull();
+    expect(issues.map(i => i.location)).toEqual([
+      'Row 2 · importance',
+      'Row 3 · criterion',
+      'Row 4 · confidence',
+      'Row 4 · direction',
+      'Row 6 · parent',
+    ]);
+  });
+
+  it('rejects sheets without the required columns', () => {
+    const { issues } = importDecisionCsv('name,score\nCost,3', 'Take the job');
+    expect(issues).toEqual([{ location: 'Row 1', message: 'Missing column: importance' }]);
+  });
+});
+
+describe('importDecisionJson', () => {
+  const state = {
+    decision: 'Take the job',
+    initialConfidence: 40,
+    criteria: [
+      { id: 'pay', name: 'Pay', importance: 70 },
+      { id: 'base', name: 'Base', importance: 60, parentId: 'pay' },
+      { id: 'equity', name: 'Equity', importance: 40, parentId: 'pay' },
+    ],
+    correlationGroups: [],
+    criteriaEvaluations: [
+      { criterionId: 'base', supportsDecision: true, strength: 80, confidence: 70 },
+      { criterionId: 'equity', supportsDecision: false, strength: 30, confidence: 40 },
+    ],
+    options: [],
+    optionScores: [],
+    evidence: [],
+    payoffs: [],
+    seed: 7,
+  };
+
+  it('reads back an exported report under fresh IDs', () => {
+    const report = buildDecisionReport(state, calculateDecisionResults(state, { seed: state.seed }));
+    const { decision, issues } = importDecisionJson(JSON.stringify(report));
+
+    expect(issues).toEqual([]);
+    expect(decision?.decision).toBe('Take the job');
+    expect(decision?.seed).toBe(7);
+    expect(decision?.criteria.map(c => c.name)).toEqual(['Pay', 'Base', 'Equity']);
+    expect(decision?.criteria.some(c => state.criteria.some(original => original.id === c.id))).toBe(false);
+
+    const pay = decision?.criteria[0];
+    expect(decision?.criteria[1].parentId).toBe(pay?.id);
+    expect(decision?.criteriaEvaluations.map(e => e.strength)).toEqual([80, 30]);
+  });
+
+  it('points at the invalid fields', () => {
+    const { decision, issues } = importDecisionJson(JSON.stringify({
+      schemaVersion: 1,
+      decision: { text: 'Take the job', prior: 40, options: [] },
+      criteria: [{ id: 'pay', name: 'Pay', importance: 500 }],
+      evaluations: [{ criterionId: 'missing', supportsDecision: true, strength: 50, confidence: 50 }],
+    }));
+
+    expect(decision).toBeNull();
+    expect(issues.map(i => i.location)).toEqual(['criteria #1 · importance']);
+  });
+
+  it('rejects documents that are not JSON', () => {
+    expect(importDecisionJson('criterion,importance').issues).toEqual([{ location: 'Document', message: 'Not valid JSON' }]);
+  });
+});
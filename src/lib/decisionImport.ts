@@ -0,0 +1,413 @@
+import { z } from 'zod';
+import { Criterion, CriterionEvaluation, DecisionState, EvidenceItem } from '@/types/decision';
+import { REPORT_SCHEMA_VERSION } from '@/lib/report';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What an import fills in; everything else starts fresh */
+export type ImportedDecision = Pick<
+  DecisionState,
+  'decision' | 'initialConfidence' | 'options' | 'criteria' | 'criteriaEvaluations' | 'optionScores' | 'evidence'
+> & {
+  seed?: number; // Kept from exported reports so their numbers can be reproduced
+};
+
+export interface ImportIssue {
+  location: string; // e.g. "Row 4 · importance" or "criteria #2 · name"
+  message: string;
+}
+
+export interface ImportResult {
+  decision: ImportedDecision | null; // null when there are issues
+  issues: ImportIssue[];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/** Columns a criteria sheet may have; headers are matched ignoring case, spaces and punctuation */
+export const CSV_COLUMNS = ['criterion', 'importance', 'direction', 'strength', 'confidence', 'description', 'parent'] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ['criterion', 'importance'];
+
+const HEADER_ALIASES: Record<string, CsvColumn> = {
+  name: 'criterion',
+  criteria: 'criterion',
+  weight: 'importance',
+  supports: 'direction',
+  parentcriterion: 'parent',
+};
+
+const DIRECTIONS: Record<string, boolean> = {
+  supports: true,
+  support: true,
+  for: true,
+  yes: true,
+  '+': true,
+  opposes: false,
+  oppose: false,
+  against: false,
+  no: false,
+  '-': false,
+};
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields may contain commas,
+ * newlines and doubled quotes). Semicolon-separated sheets, as some
+ * spreadsheet locales export, are detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const requiredPercentage = (label: string) =>
+  z.string().trim().min(1, `${label} is required`).pipe(
+    z.coerce.number({ invalid_type_error: `${label} must be a number` })
+      .min(1, `${label} must be between 1 and 100`)
+      .max(100, `${label} must be between 1 and 100`)
+  );
+
+const csvRowSchema = z.object({
+  criterion: z.string().trim().min(1, 'Criterion name is required'),
+  importance: requiredPercentage('Importance'),
+  description: z.string().trim().optional(),
+  parent: z.string().trim().optional(),
+});
+
+const csvEvaluationSchema = z.object({
+  direction: z.string().trim().min(1, 'Direction is required').transform((value, ctx) => {
+    const supports = DIRECTIONS[value.toLowerCase()];
+    if (supports === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Direction must be "supports" or "opposes"' });
+      return z.NEVER;
+    }
+    return supports;
+  }),
+  strength: requiredPercentage('Strength'),
+  confidence: requiredPercentage('Confidence'),
+});
+
+/** A cycle in the parent column would make criteria vanish from the tree */
+function findParentCycle(names: string[], parentOf: Map<string, string>): string | null {
+  for (const name of names) {
+    const seen = new Set([name]);
+    let parent = parentOf.get(name);
+    while (parent) {
+      if (seen.has(parent)) return name;
+      seen.add(parent);
+      parent = parentOf.get(parent);
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a criteria sheet: one row per criterion with its importance and, for
+ * criteria without sub-criteria, how it bears on the decision. Rows are
+ * numbered as a spreadsheet shows them (the header is row 1).
+ */
+export function importDecisionCsv(text: string, decision: string, initialConfidence = 50): ImportResult {
+  const records = parseCsv(text);
+  const [header = [], ...rows] = records;
+  const columns = header.map(h => {
+    const normalized = normalizeHeader(h);
+    return HEADER_ALIASES[normalized] ?? (CSV_COLUMNS as readonly string[]).find(c => c === normalized) ?? null;
+  });
+
+  const missing = REQUIRED_CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    return {
+      decision: null,
+      issues: [{ location: 'Row 1', message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` }],
+    };
+  }
+
+  const issues: ImportIssue[] = [];
+  const parsed: { row: number; values: Partial<Record<CsvColumn, string>>; criterion: z.infer<typeof csvRowSchema> }[] = [];
+
+  rows.forEach((record, index) => {
+    const row = index + 2;
+    if (record.every(value => value.trim() === '')) return;
+
+    const values: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, i) => {
+      if (column && record[i] !== undefined) values[column] = record[i];
+    });
+
+    const result = csvRowSchema.safeParse(values);
+    if (!result.success) {
+      result.error.issues.forEach(issue => issues.push({ location: `Row ${row} · ${issue.path.join('.')}`, message: issue.message }));
+      return;
+    }
+    parsed.push({ row, values, criterion: result.data });
+  });
+
+  // Names identify criteria within a sheet, so they must be unique
+  const rowByName = new Map<string, number>();
+  parsed.forEach(({ row, criterion }) => {
+    const key = criterion.criterion.toLowerCase();
+    const firstRow = rowByName.get(key);
+    if (firstRow !== undefined) {
+      issues.push({ location: `Row ${row} · criterion`, message: `"${criterion.criterion}" already appears in row ${firstRow}` });
+    } else {
+      rowByName.set(key, row);
+    }
+  });
+
+  const parentOf = new Map<string, string>();
+  parsed.forEach(({ row, criterion }) => {
+    if (!criterion.parent) return;
+    if (!rowByName.has(criterion.parent.toLowerCase())) {
+      issues.push({ location: `Row ${row} · parent`, message: `No criterion named "${criterion.parent}"` });
+    } else {
+      parentOf.set(criterion.criterion.toLowerCase(), criterion.parent.toLowerCase());
+    }
+  });
+  const cycle = findParentCycle([...parentOf.keys()], parentOf);
+  if (cycle) {
+    issues.push({ location: `Row ${rowByName.get(cycle)} · parent`, message: 'Criteria cannot be nested inside themselves' });
+  }
+
+  const parentNames = new Set(parentOf.values());
+  const ids = new Map(parsed.map(({ criterion }) => [criterion.criterion.toLowerCase(), crypto.randomUUID()]));
+  const criteria: Criterion[] = [];
+  const criteriaEvaluations: CriterionEvaluation[] = [];
+
+  parsed.forEach(({ row, values, criterion }) => {
+    const key = criterion.criterion.toLowerCase();
+    const id = ids.get(key) as string;
+    criteria.push({
+      id,
+      name: criterion.criterion,
+      importance: criterion.importance,
+      description: criterion.description || undefined,
+      parentId: criterion.parent ? ids.get(criterion.parent.toLowerCase()) : undefined,
+    });
+
+    // Criteria with sub-criteria are weighed through them, not assessed directly
+    if (parentNames.has(key)) return;
+
+    const evaluation = csvEvaluationSchema.safeParse(values);
+    if (!evaluation.success) {
+      evaluation.error.issues.forEach(issue => issues.push({ location: `Row ${row} · ${issue.path.join('.')}`, message: issue.message }));
+      return;
+    }
+    criteriaEvaluations.push({
+      criterionId: id,
+      supportsDecision: evaluation.data.direction,
+      strength: evaluation.data.strength,
+      confidence: evaluation.data.confidence,
+    });
+  });
+
+  if (parsed.length === 0 && issues.length === 0) {
+    issues.push({ location: 'Row 2', message: 'The sheet has no criteria' });
+  }
+  if (issues.length > 0) {
+    return { decision: null, issues: issues.sort((a, b) => a.location.localeCompare(b.location, undefined, { numeric: true })) };
+  }
+
+  return {
+    issues: [],
+    decision: {
+      decision,
+      initialConfidence,
+      options: [],
+      criteria,
+      criteriaEvaluations,
+      optionScores: [],
+      evidence: [],
+    },
+  };
+}
+
+// ============================================================================
+// JSON (exported reports)
+// ============================================================================
+
+const percentage = z.number().min(1).max(100);
+
+const reportSchema = z.object({
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION, {
+    errorMap: () => ({ message: `Only reports exported with schema version ${REPORT_SCHEMA_VERSION} can be imported` }),
+  }),
+  decision: z.object({
+    text: z.string().trim().min(1, 'Decision text is required'),
+    prior: z.number().min(0).max(100),
+    seed: z.number().int().nonnegative().optional(),
+    options: z.array(z.object({
+      id: z.string().min(1),
+      name: z.string().trim().min(1),
+      description: z.string().nullish(),
+    })).default([]),
+  }),
+  criteria: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    description: z.string().nullish(),
+    parentId: z.string().nullish(),
+    importance: percentage,
+  })).min(1, 'At least one criterion is required'),
+  evaluations: z.array(z.object({
+    criterionId: z.string().min(1),
+    supportsDecision: z.boolean(),
+    strength: percentage,
+    confidence: percentage,
+  })).default([]),
+  optionScores: z.array(z.object({
+    optionId: z.string().min(1),
+    criterionId: z.string().min(1),
+    score: percentage,
+    confidence: percentage,
+  })).default([]),
+  evidence: z.array(z.object({
+    type: z.enum(['past_outcome', 'emotional', 'data', 'constraint']),
+    label: z.string().trim().min(1),
+    value: z.number().min(0).max(100),
+    weight: z.number().min(0).max(100),
+    description: z.string().default(''),
+  })).default([]),
+});
+
+/** "criteria.2.importance" → "criteria #3 · importance", counting items from 1 like rows */
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) return 'Document';
+  return path
+    .map((segment, i) => (typeof segment === 'number' ? `#${segment + 1}` : i === 0 ? segment : `· ${segment}`))
+    .join(' ');
+}
+
+/**
+ * Reads a report exported as JSON. Everything gets fresh IDs, so importing a
+ * decision you still have creates a copy rather than overwriting it.
+ */
+export function importDecisionJson(text: string): ImportResult {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    return { decision: null, issues: [{ location: 'Document', message: 'Not valid JSON' }] };
+  }
+
+  const result = reportSchema.safeParse(document);
+  if (!result.success) {
+    return {
+      decision: null,
+      issues: result.error.issues.map(issue => ({ location: formatPath(issue.path), message: issue.message })),
+    };
+  }
+
+  const report = result.data;
+  const issues: ImportIssue[] = [];
+  const criterionIds = new Map(report.criteria.map(c => [c.id, crypto.randomUUID()]));
+  const optionIds = new Map(report.decision.options.map(o => [o.id, crypto.randomUUID()]));
+
+  report.criteria.forEach((c, i) => {
+    if (c.parentId && !criterionIds.has(c.parentId)) {
+      issues.push({ location: `criteria #${i + 1} · parentId`, message: 'Refers to a criterion that is not in the report' });
+    }
+  });
+  report.evaluations.forEach((e, i) => {
+    if (!criterionIds.has(e.criterionId)) {
+      issues.push({ location: `evaluations #${i + 1} · criterionId`, message: 'Refers to a criterion that is not in the report' });
+    }
+  });
+  report.optionScores.forEach((s, i) => {
+    if (!criterionIds.has(s.criterionId)) {
+      issues.push({ location: `optionScores #${i + 1} · criterionId`, message: 'Refers to a criterion that is not in the report' });
+    }
+    if (!optionIds.has(s.optionId)) {
+      issues.push({ location: `optionScores #${i + 1} · optionId`, message: 'Refers to an option that is not in the report' });
+    }
+  });
+  if (issues.length > 0) return { decision: null, issues };
+
+  const evidence: EvidenceItem[] = report.evidence.map(e => ({
+    id: crypto.randomUUID(),
+    type: e.type,
+    label: e.label,
+    value: e.value,
+    weight: e.weight,
+    description: e.description,
+  }));
+
+  return {
+    issues: [],
+    decision: {
+      decision: report.decision.text,
+      initialConfidence: report.decision.prior,
+      seed: report.decision.seed,
+      options: report.decision.options.map(o => ({
+        id: optionIds.get(o.id) as string,
+        name: o.name,
+        description: o.description ?? undefined,
+      })),
+      criteria: report.criteria.map(c => ({
+        id: criterionIds.get(c.id) as string,
+        name: c.name,
+        importance: c.importance,
+        description: c.description ?? undefined,
+        parentId: c.parentId ? criterionIds.get(c.parentId) : undefined,
+      })),
+      criteriaEvaluations: report.evaluations.map(e => ({
+        criterionId: criterionIds.get(e.criterionId) as string,
+        supportsDecision: e.supportsDecision,
+        strength: e.strength,
+        confidence: e.confidence,
+      })),
+      optionScores: report.optionScores.map(s => ({
+        optionId: optionIds.get(s.optionId) as string,
+        criterionId: criterionIds.get(s.criterionId) as string,
+        score: s.score,
+        confidence: s.confidence,
+      })),
+      evidence,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnonymousDelphiResponse,
+  getDelphiConsensusEvaluations,
+  getDelphiStopReason,
+  quantile,
+  summarizeDelphiRound,
+} from '@/lib/delphi';
+
+function rate(respondent: number, criterionId: string, leaning: number, confidence = 60, rationale = ''): AnonymousDelphiResponse {
+  const supportsDecision = leaning >= 50;
+  return {
+    respondent,
+    criterionId,
+    supportsDecision,
+    strength: supportsDecision ? leaning : 100 - leaning,
+    confidence,
+    rationale,
+  };
+}
+
+describe('quantile', () => {
+  it('interpolates between ranks', () => {
+    expect(quantile([10, 20, 30, 40], 0.5)).toBe(25);
+    expect(quantile([10, 20, 30, 40], 0.25)).toBe(17.5);
+    expect(quantile([42], 0.75)).toBe(42);
+  });
+});
+
+describe('summarizeDelphiRound', () => {
+  const round = [
+    rate(1, 'pay', 80, 70, 'Offer is 20% above market'),
+    rate(2, 'pay', 60, 50),
+    rate(3, 'pay', 20, 90, '  '),
+    rate(1, 'team', 70),
+    rate(2, 'team', 75),
+    rate(3, 'team', 65),
+  ];
+  const summary = summarizeDelphiRound(round, ['pay', 'team', 'commute']);
+
+  it('reports quartiles of the leanings and keeps only written rationales', () => {
+    expect(summary.respondents).toBe(3);
+    expect(summary.criteria.map(c => c.criterionId)).toEqual(['pay', 'team']);
+
+    const [pay] = summary.criteria;
+    expect(pay.median).toBe(60);
+    expect(pay.q1).toBe(40);
+    expect(pay.q3).toBe(70);
+    expect(pay.iqr).toBe(30);
+    expect(pay.medianConfidence).toBe(70);
+    expect(pay.rationales).toEqual(['Offer is 20% above market']);
+    expect(summary.maxIqr).toBe(30);
+  });
+
+  it('stops once every criterion has narrowed below the threshold, or at the last round', () => {
+    expect(getDelphiStopReason(summary, 1, { maxRounds: 3, iqrThreshold: 15 })).toBeNull();
+    expect(getDelphiStopReason(summary, 3, { maxRounds: 3, iqrThreshold: 15 })).toBe('max_rounds');
+    expect(getDelphiStopReason(summary, 1, { maxRounds: 3, iqrThreshold: 30 })).toBe('converged');
+
+    // A single respondent can't show that a group agrees
+    const alone = summarizeDelphiRound([rate(1, 'pay', 80)], ['pay']);
+    expect(getDelphiStopReason(alone, 1, { maxRounds: 3, iqrThreshold: 15 })).toBeNull();
+  });
+
+  it('turns the medians into evaluations for the simulation', () => {
+    const [pay, team] = getDelphiConsensusEvaluations(summary);
+    expect(pay).toEqual({ criterionId: 'pay', supportsDecision: true, strength: 60, confidence: 70 });
+    expect(team.supportsDecision).toBe(true);
+    expect(team.strength).toBe(70);
+  });
+});
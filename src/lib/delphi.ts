@@ -0,0 +1,122 @@
+import { CriterionEvaluation, DelphiResponse, DelphiSettings } from '@/types/decision';
+import { evaluationFromLeaning, getLeaning } from '@/lib/groupAggregation';
+
+// ============================================================================
+// CONFIGURATION CONSTANTS
+// ============================================================================
+
+export const DEFAULT_DELPHI_SETTINGS: DelphiSettings = {
+  maxRounds: 3,
+  iqrThreshold: 15,
+};
+
+export const MAX_DELPHI_ROUNDS = 10;
+
+/** A lone respondent always "agrees" with themselves, so convergence needs at least this many */
+const MIN_RESPONDENTS_FOR_CONVERGENCE = 2;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A response with who gave it replaced by a number that is stable within the round */
+export interface AnonymousDelphiResponse extends DelphiResponse {
+  respondent: number;
+}
+
+export interface DelphiCriterionSummary {
+  criterionId: string;
+  count: number;
+  // Leanings toward the decision, 0-100
+  median: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  medianConfidence: number;
+  rationales: string[]; // Non-empty rationales, stripped of who wrote them
+}
+
+export interface DelphiRoundSummary {
+  respondents: number;
+  criteria: DelphiCriterionSummary[];
+  maxIqr: number; // The widest interquartile range across criteria
+}
+
+export type DelphiStopReason = 'converged' | 'max_rounds';
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/** Quantile of sorted values by linear interpolation between closest ranks */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * What the group sees between rounds: per criterion, the median and quartiles
+ * of everyone's leaning and their rationales, in criterion order.
+ */
+export function summarizeDelphiRound(
+  responses: AnonymousDelphiResponse[],
+  criterionIds: string[]
+): DelphiRoundSummary {
+  const criteria = criterionIds
+    .map((criterionId): DelphiCriterionSummary | null => {
+      const forCriterion = responses.filter(r => r.criterionId === criterionId);
+      if (forCriterion.length === 0) return null;
+
+      const leanings = forCriterion.map(r => getLeaning(r) * 100).sort((a, b) => a - b);
+      const confidences = forCriterion.map(r => r.confidence).sort((a, b) => a - b);
+      const q1 = quantile(leanings, 0.25);
+      const q3 = quantile(leanings, 0.75);
+
+      return {
+        criterionId,
+        count: forCriterion.length,
+        median: quantile(leanings, 0.5),
+        q1,
+        q3,
+        iqr: q3 - q1,
+        medianConfidence: quantile(confidences, 0.5),
+        rationales: forCriterion.map(r => r.rationale.trim()).filter(Boolean),
+      };
+    })
+    .filter((s): s is DelphiCriterionSummary => s !== null);
+
+  return {
+    respondents: new Set(responses.map(r => r.respondent)).size,
+    criteria,
+    maxIqr: criteria.reduce((max, c) => Math.max(max, c.iqr), 0),
+  };
+}
+
+// ============================================================================
+// STOPPING
+// ============================================================================
+
+export function hasDelphiConverged(summary: DelphiRoundSummary, settings: DelphiSettings): boolean {
+  return summary.respondents >= MIN_RESPONDENTS_FOR_CONVERGENCE
+    && summary.criteria.length > 0
+    && summary.maxIqr <= settings.iqrThreshold;
+}
+
+/** Why the process stops after this round, or null if another round should follow */
+export function getDelphiStopReason(
+  summary: DelphiRoundSummary,
+  roundNumber: number,
+  settings: DelphiSettings
+): DelphiStopReason | null {
+  if (hasDelphiConverged(summary, settings)) return 'converged';
+  if (roundNumber >= settings.maxRounds) return 'max_rounds';
+  return null;
+}
+
+/** The group's position after a round, as evaluations the engine can simulate */
+export function getDelphiConsensusEvaluations(summary: DelphiRoundSummary): CriterionEvaluation[] {
+  return summary.criteria.map(c => evaluationFromLeaning(c.criterionId, c.median / 100, c.medianConfidence));
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { formatEvent, readEventStream, ServerSentEvent } from '@/lib/eventStream';
+
+/** A byte stream delivering the text in the given pieces, like a network response would */
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readEventStream(body)) events.push(event);
+  return events;
+}
+
+describe('readEventStream', () => {
+  it('reassembles events split across chunks, including a \\r\\n split in two', async () => {
+    const events = await collect(streamOf('data: {"delta":"Hel', 'lo"}\r', '\n\r\n: keep-alive\n\nevent: error\ndata: {"error":"x"}\n\n'));
+    expect(events).toEqual([
+      { event: 'message', data: '{"delta":"Hello"}' },
+      { event: 'error', data: '{"error":"x"}' },
+    ]);
+  });
+
+  it('delivers a last event even when the stream ends without a blank line', async () => {
+    expect(await collect(streamOf('data: [DONE]'))).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+});
+
+describe('formatEvent', () => {
+  it('round-trips multi-line data through readEventStream', async () => {
+    const events = await collect(streamOf(formatEvent('line one\nline two', 'note')));
+    expect(events).toEqual([{ event: 'note', data: 'line one\nline two' }]);
+  });
+});
@@ -0,0 +1,3 @@
+// Shared with the edge functions; see supabase/functions/_shared/eventStream.ts
+export { formatEvent, readEventStream } from '../../supabase/functions/_shared/eventStream.ts';
+export type { ServerSentEvent } from '../../supabase/functions/_shared/eventStream.ts';
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { derivePosteriorParams } from '@/lib/bayesian';
+import { aggregateMemberEvaluations, analyzeDisagreement, getLeaning } from '@/lib/groupAggregation';
+import { MemberEvaluationSet } from '@/types/decision';
+
+const CRITERIA = [
+  { id: 'pay', name: 'Pay', importance: 80 },
+  { id: 'team', name: 'Team', importance: 60 },
+];
+
+const SETS: MemberEvaluationSet[] = [
+  {
+    userId: 'ana',
+    name: 'ana@example.com',
+    evaluations: [
+      { criterionId: 'pay', supportsDecision: true, strength: 90, confidence: 80 },
+      { criterionId: 'team', supportsDecision: true, strength: 60, confidence: 50 },
+    ],
+  },
+  {
+    userId: 'ben',
+    name: 'ben@example.com',
+    evaluations: [
+      { criterionId: 'pay', supportsDecision: false, strength: 70, confidence: 40 },
+      { criterionId: 'team', supportsDecision: true, strength: 70, confidence: 70 },
+    ],
+  },
+];
+
+describe('aggregateMemberEvaluations', () => {
+  it('averages leanings and confidence in the linear pool', () => {
+    const [pay] = aggregateMemberEvaluations(SETS, 'linear_pool');
+    // 0.9 and 0.3 favor the decision on average 60% of the way
+    expect(pay.supportsDecision).toBe(true);
+    expect(pay.strength).toBeCloseTo(60);
+    expect(pay.confidence).toBe(60);
+  });
+
+  it('averages log-odds in the logarithmic pool', () => {
+    const [pay] = aggregateMemberEvaluations(SETS, 'logarithmic_pool');
+    const expected = 1 / (1 + Math.exp(-(Math.log(9) + Math.log(3 / 7)) / 2));
+    expect(getLeaning(pay)).toBeCloseTo(expected);
+
+    // Opposite convictions of equal strength cancel out
+    const opposed = aggregateMemberEvaluations([
+      { userId: 'a', name: 'a', evaluations: [{ criterionId: 'pay', supportsDecision: true, strength: 80, confidence: 50 }] },
+      { userId: 'b', name: 'b', evaluations: [{ criterionId: 'pay', supportsDecision: false, strength: 80, confidence: 50 }] },
+    ], 'logarithmic_pool');
+    expect(getLeaning(opposed[0])).toBeCloseTo(0.5);
+  });
+
+  it('gives the engine the same evidence as every member assessing separately when pooling pseudo-observations', () => {
+    const pooled = derivePosteriorParams(50, aggregateMemberEvaluations(SETS, 'pseudo_observations'), CRITERIA);
+    const separate = derivePosteriorParams(50, SETS.flatMap(s => s.evaluations), CRITERIA);
+    expect(pooled.alpha).toBeCloseTo(separate.alpha);
+    expect(pooled.beta).toBeCloseTo(separate.beta);
+  });
+});
+
+describe('analyzeDisagreement', () => {
+  it('ranks criteria by how far apart the members are', () => {
+    const [pay, team] = analyzeDisagreement(SETS, CRITERIA);
+    expect(pay.criterionName).toBe('Pay');
+    expect(pay.spread).toBeCloseTo(30);
+    expect(pay.range[0]).toBeCloseTo(30);
+    expect(pay.range[1]).toBeCloseTo(90);
+    expect(pay.splitDirection).toBe(true);
+    expect(pay.positions.map(p => p.userId)).toEqual(['ana', 'ben']);
+    expect(team.spread).toBeCloseTo(5);
+    expect(team.splitDirection).toBe(false);
+  });
+
+  it('leaves out criteria only one member assessed', () => {
+    expect(analyzeDisagreement([SETS[0]], CRITERIA)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { AggregationMethod, Criterion, CriterionEvaluation, MemberEvaluationSet } from '@/types/decision';
+
+// ============================================================================
+// CONFIGURATION CONSTANTS
+// ============================================================================
+
+/** Keeps certain opinions (strength 100 either way) finite on the log-odds scale */
+const LEANING_EPSILON = 0.01;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MemberPosition {
+  userId: string;
+  name: string;
+  leaning: number; // 0-100: how far this member's assessment favors the decision
+  confidence: number;
+}
+
+export interface CriterionDisagreement {
+  criterionId: string;
+  criterionName: string;
+  spread: number; // Standard deviation of the members' leanings, in percentage points
+  range: [number, number]; // Lowest and highest leaning
+  splitDirection: boolean; // Some members favor the decision, others the status quo
+  positions: MemberPosition[];
+}
+
+// ============================================================================
+// LEANINGS
+// ============================================================================
+
+/**
+ * The share of an evaluation's pseudo-observations that favor the decision,
+ * exactly as derivePosteriorParams splits them: supporting evaluations lean
+ * by their strength, opposing ones by its complement.
+ */
+export function getLeaning(evaluation: CriterionEvaluation): number {
+  const strength = evaluation.strength / 100;
+  return evaluation.supportsDecision ? strength : 1 - strength;
+}
+
+/** Inverse of getLeaning: an evaluation that splits its pseudo-observations this way */
+export function evaluationFromLeaning(criterionId: string, leaning: number, confidence: number): CriterionEvaluation {
+  const supportsDecision = leaning >= 0.5;
+  return {
+    criterionId,
+    supportsDecision,
+    strength: (supportsDecision ? leaning : 1 - leaning) * 100,
+    confidence,
+  };
+}
+
+function logit(p: number): number {
+  const clamped = Math.min(1 - LEANING_EPSILON, Math.max(LEANING_EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Each criterion's evaluations across members, in the order criteria were first assessed */
+function groupByCriterion(sets: MemberEvaluationSet[]): Map<string, { set: MemberEvaluationSet; evaluation: CriterionEvaluation }[]> {
+  const groups = new Map<string, { set: MemberEvaluationSet; evaluation: CriterionEvaluation }[]>();
+  sets.forEach(set => {
+    set.evaluations.forEach(evaluation => {
+      const group = groups.get(evaluation.criterionId) ?? [];
+      group.push({ set, evaluation });
+      groups.set(evaluation.criterionId, group);
+    });
+  });
+  return groups;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Combines every member's assessment of a criterion into the single evaluation
+ * the engine weighs. Members count equally.
+ *
+ * - linear_pool: averages the leanings. The group speaks as one assessor who
+ *   is as confident as the members are on average.
+ * - logarithmic_pool: averages the log-odds of the leanings (a normalized
+ *   geometric mean), so strong, shared convictions carry further than in the
+ *   linear pool, and a single near-certain dissenter pulls harder.
+ * - pseudo_observations: every member's assessment is separate evidence. The
+ *   pooled evaluation contributes exactly the pseudo-observations of all of
+ *   them together, so confidence adds up across members and can exceed 100.
+ */
+export function aggregateMemberEvaluations(
+  sets: MemberEvaluationSet[],
+  method: AggregationMethod
+): CriterionEvaluation[] {
+  return Array.from(groupByCriterion(sets), ([criterionId, entries]) => {
+    const evaluations = entries.map(e => e.evaluation);
+    const leanings = evaluations.map(getLeaning);
+    const confidences = evaluations.map(e => e.confidence);
+
+    if (method === 'pseudo_observations') {
+      const totalConfidence = confidences.reduce((sum, c) => sum + c, 0);
+      const leaning = leanings.reduce((sum, l, i) => sum + l * confidences[i], 0) / totalConfidence;
+      return evaluationFromLeaning(criterionId, leaning, totalConfidence);
+    }
+
+    const leaning = method === 'logarithmic_pool'
+      ? 1 / (1 + Math.exp(-mean(leanings.map(logit))))
+      : mean(leanings);
+    return evaluationFromLeaning(criterionId, leaning, mean(confidences));
+  });
+}
+
+// ============================================================================
+// DISAGREEMENT
+// ============================================================================
+
+/**
+ * Where the group disagrees, most contested criterion first. Only criteria
+ * that at least two members assessed are included.
+ */
+export function analyzeDisagreement(sets: MemberEvaluationSet[], criteria: Criterion[]): CriterionDisagreement[] {
+  return Array.from(groupByCriterion(sets))
+    .filter(([, entries]) => entries.length >= 2)
+    .map(([criterionId, entries]): CriterionDisagreement => {
+      const positions = entries.map(({ set, evaluation }) => ({
+        userId: set.userId,
+        name: set.name,
+        leaning: getLeaning(evaluation) * 100,
+        confidence: evaluation.confidence,
+      }));
+      const leanings = positions.map(p => p.leaning);
+      const average = mean(leanings);
+
+      return {
+        criterionId,
+        criterionName: criteria.find(c => c.id === criterionId)?.name ?? 'Unknown',
+        spread: Math.sqrt(mean(leanings.map(l => (l - average) ** 2))),
+        range: [Math.min(...leanings), Math.max(...leanings)],
+        splitDirection: leanings.some(l => l > 50) && leanings.some(l => l < 50),
+        positions: positions.sort((a, b) => b.leaning - a.leaning),
+      };
+    })
+    .sort((a, b) => b.spread - a.spread);
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '@/lib/markdown';
+
+describe('parseMarkdown', () => {
+  it('groups numbered items into one list with their inline formatting', () => {
+    const blocks = parseMarkdown('## Summary\n\n1. **Key Insight**: Go ahead.\n2. **Risk**: Costs are *uncertain*.\n\nTake your time.');
+
+    expect(blocks.map(b => b.type)).toEqual(['heading', 'list', 'paragraph']);
+    expect(blocks[1]).toEqual({
+      type: 'list',
+      ordered: true,
+      items: [
+        [{ type: 'strong', children: [{ type: 'text', text: 'Key Insight' }] }, { type: 'text', text: ': Go ahead.' }],
+        [
+          { type: 'strong', children: [{ type: 'text', text: 'Risk' }] },
+          { type: 'text', text: ': Costs are ' },
+          { type: 'em', children: [{ type: 'text', text: 'uncertain' }] },
+          { type: 'text', text: '.' },
+        ],
+      ],
+    });
+  });
+
+  it('joins wrapped lines into one paragraph', () => {
+    expect(parseMarkdown('The interval is wide\nso hold off.')).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', text: 'The interval is wide so hold off.' }] },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('renders bold that is still streaming in without its markers', () => {
+    expect(parseInline('1. **Key Ins')).toEqual([
+      { type: 'text', text: '1. ' },
+      { type: 'strong', children: [{ type: 'text', text: 'Key Ins' }] },
+    ]);
+  });
+
+  it('leaves lone asterisks and snake_case as written', () => {
+    expect(parseInline('5 * 3 in cost_of_living')).toEqual([{ type: 'text', text: '5 * 3 in cost_of_living' }]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * The small slice of Markdown AI analyses are written in: headings, bulleted and numbered
+ * lists, paragraphs, and bold/italic/code inline. Parsed into plain data rather than HTML,
+ * so model output is never injected as markup, and tolerant of text cut off mid-stream.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'paragraph'; content: InlineNode[] };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith('**', i) || text.startsWith('__', i)) {
+      const marker = text.slice(i, i + 2);
+      const end = text.indexOf(marker, i + 2);
+      flush();
+      // Unclosed bold is still streaming in, so it runs to the end rather than showing the **
+      const inner = end === -1 ? text.slice(i + 2) : text.slice(i + 2, end);
+      if (inner) nodes.push({ type: 'strong', children: parseInline(inner) });
+      i = end === -1 ? text.length : end + 2;
+    } else if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      flush();
+      nodes.push({ type: 'code', text: end === -1 ? text.slice(i + 1) : text.slice(i + 1, end) });
+      i = end === -1 ? text.length : end + 1;
+    } else if ((text[i] === '*' || text[i] === '_') && /\S/.test(text[i + 1] ?? '')) {
+      const end = text.indexOf(text[i], i + 1);
+      // A lone * or _ (a footnote, snake_case) stays as written
+      const intraword = text[i] === '_' && /\w/.test(text[i - 1] ?? '');
+      if (end === -1 || intraword || /\s/.test(text[end - 1])) {
+        plain += text[i++];
+        continue;
+      }
+      flush();
+      nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+      i = end + 1;
+    } else {
+      plain += text[i++];
+    }
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(HEADING);
+    const item = line.match(ORDERED_ITEM) ?? line.match(BULLET_ITEM);
+
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2].trim()) });
+    } else if (item) {
+      flushParagraph();
+      const ordered = ORDERED_ITEM.test(line);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(parseInline(item[1].trim()));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInline(item[1].trim())] });
+      }
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      const last = blocks[blocks.length - 1];
+      // An indented line right after a list item continues that item
+      if (paragraph.length === 0 && last?.type === 'list' && /^\s+/.test(line)) {
+        last.items[last.items.length - 1].push({ type: 'text', text: ' ' }, ...parseInline(line.trim()));
+      } else {
+        paragraph.push(line.trim());
+      }
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,101 @@
+import { DecisionState } from '@/types/decision';
+import { QueuedOperation, enqueueOperation } from '@/lib/syncQueue';
+
+/**
+ * On-device storage in IndexedDB: the decision being worked on in the wizard, and changes
+ * made while offline that still have to reach Supabase. Both are kept per user.
+ */
+
+const DB_NAME = 'flight-simulator';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const QUEUES_STORE = 'syncQueues';
+
+/** The wizard steps a draft can be resumed at */
+export type DraftStep = 'decision' | 'criteria' | 'evaluation' | 'evidence' | 'payoffs';
+
+export interface DecisionDraft {
+  userId: string;
+  state: DecisionState;
+  step: DraftStep;
+  editingDecisionId: string | null; // Set when the draft revises a saved decision
+  editingDecisionUpdatedAt?: string | null; // That decision's updatedAt as loaded; missing in older drafts
+  savedAt: string;
+}
+
+interface StoredQueue {
+  userId: string;
+  operations: QueuedOperation[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'userId' });
+        request.result.createObjectStore(QUEUES_STORE, { keyPath: 'userId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user leaves private browsing
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Runs fn in a transaction on one store and resolves with its result once the transaction commits */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveDraft(draft: DecisionDraft): Promise<void> {
+  // Samples are regenerated by the next simulation and only bloat the draft
+  const { samples: _samples, ...state } = draft.state;
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.put({ ...draft, state }));
+}
+
+export async function loadDraft(userId: string): Promise<DecisionDraft | null> {
+  const draft = await withStore<DecisionDraft | undefined>(DRAFTS_STORE, 'readonly', store => store.get(userId));
+  return draft ?? null;
+}
+
+export async function clearDraft(userId: string): Promise<void> {
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.delete(userId));
+}
+
+export async function loadQueue(userId: string): Promise<QueuedOperation[]> {
+  const stored = await withStore<StoredQueue | undefined>(QUEUES_STORE, 'readonly', store => store.get(userId));
+  return stored?.operations ?? [];
+}
+
+/** Replaces the user's queue, e.g. with what is left after a replay */
+export async function saveQueue(userId: string, operations: QueuedOperation[]): Promise<void> {
+  await withStore(QUEUES_STORE, 'readwrite', store => (
+    operations.length > 0 ? store.put({ userId, operations }) : store.delete(userId)
+  ));
+}
+
+export async function queueOperation(userId: string, operation: QueuedOperation): Promise<void> {
+  await saveQueue(userId, enqueueOperation(await loadQueue(userId), operation));
+}
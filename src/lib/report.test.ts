@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDecisionResults } from '@/lib/bayesian';
+import { REPORT_SCHEMA_VERSION, buildDecisionReport, renderReportHtml, renderReportMarkdown } from '@/lib/report';
+
+const STATE = {
+  decision: 'Move to <Lisbon> & work remotely',
+  initialConfidence: 60,
+  criteria: [
+    { id: 'cost', name: 'Cost of living', importance: 80 },
+    { id: 'career', name: 'Career', importance: 40 },
+    { id: 'network', name: 'Network', importance: 50, parentId: 'career' },
+  ],
+  correlationGroups: [],
+  criteriaEvaluations: [
+    { criterionId: 'cost', supportsDecision: true, strength: 70, confidence: 80 },
+    { criterionId: 'network', supportsDecision: false, strength: 60, confidence: 50 },
+  ],
+  options: [],
+  optionScores: [],
+  evidence: [],
+  payoffs: [],
+  seed: 42,
+};
+
+describe('buildDecisionReport', () => {
+  const analysis = calculateDecisionResults(STATE, { seed: STATE.seed });
+  const report = buildDecisionReport(STATE, analysis, [], new Date('2026-01-01T00:00:00Z'));
+
+  it('records the results the engine produced, in a versioned shape', () => {
+    expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(report.results.posterior).toBe(analysis.results.posterior);
+    expect(report.results.winPercentage).toBe(analysis.results.winPercentage);
+    expect(report.results.derivation).toEqual(analysis.results.derivation);
+    expect(report.criteria.map(c => [c.name, c.depth])).toEqual([
+      ['Cost of living', 0],
+      ['Career', 0],
+      ['Network', 1],
+    ]);
+    // Survives a round trip through JSON unchanged
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it('ranks sensitivity by the size of the impact', () => {
+    const impacts = report.results.sensitivity.map(s => Math.abs(s.impact));
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+  });
+
+  it('renders Markdown and escapes user text in HTML', () => {
+    const markdown = renderReportMarkdown(report);
+    expect(markdown).toContain('# Move to <Lisbon> & work remotely');
+    expect(markdown).toContain('## Calculations');
+
+    const html = renderReportHtml(report);
+    expect(html).toContain('Move to &lt;Lisbon&gt; &amp; work remotely');
+    expect(html).not.toContain('<Lisbon>');
+  });
+});
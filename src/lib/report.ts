@@ -0,0 +1,458 @@
+import type { SavedExperiment } from '@/hooks/useExperimentsPersistence';
+import {
+  DecisionState,
+  EvidenceItem,
+  ExperimentResult,
+  isMultiOptionDecision,
+} from '@/types/decision';
+import {
+  ConvergenceDiagnostic,
+  DecisionResults,
+  MONTE_CARLO_SAMPLES,
+  PosteriorDerivation,
+  SensitivityItem,
+  getDecisionWinPercentage,
+} from '@/lib/bayesian';
+import { computeEffectiveImportance, walkCriteriaTree } from '@/lib/criteriaTree';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+/** Bumped whenever a field is renamed or removed, so archived exports can be read back */
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportFormat = 'json' | 'markdown' | 'html';
+
+export type ReportInputs = Pick<
+  DecisionState,
+  'decision' | 'initialConfidence' | 'criteria' | 'criteriaEvaluations' | 'options' | 'optionScores' | 'evidence' | 'seed'
+>;
+
+export interface DecisionReport {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  generatedAt: string; // ISO timestamp
+  decision: {
+    text: string;
+    prior: number; // 0-100, initial confidence
+    seed: number; // Re-running with this seed reproduces the numbers below
+    options: { id: string; name: string; description: string | null }[];
+  };
+  criteria: {
+    id: string;
+    name: string;
+    description: string | null;
+    parentId: string | null;
+    depth: number; // 0 = top-level
+    importance: number; // 1-100, as set
+    effectiveImportance: number; // 1-100, after rolling up the hierarchy
+  }[];
+  evaluations: {
+    criterionId: string;
+    criterionName: string;
+    supportsDecision: boolean;
+    strength: number;
+    confidence: number;
+  }[];
+  optionScores: {
+    optionId: string;
+    optionName: string;
+    criterionId: string;
+    criterionName: string;
+    score: number;
+    confidence: number;
+  }[];
+  evidence: EvidenceItem[];
+  results: {
+    posterior: number; // 0-100
+    credibleInterval: [number, number];
+    winPercentage: number; // The leading option's when comparing alternatives
+    samples: number;
+    convergence: (Omit<ConvergenceDiagnostic, 'effectiveSampleSize'> & {
+      effectiveSampleSize: number | null; // null when the samples are anti-correlated enough to make it unbounded
+    }) | null;
+    sensitivity: SensitivityItem[]; // Most influential first
+    derivation: PosteriorDerivation | null; // Only for decision-vs-status-quo
+    optionRanking: {
+      optionId: string;
+      optionName: string;
+      posterior: number;
+      credibleInterval: [number, number];
+      winPercentage: number;
+    }[] | null;
+  };
+  experiments: {
+    id: string;
+    title: string;
+    description: string | null;
+    status: SavedExperiment['status'];
+    targetCriterion: string | null;
+    result: ExperimentResult | null;
+    posteriorBefore: number | null;
+    posteriorAfter: number | null;
+    completedAt: string | null;
+  }[];
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/** Gathers everything behind a decision into one plain, serializable object */
+export function buildDecisionReport(
+  state: ReportInputs,
+  analysis: DecisionResults,
+  experiments: SavedExperiment[] = [],
+  generatedAt: Date = new Date()
+): DecisionReport {
+  const { results, optionResults } = analysis;
+  const isComparingOptions = isMultiOptionDecision(state);
+  const effectiveImportance = computeEffectiveImportance(state.criteria);
+  const criterionName = (id: string) => state.criteria.find(c => c.id === id)?.name ?? 'Unknown criterion';
+  const optionName = (id: string) => state.options.find(o => o.id === id)?.name ?? 'Unknown option';
+  const leader = optionResults?.options[0];
+  const convergence = leader ? leader.convergenceDiagnostic : results.convergenceDiagnostic;
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    decision: {
+      text: state.decision,
+      prior: state.initialConfidence,
+      seed: state.seed,
+      options: state.options.map(o => ({ id: o.id, name: o.name, description: o.description ?? null })),
+    },
+    criteria: walkCriteriaTree(state.criteria).map(({ criterion, depth }) => ({
+      id: criterion.id,
+      name: criterion.name,
+      description: criterion.description ?? null,
+      parentId: criterion.parentId ?? null,
+      depth,
+      importance: criterion.importance,
+      effectiveImportance: effectiveImportance.get(criterion.id) ?? criterion.importance,
+    })),
+    evaluations: state.criteriaEvaluations.map(e => ({
+      criterionId: e.criterionId,
+      criterionName: criterionName(e.criterionId),
+      supportsDecision: e.supportsDecision,
+      strength: e.strength,
+      confidence: e.confidence,
+    })),
+    optionScores: state.optionScores.map(s => ({
+      optionId: s.optionId,
+      optionName: optionName(s.optionId),
+      criterionId: s.criterionId,
+      criterionName: criterionName(s.criterionId),
+      score: s.score,
+      confidence: s.confidence,
+    })),
+    evidence: state.evidence,
+    results: {
+      posterior: leader ? leader.posterior : results.posterior,
+      credibleInterval: leader ? leader.credibleInterval : results.credibleInterval,
+      winPercentage: getDecisionWinPercentage(analysis),
+      samples: MONTE_CARLO_SAMPLES,
+      // JSON has no Infinity, so say so explicitly rather than let it turn into null silently
+      convergence: convergence
+        ? {
+            ...convergence,
+            effectiveSampleSize: Number.isFinite(convergence.effectiveSampleSize) ? convergence.effectiveSampleSize : null,
+          }
+        : null,
+      sensitivity: isComparingOptions
+        ? []
+        : [...(results.sensitivityAnalysis ?? [])].sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+      derivation: isComparingOptions ? null : results.derivation,
+      optionRanking: optionResults
+        ? optionResults.options.map(o => ({
+            optionId: o.optionId,
+            optionName: o.optionName,
+            posterior: o.posterior,
+            credibleInterval: o.credibleInterval,
+            winPercentage: o.winPercentage,
+          }))
+        : null,
+    },
+    experiments: experiments.map(e => ({
+      id: e.id,
+      title: e.title,
+      description: e.description,
+      status: e.status,
+      targetCriterion: e.targetCriterion,
+      result: e.result,
+      posteriorBefore: e.posteriorBefore,
+      posteriorAfter: e.posteriorAfter,
+      completedAt: e.completedAt,
+    })),
+  };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const pct = (value: number) => `${value.toFixed(1)}%`;
+
+const fixed = (value: number, digits = 3) => value.toFixed(digits);
+
+const formatSampleSize = (value: number | null) => (value === null ? 'unbounded' : value.toFixed(0));
+
+function describeExperimentResult(report: DecisionReport, result: ExperimentResult): string {
+  const criterion = report.criteria.find(c => c.id === result.criterionId)?.name ?? 'Unknown criterion';
+  const option = result.optionId ? report.decision.options.find(o => o.id === result.optionId)?.name : null;
+  return `${result.direction} on ${criterion}${option ? ` (${option})` : ''}, conclusiveness ${Math.round(result.conclusiveness)}%`;
+}
+
+/** The derivation as plain lines, mirroring the calculations pane */
+function describeDerivation(derivation: PosteriorDerivation): string[] {
+  const lines = [
+    `Prior: α₀ = ${fixed(derivation.priorAlpha, 2)}, β₀ = ${fixed(derivation.priorBeta, 2)} ` +
+      `(prior ${fixed(derivation.priorProbability, 2)} × concentration ${derivation.priorConcentration})`,
+  ];
+  derivation.steps.forEach(step => {
+    const adjusted = step.pseudoCount * step.correlationMultiplier;
+    lines.push(
+      `${step.criterionName} (${step.supportsDecision ? 'supports' : 'opposes'}): ` +
+        `pseudo-count ${fixed(step.confidence / 100, 2)} × ${fixed(step.importance / 100, 2)} × ${derivation.evidenceStrengthScale}` +
+        `${step.correlationMultiplier !== 1 ? ` × ${fixed(step.correlationMultiplier, 2)}` : ''} = ${fixed(adjusted)}; ` +
+        `α += ${fixed(step.alphaIncrement)}, β += ${fixed(step.betaIncrement)}`
+    );
+  });
+  derivation.evidenceSteps.forEach(step => {
+    lines.push(
+      `${step.label} (evidence · ${step.type}): pseudo-count ${fixed(step.pseudoCount)}; ` +
+        `α += ${fixed(step.alphaIncrement)}, β += ${fixed(step.betaIncrement)}`
+    );
+  });
+  lines.push(
+    `Posterior: α = ${fixed(derivation.alpha)}, β = ${fixed(derivation.beta)}, ` +
+      `expected value = ${pct(derivation.alpha / (derivation.alpha + derivation.beta) * 100)}`
+  );
+  return lines;
+}
+
+const cell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function markdownTable(headers: string[], rows: (string | number)[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+export function renderReportMarkdown(report: DecisionReport): string {
+  const { decision, criteria, evaluations, optionScores, evidence, results, experiments } = report;
+  const sections: string[] = [
+    `# ${decision.text}`,
+    `_Generated ${report.generatedAt} · report schema v${report.schemaVersion} · seed ${decision.seed}_`,
+    `## Summary\n\n` +
+      `- Starting belief: ${pct(decision.prior)}\n` +
+      `- Final estimate: ${pct(results.posterior)}\n` +
+      `- 95% credible interval: ${pct(results.credibleInterval[0])} – ${pct(results.credibleInterval[1])}\n` +
+      `- ${results.optionRanking ? 'Top option wins' : 'Wins'} in ${results.winPercentage}% of ${results.samples.toLocaleString()} simulated scenarios`,
+  ];
+
+  if (results.optionRanking) {
+    sections.push(`## Option ranking\n\n${markdownTable(
+      ['Option', 'Posterior', '95% interval', 'Wins'],
+      results.optionRanking.map(o => [o.optionName, pct(o.posterior), `${pct(o.credibleInterval[0])} – ${pct(o.credibleInterval[1])}`, `${o.winPercentage}%`])
+    )}`);
+  }
+
+  sections.push(`## Criteria\n\n${markdownTable(
+    ['Criterion', 'Importance', 'Effective importance'],
+    criteria.map(c => [`${'↳ '.repeat(c.depth)}${c.name}`, c.importance, Number(c.effectiveImportance.toFixed(1))])
+  )}`);
+
+  if (evaluations.length > 0) {
+    sections.push(`## Evaluations\n\n${markdownTable(
+      ['Criterion', 'Direction', 'Strength', 'Confidence'],
+      evaluations.map(e => [e.criterionName, e.supportsDecision ? 'Supports' : 'Opposes', `${e.strength}%`, `${e.confidence}%`])
+    )}`);
+  }
+
+  if (optionScores.length > 0) {
+    sections.push(`## Option scores\n\n${markdownTable(
+      ['Option', 'Criterion', 'Score', 'Confidence'],
+      optionScores.map(s => [s.optionName, s.criterionName, s.score, `${s.confidence}%`])
+    )}`);
+  }
+
+  if (evidence.length > 0) {
+    sections.push(`## Evidence\n\n${markdownTable(
+      ['Evidence', 'Type', 'Value', 'Weight'],
+      evidence.map(e => [e.label, e.type, `${e.value}%`, `${e.weight}%`])
+    )}`);
+  }
+
+  if (results.sensitivity.length > 0) {
+    sections.push(`## Sensitivity\n\nHow far the estimate would move if each criterion were left out.\n\n${markdownTable(
+      ['Criterion', 'Impact'],
+      results.sensitivity.map(s => [s.criterionName, `${s.impact > 0 ? '+' : ''}${s.impact.toFixed(1)} pts`])
+    )}`);
+  }
+
+  if (results.convergence) {
+    const { gewekeZScore, effectiveSampleSize, mcError, isConverged } = results.convergence;
+    sections.push(
+      `## Convergence\n\n` +
+        `- Geweke Z-score: ${fixed(gewekeZScore)}\n` +
+        `- Effective sample size: ${formatSampleSize(effectiveSampleSize)}\n` +
+        `- Monte Carlo standard error: ${fixed(mcError * 100)}%\n` +
+        `- ${isConverged ? 'Converged' : 'Check convergence'}`
+    );
+  }
+
+  if (results.derivation) {
+    sections.push(`## Calculations\n\n${describeDerivation(results.derivation).map(line => `- ${line}`).join('\n')}`);
+  }
+
+  if (experiments.length > 0) {
+    sections.push(`## Experiments\n\n${experiments.map(e => {
+      const details = [
+        e.status.replace('_', ' '),
+        e.result ? describeExperimentResult(report, e.result) : null,
+        e.posteriorBefore !== null && e.posteriorAfter !== null
+          ? `estimate ${pct(e.posteriorBefore)} → ${pct(e.posteriorAfter)}`
+          : null,
+      ].filter(Boolean).join(' · ');
+      return `- **${e.title}** — ${details}${e.description ? `\n  ${e.description}` : ''}`;
+    }).join('\n')}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+const escapeHtml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function htmlTable(headers: string[], rows: (string | number)[][]): string {
+  return `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map(row => `<tr>${row.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+const PRINT_STYLES = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; max-width: 780px; margin: 40px auto; padding: 0 24px; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  .meta { color: #666; font-size: 12px; }
+  .summary { display: flex; gap: 12px; margin-top: 16px; }
+  .summary div { flex: 1; border: 1px solid #ddd; border-radius: 6px; padding: 8px 12px; }
+  .summary span { display: block; color: #666; font-size: 11px; text-transform: uppercase; }
+  .summary strong { font-size: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; }
+  th { color: #666; font-weight: 600; font-size: 11px; text-transform: uppercase; }
+  ul.calc { font-family: ui-monospace, Menlo, monospace; font-size: 12px; }
+  section { break-inside: avoid; }
+  @page { margin: 18mm; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/** A self-contained page (no external assets) laid out to print cleanly */
+export function renderReportHtml(report: DecisionReport): string {
+  const { decision, criteria, evaluations, optionScores, evidence, results, experiments } = report;
+  const sections: string[] = [];
+  const section = (title: string, body: string) => sections.push(`<section><h2>${escapeHtml(title)}</h2>${body}</section>`);
+
+  if (results.optionRanking) {
+    section('Option ranking', htmlTable(
+      ['Option', 'Posterior', '95% interval', 'Wins'],
+      results.optionRanking.map(o => [o.optionName, pct(o.posterior), `${pct(o.credibleInterval[0])} – ${pct(o.credibleInterval[1])}`, `${o.winPercentage}%`])
+    ));
+  }
+
+  section('Criteria', htmlTable(
+    ['Criterion', 'Importance', 'Effective importance'],
+    criteria.map(c => [`${'↳ '.repeat(c.depth)}${c.name}`, c.importance, Number(c.effectiveImportance.toFixed(1))])
+  ));
+
+  if (evaluations.length > 0) {
+    section('Evaluations', htmlTable(
+      ['Criterion', 'Direction', 'Strength', 'Confidence'],
+      evaluations.map(e => [e.criterionName, e.supportsDecision ? 'Supports' : 'Opposes', `${e.strength}%`, `${e.confidence}%`])
+    ));
+  }
+
+  if (optionScores.length > 0) {
+    section('Option scores', htmlTable(
+      ['Option', 'Criterion', 'Score', 'Confidence'],
+      optionScores.map(s => [s.optionName, s.criterionName, s.score, `${s.confidence}%`])
+    ));
+  }
+
+  if (evidence.length > 0) {
+    section('Evidence', htmlTable(
+      ['Evidence', 'Type', 'Value', 'Weight'],
+      evidence.map(e => [e.label, e.type, `${e.value}%`, `${e.weight}%`])
+    ));
+  }
+
+  if (results.sensitivity.length > 0) {
+    section('Sensitivity', htmlTable(
+      ['Criterion', 'Impact if left out'],
+      results.sensitivity.map(s => [s.criterionName, `${s.impact > 0 ? '+' : ''}${s.impact.toFixed(1)} pts`])
+    ));
+  }
+
+  if (results.convergence) {
+    const { gewekeZScore, effectiveSampleSize, mcError, isConverged } = results.convergence;
+    section('Convergence', htmlTable(
+      ['Geweke Z-score', 'Effective sample size', 'MC standard error', 'Status'],
+      [[fixed(gewekeZScore), formatSampleSize(effectiveSampleSize), `${fixed(mcError * 100)}%`, isConverged ? 'Converged' : 'Check convergence']]
+    ));
+  }
+
+  if (results.derivation) {
+    section('Calculations', `<ul class="calc">${describeDerivation(results.derivation).map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+  }
+
+  if (experiments.length > 0) {
+    section('Experiments', htmlTable(
+      ['Experiment', 'Status', 'Result', 'Estimate'],
+      experiments.map(e => [
+        e.title,
+        e.status.replace('_', ' '),
+        e.result ? describeExperimentResult(report, e.result) : '—',
+        e.posteriorBefore !== null && e.posteriorAfter !== null ? `${pct(e.posteriorBefore)} → ${pct(e.posteriorAfter)}` : '—',
+      ])
+    ));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(decision.text)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(decision.text)}</h1>
+<p class="meta">Generated ${escapeHtml(report.generatedAt)} · report schema v${report.schemaVersion} · seed ${decision.seed}</p>
+<div class="summary">
+  <div><span>Starting belief</span><strong>${pct(decision.prior)}</strong></div>
+  <div><span>Final estimate</span><strong>${pct(results.posterior)}</strong></div>
+  <div><span>95% interval</span><strong>${pct(results.credibleInterval[0])} – ${pct(results.credibleInterval[1])}</strong></div>
+  <div><span>${results.optionRanking ? 'Top option wins' : 'Wins'}</span><strong>${results.winPercentage}%</strong></div>
+</div>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function serializeReport(report: DecisionReport, format: ReportFormat): { content: string; mimeType: string; extension: string } {
+  switch (format) {
+    case 'json':
+      return { content: JSON.stringify(report, null, 2), mimeType: 'application/json', extension: 'json' };
+    case 'markdown':
+      return { content: renderReportMarkdown(report), mimeType: 'text/markdown', extension: 'md' };
+    case 'html':
+      return { content: renderReportHtml(report), mimeType: 'text/html', extension: 'html' };
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import type { DecisionRevision } from '@/hooks/useDecisionPersistence';
+import { diffRevisions, RevisionChange } from '@/lib/revisions';
+
+const base: DecisionRevision = {
+  id: 'r1',
+  decisionId: 'd1',
+  revisionNumber: 1,
+  decision: 'Move abroad',
+  initialConfidence: 50,
+  posteriorProbability: 62,
+  credibleIntervalLow: 45,
+  credibleIntervalHigh: 77,
+  winPercentage: null,
+  seed: 1,
+  createdAt: '2026-05-01T10:00:00Z',
+  criteria: [
+    { id: 'c1', name: 'Cost', importance: 60 },
+    { id: 'c2', name: 'Commute', importance: 40 },
+    { id: 'c3', name: 'Weather', importance: 30 },
+  ],
+  correlationGroups: [{ id: 'g1', criterionIds: ['c1', 'c2'], correlationFactor: 0.5 }],
+  pairwiseJudgments: [],
+  evaluations: [
+    { criterionId: 'c1', supportsDecision: true, strength: 70, confidence: 80 },
+    { criterionId: 'c2', supportsDecision: false, strength: 40, confidence: 50 },
+  ],
+  evidence: [{ id: 'e1', type: 'data', label: 'Savings', description: '', value: 70, weight: 50 }],
+  options: [{ id: 'o1', name: 'Lisbon' }, { id: 'o2', name: 'Berlin' }],
+  optionScores: [{ optionId: 'o1', criterionId: 'c1', score: 60, confidence: 70 }],
+  payoffs: [
+    { id: 'p1', outcome: 'success', shape: 'triangular', min: 10, likely: 20, max: 30 },
+    { id: 'p2', optionId: 'o1', outcome: 'failure', shape: 'pert', min: -10, likely: -5, max: 0 },
+  ],
+};
+
+const SECTIONS = ['criteria', 'options', 'assessments', 'evidence', 'payoffs'] as const;
+type Section = typeof SECTIONS[number];
+
+describe('diffRevisions', () => {
+  it('finds nothing between identical revisions', () => {
+    const diff = diffRevisions(base, { ...base, id: 'r2', revisionNumber: 2 });
+
+    expect(diff.decisionText).toBeNull();
+    expect(diff.priorDelta).toBe(0);
+    expect(diff.posteriorDelta).toBe(0);
+    SECTIONS.forEach(section => expect(diff[section]).toEqual([]));
+  });
+
+  it('reports the headline changes, with no delta when either side lacks a value', () => {
+    const diff = diffRevisions(base, {
+      ...base,
+      decision: 'Move to Lisbon',
+      initialConfidence: 65,
+      posteriorProbability: 58,
+      winPercentage: 40,
+    });
+
+    expect(diff.decisionText).toEqual({ from: 'Move abroad', to: 'Move to Lisbon' });
+    expect(diff.priorDelta).toBe(15);
+    expect(diff.posteriorDelta).toBe(-4);
+    expect(diff.winPercentageDelta).toBeNull();
+  });
+
+  it.each<[string, Partial<DecisionRevision>, Section, RevisionChange[]]>([
+    [
+      'an added criterion',
+      { criteria: [...base.criteria, { id: 'c4', name: 'Friends', importance: 55.4 }] },
+      'criteria',
+      [{ kind: 'added', label: 'Friends', detail: 'importance 55' }],
+    ],
+    [
+      'a removed criterion',
+      { criteria: base.criteria.filter(c => c.id !== 'c3') },
+      'criteria',
+      [{ kind: 'removed', label: 'Weather', detail: 'importance 30' }],
+    ],
+    [
+      'a renamed, reweighted and moved criterion',
+      { criteria: [{ id: 'c1', name: 'Price', importance: 75, parentId: 'c2' }, ...base.criteria.slice(1)] },
+      'criteria',
+      [{ kind: 'changed', label: 'Price', detail: 'renamed from "Cost", importance 60 → 75, moved under "Commute"' }],
+    ],
+    [
+      'an added correlation group',
+      { correlationGroups: [...base.correlationGroups, { id: 'g2', criterionIds: ['c3', 'c1'], correlationFactor: 0.9 }] },
+      'criteria',
+      [{ kind: 'added', label: 'Weather + Cost', detail: 'overlap 90%' }],
+    ],
+    [
+      'a removed correlation group',
+      { correlationGroups: [] },
+      'criteria',
+      [{ kind: 'removed', label: 'Cost + Commute', detail: 'overlap 50%' }],
+    ],
+    [
+      'a changed correlation group',
+      { correlationGroups: [{ id: 'g1', criterionIds: ['c1', 'c2'], correlationFactor: 0.8 }] },
+      'criteria',
+      [{ kind: 'changed', label: 'Cost + Commute', detail: 'overlap 50% → overlap 80%' }],
+    ],
+    [
+      'an added option',
+      { options: [...base.options, { id: 'o3', name: 'Porto' }] },
+      'options',
+      [{ kind: 'added', label: 'Porto', detail: 'new option' }],
+    ],
+    [
+      'a removed option',
+      { options: base.options.filter(o => o.id !== 'o2') },
+      'options',
+      [{ kind: 'removed', label: 'Berlin', detail: 'option dropped' }],
+    ],
+    [
+      'a renamed option',
+      { options: [base.options[0], { id: 'o2', name: 'Munich' }] },
+      'options',
+      [{ kind: 'changed', label: 'Munich', detail: 'renamed from "Berlin"' }],
+    ],
+    [
+      'an added evaluation',
+      { evaluations: [...base.evaluations, { criterionId: 'c3', supportsDecision: true, strength: 55, confidence: 60 }] },
+      'assessments',
+      [{ kind: 'added', label: 'Weather', detail: 'supports 55% · confidence 60%' }],
+    ],
+    [
+      'a removed evaluation',
+      { evaluations: base.evaluations.slice(0, 1) },
+      'assessments',
+      [{ kind: 'removed', label: 'Commute', detail: 'opposes 40% · confidence 50%' }],
+    ],
+    [
+      'a flipped evaluation',
+      { evaluations: [{ ...base.evaluations[0], supportsDecision: false }, base.evaluations[1]] },
+      'assessments',
+      [{ kind: 'changed', label: 'Cost', detail: 'supports 70% · confidence 80% → opposes 70% · confidence 80%' }],
+    ],
+    [
+      'an added option score',
+      { optionScores: [...base.optionScores, { optionId: 'o2', criterionId: 'c1', score: 45, confidence: 50 }] },
+      'assessments',
+      [{ kind: 'added', label: 'Berlin · Cost', detail: 'score 45 · confidence 50%' }],
+    ],
+    [
+      'a removed option score',
+      { optionScores: [] },
+      'assessments',
+      [{ kind: 'removed', label: 'Lisbon · Cost', detail: 'score 60 · confidence 70%' }],
+    ],
+    [
+      'a changed option score',
+      { optionScores: [{ ...base.optionScores[0], score: 80 }] },
+      'assessments',
+      [{ kind: 'changed', label: 'Lisbon · Cost', detail: 'score 60 · confidence 70% → score 80 · confidence 70%' }],
+    ],
+    [
+      'added evidence',
+      { evidence: [...base.evidence, { id: 'e2', type: 'emotional', label: 'Excitement', description: '', value: 90, weight: 30 }] },
+      'evidence',
+      [{ kind: 'added', label: 'Excitement', detail: 'value 90% · weight 30%' }],
+    ],
+    [
+      'removed evidence',
+      { evidence: [] },
+      'evidence',
+      [{ kind: 'removed', label: 'Savings', detail: 'value 70% · weight 50%' }],
+    ],
+    [
+      'reweighted evidence',
+      { evidence: [{ ...base.evidence[0], weight: 80 }] },
+      'evidence',
+      [{ kind: 'changed', label: 'Savings', detail: 'value 70% · weight 50% → value 70% · weight 80%' }],
+    ],
+    [
+      'an added payoff',
+      { payoffs: [...base.payoffs, { id: 'p3', optionId: 'o2', outcome: 'success', shape: 'pert', min: 0, likely: 15, max: 50 }] },
+      'payoffs',
+      [{ kind: 'added', label: 'Berlin · if it works out', detail: 'PERT 0 / 15 / 50' }],
+    ],
+    [
+      'a removed payoff',
+      { payoffs: base.payoffs.slice(1) },
+      'payoffs',
+      [{ kind: 'removed', label: 'if it works out', detail: 'triangular 10 / 20 / 30' }],
+    ],
+    [
+      'a changed payoff',
+      { payoffs: [base.payoffs[0], { ...base.payoffs[1], likely: -2 }] },
+      'payoffs',
+      [{ kind: 'changed', label: "Lisbon · if it doesn't", detail: 'PERT -10 / -5 / 0 → PERT -10 / -2 / 0' }],
+    ],
+  ])('lists %s and nothing else', (_, changes, section, expected) => {
+    const diff = diffRevisions(base, { ...base, ...changes });
+
+    SECTIONS.forEach(s => expect(diff[s]).toEqual(s === section ? expected : []));
+  });
+
+  it('labels a removed criterion\'s assessments by the name it had', () => {
+    const diff = diffRevisions(base, {
+      ...base,
+      criteria: base.criteria.filter(c => c.id !== 'c2'),
+      correlationGroups: [],
+      evaluations: base.evaluations.slice(0, 1),
+    });
+
+    expect(diff.assessments).toEqual([{ kind: 'removed', label: 'Commute', detail: 'opposes 40% · confidence 50%' }]);
+  });
+});
@@ -0,0 +1,206 @@
+import type { DecisionRevision } from '@/hooks/useDecisionPersistence';
+import { CriteriaCorrelationGroup, CriterionEvaluation, EvidenceItem, OptionScore, OutcomePayoff } from '@/types/decision';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RevisionChangeKind = 'added' | 'removed' | 'changed';
+
+export interface RevisionChange {
+  kind: RevisionChangeKind;
+  label: string; // What changed, e.g. a criterion name
+  detail: string; // How it changed, e.g. "importance 40 → 70"
+}
+
+export interface RevisionDiff {
+  decisionText: { from: string; to: string } | null;
+  priorDelta: number; // Percentage points
+  posteriorDelta: number | null; // Percentage points; null if either revision has no posterior
+  winPercentageDelta: number | null;
+  criteria: RevisionChange[];
+  options: RevisionChange[];
+  assessments: RevisionChange[];
+  evidence: RevisionChange[];
+  payoffs: RevisionChange[];
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+function describeEvaluation(evaluation: CriterionEvaluation): string {
+  return `${evaluation.supportsDecision ? 'supports' : 'opposes'} ${Math.round(evaluation.strength)}% · confidence ${Math.round(evaluation.confidence)}%`;
+}
+
+function describeScore(score: OptionScore): string {
+  return `score ${Math.round(score.score)} · confidence ${Math.round(score.confidence)}%`;
+}
+
+function describeEvidence(item: EvidenceItem): string {
+  return `value ${Math.round(item.value)}% · weight ${Math.round(item.weight)}%`;
+}
+
+function describePayoff(payoff: OutcomePayoff): string {
+  return `${payoff.shape === 'pert' ? 'PERT' : 'triangular'} ${payoff.min} / ${payoff.likely} / ${payoff.max}`;
+}
+
+function describeGroup(group: CriteriaCorrelationGroup): string {
+  return `overlap ${Math.round(group.correlationFactor * 100)}%`;
+}
+
+function delta(from: number | null, to: number | null): number | null {
+  return from !== null && to !== null ? to - from : null;
+}
+
+/**
+ * Compares two revisions of the same decision.
+ *
+ * Criteria and options are matched by ID, which stays stable across
+ * re-runs of a saved decision; assessments are matched by the criterion
+ * (and option) they belong to and labelled by name from whichever
+ * revision still has it.
+ */
+export function diffRevisions(from: DecisionRevision, to: DecisionRevision): RevisionDiff {
+  const criterionName = (id: string) =>
+    to.criteria.find(c => c.id === id)?.name ?? from.criteria.find(c => c.id === id)?.name ?? 'Unknown criterion';
+  const optionName = (id: string) =>
+    to.options.find(o => o.id === id)?.name ?? from.options.find(o => o.id === id)?.name ?? 'Unknown option';
+
+  const criteria: RevisionChange[] = [];
+  to.criteria.forEach(criterion => {
+    const previous = from.criteria.find(c => c.id === criterion.id);
+    if (!previous) {
+      criteria.push({ kind: 'added', label: criterion.name, detail: `importance ${Math.round(criterion.importance)}` });
+    } else if (
+      previous.name !== criterion.name ||
+      previous.importance !== criterion.importance ||
+      previous.parentId !== criterion.parentId
+    ) {
+      const details = [];
+      if (previous.name !== criterion.name) details.push(`renamed from "${previous.name}"`);
+      if (previous.importance !== criterion.importance) {
+        details.push(`importance ${Math.round(previous.importance)} → ${Math.round(criterion.importance)}`);
+      }
+      if (previous.parentId !== criterion.parentId) {
+        details.push(criterion.parentId ? `moved under "${criterionName(criterion.parentId)}"` : 'moved to the top level');
+      }
+      criteria.push({ kind: 'changed', label: criterion.name, detail: details.join(', ') });
+    }
+  });
+  from.criteria
+    .filter(criterion => !to.criteria.some(c => c.id === criterion.id))
+    .forEach(criterion => criteria.push({ kind: 'removed', label: criterion.name, detail: `importance ${Math.round(criterion.importance)}` }));
+
+  // Overlap groups change how much the criteria count, so they're listed with them
+  const groupLabel = (group: CriteriaCorrelationGroup) => group.criterionIds.map(criterionName).join(' + ');
+  to.correlationGroups.forEach(group => {
+    const previous = from.correlationGroups.find(g => g.id === group.id);
+    if (!previous) {
+      criteria.push({ kind: 'added', label: groupLabel(group), detail: describeGroup(group) });
+    } else if (
+      previous.correlationFactor !== group.correlationFactor ||
+      previous.criterionIds.join() !== group.criterionIds.join()
+    ) {
+      criteria.push({ kind: 'changed', label: groupLabel(group), detail: `${describeGroup(previous)} → ${describeGroup(group)}` });
+    }
+  });
+  from.correlationGroups
+    .filter(group => !to.correlationGroups.some(g => g.id === group.id))
+    .forEach(group => criteria.push({ kind: 'removed', label: groupLabel(group), detail: describeGroup(group) }));
+
+  const options: RevisionChange[] = [];
+  to.options.forEach(option => {
+    const previous = from.options.find(o => o.id === option.id);
+    if (!previous) {
+      options.push({ kind: 'added', label: option.name, detail: 'new option' });
+    } else if (previous.name !== option.name) {
+      options.push({ kind: 'changed', label: option.name, detail: `renamed from "${previous.name}"` });
+    }
+  });
+  from.options
+    .filter(option => !to.options.some(o => o.id === option.id))
+    .forEach(option => options.push({ kind: 'removed', label: option.name, detail: 'option dropped' }));
+
+  const assessments: RevisionChange[] = [];
+  to.evaluations.forEach(evaluation => {
+    const previous = from.evaluations.find(e => e.criterionId === evaluation.criterionId);
+    const label = criterionName(evaluation.criterionId);
+    if (!previous) {
+      assessments.push({ kind: 'added', label, detail: describeEvaluation(evaluation) });
+    } else if (
+      previous.supportsDecision !== evaluation.supportsDecision ||
+      previous.strength !== evaluation.strength ||
+      previous.confidence !== evaluation.confidence
+    ) {
+      assessments.push({ kind: 'changed', label, detail: `${describeEvaluation(previous)} → ${describeEvaluation(evaluation)}` });
+    }
+  });
+  from.evaluations
+    .filter(evaluation => !to.evaluations.some(e => e.criterionId === evaluation.criterionId))
+    .forEach(evaluation => assessments.push({
+      kind: 'removed',
+      label: criterionName(evaluation.criterionId),
+      detail: describeEvaluation(evaluation),
+    }));
+
+  const sameScore = (a: OptionScore, b: OptionScore) => a.optionId === b.optionId && a.criterionId === b.criterionId;
+  to.optionScores.forEach(score => {
+    const previous = from.optionScores.find(s => sameScore(s, score));
+    const label = `${optionName(score.optionId)} · ${criterionName(score.criterionId)}`;
+    if (!previous) {
+      assessments.push({ kind: 'added', label, detail: describeScore(score) });
+    } else if (previous.score !== score.score || previous.confidence !== score.confidence) {
+      assessments.push({ kind: 'changed', label, detail: `${describeScore(previous)} → ${describeScore(score)}` });
+    }
+  });
+  from.optionScores
+    .filter(score => !to.optionScores.some(s => sameScore(s, score)))
+    .forEach(score => assessments.push({
+      kind: 'removed',
+      label: `${optionName(score.optionId)} · ${criterionName(score.criterionId)}`,
+      detail: describeScore(score),
+    }));
+
+  const evidence: RevisionChange[] = [];
+  to.evidence.forEach(item => {
+    const previous = from.evidence.find(e => e.id === item.id);
+    if (!previous) {
+      evidence.push({ kind: 'added', label: item.label, detail: describeEvidence(item) });
+    } else if (previous.value !== item.value || previous.weight !== item.weight) {
+      evidence.push({ kind: 'changed', label: item.label, detail: `${describeEvidence(previous)} → ${describeEvidence(item)}` });
+    }
+  });
+  from.evidence
+    .filter(item => !to.evidence.some(e => e.id === item.id))
+    .forEach(item => evidence.push({ kind: 'removed', label: item.label, detail: describeEvidence(item) }));
+
+  const payoffLabel = (payoff: OutcomePayoff) => {
+    const outcome = payoff.outcome === 'success' ? 'if it works out' : "if it doesn't";
+    return payoff.optionId ? `${optionName(payoff.optionId)} · ${outcome}` : outcome;
+  };
+  const payoffs: RevisionChange[] = [];
+  to.payoffs.forEach(payoff => {
+    const previous = from.payoffs.find(p => p.id === payoff.id);
+    if (!previous) {
+      payoffs.push({ kind: 'added', label: payoffLabel(payoff), detail: describePayoff(payoff) });
+    } else if (describePayoff(previous) !== describePayoff(payoff)) {
+      payoffs.push({ kind: 'changed', label: payoffLabel(payoff), detail: `${describePayoff(previous)} → ${describePayoff(payoff)}` });
+    }
+  });
+  from.payoffs
+    .filter(payoff => !to.payoffs.some(p => p.id === payoff.id))
+    .forEach(payoff => payoffs.push({ kind: 'removed', label: payoffLabel(payoff), detail: describePayoff(payoff) }));
+
+  return {
+    decisionText: from.decision !== to.decision ? { from: from.decision, to: to.decision } : null,
+    priorDelta: to.initialConfidence - from.initialConfidence,
+    posteriorDelta: delta(from.posteriorProbability, to.posteriorProbability),
+    winPercentageDelta: delta(from.winPercentage, to.winPercentage),
+    criteria,
+    options,
+    assessments,
+    evidence,
+    payoffs,
+  };
+}
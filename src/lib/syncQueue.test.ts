@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { enqueueOperation, hasSyncConflict, isNetworkError, QueuedOperation } from '@/lib/syncQueue';
+
+const statusChange = (status: 'in_progress' | 'cancelled', queuedAt: string, baseUpdatedAt: string | null): QueuedOperation => ({
+  kind: 'experimentStatus',
+  experimentId: 'exp-1',
+  status,
+  queuedAt,
+  baseUpdatedAt,
+});
+
+const newDecision = (queuedAt: string): QueuedOperation => ({
+  kind: 'saveDecision',
+  decisionId: null,
+  state: {
+    decision: 'Move to Lisbon',
+    category: '',
+    options: [],
+    criteria: [],
+    correlationGroups: [],
+    pairwiseJudgments: [],
+    criteriaEvaluations: [],
+    optionScores: [],
+    initialConfidence: 50,
+    evidence: [],
+    payoffs: [],
+    posteriorProbability: 50,
+    credibleInterval: [35, 65],
+    seed: 1,
+  },
+  winPercentage: 50,
+  queuedAt,
+  baseUpdatedAt: null,
+});
+
+describe('enqueueOperation', () => {
+  it('replaces an earlier change to the same row but keeps its base version', () => {
+    const first = statusChange('in_progress', '2026-05-01T10:00:00Z', '2026-04-30T08:00:00Z');
+    const second = statusChange('cancelled', '2026-05-01T11:00:00Z', '2026-04-30T08:00:00Z');
+    const queue = enqueueOperation(enqueueOperation([], first), second);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ status: 'cancelled', baseUpdatedAt: '2026-04-30T08:00:00Z' });
+  });
+
+  it('keeps every save of a new decision, since each creates its own row', () => {
+    const queue = enqueueOperation(
+      enqueueOperation([], newDecision('2026-05-01T10:00:00Z')),
+      newDecision('2026-05-01T11:00:00Z')
+    );
+    expect(queue).toHaveLength(2);
+  });
+});
+
+describe('hasSyncConflict', () => {
+  it('flags rows changed on the server after the version the change was based on', () => {
+    const operation = statusChange('cancelled', '2026-05-01T10:00:00Z', '2026-04-30T08:00:00Z');
+    expect(hasSyncConflict(operation, '2026-04-30T08:00:00Z')).toBe(false);
+    expect(hasSyncConflict(operation, '2026-04-30T09:15:00Z')).toBe(true);
+  });
+
+  it('never flags a change with no base version, such as a new decision', () => {
+    const operation = newDecision('2026-05-01T10:00:00Z');
+    expect(hasSyncConflict(operation, '2026-05-01T09:00:00Z')).toBe(false);
+    expect(hasSyncConflict(operation, '2026-05-01T10:30:00Z')).toBe(false);
+    expect(hasSyncConflict(operation, null)).toBe(false);
+  });
+
+  it('judges a superseded change by the version the first one was based on', () => {
+    const first = statusChange('in_progress', '2026-05-01T10:00:00Z', '2026-04-30T08:00:00Z');
+    const [merged] = enqueueOperation([first], statusChange('cancelled', '2026-05-01T11:00:00Z', '2026-05-01T10:30:00Z'));
+    expect(hasSyncConflict(merged, '2026-05-01T10:30:00Z')).toBe(true);
+  });
+
+  it('bases an offline change on the version an earlier online change left behind', () => {
+    // Loaded at 08:00, changed online at 09:00 (the server row moves to 09:00), then changed offline
+    const loaded = '2026-05-01T08:00:00Z';
+    const afterOnlineChange = '2026-05-01T09:00:00Z';
+
+    const queued = statusChange('cancelled', '2026-05-01T10:00:00Z', afterOnlineChange);
+    expect(hasSyncConflict(queued, afterOnlineChange)).toBe(false);
+
+    // Keeping the loaded version as the base would drop the user's own change as a conflict
+    const stale = statusChange('cancelled', '2026-05-01T10:00:00Z', loaded);
+    expect(hasSyncConflict(stale, afterOnlineChange)).toBe(true);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('tells requests that never reached the server from ones it rejected', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: NetworkError when attempting to fetch resource.' })).toBe(true);
+    expect(isNetworkError({ message: 'new row violates row-level security policy', code: '42501' })).toBe(false);
+  });
+});
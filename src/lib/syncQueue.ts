@@ -0,0 +1,72 @@
+import { DecisionState } from '@/types/decision';
+
+/**
+ * Changes made while offline, waiting to be replayed to Supabase.
+ *
+ * Each operation remembers which version of the row it was based on. On replay, a row
+ * whose `updated_at` has moved past that point was changed elsewhere in the meantime,
+ * and the offline change is held back rather than silently overwriting it.
+ */
+
+export type ExperimentStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled';
+
+interface QueuedOperationBase {
+  queuedAt: string;
+  // The row's updated_at when the change was made; null for a row the client never loaded,
+  // such as a decision that doesn't exist yet, which nothing else can have changed
+  baseUpdatedAt: string | null;
+}
+
+export interface QueuedDecisionSave extends QueuedOperationBase {
+  kind: 'saveDecision';
+  decisionId: string | null; // null saves a new decision
+  state: DecisionState;
+  winPercentage: number;
+}
+
+export interface QueuedExperimentStatus extends QueuedOperationBase {
+  kind: 'experimentStatus';
+  experimentId: string;
+  status: ExperimentStatus;
+}
+
+export type QueuedOperation = QueuedDecisionSave | QueuedExperimentStatus;
+
+/** Which row an operation writes, or null when it creates a new one */
+export function getOperationTarget(operation: QueuedOperation): string | null {
+  return operation.kind === 'saveDecision'
+    ? (operation.decisionId ? `decision:${operation.decisionId}` : null)
+    : `experiment:${operation.experimentId}`;
+}
+
+/**
+ * Adds an operation to the queue. A later change to the same row supersedes the earlier one,
+ * but keeps its base version, since that is still what the server last showed this client.
+ */
+export function enqueueOperation(queue: QueuedOperation[], operation: QueuedOperation): QueuedOperation[] {
+  const target = getOperationTarget(operation);
+  const superseded = target ? queue.find(op => getOperationTarget(op) === target) : undefined;
+  if (!superseded) return [...queue, operation];
+
+  return [
+    ...queue.filter(op => op !== superseded),
+    { ...operation, baseUpdatedAt: superseded.baseUpdatedAt },
+  ];
+}
+
+/** Whether the server's copy changed after the version the operation was based on */
+export function hasSyncConflict(operation: QueuedOperation, serverUpdatedAt: string | null): boolean {
+  if (!serverUpdatedAt || !operation.baseUpdatedAt) return false;
+  return new Date(serverUpdatedAt).getTime() > new Date(operation.baseUpdatedAt).getTime();
+}
+
+/** Whether a failed request never reached the server, so it is worth retrying later */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
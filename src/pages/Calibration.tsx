@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format, parseISO } from 'date-fns';
+import { Plane, Target, ChevronLeft, LogOut } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDecisionPersistence, DecisionSummary } from '@/hooks/useDecisionPersistence';
+import { useOutcomesPersistence } from '@/hooks/useOutcomesPersistence';
+import { computeCalibration, getBrierLabel, OUTCOME_LABELS, CalibrationPoint } from '@/lib/calibration';
+import { OutcomeIcon } from '@/components/OutcomeIcon';
+import { DecisionResolution } from '@/types/decision';
+
+export default function Calibration() {
+  const navigate = useNavigate();
+  const { user, signOut } = useAuth();
+  const { loadDecisionSummaries, loading: loadingDecisions } = useDecisionPersistence();
+  const { loadOutcomes, loading: loadingOutcomes } = useOutcomesPersistence();
+  const [decisions, setDecisions] = useState<DecisionSummary[]>([]);
+  const [outcomes, setOutcomes] = useState<DecisionResolution[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      loadDecisionSummaries().then(setDecisions);
+      loadOutcomes().then(setOutcomes);
+    }
+  }, [user, loadDecisionSummaries, loadOutcomes]);
+
+  // Scored against the forecast stored with each outcome, not the decision's current value
+  const resolved = useMemo(() => {
+    return outcomes
+      .map(outcome => ({ outcome, decision: decisions.find(d => d.id === outcome.decisionId) }))
+      .filter((r): r is { outcome: DecisionResolution; decision: DecisionSummary } =>
+        !!r.decision && r.outcome.forecast !== null
+      );
+  }, [outcomes, decisions]);
+
+  const calibration = useMemo(() => {
+    const points: CalibrationPoint[] = resolved.map(({ outcome }) => ({
+      forecast: outcome.forecast as number,
+      outcome: outcome.outcome,
+    }));
+    return computeCalibration(points);
+  }, [resolved]);
+
+  const loading = loadingDecisions || loadingOutcomes;
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <main className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-accent/5 rounded-full blur-3xl" />
+      </div>
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-border/50 backdrop-blur-xl bg-background/50">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+              <Plane className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="font-mono font-bold text-lg gradient-text">Flight Simulator</h1>
+              <p className="text-xs text-muted-foreground font-mono">for Life</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/history')}>
+              <ChevronLeft className="w-4 h-4 mr-2" />
+              Decision History
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="max-w-4xl mx-auto"
+        >
+          {/* Page header */}
+          <div className="flex items-center gap-3 mb-2">
+            <Target className="w-6 h-6 text-primary" />
+            <h2 className="text-2xl font-bold">Calibration</h2>
+          </div>
+          <p className="text-muted-foreground mb-8">
+            Do your 70% calls come true about 70% of the time? Record outcomes on your history to find out.
+          </p>
+
+          {/* Loading state */}
+          {loading && (
+            <div className="text-center py-12 text-muted-foreground">Loading your outcomes...</div>
+          )}
+
+          {/* Empty state */}
+          {!loading && !calibration && (
+            <div className="text-center py-16">
+              <div className="p-4 rounded-full bg-secondary/50 inline-block mb-4">
+                <Target className="w-12 h-12 text-muted-foreground" />
+              </div>
+              <h3 className="text-xl font-bold mb-2">No resolved decisions yet</h3>
+              <p className="text-muted-foreground mb-6">
+                Once you record how past decisions turned out, we'll score how well-calibrated your analyses were.
+              </p>
+              <Button onClick={() => navigate('/history')}>
+                Go to history
+              </Button>
+            </div>
+          )}
+
+          {!loading && calibration && (
+            <>
+              {/* Scores */}
+              <div className="grid grid-cols-3 gap-4 text-center mb-8">
+                <div className="glass-card rounded-xl p-4">
+                  <p className="text-xs font-mono text-muted-foreground mb-1">RESOLVED</p>
+                  <p className="text-2xl font-mono font-bold">{calibration.count}</p>
+                </div>
+                <div className="glass-card rounded-xl p-4">
+                  <p className="text-xs font-mono text-muted-foreground mb-1">BRIER SCORE</p>
+                  <p className="text-2xl font-mono font-bold text-primary">{calibration.brierScore.toFixed(3)}</p>
+                  <p className="text-xs text-muted-foreground">{getBrierLabel(calibration.brierScore)}</p>
+                </div>
+                <div className="glass-card rounded-xl p-4">
+                  <p className="text-xs font-mono text-muted-foreground mb-1">LOG LOSS</p>
+                  <p className="text-2xl font-mono font-bold">{calibration.logLoss.toFixed(3)}</p>
+                  <p className="text-xs text-muted-foreground">coin flip = 0.693</p>
+                </div>
+              </div>
+
+              {/* Reliability diagram */}
+              <div className="glass-card rounded-2xl p-6 mb-8">
+                <h3 className="font-mono text-sm text-muted-foreground mb-1">RELIABILITY DIAGRAM</h3>
+                <p className="text-xs text-muted-foreground mb-4">
+                  Each dot groups decisions with similar forecasts. Dots on the dashed diagonal are perfectly calibrated;
+                  dots below it mean things went worse than predicted, above it better. Bigger dots hold more decisions.
+                </p>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                      <XAxis
+                        type="number"
+                        dataKey="meanForecast"
+                        domain={[0, 100]}
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={10}
+                        tickFormatter={(value) => `${value}%`}
+                        label={{ value: 'Predicted', position: 'bottom', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+                      />
+                      <YAxis
+                        type="number"
+                        dataKey="observedRate"
+                        domain={[0, 100]}
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={10}
+                        tickFormatter={(value) => `${value}%`}
+                      />
+                      <ZAxis type="number" dataKey="count" range={[60, 400]} />
+                      <ReferenceLine
+                        segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeDasharray="4 4"
+                      />
+                      <Tooltip
+                        cursor={false}
+                        formatter={(value: number, name: string) =>
+                          name === 'count' ? value : `${Math.round(value)}%`
+                        }
+                      />
+                      <Scatter data={calibration.bins} fill="hsl(var(--primary))" />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Resolved decisions */}
+              <div className="glass-card rounded-2xl p-6">
+                <h3 className="font-mono text-sm text-muted-foreground mb-4">RESOLVED DECISIONS</h3>
+                <div className="space-y-3">
+                  {resolved.map(({ outcome, decision }) => (
+                    <div key={outcome.id} className="flex items-center gap-4 p-3 rounded-xl bg-secondary/30 border border-border/50">
+                      <OutcomeIcon outcome={outcome.outcome} className="w-5 h-5 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">"{decision.decision}"</p>
+                        <p className="text-xs text-muted-foreground">
+                          {OUTCOME_LABELS[outcome.outcome]} · {format(parseISO(outcome.resolvedAt), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-mono font-bold">{Math.round(outcome.forecast as number)}%</p>
+                        <p className="text-xs text-muted-foreground">predicted</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </motion.div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Plane, ArrowLeft, CheckCircle2, Lock, Play, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDecisionPersistence, SavedDecision } from '@/hooks/useDecisionPersistence';
+import { useDelphiPersistence, DelphiRound } from '@/hooks/useDelphiPersistence';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { DelphiResponseForm } from '@/components/DelphiResponseForm';
+import { DelphiConvergenceChart } from '@/components/DelphiConvergenceChart';
+import { ResultsDashboard } from '@/components/ResultsDashboard';
+import { DecisionResults, generateSeed } from '@/lib/bayesian';
+import { getLeafCriteria } from '@/lib/criteriaTree';
+import {
+  MAX_DELPHI_ROUNDS,
+  getDelphiConsensusEvaluations,
+  getDelphiStopReason,
+  summarizeDelphiRound,
+} from '@/lib/delphi';
+import { DecisionState, DelphiResponse, DelphiSettings, isMultiOptionDecision } from '@/types/decision';
+
+const STOP_REASON_LABELS = {
+  converged: 'Opinion converged',
+  max_rounds: 'Reached the last round',
+};
+
+const DelphiProcess = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { decisionId } = useParams<{ decisionId: string }>();
+  const { loadDecision } = useDecisionPersistence();
+  const {
+    loadRounds,
+    startRound,
+    closeRound,
+    loadMyResponses,
+    loadAnonymousResponses,
+    submitResponses,
+    saveSettings,
+    saving,
+  } = useDelphiPersistence();
+  const { run, cancel } = useBayesianJob<'decisionResults'>();
+
+  const [decision, setDecision] = useState<SavedDecision | null>(
+    () => (location.state as { savedDecision?: SavedDecision })?.savedDecision ?? null
+  );
+  const [settings, setSettings] = useState<DelphiSettings | null>(decision?.delphiSettings ?? null);
+  const [rounds, setRounds] = useState<DelphiRound[]>([]);
+  const [myResponses, setMyResponses] = useState<DelphiResponse[]>([]);
+  const [respondents, setRespondents] = useState(0);
+  const [isResponding, setIsResponding] = useState(false);
+  const [analysis, setAnalysis] = useState<DecisionResults | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  // Opened from a link rather than from the group page
+  useEffect(() => {
+    if (decision || !decisionId) return;
+    loadDecision(decisionId).then((found) => {
+      if (found) {
+        setDecision(found);
+        setSettings(found.delphiSettings);
+      } else {
+        setNotFound(true);
+      }
+    });
+  }, [decision, decisionId, loadDecision]);
+
+  const isOwner = decision?.role === 'owner';
+  const canRespond = decision?.role === 'owner' || decision?.role === 'evaluator';
+  const criteria = useMemo(() => getLeafCriteria(decision?.criteria ?? []), [decision]);
+
+  const currentRound = rounds[rounds.length - 1] ?? null;
+  const openRound = currentRound?.status === 'open' ? currentRound : null;
+  const closedRounds = rounds.filter(r => r.status === 'closed' && r.summary);
+  const latestSummary = closedRounds[closedRounds.length - 1]?.summary ?? null;
+  const finished = currentRound?.stopReason ?? null;
+
+  const reload = useCallback(async () => {
+    if (!decisionId) return;
+    const loaded = await loadRounds(decisionId);
+    setRounds(loaded);
+
+    const open = loaded.find(r => r.status === 'open');
+    if (open) {
+      setMyResponses(await loadMyResponses(open.id));
+      // Owners see how many have answered; the responses themselves stay anonymous
+      if (isOwner) {
+        const responses = await loadAnonymousResponses(open.id);
+        setRespondents(new Set(responses.map(r => r.respondent)).size);
+      }
+    } else {
+      setMyResponses([]);
+      setRespondents(0);
+    }
+  }, [decisionId, isOwner, loadRounds, loadMyResponses, loadAnonymousResponses]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Simulate the group's position after the latest closed round
+  const consensusState = useMemo((): DecisionState | null => {
+    if (!decision || !latestSummary) return null;
+    return {
+      decision: decision.decision,
+      category: '',
+      options: [],
+      criteria: decision.criteria,
+      correlationGroups: decision.correlationGroups,
+      pairwiseJudgments: decision.pairwiseJudgments,
+      criteriaEvaluations: getDelphiConsensusEvaluations(latestSummary),
+      optionScores: [],
+      initialConfidence: decision.initialConfidence,
+      evidence: decision.evidence,
+      payoffs: decision.payoffs.filter(p => !p.optionId),
+      posteriorProbability: decision.initialConfidence,
+      credibleInterval: [decision.initialConfidence, decision.initialConfidence],
+      seed: decision.seed ?? generateSeed(),
+    };
+  }, [decision, latestSummary]);
+
+  useEffect(() => {
+    if (!consensusState) return;
+    let cancelled = false;
+    setAnalysis(null);
+    run({ kind: 'decisionResults', state: consensusState, config: { seed: consensusState.seed } }).then((result) => {
+      if (!cancelled && result) setAnalysis(result);
+    });
+    return () => {
+      cancelled = true;
+      cancel();
+    };
+  }, [consensusState, run, cancel]);
+
+  const handleStart = async () => {
+    if (!decisionId || !settings) return;
+    if (await saveSettings(decisionId, settings) && await startRound(decisionId, 1)) {
+      await reload();
+    }
+  };
+
+  const handleSubmit = async (responses: DelphiResponse[]) => {
+    if (!decisionId || !openRound) return;
+    if (await submitResponses(decisionId, openRound.id, responses)) {
+      setIsResponding(false);
+      await reload();
+    }
+  };
+
+  // Closing summarizes the round for everyone, then either ends the process or opens the next round
+  const handleClose = async () => {
+    if (!decisionId || !openRound || !settings) return;
+    const responses = await loadAnonymousResponses(openRound.id);
+    const summary = summarizeDelphiRound(responses, criteria.map(c => c.id));
+    const stopReason = getDelphiStopReason(summary, openRound.roundNumber, settings);
+
+    if (!(await closeRound(openRound.id, summary, stopReason))) return;
+    if (!stopReason) await startRound(decisionId, openRound.roundNumber + 1);
+    await reload();
+  };
+
+  const handleSettingsChange = (updates: Partial<DelphiSettings>) => {
+    setSettings(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  return (
+    <main className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-accent/5 rounded-full blur-3xl" />
+      </div>
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-border/50 backdrop-blur-xl bg-background/50">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+              <Plane className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="font-mono font-bold text-lg gradient-text">Flight Simulator</h1>
+              <p className="text-xs text-muted-foreground font-mono">for Life</p>
+            </div>
+          </div>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(`/group/${decisionId}`, { state: { savedDecision: decision } })}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Group
+          </Button>
+        </div>
+      </header>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        {notFound && (
+          <div className="text-center py-12 text-muted-foreground">
+            This decision doesn't exist or hasn't been shared with you.
+          </div>
+        )}
+
+        {!notFound && !decision && (
+          <div className="text-center py-12 text-muted-foreground">Loading decision...</div>
+        )}
+
+        {decision && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-4xl mx-auto"
+          >
+            <div className="flex items-center gap-3 mb-2">
+              <Repeat className="w-6 h-6 text-primary flex-shrink-0" />
+              <h2 className="text-2xl font-bold truncate">Delphi rounds</h2>
+            </div>
+            <p className="text-muted-foreground mb-8 truncate">"{decision.decision}"</p>
+
+            {isMultiOptionDecision(decision) ? (
+              <div className="glass-card rounded-2xl p-6 text-center text-muted-foreground">
+                Delphi rounds rate a decision against the status quo. Decisions between several
+                options are evaluated by their owner.
+              </div>
+            ) : (
+              <>
+                {/* Process status and settings */}
+                <div className="glass-card rounded-2xl p-6 mb-8 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <h3 className="font-mono text-sm text-muted-foreground">STATUS</h3>
+                      <p className="font-medium">
+                        {rounds.length === 0 && 'Not started'}
+                        {openRound && `Round ${openRound.roundNumber} of up to ${settings?.maxRounds} is open`}
+                        {finished && `${STOP_REASON_LABELS[finished]} after ${currentRound.roundNumber} round${currentRound.roundNumber > 1 ? 's' : ''}`}
+                      </p>
+                      {openRound && (
+                        <p className="text-sm text-muted-foreground">
+                          Opened {format(new Date(openRound.createdAt), 'MMM d, yyyy')}
+                          {isOwner && ` · ${respondents} ${respondents === 1 ? 'member has' : 'members have'} responded`}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {openRound && canRespond && !isResponding && (
+                        <Button variant={myResponses.length > 0 ? 'secondary' : 'default'} onClick={() => setIsResponding(true)}>
+                          {myResponses.length > 0 ? (
+                            <><CheckCircle2 className="w-4 h-4 mr-2" />Revise your ratings</>
+                          ) : (
+                            'Rate the criteria'
+                          )}
+                        </Button>
+                      )}
+                      {openRound && isOwner && (
+                        <Button variant="outline" onClick={handleClose} disabled={saving || respondents === 0}>
+                          <Lock className="w-4 h-4 mr-2" />
+                          Close round {openRound.roundNumber}
+                        </Button>
+                      )}
+                      {rounds.length === 0 && isOwner && (
+                        <Button onClick={handleStart} disabled={saving || criteria.length === 0}>
+                          <Play className="w-4 h-4 mr-2" />
+                          Start round 1
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {settings && (
+                    <div className="grid sm:grid-cols-2 gap-4 pt-4 border-t border-border/50">
+                      <div className="space-y-2">
+                        <Label htmlFor="delphi-max-rounds">Maximum rounds</Label>
+                        <Input
+                          id="delphi-max-rounds"
+                          type="number"
+                          min={1}
+                          max={MAX_DELPHI_ROUNDS}
+                          value={settings.maxRounds}
+                          disabled={!isOwner || rounds.length > 0}
+                          onChange={(e) => handleSettingsChange({
+                            maxRounds: Math.min(MAX_DELPHI_ROUNDS, Math.max(1, Math.round(Number(e.target.value) || 1))),
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="delphi-threshold">Stop when every criterion's IQR is below (points)</Label>
+                        <Input
+                          id="delphi-threshold"
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={settings.iqrThreshold}
+                          disabled={!isOwner || rounds.length > 0}
+                          onChange={(e) => handleSettingsChange({
+                            iqrThreshold: Math.min(100, Math.max(1, Number(e.target.value) || 1)),
+                          })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {openRound && isResponding && (
+                  <div className="mb-8">
+                    <DelphiResponseForm
+                      decision={decision.decision}
+                      criteria={criteria}
+                      roundNumber={openRound.roundNumber}
+                      initialResponses={myResponses}
+                      previousSummary={latestSummary}
+                      saving={saving}
+                      onSubmit={handleSubmit}
+                    />
+                  </div>
+                )}
+
+                {closedRounds.length > 0 && settings && (
+                  <DelphiConvergenceChart
+                    rounds={closedRounds.map(r => ({ roundNumber: r.roundNumber, summary: r.summary }))}
+                    criteria={decision.criteria}
+                    iqrThreshold={settings.iqrThreshold}
+                  />
+                )}
+
+                {consensusState && (
+                  <>
+                    <h3 className="font-mono text-sm text-muted-foreground mb-4">
+                      SIMULATED FROM THE ROUND {closedRounds[closedRounds.length - 1].roundNumber} MEDIANS
+                    </h3>
+                    {analysis ? (
+                      <ResultsDashboard state={consensusState} analysis={analysis} readOnly />
+                    ) : (
+                      <div className="text-center py-12 text-muted-foreground animate-pulse">
+                        Simulating the group's position...
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default DelphiProcess;
@@ -2,8 +2,10 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useExperimentsPersistence, SavedExperiment } from '@/hooks/useExperimentsPersistence';
-import { useDecisionPersistence, SavedDecision } from '@/hooks/useDecisionPersistence';
+import { useDecisionPersistence, DecisionSummary, SavedDecision } from '@/hooks/useDecisionPersistence';
 import { Button } from '@/components/ui/button';
+import { CompleteExperimentDialog } from '@/components/CompleteExperimentDialog';
+import { ExperimentResult } from '@/types/decision';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
 import {
@@ -19,6 +21,8 @@ import {
   PlayCircle,
   XCircle,
   Plus,
+  TrendingUp,
+  TrendingDown,
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -55,36 +59,77 @@ const difficultyColors: Record<string, string> = {
 export default function Experiments() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const { loadExperiments, updateExperimentStatus, linkExperimentToDecision, deleteExperiment, loading } = useExperimentsPersistence();
-  const { loadDecisions } = useDecisionPersistence();
+  const { loadExperiments, updateExperimentStatus, completeExperiment, linkExperimentToDecision, deleteExperiment, loading } = useExperimentsPersistence();
+  const { loadDecision, loadDecisionSummaries } = useDecisionPersistence();
   
   const [experiments, setExperiments] = useState<SavedExperiment[]>([]);
-  const [decisions, setDecisions] = useState<SavedDecision[]>([]);
+  const [decisions, setDecisions] = useState<DecisionSummary[]>([]);
   const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  // The linked decision in full, since the result is applied to its assessments
+  const [completingDecision, setCompletingDecision] = useState<SavedDecision | null>(null);
+  const [completing, setCompleting] = useState(false);
+
+  const completingExperiment = experiments.find(e => e.id === completingId) ?? null;
 
   useEffect(() => {
     if (user) {
       loadExperiments().then(setExperiments);
-      loadDecisions().then(setDecisions);
+      loadDecisionSummaries().then(setDecisions);
     }
-  }, [user, loadExperiments, loadDecisions]);
+  }, [user, loadExperiments, loadDecisionSummaries]);
 
   const handleStatusChange = async (experimentId: string, status: SavedExperiment['status']) => {
-    const success = await updateExperimentStatus(experimentId, status);
-    if (success) {
+    // Completing an experiment asks what it found, so the result can update its decision
+    const experiment = experiments.find(e => e.id === experimentId);
+    if (status === 'completed') {
+      setCompletingDecision(experiment?.decisionId ? await loadDecision(experiment.decisionId) : null);
+      setCompletingId(experimentId);
+      return;
+    }
+
+    const updates = await updateExperimentStatus(experimentId, status, experiment?.updatedAt);
+    if (updates) {
       setExperiments(prev => prev.map(e => 
-        e.id === experimentId ? { ...e, status } : e
+        e.id === experimentId ? { ...e, ...updates } : e
+      ));
+    }
+  };
+
+  const handleCompleteWithoutResult = async () => {
+    if (!completingId) return;
+    setCompleting(true);
+    const updates = await updateExperimentStatus(completingId, 'completed', completingExperiment?.updatedAt);
+    setCompleting(false);
+    if (updates) {
+      setExperiments(prev => prev.map(e =>
+        e.id === completingId ? { ...e, ...updates } : e
+      ));
+      setCompletingId(null);
+    }
+  };
+
+  const handleComplete = async (result: ExperimentResult) => {
+    if (!completingExperiment) return;
+
+    setCompleting(true);
+    const updates = await completeExperiment(completingExperiment.id, result, completingDecision);
+    setCompleting(false);
+    if (updates) {
+      setExperiments(prev => prev.map(e =>
+        e.id === completingExperiment.id ? { ...e, ...updates } : e
       ));
+      setCompletingId(null);
     }
   };
 
   const handleLinkDecision = async (experimentId: string, decisionId: string | null) => {
-    const success = await linkExperimentToDecision(experimentId, decisionId);
-    if (success) {
+    const updates = await linkExperimentToDecision(experimentId, decisionId);
+    if (updates) {
       const decision = decisions.find(d => d.id === decisionId);
       setExperiments(prev => prev.map(e => 
         e.id === experimentId 
-          ? { ...e, decisionId, decisionText: decision?.decision || undefined } 
+          ? { ...e, ...updates, decisionText: decision?.decision || undefined } 
           : e
       ));
       setLinkingId(null);
@@ -230,6 +275,30 @@ export default function Experiments() {
                         )}
                       </div>
 
+                      {/* Result */}
+                      {experiment.posteriorBefore !== null && experiment.posteriorAfter !== null && (
+                        <div className="flex items-center gap-2 mb-3 text-sm">
+                          {experiment.posteriorAfter >= experiment.posteriorBefore ? (
+                            <TrendingUp className="w-4 h-4 text-confidence-high" />
+                          ) : (
+                            <TrendingDown className="w-4 h-4 text-confidence-low" />
+                          )}
+                          <span className="text-muted-foreground">Posterior:</span>
+                          <span className="font-mono">
+                            {Math.round(experiment.posteriorBefore)}% → {Math.round(experiment.posteriorAfter)}%
+                          </span>
+                          <span className={`font-mono text-xs ${
+                            experiment.posteriorAfter >= experiment.posteriorBefore ? 'text-confidence-high' : 'text-confidence-low'
+                          }`}>
+                            ({experiment.posteriorAfter >= experiment.posteriorBefore ? '+' : ''}
+                            {(experiment.posteriorAfter - experiment.posteriorBefore).toFixed(1)})
+                          </span>
+                        </div>
+                      )}
+                      {experiment.result?.notes && (
+                        <p className="text-sm text-foreground/80 italic mb-3">{experiment.result.notes}</p>
+                      )}
+
                       {/* Linked Decision */}
                       <div className="flex items-center gap-2">
                         <Link2 className="w-4 h-4 text-muted-foreground" />
@@ -243,7 +312,8 @@ export default function Experiments() {
                             </SelectTrigger>
                             <SelectContent>
                               <SelectItem value="none">No linked decision</SelectItem>
-                              {decisions.map(d => (
+                              {/* Completing an experiment updates the decision, which only its owners can do */}
+                              {decisions.filter(d => d.role === 'owner').map(d => (
                                 <SelectItem key={d.id} value={d.id}>
                                   {d.decision.length > 40 ? d.decision.slice(0, 40) + '...' : d.decision}
                                 </SelectItem>
@@ -307,6 +377,15 @@ export default function Experiments() {
           </div>
         )}
       </main>
+
+      <CompleteExperimentDialog
+        experiment={completingExperiment}
+        decision={completingDecision ?? undefined}
+        saving={completing}
+        onOpenChange={(open) => !open && setCompletingId(null)}
+        onComplete={handleComplete}
+        onCompleteWithoutResult={handleCompleteWithoutResult}
+      />
     </div>
   );
 }
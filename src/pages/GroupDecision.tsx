@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Plane, ArrowLeft, ClipboardCheck, Repeat, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDecisionPersistence, SavedDecision } from '@/hooks/useDecisionPersistence';
+import { useMembersPersistence } from '@/hooks/useMembersPersistence';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { CriteriaEvaluation } from '@/components/CriteriaEvaluation';
+import { DecisionMembersPanel } from '@/components/DecisionMembersPanel';
+import { MemberDisagreementPanel } from '@/components/MemberDisagreementPanel';
+import { ResultsDashboard } from '@/components/ResultsDashboard';
+import { DecisionResults, generateSeed } from '@/lib/bayesian';
+import { aggregateMemberEvaluations, analyzeDisagreement } from '@/lib/groupAggregation';
+import {
+  AggregationMethod,
+  CriterionEvaluation,
+  DecisionMember,
+  DecisionState,
+  MemberEvaluationSet,
+  MemberRole,
+  isMultiOptionDecision,
+} from '@/types/decision';
+
+const AGGREGATION_METHODS: Record<AggregationMethod, { label: string; description: string }> = {
+  linear_pool: {
+    label: 'Average opinion (linear pool)',
+    description: 'Averages how far each member leans, as if the group were one assessor of typical confidence.',
+  },
+  logarithmic_pool: {
+    label: 'Shared conviction (logarithmic pool)',
+    description: 'Averages on the log-odds scale: shared strong views count for more, and so does a confident dissenter.',
+  },
+  pseudo_observations: {
+    label: 'Independent evidence (pseudo-observations)',
+    description: 'Treats each member as a separate source of evidence, so more evaluators narrow the result.',
+  },
+};
+
+const GroupDecision = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { decisionId } = useParams<{ decisionId: string }>();
+  const { user } = useAuth();
+  const { loadDecision } = useDecisionPersistence();
+  const {
+    loadMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    loadMemberEvaluations,
+    saveMemberEvaluations,
+    saveAggregationMethod,
+    saving,
+  } = useMembersPersistence();
+  const { run, cancel } = useBayesianJob<'decisionResults'>();
+
+  const [decision, setDecision] = useState<SavedDecision | null>(
+    () => (location.state as { savedDecision?: SavedDecision })?.savedDecision ?? null
+  );
+  const [members, setMembers] = useState<DecisionMember[]>([]);
+  const [memberEvaluations, setMemberEvaluations] = useState<Record<string, CriterionEvaluation[]>>({});
+  const [method, setMethod] = useState<AggregationMethod>(decision?.aggregationMethod ?? 'linear_pool');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [analysis, setAnalysis] = useState<DecisionResults | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  // Opened from a link rather than from the history page
+  useEffect(() => {
+    if (decision || !decisionId) return;
+    loadDecision(decisionId).then((found) => {
+      if (found) {
+        setDecision(found);
+        setMethod(found.aggregationMethod);
+      } else {
+        setNotFound(true);
+      }
+    });
+  }, [decision, decisionId, loadDecision]);
+
+  const reload = useCallback(async () => {
+    if (!decisionId) return;
+    const [loadedMembers, loadedEvaluations] = await Promise.all([
+      loadMembers(decisionId),
+      loadMemberEvaluations(decisionId),
+    ]);
+    setMembers(loadedMembers);
+    setMemberEvaluations(loadedEvaluations);
+  }, [decisionId, loadMembers, loadMemberEvaluations]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const role: MemberRole = decision?.role ?? 'viewer';
+  const canEvaluate = role === 'owner' || role === 'evaluator';
+
+  const sets = useMemo((): MemberEvaluationSet[] => members
+    .filter(m => memberEvaluations[m.userId]?.length > 0)
+    .map(m => ({ userId: m.userId, name: m.email, evaluations: memberEvaluations[m.userId] })),
+  [members, memberEvaluations]);
+
+  const groupState = useMemo((): DecisionState | null => {
+    if (!decision || sets.length === 0) return null;
+    return {
+      decision: decision.decision,
+      category: '',
+      options: [],
+      criteria: decision.criteria,
+      correlationGroups: decision.correlationGroups,
+      pairwiseJudgments: decision.pairwiseJudgments,
+      criteriaEvaluations: aggregateMemberEvaluations(sets, method),
+      optionScores: [],
+      initialConfidence: decision.initialConfidence,
+      evidence: decision.evidence,
+      payoffs: decision.payoffs.filter(p => !p.optionId),
+      posteriorProbability: decision.initialConfidence,
+      credibleInterval: [decision.initialConfidence, decision.initialConfidence],
+      seed: decision.seed ?? generateSeed(),
+    };
+  }, [decision, sets, method]);
+
+  const disagreements = useMemo(
+    () => analyzeDisagreement(sets, decision?.criteria ?? []),
+    [sets, decision]
+  );
+
+  // Re-run the group's result whenever an evaluation or the pooling method changes
+  useEffect(() => {
+    if (!groupState) return;
+    let cancelled = false;
+    setAnalysis(null);
+    run({ kind: 'decisionResults', state: groupState, config: { seed: groupState.seed } }).then((result) => {
+      if (!cancelled && result) setAnalysis(result);
+    });
+    return () => {
+      cancelled = true;
+      cancel();
+    };
+  }, [groupState, run, cancel]);
+
+  const handleMethodChange = async (next: AggregationMethod) => {
+    if (!decisionId) return;
+    const previous = method;
+    setMethod(next);
+    if (!(await saveAggregationMethod(decisionId, next))) setMethod(previous);
+  };
+
+  const handleAdd = async (email: string, memberRole: MemberRole): Promise<boolean> => {
+    if (!decisionId) return false;
+    const member = await addMember(decisionId, email, memberRole);
+    if (member) await reload();
+    return member !== null;
+  };
+
+  const handleChangeRole = async (userId: string, memberRole: MemberRole) => {
+    if (!decisionId) return;
+    if (await updateMemberRole(decisionId, userId, memberRole)) {
+      setMembers(prev => prev.map(m => (m.userId === userId ? { ...m, role: memberRole } : m)));
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    if (!decisionId) return;
+    if (await removeMember(decisionId, userId)) {
+      setMembers(prev => prev.filter(m => m.userId !== userId));
+    }
+  };
+
+  const handleSubmitEvaluation = async (evaluations: CriterionEvaluation[]) => {
+    if (!decisionId) return;
+    if (await saveMemberEvaluations(decisionId, evaluations)) {
+      setIsEvaluating(false);
+      await reload();
+    }
+  };
+
+  // Owners start from the decision's own assessment until they submit one for the group
+  const myEvaluations = user
+    ? memberEvaluations[user.id] ?? (role === 'owner' ? decision?.evaluations ?? [] : [])
+    : [];
+
+  return (
+    <main className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-accent/5 rounded-full blur-3xl" />
+      </div>
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-border/50 backdrop-blur-xl bg-background/50">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+              <Plane className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="font-mono font-bold text-lg gradient-text">Flight Simulator</h1>
+              <p className="text-xs text-muted-foreground font-mono">for Life</p>
+            </div>
+          </div>
+
+          <Button variant="ghost" size="sm" onClick={() => navigate('/history')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            History
+          </Button>
+        </div>
+      </header>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        {notFound && (
+          <div className="text-center py-12 text-muted-foreground">
+            This decision doesn't exist or hasn't been shared with you.
+          </div>
+        )}
+
+        {!notFound && !decision && (
+          <div className="text-center py-12 text-muted-foreground">Loading decision...</div>
+        )}
+
+        {decision && isEvaluating && (
+          <CriteriaEvaluation
+            decision={decision.decision}
+            criteria={decision.criteria}
+            initialEvaluations={myEvaluations}
+            onSubmit={handleSubmitEvaluation}
+            onBack={() => setIsEvaluating(false)}
+          />
+        )}
+
+        {decision && !isEvaluating && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-4xl mx-auto"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <div className="flex items-center gap-3 min-w-0">
+                <Users className="w-6 h-6 text-primary flex-shrink-0" />
+                <h2 className="text-2xl font-bold truncate">"{decision.decision}"</h2>
+              </div>
+              {!isMultiOptionDecision(decision) && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate(`/group/${decision.id}/delphi`, { state: { savedDecision: decision } })}
+                  >
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Delphi rounds
+                  </Button>
+                  {canEvaluate && (
+                    <Button onClick={() => setIsEvaluating(true)} disabled={saving}>
+                      <ClipboardCheck className="w-4 h-4 mr-2" />
+                      {user && memberEvaluations[user.id] ? 'Revise your evaluation' : 'Add your evaluation'}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <DecisionMembersPanel
+              members={members}
+              submittedIds={new Set(sets.map(s => s.userId))}
+              currentUserId={user?.id ?? ''}
+              canManage={role === 'owner'}
+              canManageOwners={members.some(m => m.isCreator && m.userId === user?.id)}
+              saving={saving}
+              onAdd={handleAdd}
+              onChangeRole={handleChangeRole}
+              onRemove={handleRemove}
+            />
+
+            {isMultiOptionDecision(decision) ? (
+              <div className="glass-card rounded-2xl p-6 text-center text-muted-foreground">
+                Group evaluation weighs a decision against the status quo. Decisions between several
+                options are evaluated by their owner.
+              </div>
+            ) : (
+              <>
+                <div className="glass-card rounded-2xl p-6 mb-8">
+                  <h3 className="font-mono text-sm text-muted-foreground mb-3">COMBINING OPINIONS</h3>
+                  {role === 'owner' ? (
+                    <Select value={method} onValueChange={(v) => handleMethodChange(v as AggregationMethod)}>
+                      <SelectTrigger className="max-w-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(AGGREGATION_METHODS) as AggregationMethod[]).map(m => (
+                          <SelectItem key={m} value={m}>{AGGREGATION_METHODS[m].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="font-medium">{AGGREGATION_METHODS[method].label}</p>
+                  )}
+                  <p className="text-sm text-muted-foreground mt-2">{AGGREGATION_METHODS[method].description}</p>
+                </div>
+
+                {sets.length === 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">
+                    No one has submitted an evaluation yet.
+                  </div>
+                ) : (
+                  <>
+                    <MemberDisagreementPanel disagreements={disagreements} />
+                    {groupState && analysis ? (
+                      <ResultsDashboard state={groupState} analysis={analysis} readOnly />
+                    ) : (
+                      <div className="text-center py-12 text-muted-foreground animate-pulse">
+                        Simulating the group's result...
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default GroupDecision;
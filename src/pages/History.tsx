@@ -2,11 +2,21 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
-import { Plane, History as HistoryIcon, Plus, Trash2, ChevronRight, LogOut, FlaskConical } from 'lucide-react';
+import { Plane, History as HistoryIcon, Plus, Trash2, ChevronRight, LogOut, FlaskConical, Target, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { useDecisionPersistence, SavedDecision } from '@/hooks/useDecisionPersistence';
-import { getConfidenceColor } from '@/lib/bayesian';
+import { useDecisionPersistence, SavedDecision, DECISIONS_PAGE_SIZE } from '@/hooks/useDecisionPersistence';
+import { useDecisionHistory } from '@/hooks/useDecisionHistory';
+import { useOutcomesPersistence } from '@/hooks/useOutcomesPersistence';
+import { ResolveDecisionDialog } from '@/components/ResolveDecisionDialog';
+import { RevisionHistoryDialog } from '@/components/RevisionHistoryDialog';
+import { ExportReportMenu } from '@/components/ExportReportMenu';
+import { ShareDecisionDialog } from '@/components/ShareDecisionDialog';
+import { getConfidenceColor, generateSeed } from '@/lib/bayesian';
+import { OptionRanking } from '@/lib/bayesianWorker';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { computeEffectiveImportance } from '@/lib/criteriaTree';
+import { isMultiOptionDecision, DecisionResolution } from '@/types/decision';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,7 +29,53 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-function getOutcomeDescription(decision: SavedDecision): string {
+/** Rankings are cached per saved version, so a re-run decision is ranked again */
+const rankingKey = (decision: SavedDecision) => `${decision.id}:${decision.updatedAt}`;
+
+function getOptionsOutcomeDescription(decision: SavedDecision, ranking: OptionRanking | undefined): string {
+  const { options, optionScores, criteria } = decision;
+
+  if (optionScores.length === 0) {
+    return `Analysis incomplete — score each of your ${options.length} options against your criteria to see which one comes out on top.`;
+  }
+  if (!ranking) {
+    return `Comparing your ${options.length} options...`;
+  }
+
+  const [leader, runnerUp] = ranking;
+  if (!leader) {
+    return `Analysis incomplete — score each of your ${options.length} options against your criteria to see which one comes out on top.`;
+  }
+
+  const margin = leader.winPercentage - (runnerUp?.winPercentage ?? 0);
+  if (margin <= 10) {
+    return `Too close to call — Across ${criteria.length} criteria, ${leader.optionName} and ${runnerUp.optionName} came out on top in ${leader.winPercentage}% and ${runnerUp.winPercentage}% of simulated scenarios. Gathering evidence on the criteria where they differ most is the fastest way to separate them.`;
+  }
+  return `Clear front-runner — Out of ${options.length} options weighed against ${criteria.length} criteria, ${leader.optionName} came out on top in ${leader.winPercentage}% of simulated scenarios${runnerUp ? `, ahead of ${runnerUp.optionName} at ${runnerUp.winPercentage}%` : ''}.`;
+}
+
+/** What the export needs to re-run a saved decision exactly as it was last simulated */
+function toReportState(decision: SavedDecision) {
+  return {
+    decision: decision.decision,
+    initialConfidence: decision.initialConfidence,
+    criteria: decision.criteria,
+    correlationGroups: decision.correlationGroups,
+    criteriaEvaluations: decision.evaluations,
+    options: decision.options,
+    optionScores: decision.optionScores,
+    evidence: decision.evidence,
+    payoffs: decision.payoffs,
+    // Decisions saved before seeds were recorded get a fresh one
+    seed: decision.seed ?? generateSeed(),
+  };
+}
+
+function getOutcomeDescription(decision: SavedDecision, ranking: OptionRanking | undefined): string {
+  if (isMultiOptionDecision(decision)) {
+    return getOptionsOutcomeDescription(decision, ranking);
+  }
+
   const { winPercentage, criteria, evaluations, initialConfidence } = decision;
   
   if (winPercentage === null) {
@@ -31,9 +87,10 @@ function getOutcomeDescription(decision: SavedDecision): string {
   const opposingEvals = evaluations.filter(e => !e.supportsDecision);
   
   // Find strongest factors by impact
+  const importance = computeEffectiveImportance(criteria);
   const sortedByImpact = evaluations.map(e => {
     const criterion = criteria.find(c => c.id === e.criterionId);
-    const impact = e.strength * e.confidence * (criterion?.importance || 50) / 100;
+    const impact = e.strength * e.confidence * (importance.get(e.criterionId) ?? 50) / 100;
     return { eval: e, criterion, impact };
   }).sort((a, b) => b.impact - a.impact);
 
@@ -68,20 +125,50 @@ function getOutcomeDescription(decision: SavedDecision): string {
 export default function History() {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
-  const { loadDecisions, deleteDecision, loading } = useDecisionPersistence();
-  const [decisions, setDecisions] = useState<SavedDecision[]>([]);
+  const { deleteDecision } = useDecisionPersistence();
+  const { decisions, loading, loadingMore, hasMore, loadMore } = useDecisionHistory();
+  const { loadOutcomes } = useOutcomesPersistence();
+  const [resolutions, setResolutions] = useState<Record<string, DecisionResolution>>({});
+  const [rankings, setRankings] = useState<Record<string, OptionRanking>>({});
+  const { run } = useBayesianJob<'optionRankings'>();
 
   useEffect(() => {
     if (user) {
-      loadDecisions().then(setDecisions);
+      loadOutcomes().then((outcomes) => {
+        setResolutions(Object.fromEntries(outcomes.map(o => [o.decisionId, o])));
+      });
     }
-  }, [user, loadDecisions]);
+  }, [user, loadOutcomes]);
+
+  // Rank the options of every multi-option decision not ranked yet, in one job off the main thread
+  useEffect(() => {
+    const pending = decisions.filter(d =>
+      isMultiOptionDecision(d) && d.optionScores.length > 0 && !(rankingKey(d) in rankings)
+    );
+    if (pending.length === 0) return;
+
+    run({
+      kind: 'optionRankings',
+      decisions: pending.map(d => ({
+        id: rankingKey(d),
+        options: d.options,
+        optionScores: d.optionScores,
+        criteria: d.criteria,
+        correlationGroups: d.correlationGroups,
+        seed: d.seed ?? undefined,
+      })),
+    }).then((result) => {
+      if (result) setRankings(prev => ({ ...prev, ...result }));
+    });
+  }, [decisions, rankings, run]);
+
+  const handleResolved = (resolution: DecisionResolution) => {
+    setResolutions((prev) => ({ ...prev, [resolution.decisionId]: resolution }));
+  };
 
   const handleDelete = async (id: string) => {
-    const success = await deleteDecision(id);
-    if (success) {
-      setDecisions((prev) => prev.filter((d) => d.id !== id));
-    }
+    // The history refetches once the delete invalidates it
+    await deleteDecision(id);
   };
 
   const handleSignOut = async () => {
@@ -111,6 +198,10 @@ export default function History() {
           </div>
 
           <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/calibration')}>
+              <Target className="w-4 h-4 mr-2" />
+              Calibration
+            </Button>
             <Button variant="ghost" size="sm" onClick={() => navigate('/experiments')}>
               <FlaskConical className="w-4 h-4 mr-2" />
               Experiments
@@ -173,18 +264,25 @@ export default function History() {
                     key={d.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: i * 0.05 }}
+                    transition={{ delay: (i % DECISIONS_PAGE_SIZE) * 0.05 }}
                     className="glass-card rounded-xl p-6 hover:border-primary/30 transition-colors cursor-pointer"
-                    onClick={() => navigate('/', { state: { savedDecision: d } })}
+                    onClick={() => d.role === 'owner'
+                      ? navigate('/', { state: { savedDecision: d } })
+                      // Members can't edit the decision itself, only add their own evaluation
+                      : navigate(`/group/${d.id}`, { state: { savedDecision: d } })}
                 >
                   <div className="flex items-start justify-between gap-4">
                     <div className="flex-1 min-w-0">
                       <p className="text-lg font-medium truncate mb-1">"{d.decision}"</p>
                       <p className="text-sm text-muted-foreground mb-2">
+                        {d.role !== 'owner' && (
+                          <span className="font-mono text-xs text-primary mr-2">SHARED · {d.role.toUpperCase()}</span>
+                        )}
                         {format(new Date(d.createdAt), 'MMM d, yyyy · h:mm a')}
+                        {d.updatedAt !== d.createdAt && ` · updated ${format(new Date(d.updatedAt), 'MMM d, yyyy')}`}
                       </p>
                       <p className="text-sm text-foreground/80 italic">
-                        {getOutcomeDescription(d)}
+                        {getOutcomeDescription(d, rankings[rankingKey(d)])}
                       </p>
                     </div>
 
@@ -194,32 +292,36 @@ export default function History() {
                           <p className={`text-2xl font-mono font-bold ${getConfidenceColor(d.winPercentage)}`}>
                             {Math.round(d.winPercentage)}%
                           </p>
-                          <p className="text-xs text-muted-foreground">win rate</p>
+                          <p className="text-xs text-muted-foreground">
+                            {isMultiOptionDecision(d) ? 'top option' : 'win rate'}
+                          </p>
                         </div>
                       )}
 
                       <div className="flex items-center gap-2">
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive">
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete this decision?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This will permanently delete this decision and all its data. This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDelete(d.id)}>
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                        {d.role === 'owner' && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive">
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this decision?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This will permanently delete this decision and all its data. This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(d.id)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
 
                         <ChevronRight className="w-4 h-4 text-muted-foreground" />
                       </div>
@@ -227,7 +329,7 @@ export default function History() {
                   </div>
 
                   {/* Stats row */}
-                  <div className="mt-4 pt-4 border-t border-border/50 flex gap-6 text-sm">
+                  <div className="mt-4 pt-4 border-t border-border/50 flex items-center gap-6 text-sm">
                     <div>
                       <span className="text-muted-foreground">Initial:</span>{' '}
                       <span className="font-mono">{Math.round(d.initialConfidence)}%</span>
@@ -244,9 +346,51 @@ export default function History() {
                       <span className="text-muted-foreground">Criteria:</span>{' '}
                       <span className="font-mono">{d.criteria.length}</span>
                     </div>
+                    {isMultiOptionDecision(d) && (
+                      <div>
+                        <span className="text-muted-foreground">Options:</span>{' '}
+                        <span className="font-mono">{d.options.length}</span>
+                      </div>
+                    )}
+                    <div className="ml-auto flex items-center gap-2">
+                      <ExportReportMenu state={toReportState(d)} decisionId={d.id} size="sm" variant="ghost" />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          navigate(`/group/${d.id}`, { state: { savedDecision: d } });
+                        }}
+                      >
+                        <Users className="w-4 h-4 mr-2" />
+                        Group
+                      </Button>
+                      {d.role === 'owner' && (
+                        <ShareDecisionDialog decisionId={d.id} decisionText={d.decision} />
+                      )}
+                      <RevisionHistoryDialog decisionId={d.id} decisionText={d.decision} />
+                      {d.role === 'owner' && (
+                        <ResolveDecisionDialog
+                          decisionId={d.id}
+                          decisionText={d.decision}
+                          forecast={d.posteriorProbability ?? d.winPercentage}
+                          resolution={resolutions[d.id]}
+                          onResolved={handleResolved}
+                        />
+                      )}
+                    </div>
                   </div>
                 </motion.div>
               ))}
+
+              {hasMore && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" onClick={() => loadMore()} disabled={loadingMore}>
+                    {loadingMore ? 'Loading...' : 'Load older decisions'}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </motion.div>
@@ -1,56 +1,133 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
 import { DecisionEntry } from '@/components/DecisionEntry';
 import { CriteriaWizard } from '@/components/CriteriaWizard';
 import { CriteriaEvaluation } from '@/components/CriteriaEvaluation';
+import { EvidenceWizard } from '@/components/EvidenceWizard';
+import { PayoffWizard } from '@/components/PayoffWizard';
 import { ResultsDashboard } from '@/components/ResultsDashboard';
 import { ExperimentDesign } from '@/components/ExperimentDesign';
 import { MonteCarloVisualization } from '@/components/MonteCarloVisualization';
-import { DecisionState, Criterion, CriterionEvaluation as CriterionEval } from '@/types/decision';
-import { calculatePosterior, calculatePosteriorFromEvaluations } from '@/lib/bayesian';
-import { Plane, History, LogOut } from 'lucide-react';
+import { ImportDecisionDialog } from '@/components/ImportDecisionDialog';
+import { DecisionState, DecisionOption, OptionScore, Criterion, CriteriaCorrelationGroup, CriterionEvaluation as CriterionEval, EvidenceItem, OutcomePayoff, PairwiseJudgment, isMultiOptionDecision } from '@/types/decision';
+import { generateSeed, getDecisionWinPercentage, DecisionResults } from '@/lib/bayesian';
+import { Plane, History, LogOut, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { SavedDecision } from '@/hooks/useDecisionPersistence';
+import { SavedDecision, SavedDecisionGraph } from '@/hooks/useDecisionPersistence';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { ImportedDecision } from '@/lib/decisionImport';
+import { DecisionDraft, DraftStep, clearDraft, loadDraft, saveDraft } from '@/lib/offlineStore';
 
-const STEPS = ['decision', 'criteria', 'evaluation', 'simulating', 'results', 'experiments'] as const;
+const STEPS = ['decision', 'criteria', 'evaluation', 'evidence', 'payoffs', 'simulating', 'results', 'experiments'] as const;
 type Step = typeof STEPS[number];
 
+// Steps the wizard can be resumed at; from the simulation on, the decision is saved (or queued to sync)
+const DRAFT_STEPS: Step[] = ['decision', 'criteria', 'evaluation', 'evidence', 'payoffs'];
+
 const Index = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { user, signOut } = useAuth();
   const [step, setStep] = useState<Step>('decision');
   const [editingDecisionId, setEditingDecisionId] = useState<string | null>(null);
+  // The edited decision's updatedAt as last loaded or saved, so an offline save can spot edits made elsewhere
+  const [editingDecisionUpdatedAt, setEditingDecisionUpdatedAt] = useState<string | null>(null);
   const [decisionState, setDecisionState] = useState<DecisionState>({
     decision: '',
     category: '',
+    options: [],
     criteria: [],
+    correlationGroups: [],
+    pairwiseJudgments: [],
     criteriaEvaluations: [],
+    optionScores: [],
     initialConfidence: 50,
     evidence: [],
+    payoffs: [],
     posteriorProbability: 50,
     credibleInterval: [35, 65],
+    seed: generateSeed(),
   });
+  const [analysis, setAnalysis] = useState<DecisionResults | null>(null);
+  // The run the results screen saved, so going back to it doesn't store another revision
+  const [savedAnalysis, setSavedAnalysis] = useState<DecisionResults | null>(null);
+  const [resumableDraft, setResumableDraft] = useState<DecisionDraft | null>(null);
+  const draftChecked = useRef(false);
+  const simulation = useBayesianJob<'decisionResults'>();
+
+  // Offer to pick up where the user left off, unless they just opened a saved decision
+  useEffect(() => {
+    if (!user || draftChecked.current) return;
+    draftChecked.current = true;
+    if ((location.state as { savedDecision?: SavedDecision })?.savedDecision) return;
+
+    loadDraft(user.id)
+      .then(setResumableDraft)
+      .catch((error: unknown) => console.error('Error loading draft:', error));
+  }, [user, location.state]);
+
+  // Keep the decision in progress on this device so a closed tab or lost connection doesn't lose it
+  useEffect(() => {
+    if (!user) return;
+    if (DRAFT_STEPS.includes(step)) {
+      if (!decisionState.decision) return;
+      saveDraft({
+        userId: user.id,
+        state: decisionState,
+        step: step as DraftStep,
+        editingDecisionId,
+        editingDecisionUpdatedAt,
+        savedAt: new Date().toISOString(),
+      }).catch((error: unknown) => console.error('Error saving draft:', error));
+    } else if (step === 'results') {
+      clearDraft(user.id).catch((error: unknown) => console.error('Error clearing draft:', error));
+    }
+  }, [user, step, decisionState, editingDecisionId, editingDecisionUpdatedAt]);
+
+  const handleResumeDraft = () => {
+    if (!resumableDraft) return;
+    setEditingDecisionId(resumableDraft.editingDecisionId);
+    setEditingDecisionUpdatedAt(resumableDraft.editingDecisionUpdatedAt ?? null);
+    setDecisionState(resumableDraft.state);
+    setStep(resumableDraft.step);
+    setResumableDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    if (user) {
+      clearDraft(user.id).catch((error: unknown) => console.error('Error clearing draft:', error));
+    }
+    setResumableDraft(null);
+  };
 
   // Load saved decision from navigation state
   useEffect(() => {
     const savedDecision = (location.state as { savedDecision?: SavedDecision })?.savedDecision;
     if (savedDecision) {
       setEditingDecisionId(savedDecision.id);
+      setEditingDecisionUpdatedAt(savedDecision.updatedAt);
       setDecisionState({
         decision: savedDecision.decision,
         category: '',
+        options: savedDecision.options,
         criteria: savedDecision.criteria,
+        correlationGroups: savedDecision.correlationGroups,
+        pairwiseJudgments: savedDecision.pairwiseJudgments,
         criteriaEvaluations: savedDecision.evaluations,
+        optionScores: savedDecision.optionScores,
         initialConfidence: savedDecision.initialConfidence,
-        evidence: [],
+        evidence: savedDecision.evidence,
+        payoffs: savedDecision.payoffs,
         posteriorProbability: savedDecision.posteriorProbability ?? 50,
         credibleInterval: [
           savedDecision.credibleIntervalLow ?? 35,
           savedDecision.credibleIntervalHigh ?? 65,
         ],
+        // Decisions saved before seeds were recorded get a fresh one
+        seed: savedDecision.seed ?? generateSeed(),
       });
       // Start at criteria step so user can update priors
       setStep('criteria');
@@ -61,76 +138,166 @@ const Index = () => {
 
   const currentStepIndex = STEPS.indexOf(step);
 
-  const goToNextStep = () => {
-    const nextIndex = currentStepIndex + 1;
+  // Evidence weighs on the decision vs. the status quo, so it doesn't apply when comparing options
+  const isStepSkipped = (s: Step, state: DecisionState) => s === 'evidence' && isMultiOptionDecision(state);
+
+  // Handlers pass the state they just set, since decisionState here is from the previous render
+  const goToNextStep = (state: DecisionState = decisionState) => {
+    let nextIndex = currentStepIndex + 1;
+    while (nextIndex < STEPS.length && isStepSkipped(STEPS[nextIndex], state)) nextIndex++;
     if (nextIndex < STEPS.length) {
       if (STEPS[nextIndex] === 'simulating') {
-        // Calculate posterior with evaluations before showing simulation
-        const { posterior, credibleInterval, samples, convergenceDiagnostic } = calculatePosterior(
-          decisionState.initialConfidence,
-          decisionState.evidence
-        );
-        setDecisionState(prev => ({
-          ...prev,
-          posteriorProbability: posterior,
-          credibleInterval,
-          samples,
-          convergenceDiagnostic,
-        }));
+        // Run the full analysis in a worker while the simulation screen plays
+        setAnalysis(null);
+        simulation.run({
+          kind: 'decisionResults',
+          state,
+          config: { seed: state.seed },
+        }).then((result) => {
+          if (result) {
+            const { posterior, credibleInterval, samples, convergenceDiagnostic } = result.results;
+            setDecisionState(prev => ({
+              ...prev,
+              posteriorProbability: posterior,
+              credibleInterval,
+              samples,
+              convergenceDiagnostic,
+            }));
+            setAnalysis(result);
+          } else {
+            setStep('payoffs');
+          }
+        });
       }
       setStep(STEPS[nextIndex]);
     }
   };
 
-  const handleSimulationComplete = () => {
+  // Stable so progress updates don't restart the visualization
+  const handleSimulationComplete = useCallback(() => {
     setStep('results');
+  }, []);
+
+  const handleSimulationCancel = () => {
+    simulation.cancel();
+    setStep('payoffs');
   };
 
   const goToPrevStep = () => {
-    const prevIndex = currentStepIndex - 1;
+    let prevIndex = currentStepIndex - 1;
+    while (prevIndex >= 0 && isStepSkipped(STEPS[prevIndex], decisionState)) prevIndex--;
     if (prevIndex >= 0) {
       setStep(STEPS[prevIndex]);
     }
   };
 
-  const handleDecisionSubmit = (decision: string, confidence: number) => {
-    setDecisionState(prev => ({ ...prev, decision, initialConfidence: confidence }));
-    goToNextStep();
+  const handleDecisionSubmit = (decision: string, confidence: number, options: DecisionOption[]) => {
+    const nextState = { ...decisionState, decision, initialConfidence: confidence, options };
+    setDecisionState(nextState);
+    goToNextStep(nextState);
   };
 
-  const handleCriteriaSubmit = (criteria: Criterion[]) => {
-    setDecisionState(prev => ({ ...prev, criteria }));
-    goToNextStep();
+  const handleCriteriaSubmit = (
+    criteria: Criterion[],
+    correlationGroups: CriteriaCorrelationGroup[],
+    pairwiseJudgments: PairwiseJudgment[]
+  ) => {
+    const nextState = { ...decisionState, criteria, correlationGroups, pairwiseJudgments };
+    setDecisionState(nextState);
+    goToNextStep(nextState);
   };
 
-  const handleEvaluationsSubmit = (evaluations: CriterionEval[]) => {
-    setDecisionState(prev => ({ ...prev, criteriaEvaluations: evaluations }));
-    goToNextStep();
+  const handleEvaluationsSubmit = (evaluations: CriterionEval[], optionScores: OptionScore[]) => {
+    const nextState = { ...decisionState, criteriaEvaluations: evaluations, optionScores };
+    setDecisionState(nextState);
+    goToNextStep(nextState);
+  };
+
+  const handleEvidenceSubmit = (evidence: EvidenceItem[]) => {
+    const nextState = { ...decisionState, evidence };
+    setDecisionState(nextState);
+    goToNextStep(nextState);
+  };
+
+  const handlePayoffsSubmit = (payoffs: OutcomePayoff[]) => {
+    const nextState = { ...decisionState, payoffs };
+    setDecisionState(nextState);
+    goToNextStep(nextState);
   };
 
   const handleStartExperiments = () => {
     setStep('experiments');
   };
 
+  // Later saves and experiments must refer to the IDs the database kept
+  const handleSaved = useCallback((saved: SavedDecisionGraph) => {
+    setEditingDecisionId(saved.id);
+    setEditingDecisionUpdatedAt(saved.updatedAt);
+    setDecisionState(prev => ({
+      ...prev,
+      criteria: saved.criteria,
+      correlationGroups: saved.correlationGroups,
+      pairwiseJudgments: saved.pairwiseJudgments,
+      criteriaEvaluations: saved.evaluations,
+      options: saved.options,
+      optionScores: saved.optionScores,
+      evidence: saved.evidence,
+      payoffs: saved.payoffs,
+    }));
+  }, []);
+
+  const handleSaveStart = useCallback(() => {
+    setSavedAnalysis(analysis);
+  }, [analysis]);
+
   const handleExperimentsComplete = () => {
     setStep('results');
   };
 
   const handleReset = () => {
+    simulation.cancel();
+    setAnalysis(null);
     setEditingDecisionId(null);
+    setEditingDecisionUpdatedAt(null);
+    handleDiscardDraft();
     setDecisionState({
       decision: '',
       category: '',
+      options: [],
       criteria: [],
+      correlationGroups: [],
+      pairwiseJudgments: [],
       criteriaEvaluations: [],
+      optionScores: [],
       initialConfidence: 50,
       evidence: [],
+      payoffs: [],
       posteriorProbability: 50,
       credibleInterval: [35, 65],
+      seed: generateSeed(),
     });
     setStep('decision');
   };
 
+  // Imports start a new decision at the criteria step, ready to review and simulate
+  const handleImport = (imported: ImportedDecision) => {
+    simulation.cancel();
+    setAnalysis(null);
+    setEditingDecisionId(null);
+    setEditingDecisionUpdatedAt(null);
+    setDecisionState({
+      category: '',
+      correlationGroups: [],
+      pairwiseJudgments: [],
+      payoffs: [],
+      posteriorProbability: 50,
+      credibleInterval: [35, 65],
+      ...imported,
+      seed: imported.seed ?? generateSeed(),
+    });
+    setStep('criteria');
+  };
+
   return (
     <main className="min-h-screen bg-background relative overflow-hidden">
       {/* Background effects */}
@@ -171,6 +338,7 @@ const Index = () => {
             </div>
             
             <div className="flex items-center gap-2">
+              <ImportDecisionDialog onImport={handleImport} />
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -190,6 +358,30 @@ const Index = () => {
 
       {/* Main content */}
       <div className="relative z-10 container mx-auto px-6 py-8">
+        {step === 'decision' && resumableDraft && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-2xl mx-auto mb-8 glass-card rounded-2xl p-4 flex flex-wrap items-center justify-between gap-4"
+          >
+            <div className="min-w-0">
+              <p className="font-medium">You have an unfinished decision</p>
+              <p className="text-sm text-muted-foreground truncate">
+                "{resumableDraft.state.decision}" · last edited {format(new Date(resumableDraft.savedAt), 'MMM d, h:mm a')}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={handleDiscardDraft}>
+                Discard
+              </Button>
+              <Button size="sm" onClick={handleResumeDraft}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Resume
+              </Button>
+            </div>
+          </motion.div>
+        )}
+
         <AnimatePresence mode="wait">
           {step === 'decision' && (
             <motion.div
@@ -203,6 +395,7 @@ const Index = () => {
                 onSubmit={handleDecisionSubmit} 
                 initialValue={decisionState.decision}
                 initialConfidence={decisionState.initialConfidence}
+                initialOptions={decisionState.options}
                 hasCriteria={decisionState.criteria.length > 0}
                 onReset={handleReset}
               />
@@ -220,6 +413,8 @@ const Index = () => {
               <CriteriaWizard
                 decision={decisionState.decision}
                 initialCriteria={decisionState.criteria}
+                initialCorrelationGroups={decisionState.correlationGroups}
+                initialPairwiseJudgments={decisionState.pairwiseJudgments}
                 onSubmit={handleCriteriaSubmit}
                 onBack={goToPrevStep}
               />
@@ -237,24 +432,64 @@ const Index = () => {
               <CriteriaEvaluation
                 decision={decisionState.decision}
                 criteria={decisionState.criteria}
+                options={decisionState.options}
                 initialEvaluations={decisionState.criteriaEvaluations}
+                initialOptionScores={decisionState.optionScores}
                 onSubmit={handleEvaluationsSubmit}
                 onBack={goToPrevStep}
               />
             </motion.div>
           )}
+
+          {step === 'evidence' && (
+            <motion.div
+              key="evidence"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <EvidenceWizard
+                decision={decisionState.decision}
+                category={decisionState.category}
+                initialEvidence={decisionState.evidence}
+                onSubmit={handleEvidenceSubmit}
+                onBack={goToPrevStep}
+              />
+            </motion.div>
+          )}
+
+          {step === 'payoffs' && (
+            <motion.div
+              key="payoffs"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <PayoffWizard
+                decision={decisionState.decision}
+                options={isMultiOptionDecision(decisionState) ? decisionState.options : []}
+                initialPayoffs={decisionState.payoffs}
+                onSubmit={handlePayoffsSubmit}
+                onBack={goToPrevStep}
+              />
+            </motion.div>
+          )}
         </AnimatePresence>
 
         {/* Monte Carlo Visualization - rendered outside AnimatePresence for full-screen effect */}
         <MonteCarloVisualization 
           isRunning={step === 'simulating'}
+          progress={analysis ? 1 : simulation.progress}
           onComplete={handleSimulationComplete}
-          duration={3500}
+          onCancel={handleSimulationCancel}
+          duration={1500}
           pathCount={300}
         />
 
         <AnimatePresence mode="wait">
-          {step === 'results' && (
+          {step === 'results' && analysis && (
             <motion.div
               key="results"
               initial={{ opacity: 0, x: 20 }}
@@ -264,14 +499,20 @@ const Index = () => {
             >
               <ResultsDashboard
                 state={decisionState}
+                analysis={analysis}
                 onBack={goToPrevStep}
                 onReset={handleReset}
                 onDesignExperiments={handleStartExperiments}
+                decisionId={editingDecisionId}
+                decisionUpdatedAt={editingDecisionUpdatedAt}
+                onSaved={handleSaved}
+                alreadySaved={savedAnalysis === analysis}
+                onSaveStart={handleSaveStart}
               />
             </motion.div>
           )}
 
-          {step === 'experiments' && (
+          {step === 'experiments' && analysis && (
             <motion.div
               key="experiments"
               initial={{ opacity: 0, x: 20 }}
@@ -281,11 +522,7 @@ const Index = () => {
             >
               <ExperimentDesign
                 state={decisionState}
-                winPercentage={calculatePosteriorFromEvaluations(
-                  decisionState.initialConfidence,
-                  decisionState.criteriaEvaluations,
-                  decisionState.criteria
-                ).winPercentage}
+                winPercentage={getDecisionWinPercentage(analysis)}
                 onBack={() => setStep('results')}
                 onComplete={handleReset}
               />
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Plane, Eye, LinkIcon } from 'lucide-react';
+import { ResultsDashboard } from '@/components/ResultsDashboard';
+import { DecisionResults, generateSeed } from '@/lib/bayesian';
+import { useBayesianJob } from '@/hooks/useBayesianJob';
+import { useSharesPersistence, SharedDecision as SharedDecisionData } from '@/hooks/useSharesPersistence';
+import { DecisionState } from '@/types/decision';
+
+/** Rebuild the state the owner last simulated, so the seed reproduces their results exactly */
+function toDecisionState(shared: SharedDecisionData): DecisionState {
+  const { snapshot } = shared;
+  return {
+    decision: shared.decision,
+    category: '',
+    options: snapshot.options,
+    criteria: snapshot.criteria,
+    correlationGroups: snapshot.correlationGroups,
+    pairwiseJudgments: snapshot.pairwiseJudgments,
+    criteriaEvaluations: snapshot.evaluations,
+    optionScores: snapshot.optionScores,
+    initialConfidence: shared.initialConfidence,
+    evidence: snapshot.evidence,
+    payoffs: snapshot.payoffs,
+    posteriorProbability: shared.initialConfidence,
+    credibleInterval: [shared.initialConfidence, shared.initialConfidence],
+    seed: shared.seed ?? generateSeed(),
+  };
+}
+
+const SharedDecision = () => {
+  const { token } = useParams<{ token: string }>();
+  const { loadSharedDecision } = useSharesPersistence();
+  const { run, cancel } = useBayesianJob<'decisionResults'>();
+  const [shared, setShared] = useState<SharedDecisionData | null>(null);
+  const [state, setState] = useState<DecisionState | null>(null);
+  const [analysis, setAnalysis] = useState<DecisionResults | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    loadSharedDecision(token).then(async (loaded) => {
+      if (cancelled) return;
+      if (!loaded) {
+        setUnavailable(true);
+        return;
+      }
+
+      const nextState = toDecisionState(loaded);
+      setShared(loaded);
+      setState(nextState);
+      const result = await run({
+        kind: 'decisionResults',
+        state: nextState,
+        config: { seed: nextState.seed },
+      });
+      if (!cancelled && result) setAnalysis(result);
+    });
+
+    return () => {
+      cancelled = true;
+      cancel();
+    };
+  }, [token, loadSharedDecision, run, cancel]);
+
+  return (
+    <main className="min-h-screen bg-background relative overflow-hidden">
+      {/* Background effects */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-accent/5 rounded-full blur-3xl" />
+      </div>
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-border/50 backdrop-blur-xl bg-background/50">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <a href="/" className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-primary/10 border border-primary/20">
+              <Plane className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="font-mono font-bold text-lg gradient-text">Flight Simulator</h1>
+              <p className="text-xs text-muted-foreground font-mono">for Life</p>
+            </div>
+          </a>
+
+          {shared && (
+            <div className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+              <Eye className="w-4 h-4" />
+              READ-ONLY · {format(new Date(shared.revisionCreatedAt), 'MMM d, yyyy')}
+            </div>
+          )}
+        </div>
+      </header>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        {unavailable ? (
+          <div className="max-w-md mx-auto glass-card rounded-2xl p-8 text-center">
+            <LinkIcon className="w-10 h-10 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-bold mb-2">This link isn't available</h2>
+            <p className="text-muted-foreground">
+              It may have expired or been revoked by the person who shared it.
+            </p>
+          </div>
+        ) : state && analysis ? (
+          <ResultsDashboard state={state} analysis={analysis} readOnly />
+        ) : (
+          <div className="text-center py-12 text-muted-foreground animate-pulse">
+            {state ? 'Re-running the simulation...' : 'Loading shared decision...'}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default SharedDecision;
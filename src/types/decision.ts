@@ -1,9 +1,10 @@
 export interface Criterion {
   id: string;
   name: string;
-  importance: number; // 1-100, used as prior weight
+  importance: number; // 1-100, used as prior weight; sub-criteria are weighed relative to their siblings
   description?: string;
   isAISuggested?: boolean;
+  parentId?: string; // Set for sub-criteria; only criteria without sub-criteria are assessed
 }
 
 export interface CriterionEvaluation {
@@ -13,15 +14,73 @@ export interface CriterionEvaluation {
   confidence: number; // 1-100, not very sure to very sure
 }
 
+/** Criteria that overlap (e.g. "Salary" and "Financial security"), so their evidence shouldn't count in full */
+export interface CriteriaCorrelationGroup {
+  id: string;
+  criterionIds: string[]; // At least two
+  correlationFactor: number; // 0-1, how much they overlap (1 = they measure the same thing)
+  reason?: string;
+  isAISuggested?: boolean;
+}
+
+/**
+ * One answer to "how much more important is A than B?" on Saaty's 1-9 scale:
+ * 3 = A is moderately more important, 1/3 = B is. Only pairs of sibling
+ * criteria are compared, and each pair is stored once.
+ */
+export interface PairwiseJudgment {
+  criterionId: string;
+  comparedToId: string;
+  value: number; // 1/9-9
+}
+
+export interface DecisionOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface OptionScore {
+  criterionId: string;
+  optionId: string;
+  score: number; // 1-100, how well this option performs on the criterion
+  confidence: number; // 1-100, not very sure to very sure
+}
+
+export type PayoffShape = 'triangular' | 'pert';
+
+export type PayoffOutcome = 'success' | 'failure';
+
+/**
+ * How good (or bad) an outcome would be, relative to where you stand today.
+ * Units are whatever the user thinks in (money, a 0-10 score...), as long as
+ * every payoff for the decision uses the same ones.
+ */
+export interface OutcomePayoff {
+  id: string;
+  optionId?: string; // Option it applies to (multi-option decisions only)
+  outcome: PayoffOutcome;
+  shape: PayoffShape;
+  min: number;
+  likely: number;
+  max: number;
+}
+
 export interface DecisionState {
   decision: string;
   category: string;
+  options: DecisionOption[]; // empty = classic "decision vs. status quo"
   criteria: Criterion[];
+  correlationGroups: CriteriaCorrelationGroup[];
+  pairwiseJudgments: PairwiseJudgment[]; // empty = importance set directly with sliders
   criteriaEvaluations: CriterionEvaluation[];
+  optionScores: OptionScore[];
   initialConfidence: number;
   evidence: EvidenceItem[];
+  payoffs: OutcomePayoff[]; // empty = judge by probability of success alone
   posteriorProbability: number;
   credibleInterval: [number, number];
+  seed: number; // Seeds the Monte Carlo engine so the same inputs always give the same results
   samples?: number[];
   convergenceDiagnostic?: {
     gewekeZScore: number;
@@ -31,6 +90,69 @@ export interface DecisionState {
   };
 }
 
+export type ExperimentResultDirection = 'supports' | 'opposes' | 'inconclusive';
+
+export interface ExperimentResult {
+  criterionId: string; // Criterion the experiment informed
+  optionId?: string; // Option it was about (multi-option decisions only)
+  direction: ExperimentResultDirection; // supports = favors the decision (or the option)
+  conclusiveness: number; // 1-100, barely suggestive to settles the question
+  notes?: string;
+}
+
+export type DecisionOutcome = 'success' | 'partial' | 'failure';
+
+export interface DecisionResolution {
+  id: string;
+  decisionId: string;
+  outcome: DecisionOutcome;
+  resolvedAt: string; // ISO date (yyyy-MM-dd)
+  notes: string | null;
+  forecast: number | null; // 0-100, the probability of success the decision showed when this was recorded
+}
+
+/** A read-only public link to a decision's latest revision */
+export interface DecisionShare {
+  id: string;
+  decisionId: string;
+  token: string;
+  expiresAt: string | null; // ISO timestamp; null = never expires
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** Owners edit the decision and manage members, evaluators add their own assessment, viewers only read */
+export type MemberRole = 'owner' | 'evaluator' | 'viewer';
+
+/** How members' assessments of a criterion are combined into the one the engine weighs */
+export type AggregationMethod = 'linear_pool' | 'logarithmic_pool' | 'pseudo_observations';
+
+export interface DecisionMember {
+  userId: string;
+  email: string;
+  role: MemberRole;
+  isCreator: boolean; // Always an owner; the role can't be changed or removed
+  createdAt: string;
+}
+
+/** One member's assessment of the decision's criteria */
+export interface MemberEvaluationSet {
+  userId: string;
+  name: string;
+  evaluations: CriterionEvaluation[];
+}
+
+/** When a Delphi process stops: after this many rounds, or once opinion has narrowed enough */
+export interface DelphiSettings {
+  maxRounds: number;
+  iqrThreshold: number; // Interquartile range of leanings, in percentage points
+}
+
+/** One anonymous Delphi rating of a criterion */
+export interface DelphiResponse extends CriterionEvaluation {
+  rationale: string;
+}
+
 export interface EvidenceItem {
   id: string;
   type: 'past_outcome' | 'emotional' | 'data' | 'constraint';
@@ -40,6 +162,13 @@ export interface EvidenceItem {
   description: string;
 }
 
+/** Minimum number of named options for a decision to be compared as alternatives */
+export const MIN_DECISION_OPTIONS = 2;
+
+export function isMultiOptionDecision(state: Pick<DecisionState, 'options'>): boolean {
+  return state.options.length >= MIN_DECISION_OPTIONS;
+}
+
 export const CATEGORIES = [
   { id: 'career', label: 'Career', icon: 'Briefcase' },
   { id: 'finance', label: 'Finance', icon: 'DollarSign' },
@@ -0,0 +1,53 @@
+import {
+  calculateDecisionResults,
+  calculateOptionPosteriors,
+  computeExperimentResultImpact,
+  computeValueOfInformation,
+  toCorrelationGroups,
+} from '@/lib/bayesian';
+import type { BayesianJob, BayesianWorkerMessage } from '@/lib/bayesianWorker';
+
+const post = (message: BayesianWorkerMessage) => self.postMessage(message);
+
+// Progress steps can be a few milliseconds apart; only forward whole-percent changes
+let lastReported = -1;
+const onProgress = (fraction: number) => {
+  const progress = Math.round(fraction * 100) / 100;
+  if (progress !== lastReported) {
+    lastReported = progress;
+    post({ type: 'progress', progress });
+  }
+};
+
+self.onmessage = (event: MessageEvent<BayesianJob>) => {
+  const job = event.data;
+  lastReported = -1;
+
+  try {
+    switch (job.kind) {
+      case 'decisionResults':
+        post({ type: 'result', result: calculateDecisionResults(job.state, { ...job.config, onProgress }) });
+        break;
+      case 'valueOfInformation':
+        post({ type: 'result', result: computeValueOfInformation(job.state, { ...job.config, onProgress }) });
+        break;
+      case 'experimentResult':
+        post({ type: 'result', result: computeExperimentResultImpact(job.state, job.result, job.config) });
+        break;
+      case 'optionRankings':
+        post({
+          type: 'result',
+          result: Object.fromEntries(job.decisions.map((decision, i) => {
+            onProgress(i / job.decisions.length);
+            const { options } = calculateOptionPosteriors(
+              decision.options, decision.optionScores, decision.criteria, { seed: decision.seed }, toCorrelationGroups(decision.correlationGroups)
+            );
+            return [decision.id, options.map(({ optionId, optionName, winPercentage }) => ({ optionId, optionName, winPercentage }))];
+          })),
+        });
+        break;
+    }
+  } catch (error: unknown) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Simulation failed' });
+  }
+};
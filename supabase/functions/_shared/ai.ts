@@ -0,0 +1,425 @@
+import { getFixture } from "./aiFixtures.ts";
+import { describeIssues, type StructuredTask, type ToolDefinition } from "./aiSchemas.ts";
+import { readEventStream } from "./eventStream.ts";
+
+/**
+ * One way for every edge function to talk to a language model.
+ *
+ * The provider is picked by AI_PROVIDER:
+ * - "lovable" (default): the Lovable AI gateway, using LOVABLE_API_KEY
+ * - "openai": any OpenAI-compatible API, using OPENAI_API_KEY and optionally OPENAI_BASE_URL
+ * - "anthropic": the Anthropic Messages API, using ANTHROPIC_API_KEY
+ * - "ollama": a local Ollama server at OLLAMA_BASE_URL (default http://localhost:11434)
+ * - "mock": canned fixtures, for working on the app without network access or credits
+ *
+ * AI_MODEL overrides the provider's default model.
+ *
+ * complete() waits for the whole answer; completeStream() yields text as it is generated.
+ */
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export type { ToolDefinition };
+
+export interface CompletionRequest {
+  task: string; // The calling function's name; picks the mock provider's fixture
+  messages: ChatMessage[];
+  tool?: ToolDefinition;
+  signal?: AbortSignal; // Aborting stops the provider request, e.g. when the app disconnects
+}
+
+export interface CompletionResult {
+  content: string;
+  toolArguments: Record<string, unknown> | null; // Set when a tool was requested and called
+}
+
+export interface AIProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Resolves once the provider has accepted the request, so failures up to then can be retried */
+  stream(request: CompletionRequest): Promise<AsyncIterable<string>>;
+}
+
+/** A provider failure, already mapped to the status and message the app shows */
+export class AIError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryable: boolean,
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "AIError";
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+const MOCK_STREAM_DELAY_MS = 30;
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Turns a provider's HTTP error into the error the app shows */
+async function toAIError(provider: string, response: Response): Promise<AIError> {
+  const body = await response.text();
+  console.error(`${provider} error:`, response.status, body);
+
+  switch (response.status) {
+    case 429:
+      return new AIError("Rate limit exceeded. Please try again in a moment.", 429, true, parseRetryAfter(response));
+    case 402:
+      return new AIError("AI credits exhausted. Please add credits to continue.", 402, false);
+    case 401:
+    case 403:
+      return new AIError("The AI provider rejected its credentials. Check the function's configuration.", 500, false);
+    case 529: // Anthropic: overloaded
+    case 503:
+      return new AIError("The AI provider is overloaded. Please try again in a moment.", 503, true, parseRetryAfter(response));
+    default:
+      return new AIError(`AI provider error: ${response.status}`, 502, response.status >= 500);
+  }
+}
+
+async function send(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`${provider} unreachable:`, error);
+    throw new AIError("Couldn't reach the AI provider. Please try again.", 502, true);
+  }
+
+  if (!response.ok) throw await toAIError(provider, response);
+  return response;
+}
+
+async function post(...args: Parameters<typeof send>) {
+  return await (await send(...args)).json();
+}
+
+/** The data of each event in a provider's stream, parsed as JSON */
+async function* readJsonEvents(response: Response): AsyncGenerator<Record<string, unknown>> {
+  if (!response.body) return;
+  for await (const { data } of readEventStream(response.body)) {
+    if (data === "[DONE]") return; // OpenAI's end-of-stream marker
+    yield JSON.parse(data);
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    console.error(`${name} is not configured`);
+    throw new AIError(`${name} is not configured`, 500, false);
+  }
+  return value;
+}
+
+// Some models emit truncated or otherwise broken JSON; that is left for validation to catch
+function parseToolArguments(json: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+export function openAICompatibleProvider(options: {
+  name: string;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+}): AIProvider {
+  const headers: Record<string, string> = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {};
+
+  return {
+    name: options.name,
+    async complete({ messages, tool, signal }) {
+      const data = await post(
+        options.name,
+        `${options.baseUrl}/chat/completions`,
+        headers,
+        {
+          model: options.model,
+          messages,
+          ...(tool && {
+            tools: [{ type: "function", function: tool }],
+            tool_choice: { type: "function", function: { name: tool.name } },
+          }),
+        },
+        signal,
+      );
+
+      const message = data.choices?.[0]?.message;
+      const toolCall = message?.tool_calls?.[0];
+      return {
+        content: message?.content ?? toolCall?.function.arguments ?? "",
+        toolArguments: toolCall ? parseToolArguments(toolCall.function.arguments) : null,
+      };
+    },
+    async stream({ messages, signal }) {
+      const response = await send(
+        options.name,
+        `${options.baseUrl}/chat/completions`,
+        headers,
+        { model: options.model, messages, stream: true },
+        signal,
+      );
+
+      return (async function* () {
+        for await (const chunk of readJsonEvents(response)) {
+          const choices = chunk.choices as { delta?: { content?: string } }[] | undefined;
+          const text = choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      })();
+    },
+  };
+}
+
+export function anthropicProvider(options: { apiKey: string; model: string }): AIProvider {
+  const headers = { "x-api-key": options.apiKey, "anthropic-version": "2023-06-01" };
+
+  // The Messages API takes the system prompt separately
+  const toMessagesBody = (messages: ChatMessage[]) => {
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    return {
+      model: options.model,
+      max_tokens: 2048,
+      ...(system && { system }),
+      messages: messages.filter((m) => m.role !== "system"),
+    };
+  };
+
+  return {
+    name: "Anthropic",
+    async complete({ messages, tool, signal }) {
+      const data = await post(
+        "Anthropic",
+        "https://api.anthropic.com/v1/messages",
+        headers,
+        {
+          ...toMessagesBody(messages),
+          ...(tool && {
+            tools: [{ name: tool.name, description: tool.description, input_schema: tool.parameters }],
+            tool_choice: { type: "tool", name: tool.name },
+          }),
+        },
+        signal,
+      );
+
+      const blocks: { type: string; text?: string; input?: Record<string, unknown> }[] = data.content ?? [];
+      return {
+        content: blocks.filter((b) => b.type === "text").map((b) => b.text).join(""),
+        toolArguments: blocks.find((b) => b.type === "tool_use")?.input ?? null,
+      };
+    },
+    async stream({ messages, signal }) {
+      const response = await send(
+        "Anthropic",
+        "https://api.anthropic.com/v1/messages",
+        headers,
+        { ...toMessagesBody(messages), stream: true },
+        signal,
+      );
+
+      return (async function* () {
+        for await (const event of readJsonEvents(response)) {
+          if (event.type === "error") {
+            // Reported in-stream, e.g. when the API becomes overloaded partway through
+            console.error("Anthropic stream error:", event.error);
+            throw new AIError("The AI provider stopped partway through. Please try again.", 502, false);
+          }
+          const delta = event.delta as { type?: string; text?: string } | undefined;
+          if (event.type === "content_block_delta" && delta?.type === "text_delta" && delta.text) {
+            yield delta.text;
+          }
+        }
+      })();
+    },
+  };
+}
+
+/** Answers from fixtures without touching the network, so the whole app runs offline */
+export function mockProvider(): AIProvider {
+  return {
+    name: "Mock",
+    complete(request) {
+      const fixture = getFixture(request);
+      return Promise.resolve(
+        request.tool
+          ? { content: "", toolArguments: fixture as Record<string, unknown> }
+          : { content: typeof fixture === "string" ? fixture : JSON.stringify(fixture), toolArguments: null },
+      );
+    },
+    stream(request) {
+      const fixture = getFixture(request);
+      const text = typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+      // Word by word with a short pause, so the app's progressive rendering can be seen working
+      return Promise.resolve((async function* () {
+        for (const word of text.match(/\S+\s*/g) ?? []) {
+          if (request.signal?.aborted) return;
+          await sleep(MOCK_STREAM_DELAY_MS);
+          yield word;
+        }
+      })());
+    },
+  };
+}
+
+export function getProvider(): AIProvider {
+  const model = Deno.env.get("AI_MODEL");
+
+  switch (Deno.env.get("AI_PROVIDER") ?? "lovable") {
+    case "lovable":
+      return openAICompatibleProvider({
+        name: "Lovable AI gateway",
+        baseUrl: "https://ai.gateway.lovable.dev/v1",
+        apiKey: requireEnv("LOVABLE_API_KEY"),
+        model: model ?? "google/gemini-2.5-flash",
+      });
+    case "openai":
+      return openAICompatibleProvider({
+        name: "OpenAI",
+        baseUrl: Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+        apiKey: requireEnv("OPENAI_API_KEY"),
+        model: model ?? "gpt-4o-mini",
+      });
+    case "anthropic":
+      return anthropicProvider({
+        apiKey: requireEnv("ANTHROPIC_API_KEY"),
+        model: model ?? "claude-3-5-haiku-latest",
+      });
+    case "ollama":
+      // Ollama serves an OpenAI-compatible API and needs no key
+      return openAICompatibleProvider({
+        name: "Ollama",
+        baseUrl: `${Deno.env.get("OLLAMA_BASE_URL") ?? "http://localhost:11434"}/v1`,
+        apiKey: null,
+        model: model ?? "llama3.1",
+      });
+    case "mock":
+      return mockProvider();
+    default:
+      throw new AIError(`Unknown AI_PROVIDER "${Deno.env.get("AI_PROVIDER")}"`, 500, false);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Calls the provider, retrying rate limits and transient failures with backoff */
+async function withRetries<T>(request: CompletionRequest, call: (provider: AIProvider) => Promise<T>): Promise<T> {
+  const provider = getProvider();
+  console.log(`Calling ${provider.name} for ${request.task}...`);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(provider);
+    } catch (error) {
+      if (!(error instanceof AIError) || !error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+      // Exponential backoff with jitter, unless the provider said how long to wait
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+      const delay = Math.min(MAX_DELAY_MS, error.retryAfterMs ?? backoff);
+      console.warn(`${provider.name} attempt ${attempt} failed (${error.message}); retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Sends the request to the configured provider and waits for the whole answer */
+export function complete(request: CompletionRequest): Promise<CompletionResult> {
+  return withRetries(request, (provider) => provider.complete(request));
+}
+
+/**
+ * Sends the request to the configured provider and yields the answer's text as it arrives.
+ * Only opening the stream is retried; a failure partway through is thrown from the iterator.
+ */
+export function completeStream(request: Omit<CompletionRequest, "tool">): Promise<AsyncIterable<string>> {
+  return withRetries(request, (provider) => provider.stream(request));
+}
+
+/**
+ * Makes the model answer through the task's tool and validates the arguments against its schema.
+ * An answer that doesn't validate is sent back once with what was wrong, for the model to correct.
+ */
+export async function completeStructured<T>(
+  request: Omit<CompletionRequest, "tool">,
+  { tool, schema }: StructuredTask<T>,
+): Promise<T> {
+  let messages = request.messages;
+
+  for (let round = 1; ; round++) {
+    const result = await complete({ ...request, messages, tool });
+    // Providers that ignore tool_choice may still answer with JSON in the text
+    const answer = result.toolArguments ?? extractJson(result.content);
+    const parsed = schema.safeParse(answer);
+    if (parsed.success) return parsed.data;
+
+    const issues = answer === null ? "the reply was not a JSON object" : describeIssues(parsed.error);
+    if (round >= 2) {
+      console.error(`${request.task} response still invalid after repair:`, issues);
+      throw new AIError("The AI returned a response in an unexpected format. Please try again.", 502, false);
+    }
+
+    console.warn(`${request.task} response invalid, asking for a repair:`, issues);
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: answer === null ? result.content : JSON.stringify(answer) },
+      {
+        role: "user",
+        content: `That answer doesn't match the required format: ${issues}. Call ${tool.name} again with the problems fixed.`,
+      },
+    ];
+  }
+}
+
+/** The JSON error response for a failure, keeping the provider's status for rate limits and credits */
+export function errorResponse(
+  error: unknown,
+  corsHeaders: Record<string, string>,
+  extra: Record<string, unknown> = {},
+): Response {
+  const status = error instanceof AIError ? error.status : 500;
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return new Response(JSON.stringify({ error: message, ...extra }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** The first JSON object in a model's free-text reply, or null when there isn't one */
+export function extractJson(content: string): Record<string, unknown> | null {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch (parseError) {
+    console.error("Failed to parse AI response as JSON:", parseError);
+    return null;
+  }
+}
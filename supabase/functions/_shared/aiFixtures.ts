@@ -0,0 +1,65 @@
+import type { CompletionRequest } from "./ai.ts";
+
+/**
+ * What the mock provider answers, per edge function. Replies are fixed so the app behaves
+ * the same on every run; they only need to be shaped like what a real model returns.
+ */
+const FIXTURES: Record<string, unknown> = {
+  "analyze-decision": `1. **Key Insight**: The evidence moved your confidence, but most of the shift rests on a few strongly weighted factors.
+2. **Confidence Assessment**: The credible interval is still wide, so treat the posterior as a direction rather than a verdict.
+3. **Blind Spots**: How easily this could be reversed, and what it costs you in time over the next year, aren't reflected yet.
+4. **Recommendation**: Run one cheap experiment on the factor you're least sure about before committing.`,
+
+  "suggest-criteria": {
+    suggestions: [
+      { name: "Reversibility", description: "How easily you could undo this if it turns out badly." },
+      { name: "Time Commitment", description: "The hours each week this will take from everything else." },
+      { name: "Support Network", description: "Whether people you rely on will be close by and on board." },
+    ],
+  },
+
+  "generate-criteria-facts": {
+    facts: [
+      "Most people overestimate how long a change will feel difficult",
+      "Early costs are usually clearer than long-term benefits",
+      "Similar choices are often reversible within the first year",
+      "Hidden costs tend to surface in the first three months",
+      "Prior experience in similar situations predicts adjustment well",
+    ],
+  },
+
+  "generate-experiments": {
+    experiments: [
+      {
+        title: "Talk to someone who did it",
+        description: "Find one person who made this choice in the last two years and ask what surprised them.",
+        targetCriterion: "Long-term satisfaction",
+        timeEstimate: "1 hour",
+        difficulty: "easy",
+      },
+      {
+        title: "Price out the first month",
+        description: "List every cost of the first month and check the three biggest against real quotes.",
+        targetCriterion: "Financial impact",
+        timeEstimate: "2 hours",
+        difficulty: "easy",
+      },
+      {
+        title: "Trial run for a weekend",
+        description: "Live one weekend as if you had already decided, and note what felt better or worse.",
+        targetCriterion: "Day-to-day fit",
+        timeEstimate: "2 days",
+        difficulty: "medium",
+      },
+    ],
+  },
+
+  "detect-criteria-overlap": { groups: [] },
+};
+
+export function getFixture(request: CompletionRequest): unknown {
+  if (!(request.task in FIXTURES)) {
+    throw new Error(`No mock fixture for ${request.task}`);
+  }
+  return FIXTURES[request.task];
+}
@@ -0,0 +1,173 @@
+import { z } from "zod";
+
+/**
+ * The shapes the AI functions return, shared by the edge functions (which make the model
+ * answer through a tool with this JSON schema, then validate) and the app (which validates
+ * again before trusting a response). Keep each zod schema and its tool parameters in step.
+ */
+
+/** A function the model is made to call, so its answer comes back as arguments matching a JSON schema */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface StructuredTask<T> {
+  tool: ToolDefinition;
+  schema: z.ZodType<T>;
+}
+
+const EXPERIMENT_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export const criterionSuggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    name: z.string().trim().min(1).max(60),
+    description: z.string().trim().max(300),
+  })).max(6),
+});
+
+export const criterionFactsSchema = z.object({
+  facts: z.array(z.string().trim().min(1).max(200)).length(5),
+});
+
+export const experimentSuggestionsSchema = z.object({
+  experiments: z.array(z.object({
+    title: z.string().trim().min(1).max(120),
+    description: z.string().trim().min(1).max(500),
+    targetCriterion: z.string().trim().min(1),
+    timeEstimate: z.string().trim().min(1).max(40),
+    // Saved experiments are CHECK-constrained to these
+    difficulty: z.enum(EXPERIMENT_DIFFICULTIES),
+  })).min(1).max(5),
+});
+
+export const criteriaOverlapSchema = z.object({
+  groups: z.array(z.object({
+    criteria: z.array(z.string().trim().min(1)).min(2),
+    correlationFactor: z.number().min(0).max(1),
+    reason: z.string().trim().optional(),
+  })),
+});
+
+export type CriterionSuggestions = z.infer<typeof criterionSuggestionsSchema>;
+export type CriterionFacts = z.infer<typeof criterionFactsSchema>;
+export type ExperimentSuggestions = z.infer<typeof experimentSuggestionsSchema>;
+export type CriteriaOverlap = z.infer<typeof criteriaOverlapSchema>;
+
+export const SUGGEST_CRITERIA: StructuredTask<CriterionSuggestions> = {
+  schema: criterionSuggestionsSchema,
+  tool: {
+    name: "suggest_criteria",
+    description: "Suggest criteria the person should also consider",
+    parameters: {
+      type: "object",
+      properties: {
+        suggestions: {
+          type: "array",
+          maxItems: 6,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "Short name, 2-4 words" },
+              description: { type: "string", description: "One sentence explaining why this matters" },
+            },
+            required: ["name", "description"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["suggestions"],
+      additionalProperties: false,
+    },
+  },
+};
+
+export const PROVIDE_FACTS: StructuredTask<CriterionFacts> = {
+  schema: criterionFactsSchema,
+  tool: {
+    name: "provide_facts",
+    description: "Provide 5 contextual facts about the criterion",
+    parameters: {
+      type: "object",
+      properties: {
+        facts: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 5,
+          maxItems: 5,
+          description: "Array of exactly 5 contextual facts",
+        },
+      },
+      required: ["facts"],
+      additionalProperties: false,
+    },
+  },
+};
+
+export const SUGGEST_EXPERIMENTS: StructuredTask<ExperimentSuggestions> = {
+  schema: experimentSuggestionsSchema,
+  tool: {
+    name: "suggest_experiments",
+    description: "Suggest experiments that reduce uncertainty about the decision",
+    parameters: {
+      type: "object",
+      properties: {
+        experiments: {
+          type: "array",
+          minItems: 1,
+          maxItems: 5,
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string", description: "Short experiment title" },
+              description: { type: "string", description: "Brief 1-2 sentence description of what to do" },
+              targetCriterion: { type: "string", description: "Which criterion this helps clarify" },
+              timeEstimate: { type: "string", description: "e.g. '2 hours', '1 day'" },
+              difficulty: { type: "string", enum: [...EXPERIMENT_DIFFICULTIES] },
+            },
+            required: ["title", "description", "targetCriterion", "timeEstimate", "difficulty"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["experiments"],
+      additionalProperties: false,
+    },
+  },
+};
+
+export const FLAG_OVERLAPS: StructuredTask<CriteriaOverlap> = {
+  schema: criteriaOverlapSchema,
+  tool: {
+    name: "flag_overlaps",
+    description: "Flag groups of criteria that measure largely the same thing",
+    parameters: {
+      type: "object",
+      properties: {
+        groups: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              criteria: { type: "array", items: { type: "string" }, minItems: 2, description: "Criteria names exactly as given" },
+              correlationFactor: { type: "number", minimum: 0, maximum: 1 },
+              reason: { type: "string", description: "One sentence on why they overlap" },
+            },
+            required: ["criteria", "correlationFactor", "reason"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["groups"],
+      additionalProperties: false,
+    },
+  },
+};
+
+/** What was wrong with a response, phrased so a model can fix it */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+    .join("; ");
+}
@@ -0,0 +1,59 @@
+/**
+ * Server-sent events, read and written the same way by the edge functions (relaying a
+ * provider's stream) and the app (reading the function's stream).
+ */
+
+export interface ServerSentEvent {
+  event: string; // "message" unless the event named itself
+  data: string;
+}
+
+/** One event in wire format; multi-line data is split across data fields */
+export function formatEvent(data: string, event?: string): string {
+  const lines = data.split("\n").map((line) => `data: ${line}`).join("\n");
+  return `${event ? `event: ${event}\n` : ""}${lines}\n\n`;
+}
+
+/** Each event in a stream as it arrives. Comments, ids and retry hints are skipped. */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Only complete lines are parsed; the rest waits for the next chunk. A trailing \r
+      // waits too, in case it is the first half of a \r\n.
+      const held = !done && buffer.endsWith("\r") ? "\r" : "";
+      const lines = buffer.slice(0, buffer.length - held.length).split(/\r\n|\r|\n/);
+      buffer = done ? "" : lines.pop() + held;
+      if (done) lines.push("");
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) yield { event, data: data.join("\n") };
+          event = "message";
+          data = [];
+          continue;
+        }
+
+        const colon = line.indexOf(":");
+        if (colon === 0) continue;
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = value;
+        else if (field === "data") data.push(value);
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stops the underlying request when the caller breaks out early
+    reader.cancel().catch(() => {});
+  }
+}
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeStream, errorResponse } from "../_shared/ai.ts";
+import { formatEvent } from "../_shared/eventStream.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,12 +16,36 @@ interface EvidenceItem {
   description: string;
 }
 
+interface CriterionItem {
+  id: string;
+  name: string;
+  importance: number;
+  parentId?: string;
+}
+
+interface CriterionEvaluationItem {
+  criterionId: string;
+  supportsDecision: boolean;
+  strength: number;
+  confidence: number;
+}
+
+interface SensitivityItem {
+  criterionName: string;
+  impact: number; // How far the posterior would fall if the criterion were left out
+  direction: 'supporting' | 'opposing';
+}
+
 interface DecisionAnalysisRequest {
   decision: string;
   category: string;
   initialConfidence: number;
   posteriorProbability: number;
   credibleInterval: [number, number];
+  winPercentage: number;
+  criteria: CriterionItem[];
+  criteriaEvaluations: CriterionEvaluationItem[];
+  sensitivity: SensitivityItem[];
   evidence: EvidenceItem[];
 }
 
@@ -30,19 +56,35 @@ serve(async (req) => {
   }
 
   try {
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
-    const { decision, category, initialConfidence, posteriorProbability, credibleInterval, evidence } = await req.json() as DecisionAnalysisRequest;
+    const {
+      decision,
+      category,
+      initialConfidence,
+      posteriorProbability,
+      credibleInterval,
+      winPercentage,
+      criteria = [],
+      criteriaEvaluations = [],
+      sensitivity = [],
+      evidence = [],
+    } = await req.json() as DecisionAnalysisRequest;
 
     console.log("Analyzing decision:", decision);
     console.log("Category:", category);
     console.log("Prior:", initialConfidence, "Posterior:", posteriorProbability);
 
     const confidenceChange = posteriorProbability - initialConfidence;
+    const criteriaSummary = criteria.map(c => {
+      const evaluation = criteriaEvaluations.find(e => e.criterionId === c.id);
+      const parent = c.parentId ? criteria.find(p => p.id === c.parentId) : undefined;
+      const assessment = evaluation
+        ? `${evaluation.supportsDecision ? 'supports' : 'opposes'} the decision with ${evaluation.strength}% strength, ${evaluation.confidence}% confidence`
+        : 'not assessed directly';
+      return `- ${c.name}${parent ? ` (part of ${parent.name})` : ''} (importance: ${c.importance}%): ${assessment}`;
+    }).join('\n');
+    const sensitivitySummary = sensitivity.map(s =>
+      `- ${s.criterionName} (${s.direction}): contributes ${s.impact > 0 ? '+' : ''}${s.impact}% to the estimate`
+    ).join('\n');
     const evidenceSummary = evidence.map(e => 
       `- ${e.label} (${e.type}): ${e.value}% support, weight ${e.weight}%`
     ).join('\n');
@@ -62,10 +104,17 @@ Never be preachy or condescending. Speak as a trusted advisor.`;
 - Updated Confidence (Posterior): ${Math.round(posteriorProbability)}%
 - Change: ${confidenceChange > 0 ? '+' : ''}${Math.round(confidenceChange)}%
 - 95% Credible Interval: ${Math.round(credibleInterval[0])}% - ${Math.round(credibleInterval[1])}%
-
-**Evidence Considered:**
-${evidenceSummary || 'No specific evidence was provided.'}
-
+- Wins in ${Math.round(winPercentage)}% of simulated scenarios
+
+**Criteria and Assessments:**
+${criteriaSummary || 'No criteria were assessed.'}
+${sensitivitySummary ? `
+**Sensitivity (most influential criteria first):**
+${sensitivitySummary}
+` : ''}${evidenceSummary ? `
+**Additional Evidence:**
+${evidenceSummary}
+` : ''}
 Please provide:
 1. **Key Insight** (1-2 sentences): What does this analysis reveal about the decision?
 2. **Confidence Assessment** (1 sentence): Is the current confidence level appropriate given the evidence?
@@ -74,58 +123,47 @@ Please provide:
 
 Keep your total response under 200 words. Be direct and actionable.`;
 
-    console.log("Calling Lovable AI Gateway...");
+    const deltas = await completeStream({
+      task: "analyze-decision",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      // The app's cancel button closes the connection, which stops generation upstream too
+      signal: req.signal,
+    });
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
+    // Each piece of text as a server-sent event, then [DONE]; a failure partway through
+    // arrives as an "error" event, since the 200 status has already been sent
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const delta of deltas) {
+            controller.enqueue(encoder.encode(formatEvent(JSON.stringify({ delta }))));
+          }
+          controller.enqueue(encoder.encode(formatEvent("[DONE]")));
+          console.log("Analysis streamed successfully");
+        } catch (error) {
+          if (req.signal.aborted) return;
+          console.error("Error streaming analysis:", error);
+          const message = error instanceof Error ? error.message : "Unknown error";
+          controller.enqueue(encoder.encode(formatEvent(JSON.stringify({ error: message }), "error")));
+        }
+        controller.close();
       },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-      }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const analysis = data.choices?.[0]?.message?.content;
-
-    console.log("Analysis generated successfully");
-
-    return new Response(JSON.stringify({ analysis }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
     });
 
   } catch (error) {
     console.error("Error in analyze-decision function:", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(error, corsHeaders);
   }
 });
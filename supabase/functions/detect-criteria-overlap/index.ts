@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeStructured, errorResponse } from "../_shared/ai.ts";
+import { FLAG_OVERLAPS } from "../_shared/aiSchemas.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface DetectCriteriaOverlapRequest {
+  decision: string;
+  criteria: { name: string; description?: string }[];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { decision, criteria } = await req.json() as DetectCriteriaOverlapRequest;
+
+    console.log("Detecting overlapping criteria for decision:", decision);
+    console.log("Criteria:", criteria.map(c => c.name));
+
+    if (criteria.length < 2) {
+      return new Response(JSON.stringify({ groups: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const criteriaList = criteria
+      .map(c => `- ${c.name}${c.description ? `: ${c.description}` : ''}`)
+      .join('\n');
+
+    const systemPrompt = `You are a decision analysis expert. Your role is to spot criteria that measure largely the same underlying thing, so the same consideration doesn't get counted twice.
+Only flag genuine overlap. Criteria that are merely related, or that often trade off against each other, are not redundant.`;
+
+    const userPrompt = `For this decision: "${decision}"
+
+The person is weighing these criteria:
+${criteriaList}
+
+Identify groups of criteria that substantially overlap. For each group, estimate how much they overlap as a number from 0.1 (slightly) to 0.9 (almost the same thing), and give a one-sentence reason.
+Each criterion may appear in at most one group. Use the criteria names exactly as written above. If nothing overlaps, return no groups.`;
+
+    const { groups } = await completeStructured({
+      task: "detect-criteria-overlap",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+    }, FLAG_OVERLAPS);
+
+    console.log("Overlapping groups:", groups);
+
+    return new Response(JSON.stringify({ groups }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error in detect-criteria-overlap function:", error);
+    return errorResponse(error, corsHeaders);
+  }
+});
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeStructured, errorResponse } from "../_shared/ai.ts";
+import { SUGGEST_CRITERIA } from "../_shared/aiSchemas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,12 +18,6 @@ serve(async (req) => {
   }
 
   try {
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY is not configured");
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const { decision, existingCriteria } = await req.json() as SuggestCriteriaRequest;
 
     console.log("Suggesting criteria for decision:", decision);
@@ -42,69 +38,17 @@ Suggest 3-4 additional criteria the person should consider. Focus on:
 - Hidden costs or benefits
 - Personal values that might be relevant
 
-Return your response as a JSON object with a "suggestions" array, where each item has "name" (short, 2-4 words) and "description" (one sentence explaining why this matters).
-
-Example format:
-{"suggestions": [{"name": "Exit Options", "description": "Consider how easy it would be to reverse this decision if needed."}]}`;
-
-    console.log("Calling Lovable AI Gateway...");
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    console.log("Raw AI response:", content);
+Give each one a short name (2-4 words) and a one-sentence description explaining why it matters.`;
 
-    // Parse JSON from the response
-    let suggestions = [];
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        suggestions = parsed.suggestions || [];
-      }
-    } catch (parseError) {
-      console.error("Failed to parse AI response as JSON:", parseError);
-      // Fallback: return empty suggestions
-      suggestions = [];
-    }
+    const { suggestions } = await completeStructured({
+      task: "suggest-criteria",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+    }, SUGGEST_CRITERIA);
 
-    console.log("Parsed suggestions:", suggestions);
+    console.log("Suggestions:", suggestions);
 
     return new Response(JSON.stringify({ suggestions }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -112,10 +56,6 @@ Example format:
 
   } catch (error) {
     console.error("Error in suggest-criteria function:", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,78 @@
+-- Create options table for decisions that compare named alternatives
+CREATE TABLE public.decision_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create per-option scores for each criterion
+CREATE TABLE public.decision_option_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES public.decision_options(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.decision_criteria(id) ON DELETE CASCADE,
+  score NUMERIC NOT NULL,
+  confidence NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.decision_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.decision_option_scores ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for options (through decision ownership)
+CREATE POLICY "Users can view options for their decisions" 
+  ON public.decision_options FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_options.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create options for their decisions" 
+  ON public.decision_options FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_options.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete options for their decisions" 
+  ON public.decision_options FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_options.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+-- RLS policies for option scores (through decision ownership)
+CREATE POLICY "Users can view option scores for their decisions" 
+  ON public.decision_option_scores FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_option_scores.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create option scores for their decisions" 
+  ON public.decision_option_scores FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_option_scores.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete option scores for their decisions" 
+  ON public.decision_option_scores FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_option_scores.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+-- Create indexes for better query performance
+CREATE INDEX idx_decision_options_decision_id ON public.decision_options(decision_id);
+CREATE INDEX idx_decision_option_scores_decision_id ON public.decision_option_scores(decision_id);
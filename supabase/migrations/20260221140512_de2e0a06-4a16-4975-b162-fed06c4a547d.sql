@@ -0,0 +1,48 @@
+-- Create outcomes table to record what actually happened after a decision
+CREATE TABLE public.decision_outcomes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL UNIQUE REFERENCES public.decisions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'partial', 'failure')),
+  resolved_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_outcomes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own outcomes"
+ON public.decision_outcomes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create outcomes for their decisions"
+ON public.decision_outcomes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND EXISTS (
+  SELECT 1 FROM public.decisions
+  WHERE decisions.id = decision_outcomes.decision_id
+  AND decisions.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can update their own outcomes"
+ON public.decision_outcomes
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own outcomes"
+ON public.decision_outcomes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create index for looking up outcomes by user
+CREATE INDEX idx_decision_outcomes_user_id ON public.decision_outcomes(user_id);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_decision_outcomes_updated_at
+BEFORE UPDATE ON public.decision_outcomes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,27 @@
+-- Record what a completed experiment found and how it moved the linked decision
+ALTER TABLE public.experiments
+  ADD COLUMN result_criterion_id UUID REFERENCES public.decision_criteria(id) ON DELETE SET NULL,
+  ADD COLUMN result_option_id UUID REFERENCES public.decision_options(id) ON DELETE SET NULL,
+  ADD COLUMN result_direction TEXT CHECK (result_direction IN ('supports', 'opposes', 'inconclusive')),
+  ADD COLUMN result_conclusiveness NUMERIC CHECK (result_conclusiveness BETWEEN 1 AND 100),
+  ADD COLUMN result_notes TEXT,
+  ADD COLUMN posterior_before NUMERIC,
+  ADD COLUMN posterior_after NUMERIC,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Experiment results update the evaluations and option scores they informed
+CREATE POLICY "Users can update evaluations for their decisions" 
+  ON public.decision_evaluations FOR UPDATE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_evaluations.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update option scores for their decisions" 
+  ON public.decision_option_scores FOR UPDATE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_option_scores.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
@@ -0,0 +1,94 @@
+-- Snapshot a decision each time it is re-run so its history can be compared
+CREATE TABLE public.decision_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  decision TEXT NOT NULL,
+  initial_confidence NUMERIC NOT NULL,
+  posterior_probability NUMERIC,
+  credible_interval_low NUMERIC,
+  credible_interval_high NUMERIC,
+  win_percentage NUMERIC,
+  snapshot JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (decision_id, revision_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are append-only; they go away with their decision
+CREATE POLICY "Users can view revisions for their decisions" 
+  ON public.decision_revisions FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_revisions.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create revisions for their decisions" 
+  ON public.decision_revisions FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_revisions.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_revisions_decision_id ON public.decision_revisions(decision_id);
+
+-- Re-saving a decision updates its criteria and options in place
+CREATE POLICY "Users can update criteria for their decisions" 
+  ON public.decision_criteria FOR UPDATE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_criteria.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update options for their decisions" 
+  ON public.decision_options FOR UPDATE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_options.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+-- Give every existing decision a first revision from its current state
+INSERT INTO public.decision_revisions (
+  decision_id, revision_number, decision, initial_confidence, posterior_probability,
+  credible_interval_low, credible_interval_high, win_percentage, snapshot, created_at
+)
+SELECT
+  d.id, 1, d.decision, d.initial_confidence, d.posterior_probability,
+  d.credible_interval_low, d.credible_interval_high, d.win_percentage,
+  jsonb_build_object(
+    'criteria', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'importance', c.importance,
+        'description', c.description, 'isAISuggested', c.is_ai_suggested
+      ) ORDER BY c.created_at)
+      FROM public.decision_criteria c WHERE c.decision_id = d.id
+    ), '[]'::jsonb),
+    'evaluations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'criterionId', e.criterion_id, 'supportsDecision', e.supports_decision,
+        'strength', e.strength, 'confidence', e.confidence
+      ))
+      FROM public.decision_evaluations e WHERE e.decision_id = d.id
+    ), '[]'::jsonb),
+    'options', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id, 'name', o.name, 'description', o.description
+      ) ORDER BY o.position)
+      FROM public.decision_options o WHERE o.decision_id = d.id
+    ), '[]'::jsonb),
+    'optionScores', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'criterionId', s.criterion_id, 'optionId', s.option_id,
+        'score', s.score, 'confidence', s.confidence
+      ))
+      FROM public.decision_option_scores s WHERE s.decision_id = d.id
+    ), '[]'::jsonb)
+  ),
+  d.updated_at
+FROM public.decisions d;
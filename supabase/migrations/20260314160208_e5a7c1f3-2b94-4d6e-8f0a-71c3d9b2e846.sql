@@ -0,0 +1,4 @@
+-- Record the Monte Carlo seed so a saved result can be reproduced exactly.
+-- Seeds are unsigned 32-bit integers, hence BIGINT. NULL for decisions saved before runs were seeded.
+ALTER TABLE public.decisions ADD COLUMN seed BIGINT;
+ALTER TABLE public.decision_revisions ADD COLUMN seed BIGINT;
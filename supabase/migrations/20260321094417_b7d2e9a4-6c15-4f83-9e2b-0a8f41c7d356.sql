@@ -0,0 +1,40 @@
+-- Criteria that measure overlapping things, so the engine can avoid double-counting them
+CREATE TABLE public.decision_correlation_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  criterion_ids UUID[] NOT NULL CHECK (cardinality(criterion_ids) >= 2),
+  correlation_factor NUMERIC NOT NULL CHECK (correlation_factor BETWEEN 0 AND 1),
+  reason TEXT,
+  is_ai_suggested BOOLEAN DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_correlation_groups ENABLE ROW LEVEL SECURITY;
+
+-- Groups are replaced wholesale each time the decision is saved
+CREATE POLICY "Users can view correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_correlation_groups.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_correlation_groups.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_correlation_groups.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_correlation_groups_decision_id ON public.decision_correlation_groups(decision_id);
@@ -0,0 +1,42 @@
+-- Evidence items (past outcomes, emotional state, data, constraints) weighed alongside the criteria
+CREATE TABLE public.decision_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('past_outcome', 'emotional', 'data', 'constraint')),
+  label TEXT NOT NULL,
+  description TEXT,
+  value NUMERIC NOT NULL CHECK (value BETWEEN 0 AND 100),
+  weight NUMERIC NOT NULL CHECK (weight BETWEEN 0 AND 100),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_evidence ENABLE ROW LEVEL SECURITY;
+
+-- Evidence is replaced wholesale each time the decision is saved
+CREATE POLICY "Users can view evidence for their decisions" 
+  ON public.decision_evidence FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_evidence.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create evidence for their decisions" 
+  ON public.decision_evidence FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_evidence.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete evidence for their decisions" 
+  ON public.decision_evidence FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_evidence.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_evidence_decision_id ON public.decision_evidence(decision_id);
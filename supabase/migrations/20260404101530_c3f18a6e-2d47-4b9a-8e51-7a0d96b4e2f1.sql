@@ -0,0 +1,43 @@
+-- Payoff distributions for each outcome (success/failure, per option when comparing alternatives)
+CREATE TABLE public.decision_payoffs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  option_id UUID REFERENCES public.decision_options(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
+  shape TEXT NOT NULL CHECK (shape IN ('triangular', 'pert')),
+  min_value NUMERIC NOT NULL,
+  likely_value NUMERIC NOT NULL,
+  max_value NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_value <= likely_value AND likely_value <= max_value)
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_payoffs ENABLE ROW LEVEL SECURITY;
+
+-- Payoffs are replaced wholesale each time the decision is saved
+CREATE POLICY "Users can view payoffs for their decisions" 
+  ON public.decision_payoffs FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_payoffs.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create payoffs for their decisions" 
+  ON public.decision_payoffs FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_payoffs.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete payoffs for their decisions" 
+  ON public.decision_payoffs FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_payoffs.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_payoffs_decision_id ON public.decision_payoffs(decision_id);
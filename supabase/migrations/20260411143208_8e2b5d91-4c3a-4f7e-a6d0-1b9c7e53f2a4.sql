@@ -0,0 +1,5 @@
+-- Sub-criteria: a criterion can be broken down into children, weighed relative to their siblings
+ALTER TABLE public.decision_criteria
+  ADD COLUMN parent_id UUID REFERENCES public.decision_criteria(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_decision_criteria_parent_id ON public.decision_criteria(parent_id);
@@ -0,0 +1,41 @@
+-- Pairwise (AHP) judgments between sibling criteria, kept so the comparisons can be revisited
+CREATE TABLE public.decision_pairwise_judgments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.decision_criteria(id) ON DELETE CASCADE,
+  compared_to_id UUID NOT NULL REFERENCES public.decision_criteria(id) ON DELETE CASCADE,
+  value NUMERIC NOT NULL CHECK (value > 0 AND value <= 9), -- 1/9 to 9
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (criterion_id <> compared_to_id),
+  UNIQUE (criterion_id, compared_to_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_pairwise_judgments ENABLE ROW LEVEL SECURITY;
+
+-- Judgments are replaced wholesale each time the decision is saved
+CREATE POLICY "Users can view pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_pairwise_judgments.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_pairwise_judgments.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_pairwise_judgments.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_pairwise_judgments_decision_id ON public.decision_pairwise_judgments(decision_id);
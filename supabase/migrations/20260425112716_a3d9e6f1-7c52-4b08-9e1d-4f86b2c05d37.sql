@@ -0,0 +1,92 @@
+-- Read-only public links to a decision's latest revision
+CREATE TABLE public.decision_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  -- Two random UUIDs' worth of hex: unguessable, and URL-safe as is
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.decision_shares ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner manages links; viewers go through get_shared_decision below
+CREATE POLICY "Users can view shares for their decisions" 
+  ON public.decision_shares FOR SELECT 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_shares.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create shares for their decisions" 
+  ON public.decision_shares FOR INSERT 
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_shares.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update shares for their decisions" 
+  ON public.decision_shares FOR UPDATE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_shares.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete shares for their decisions" 
+  ON public.decision_shares FOR DELETE 
+  USING (EXISTS (
+    SELECT 1 FROM public.decisions 
+    WHERE decisions.id = decision_shares.decision_id 
+    AND decisions.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_decision_shares_decision_id ON public.decision_shares(decision_id);
+
+-- Serves the latest revision to anyone holding a live token, signed in or not.
+-- SECURITY DEFINER bypasses RLS, so the token check here is the only gate:
+-- it exposes the snapshot and nothing else about the decision or its owner.
+CREATE OR REPLACE FUNCTION public.get_shared_decision(share_token TEXT)
+RETURNS TABLE (
+  decision TEXT,
+  initial_confidence NUMERIC,
+  posterior_probability NUMERIC,
+  credible_interval_low NUMERIC,
+  credible_interval_high NUMERIC,
+  win_percentage NUMERIC,
+  seed BIGINT,
+  snapshot JSONB,
+  revision_created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.decision,
+    r.initial_confidence,
+    r.posterior_probability,
+    r.credible_interval_low,
+    r.credible_interval_high,
+    r.win_percentage,
+    r.seed,
+    r.snapshot,
+    r.created_at,
+    s.expires_at
+  FROM public.decision_shares s
+  JOIN public.decision_revisions r ON r.decision_id = s.decision_id
+  WHERE s.token = share_token
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > now())
+  ORDER BY r.revision_number DESC
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_decision(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_decision(TEXT) TO anon, authenticated;
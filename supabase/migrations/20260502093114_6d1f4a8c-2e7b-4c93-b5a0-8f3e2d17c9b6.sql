@@ -0,0 +1,366 @@
+-- Group decisions: several people evaluate the same criteria.
+-- The creator (decisions.user_id) is always an owner; decision_members grants roles to others.
+CREATE TABLE public.decision_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'evaluator', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (decision_id, user_id)
+);
+
+-- Each member's own assessment of the decision's criteria, pooled when the results are computed
+CREATE TABLE public.decision_member_evaluations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.decision_criteria(id) ON DELETE CASCADE,
+  supports_decision BOOLEAN NOT NULL,
+  strength NUMERIC NOT NULL CHECK (strength >= 1 AND strength <= 100),
+  confidence NUMERIC NOT NULL CHECK (confidence >= 1 AND confidence <= 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, criterion_id)
+);
+
+-- How members' assessments are combined
+ALTER TABLE public.decisions
+  ADD COLUMN aggregation_method TEXT NOT NULL DEFAULT 'linear_pool'
+  CHECK (aggregation_method IN ('linear_pool', 'logarithmic_pool', 'pseudo_observations'));
+
+CREATE INDEX idx_decision_members_decision_id ON public.decision_members(decision_id);
+CREATE INDEX idx_decision_members_user_id ON public.decision_members(user_id);
+CREATE INDEX idx_decision_member_evaluations_decision_id ON public.decision_member_evaluations(decision_id);
+
+-- Whether the current user holds one of the given roles on a decision.
+-- SECURITY DEFINER so policies on decisions and decision_members can call it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.has_decision_role(target_decision_id UUID, allowed_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.decisions
+    WHERE decisions.id = target_decision_id
+    AND decisions.user_id = auth.uid()
+    AND 'owner' = ANY(allowed_roles)
+  ) OR EXISTS (
+    SELECT 1 FROM public.decision_members
+    WHERE decision_members.decision_id = target_decision_id
+    AND decision_members.user_id = auth.uid()
+    AND decision_members.role = ANY(allowed_roles)
+  );
+$$;
+
+-- Decisions: members can see them, owners can change or delete them
+DROP POLICY "Users can view their own decisions" ON public.decisions;
+DROP POLICY "Users can update their own decisions" ON public.decisions;
+DROP POLICY "Users can delete their own decisions" ON public.decisions;
+
+CREATE POLICY "Members can view their decisions" 
+  ON public.decisions FOR SELECT 
+  USING (public.has_decision_role(id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can update their decisions" 
+  ON public.decisions FOR UPDATE 
+  USING (public.has_decision_role(id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete their decisions" 
+  ON public.decisions FOR DELETE 
+  USING (public.has_decision_role(id, ARRAY['owner']));
+
+-- Child tables: every member reads, only owners write.
+-- Share links stay with the owners, since anyone holding one can read the decision.
+
+DROP POLICY "Users can view criteria for their decisions" ON public.decision_criteria;
+DROP POLICY "Users can create criteria for their decisions" ON public.decision_criteria;
+DROP POLICY "Users can update criteria for their decisions" ON public.decision_criteria;
+DROP POLICY "Users can delete criteria for their decisions" ON public.decision_criteria;
+
+CREATE POLICY "Members can view criteria for their decisions" 
+  ON public.decision_criteria FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create criteria for their decisions" 
+  ON public.decision_criteria FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update criteria for their decisions" 
+  ON public.decision_criteria FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete criteria for their decisions" 
+  ON public.decision_criteria FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view evaluations for their decisions" ON public.decision_evaluations;
+DROP POLICY "Users can create evaluations for their decisions" ON public.decision_evaluations;
+DROP POLICY "Users can update evaluations for their decisions" ON public.decision_evaluations;
+DROP POLICY "Users can delete evaluations for their decisions" ON public.decision_evaluations;
+
+CREATE POLICY "Members can view evaluations for their decisions" 
+  ON public.decision_evaluations FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create evaluations for their decisions" 
+  ON public.decision_evaluations FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update evaluations for their decisions" 
+  ON public.decision_evaluations FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete evaluations for their decisions" 
+  ON public.decision_evaluations FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view options for their decisions" ON public.decision_options;
+DROP POLICY "Users can create options for their decisions" ON public.decision_options;
+DROP POLICY "Users can update options for their decisions" ON public.decision_options;
+DROP POLICY "Users can delete options for their decisions" ON public.decision_options;
+
+CREATE POLICY "Members can view options for their decisions" 
+  ON public.decision_options FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create options for their decisions" 
+  ON public.decision_options FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update options for their decisions" 
+  ON public.decision_options FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete options for their decisions" 
+  ON public.decision_options FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view option scores for their decisions" ON public.decision_option_scores;
+DROP POLICY "Users can create option scores for their decisions" ON public.decision_option_scores;
+DROP POLICY "Users can update option scores for their decisions" ON public.decision_option_scores;
+DROP POLICY "Users can delete option scores for their decisions" ON public.decision_option_scores;
+
+CREATE POLICY "Members can view option scores for their decisions" 
+  ON public.decision_option_scores FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create option scores for their decisions" 
+  ON public.decision_option_scores FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update option scores for their decisions" 
+  ON public.decision_option_scores FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete option scores for their decisions" 
+  ON public.decision_option_scores FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view correlation groups for their decisions" ON public.decision_correlation_groups;
+DROP POLICY "Users can create correlation groups for their decisions" ON public.decision_correlation_groups;
+DROP POLICY "Users can delete correlation groups for their decisions" ON public.decision_correlation_groups;
+
+CREATE POLICY "Members can view correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete correlation groups for their decisions" 
+  ON public.decision_correlation_groups FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view pairwise judgments for their decisions" ON public.decision_pairwise_judgments;
+DROP POLICY "Users can create pairwise judgments for their decisions" ON public.decision_pairwise_judgments;
+DROP POLICY "Users can delete pairwise judgments for their decisions" ON public.decision_pairwise_judgments;
+
+CREATE POLICY "Members can view pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete pairwise judgments for their decisions" 
+  ON public.decision_pairwise_judgments FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view evidence for their decisions" ON public.decision_evidence;
+DROP POLICY "Users can create evidence for their decisions" ON public.decision_evidence;
+DROP POLICY "Users can delete evidence for their decisions" ON public.decision_evidence;
+
+CREATE POLICY "Members can view evidence for their decisions" 
+  ON public.decision_evidence FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create evidence for their decisions" 
+  ON public.decision_evidence FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete evidence for their decisions" 
+  ON public.decision_evidence FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view payoffs for their decisions" ON public.decision_payoffs;
+DROP POLICY "Users can create payoffs for their decisions" ON public.decision_payoffs;
+DROP POLICY "Users can delete payoffs for their decisions" ON public.decision_payoffs;
+
+CREATE POLICY "Members can view payoffs for their decisions" 
+  ON public.decision_payoffs FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create payoffs for their decisions" 
+  ON public.decision_payoffs FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete payoffs for their decisions" 
+  ON public.decision_payoffs FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view revisions for their decisions" ON public.decision_revisions;
+DROP POLICY "Users can create revisions for their decisions" ON public.decision_revisions;
+
+CREATE POLICY "Members can view revisions for their decisions" 
+  ON public.decision_revisions FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create revisions for their decisions" 
+  ON public.decision_revisions FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+DROP POLICY "Users can view shares for their decisions" ON public.decision_shares;
+DROP POLICY "Users can create shares for their decisions" ON public.decision_shares;
+DROP POLICY "Users can update shares for their decisions" ON public.decision_shares;
+DROP POLICY "Users can delete shares for their decisions" ON public.decision_shares;
+
+CREATE POLICY "Owners can view shares for their decisions" 
+  ON public.decision_shares FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can create shares for their decisions" 
+  ON public.decision_shares FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update shares for their decisions" 
+  ON public.decision_shares FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete shares for their decisions" 
+  ON public.decision_shares FOR DELETE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+-- Co-owners can record how a decision turned out too
+DROP POLICY "Users can create outcomes for their decisions" ON public.decision_outcomes;
+
+CREATE POLICY "Owners can create outcomes for their decisions"
+ON public.decision_outcomes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_decision_role(decision_id, ARRAY['owner']));
+
+-- Membership: members see who else is on the decision, owners manage it, anyone can leave
+ALTER TABLE public.decision_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view members of their decisions" 
+  ON public.decision_members FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can add members to their decisions" 
+  ON public.decision_members FOR INSERT 
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update members of their decisions" 
+  ON public.decision_members FOR UPDATE 
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can remove members and members can leave" 
+  ON public.decision_members FOR DELETE 
+  USING (auth.uid() = user_id OR public.has_decision_role(decision_id, ARRAY['owner']));
+
+-- Member evaluations: every member reads them all, owners and evaluators write only their own
+ALTER TABLE public.decision_member_evaluations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view member evaluations for their decisions" 
+  ON public.decision_member_evaluations FOR SELECT 
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Evaluators can create their own evaluations" 
+  ON public.decision_member_evaluations FOR INSERT 
+  WITH CHECK (auth.uid() = user_id AND public.has_decision_role(decision_id, ARRAY['owner', 'evaluator']));
+
+CREATE POLICY "Evaluators can update their own evaluations" 
+  ON public.decision_member_evaluations FOR UPDATE 
+  USING (auth.uid() = user_id AND public.has_decision_role(decision_id, ARRAY['owner', 'evaluator']));
+
+CREATE POLICY "Evaluators can delete their own evaluations" 
+  ON public.decision_member_evaluations FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Members are invited by email, which only the auth schema knows; the caller must own the decision
+CREATE OR REPLACE FUNCTION public.add_decision_member(target_decision_id UUID, member_email TEXT, member_role TEXT)
+RETURNS public.decision_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+  member public.decision_members;
+BEGIN
+  IF NOT public.has_decision_role(target_decision_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can add members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No account uses %', member_email USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.decisions WHERE id = target_decision_id AND user_id = member_id) THEN
+    RAISE EXCEPTION 'The decision''s creator is already its owner' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.decision_members (decision_id, user_id, role)
+  VALUES (target_decision_id, member_id, member_role)
+  ON CONFLICT (decision_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO member;
+
+  RETURN member;
+END;
+$$;
+
+-- Members with their email addresses, for anyone on the decision; the creator comes first
+CREATE OR REPLACE FUNCTION public.get_decision_members(target_decision_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  is_creator BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.user_id, u.email::text, 'owner', true, d.created_at
+  FROM public.decisions d
+  JOIN auth.users u ON u.id = d.user_id
+  WHERE d.id = target_decision_id
+    AND public.has_decision_role(target_decision_id, ARRAY['owner', 'evaluator', 'viewer'])
+  UNION ALL
+  SELECT m.user_id, u.email::text, m.role, false, m.created_at
+  FROM public.decision_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.decision_id = target_decision_id
+    AND public.has_decision_role(target_decision_id, ARRAY['owner', 'evaluator', 'viewer'])
+  ORDER BY 4 DESC, 5;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_decision_member(UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_decision_members(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.add_decision_member(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_decision_members(UUID) TO authenticated;
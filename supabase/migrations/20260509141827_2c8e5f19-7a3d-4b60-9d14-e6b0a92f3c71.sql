@@ -0,0 +1,125 @@
+-- Delphi process for group decisions: members rate each criterion anonymously over several
+-- rounds, seeing the group's distribution and rationales in between, until opinion converges
+ALTER TABLE public.decisions
+  ADD COLUMN delphi_max_rounds INTEGER NOT NULL DEFAULT 3 CHECK (delphi_max_rounds BETWEEN 1 AND 10),
+  ADD COLUMN delphi_iqr_threshold NUMERIC NOT NULL DEFAULT 15 CHECK (delphi_iqr_threshold > 0 AND delphi_iqr_threshold <= 100);
+
+CREATE TABLE public.decision_delphi_rounds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL CHECK (round_number >= 1),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  -- The distribution the group saw after the round closed; NULL while open
+  summary JSONB,
+  -- Set on the round that ended the process
+  stop_reason TEXT CHECK (stop_reason IN ('converged', 'max_rounds')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (decision_id, round_number)
+);
+
+CREATE TABLE public.decision_delphi_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES public.decision_delphi_rounds(id) ON DELETE CASCADE,
+  decision_id UUID NOT NULL REFERENCES public.decisions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.decision_criteria(id) ON DELETE CASCADE,
+  supports_decision BOOLEAN NOT NULL,
+  strength NUMERIC NOT NULL CHECK (strength >= 1 AND strength <= 100),
+  confidence NUMERIC NOT NULL CHECK (confidence >= 1 AND confidence <= 100),
+  rationale TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (round_id, user_id, criterion_id)
+);
+
+CREATE INDEX idx_decision_delphi_rounds_decision_id ON public.decision_delphi_rounds(decision_id);
+CREATE INDEX idx_decision_delphi_responses_decision_id ON public.decision_delphi_responses(decision_id);
+CREATE INDEX idx_decision_delphi_responses_round_id ON public.decision_delphi_responses(round_id);
+
+-- Enable RLS
+ALTER TABLE public.decision_delphi_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.decision_delphi_responses ENABLE ROW LEVEL SECURITY;
+
+-- Rounds: every member follows along, owners open and close them
+CREATE POLICY "Members can view Delphi rounds for their decisions"
+  ON public.decision_delphi_rounds FOR SELECT
+  USING (public.has_decision_role(decision_id, ARRAY['owner', 'evaluator', 'viewer']));
+
+CREATE POLICY "Owners can create Delphi rounds for their decisions"
+  ON public.decision_delphi_rounds FOR INSERT
+  WITH CHECK (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can update Delphi rounds for their decisions"
+  ON public.decision_delphi_rounds FOR UPDATE
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can delete Delphi rounds for their decisions"
+  ON public.decision_delphi_rounds FOR DELETE
+  USING (public.has_decision_role(decision_id, ARRAY['owner']));
+
+-- Responses: nobody reads anyone else's directly, not even owners. The group only
+-- sees them through get_delphi_responses below, which strips who gave them.
+CREATE POLICY "Users can view their own Delphi responses"
+  ON public.decision_delphi_responses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Evaluators can respond to open Delphi rounds"
+  ON public.decision_delphi_responses FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_decision_role(decision_id, ARRAY['owner', 'evaluator'])
+    AND EXISTS (
+      SELECT 1 FROM public.decision_delphi_rounds
+      WHERE decision_delphi_rounds.id = decision_delphi_responses.round_id
+      AND decision_delphi_rounds.decision_id = decision_delphi_responses.decision_id
+      AND decision_delphi_rounds.status = 'open'
+    )
+  );
+
+CREATE POLICY "Evaluators can withdraw responses from open Delphi rounds"
+  ON public.decision_delphi_responses FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.decision_delphi_rounds
+      WHERE decision_delphi_rounds.id = decision_delphi_responses.round_id
+      AND decision_delphi_rounds.status = 'open'
+    )
+  );
+
+-- A round's responses with the respondent replaced by a number, shuffled so the order
+-- gives nothing away. Members see them once the round closes; owners also while it is
+-- open, since they summarize it when closing.
+CREATE OR REPLACE FUNCTION public.get_delphi_responses(target_round_id UUID)
+RETURNS TABLE (
+  respondent INTEGER,
+  criterion_id UUID,
+  supports_decision BOOLEAN,
+  strength NUMERIC,
+  confidence NUMERIC,
+  rationale TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    dense_rank() OVER (ORDER BY md5(r.user_id::text || r.round_id::text))::integer,
+    r.criterion_id,
+    r.supports_decision,
+    r.strength,
+    r.confidence,
+    r.rationale
+  FROM public.decision_delphi_responses r
+  JOIN public.decision_delphi_rounds dr ON dr.id = r.round_id
+  WHERE r.round_id = target_round_id
+    AND (
+      (dr.status = 'closed' AND public.has_decision_role(dr.decision_id, ARRAY['owner', 'evaluator', 'viewer']))
+      OR public.has_decision_role(dr.decision_id, ARRAY['owner'])
+    )
+  ORDER BY md5(r.user_id::text || r.round_id::text), r.criterion_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_delphi_responses(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_delphi_responses(UUID) TO authenticated;
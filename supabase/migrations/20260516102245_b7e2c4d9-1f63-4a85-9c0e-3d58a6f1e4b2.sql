@@ -0,0 +1,266 @@
+-- Save a decision and everything assessed with it in one transaction, so a dropped
+-- connection can no longer leave a half-written decision behind
+
+-- The client's ID for a row when it is a UUID no other decision uses, otherwise a fresh one.
+-- Clients mint their own IDs, but imported or duplicated decisions can carry IDs already taken.
+CREATE OR REPLACE FUNCTION public.resolve_client_id(client_id TEXT, target_table REGCLASS, target_decision_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  in_use_elsewhere BOOLEAN;
+BEGIN
+  IF client_id IS NULL OR client_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN gen_random_uuid();
+  END IF;
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM %s WHERE id = $1 AND decision_id <> $2)', target_table)
+    INTO in_use_elsewhere
+    USING client_id::uuid, target_decision_id;
+
+  RETURN CASE WHEN in_use_elsewhere THEN gen_random_uuid() ELSE client_id::uuid END;
+END;
+$$;
+
+-- Takes the whole decision document (the DecisionSnapshot shape plus the run's results),
+-- inserts or updates it, records it as the next revision and returns the saved graph with
+-- the IDs the database kept. Omit target_decision_id to create a new decision.
+CREATE OR REPLACE FUNCTION public.save_decision(document JSONB, target_decision_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id UUID := target_decision_id;
+  criterion_map JSONB := '{}'::jsonb;
+  option_map JSONB := '{}'::jsonb;
+  item JSONB;
+  saved JSONB;
+  next_revision INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to save decisions' USING ERRCODE = '42501';
+  END IF;
+
+  -- 1. Update the decision being edited, or insert a new one
+  IF saved_id IS NULL THEN
+    INSERT INTO public.decisions (
+      user_id, decision, initial_confidence, posterior_probability, credible_interval_low,
+      credible_interval_high, win_percentage, geweke_z_score, effective_sample_size, mc_error, seed
+    )
+    VALUES (
+      auth.uid(),
+      document->>'decision',
+      (document->>'initialConfidence')::numeric,
+      (document->>'posteriorProbability')::numeric,
+      (document->>'credibleIntervalLow')::numeric,
+      (document->>'credibleIntervalHigh')::numeric,
+      (document->>'winPercentage')::numeric,
+      (document->>'gewekeZScore')::numeric,
+      (document->>'effectiveSampleSize')::numeric,
+      (document->>'mcError')::numeric,
+      (document->>'seed')::bigint
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    IF NOT public.has_decision_role(saved_id, ARRAY['owner']) THEN
+      RAISE EXCEPTION 'Only owners can change a decision' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.decisions SET
+      decision = document->>'decision',
+      initial_confidence = (document->>'initialConfidence')::numeric,
+      posterior_probability = (document->>'posteriorProbability')::numeric,
+      credible_interval_low = (document->>'credibleIntervalLow')::numeric,
+      credible_interval_high = (document->>'credibleIntervalHigh')::numeric,
+      win_percentage = (document->>'winPercentage')::numeric,
+      geweke_z_score = (document->>'gewekeZScore')::numeric,
+      effective_sample_size = (document->>'effectiveSampleSize')::numeric,
+      mc_error = (document->>'mcError')::numeric,
+      seed = (document->>'seed')::bigint
+    WHERE id = saved_id;
+  END IF;
+
+  -- 2. Settle on database IDs for criteria and options. Keeping them stable lets revisions
+  -- and experiment results refer to the same criterion over time.
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(document->'criteria', '[]'::jsonb)) LOOP
+    criterion_map := criterion_map || jsonb_build_object(
+      item->>'id', public.resolve_client_id(item->>'id', 'public.decision_criteria', saved_id)
+    );
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(document->'options', '[]'::jsonb)) LOOP
+    option_map := option_map || jsonb_build_object(
+      item->>'id', public.resolve_client_id(item->>'id', 'public.decision_options', saved_id)
+    );
+  END LOOP;
+
+  -- 3. Drop criteria and options the user removed; assessments are replaced wholesale
+  DELETE FROM public.decision_criteria
+  WHERE decision_id = saved_id
+    AND id NOT IN (SELECT value::uuid FROM jsonb_each_text(criterion_map));
+  DELETE FROM public.decision_options
+  WHERE decision_id = saved_id
+    AND id NOT IN (SELECT value::uuid FROM jsonb_each_text(option_map));
+  DELETE FROM public.decision_evaluations WHERE decision_id = saved_id;
+  DELETE FROM public.decision_option_scores WHERE decision_id = saved_id;
+  DELETE FROM public.decision_correlation_groups WHERE decision_id = saved_id;
+  DELETE FROM public.decision_pairwise_judgments WHERE decision_id = saved_id;
+  DELETE FROM public.decision_evidence WHERE decision_id = saved_id;
+  DELETE FROM public.decision_payoffs WHERE decision_id = saved_id;
+
+  -- 4. Write the graph with every reference remapped. The document is rebuilt alongside,
+  -- in the client's order, to become the revision snapshot and the return value.
+  WITH entries AS (
+    SELECT c || jsonb_build_object(
+      'id', criterion_map->>(c->>'id'),
+      'parentId', criterion_map->>(c->>'parentId')
+    ) AS c, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'criteria', '[]'::jsonb)) WITH ORDINALITY AS t(c, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_criteria (id, decision_id, name, importance, description, is_ai_suggested, parent_id)
+    SELECT (c->>'id')::uuid, saved_id, c->>'name', (c->>'importance')::numeric, c->>'description',
+      COALESCE((c->>'isAISuggested')::boolean, false), (c->>'parentId')::uuid
+    FROM entries
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      importance = EXCLUDED.importance,
+      description = EXCLUDED.description,
+      is_ai_suggested = EXCLUDED.is_ai_suggested,
+      parent_id = EXCLUDED.parent_id
+  )
+  SELECT jsonb_build_object('criteria', COALESCE(jsonb_agg(jsonb_strip_nulls(c) ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT o || jsonb_build_object('id', option_map->>(o->>'id')) AS o, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'options', '[]'::jsonb)) WITH ORDINALITY AS t(o, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_options (id, decision_id, name, description, position)
+    SELECT (o->>'id')::uuid, saved_id, o->>'name', o->>'description', ordinality - 1
+    FROM entries
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      description = EXCLUDED.description,
+      position = EXCLUDED.position
+  )
+  SELECT saved || jsonb_build_object('options', COALESCE(jsonb_agg(jsonb_strip_nulls(o) ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT g || jsonb_build_object(
+      'id', public.resolve_client_id(g->>'id', 'public.decision_correlation_groups', saved_id),
+      'criterionIds', (SELECT jsonb_agg(criterion_map->>id) FROM jsonb_array_elements_text(g->'criterionIds') AS ids(id))
+    ) AS g, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'correlationGroups', '[]'::jsonb)) WITH ORDINALITY AS t(g, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_correlation_groups (id, decision_id, criterion_ids, correlation_factor, reason, is_ai_suggested)
+    SELECT (g->>'id')::uuid, saved_id,
+      ARRAY(SELECT jsonb_array_elements_text(g->'criterionIds')::uuid),
+      (g->>'correlationFactor')::numeric, g->>'reason', COALESCE((g->>'isAISuggested')::boolean, false)
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('correlationGroups', COALESCE(jsonb_agg(jsonb_strip_nulls(g) ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT j || jsonb_build_object(
+      'criterionId', criterion_map->>(j->>'criterionId'),
+      'comparedToId', criterion_map->>(j->>'comparedToId')
+    ) AS j, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'pairwiseJudgments', '[]'::jsonb)) WITH ORDINALITY AS t(j, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_pairwise_judgments (decision_id, criterion_id, compared_to_id, value)
+    SELECT saved_id, (j->>'criterionId')::uuid, (j->>'comparedToId')::uuid, (j->>'value')::numeric
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('pairwiseJudgments', COALESCE(jsonb_agg(j ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  -- 5. Evaluations (binary decisions), per-option scores (multi-option decisions), evidence and payoffs
+  WITH entries AS (
+    SELECT e || jsonb_build_object('criterionId', criterion_map->>(e->>'criterionId')) AS e, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'evaluations', '[]'::jsonb)) WITH ORDINALITY AS t(e, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_evaluations (decision_id, criterion_id, supports_decision, strength, confidence)
+    SELECT saved_id, (e->>'criterionId')::uuid, (e->>'supportsDecision')::boolean,
+      (e->>'strength')::numeric, (e->>'confidence')::numeric
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('evaluations', COALESCE(jsonb_agg(e ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT s || jsonb_build_object(
+      'optionId', option_map->>(s->>'optionId'),
+      'criterionId', criterion_map->>(s->>'criterionId')
+    ) AS s, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'optionScores', '[]'::jsonb)) WITH ORDINALITY AS t(s, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_option_scores (decision_id, option_id, criterion_id, score, confidence)
+    SELECT saved_id, (s->>'optionId')::uuid, (s->>'criterionId')::uuid, (s->>'score')::numeric, (s->>'confidence')::numeric
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('optionScores', COALESCE(jsonb_agg(s ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT e || jsonb_build_object(
+      'id', public.resolve_client_id(e->>'id', 'public.decision_evidence', saved_id)
+    ) AS e, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'evidence', '[]'::jsonb)) WITH ORDINALITY AS t(e, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_evidence (id, decision_id, type, label, description, value, weight, position)
+    SELECT (e->>'id')::uuid, saved_id, e->>'type', e->>'label', NULLIF(e->>'description', ''),
+      (e->>'value')::numeric, (e->>'weight')::numeric, ordinality - 1
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('evidence', COALESCE(jsonb_agg(e ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  WITH entries AS (
+    SELECT p || jsonb_build_object(
+      'id', public.resolve_client_id(p->>'id', 'public.decision_payoffs', saved_id),
+      'optionId', option_map->>(p->>'optionId')
+    ) AS p, ordinality
+    FROM jsonb_array_elements(COALESCE(document->'payoffs', '[]'::jsonb)) WITH ORDINALITY AS t(p, ordinality)
+  ), written AS (
+    INSERT INTO public.decision_payoffs (id, decision_id, option_id, outcome, shape, min_value, likely_value, max_value)
+    SELECT (p->>'id')::uuid, saved_id, (p->>'optionId')::uuid, p->>'outcome', p->>'shape',
+      (p->>'min')::numeric, (p->>'likely')::numeric, (p->>'max')::numeric
+    FROM entries
+  )
+  SELECT saved || jsonb_build_object('payoffs', COALESCE(jsonb_agg(jsonb_strip_nulls(p) ORDER BY ordinality), '[]'::jsonb))
+  INTO saved FROM entries;
+
+  -- 6. Snapshot this run as the decision's next revision
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO next_revision
+  FROM public.decision_revisions
+  WHERE decision_id = saved_id;
+
+  INSERT INTO public.decision_revisions (
+    decision_id, revision_number, decision, initial_confidence, posterior_probability,
+    credible_interval_low, credible_interval_high, win_percentage, seed, snapshot
+  )
+  VALUES (
+    saved_id,
+    next_revision,
+    document->>'decision',
+    (document->>'initialConfidence')::numeric,
+    (document->>'posteriorProbability')::numeric,
+    (document->>'credibleIntervalLow')::numeric,
+    (document->>'credibleIntervalHigh')::numeric,
+    (document->>'winPercentage')::numeric,
+    (document->>'seed')::bigint,
+    saved
+  );
+
+  RETURN saved || jsonb_build_object('id', saved_id, 'revisionNumber', next_revision);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_client_id(TEXT, REGCLASS, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.save_decision(JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_decision(JSONB, UUID) TO authenticated;
@@ -0,0 +1,16 @@
+-- An outcome belongs to the decision it was recorded for. Moving it to another decision
+-- would pair one decision's forecast with a different decision's result in calibration.
+CREATE OR REPLACE FUNCTION public.prevent_outcome_decision_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.decision_id IS DISTINCT FROM OLD.decision_id THEN
+    RAISE EXCEPTION 'An outcome cannot be moved to another decision' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_decision_outcomes_decision_change
+  BEFORE UPDATE ON public.decision_outcomes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_outcome_decision_change();
@@ -0,0 +1,72 @@
+-- Record an experiment's result and fold it into its decision in one transaction, so a
+-- failed write can't leave the decision updated while the experiment still looks open.
+-- The decision goes through save_decision, so the change is kept as a revision like any other.
+--
+-- decision_document is the linked decision with the result already applied (the client runs
+-- the simulation); pass NULL when the experiment isn't linked to a decision.
+CREATE OR REPLACE FUNCTION public.complete_experiment(
+  target_experiment_id UUID,
+  result JSONB,
+  posterior_before NUMERIC DEFAULT NULL,
+  posterior_after NUMERIC DEFAULT NULL,
+  decision_document JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  experiment public.experiments%ROWTYPE;
+BEGIN
+  -- Locked, so two submissions of the same result can't both get past the status check
+  SELECT * INTO experiment
+  FROM public.experiments
+  WHERE id = target_experiment_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experiment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retry of a result that was already recorded must not apply it to the decision again
+  IF experiment.status = 'completed' THEN
+    RETURN jsonb_build_object(
+      'alreadyCompleted', true,
+      'posteriorBefore', experiment.posterior_before,
+      'posteriorAfter', experiment.posterior_after,
+      'completedAt', experiment.completed_at
+    );
+  END IF;
+
+  IF decision_document IS NOT NULL THEN
+    IF experiment.decision_id IS NULL THEN
+      RAISE EXCEPTION 'The experiment is not linked to a decision' USING ERRCODE = '22023';
+    END IF;
+    PERFORM public.save_decision(decision_document, experiment.decision_id);
+  END IF;
+
+  UPDATE public.experiments SET
+    status = 'completed',
+    result_criterion_id = (result->>'criterionId')::uuid,
+    result_option_id = (result->>'optionId')::uuid,
+    result_direction = result->>'direction',
+    result_conclusiveness = (result->>'conclusiveness')::numeric,
+    result_notes = NULLIF(result->>'notes', ''),
+    posterior_before = complete_experiment.posterior_before,
+    posterior_after = complete_experiment.posterior_after,
+    completed_at = now()
+  WHERE id = target_experiment_id
+  RETURNING * INTO experiment;
+
+  RETURN jsonb_build_object(
+    'alreadyCompleted', false,
+    'posteriorBefore', experiment.posterior_before,
+    'posteriorAfter', experiment.posterior_after,
+    'completedAt', experiment.completed_at
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.complete_experiment(UUID, JSONB, NUMERIC, NUMERIC, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.complete_experiment(UUID, JSONB, NUMERIC, NUMERIC, JSONB) TO authenticated;
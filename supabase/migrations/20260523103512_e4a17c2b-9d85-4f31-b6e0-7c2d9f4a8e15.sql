@@ -0,0 +1,115 @@
+-- The creator (decisions.user_id) is the one owner nobody can remove. Co-owners may edit a
+-- decision, but must not be able to take it over or hand out (or strip) ownership themselves.
+CREATE OR REPLACE FUNCTION public.prevent_decision_creator_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A decision''s creator cannot be changed' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_decisions_creator_change
+  BEFORE UPDATE ON public.decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_decision_creator_change();
+
+DROP POLICY "Owners can update their decisions" ON public.decisions;
+
+CREATE POLICY "Owners can update their decisions" 
+  ON public.decisions FOR UPDATE 
+  USING (public.has_decision_role(id, ARRAY['owner']))
+  WITH CHECK (public.has_decision_role(id, ARRAY['owner']));
+
+-- Whether the current user created the decision.
+-- SECURITY DEFINER so decision_members policies can call it without recursing into decisions.
+CREATE OR REPLACE FUNCTION public.is_decision_creator(target_decision_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.decisions
+    WHERE decisions.id = target_decision_id
+    AND decisions.user_id = auth.uid()
+  );
+$$;
+
+-- Owners manage evaluators and viewers; only the creator adds, changes or removes owners
+DROP POLICY "Owners can add members to their decisions" ON public.decision_members;
+DROP POLICY "Owners can update members of their decisions" ON public.decision_members;
+DROP POLICY "Owners can remove members and members can leave" ON public.decision_members;
+
+CREATE POLICY "Owners can add members to their decisions" 
+  ON public.decision_members FOR INSERT 
+  WITH CHECK (
+    public.has_decision_role(decision_id, ARRAY['owner'])
+    AND (role <> 'owner' OR public.is_decision_creator(decision_id))
+  );
+
+CREATE POLICY "Owners can update members of their decisions" 
+  ON public.decision_members FOR UPDATE 
+  USING (
+    public.has_decision_role(decision_id, ARRAY['owner'])
+    AND (role <> 'owner' OR public.is_decision_creator(decision_id))
+  )
+  WITH CHECK (
+    public.has_decision_role(decision_id, ARRAY['owner'])
+    AND (role <> 'owner' OR public.is_decision_creator(decision_id))
+  );
+
+CREATE POLICY "Owners can remove members and members can leave" 
+  ON public.decision_members FOR DELETE 
+  USING (
+    auth.uid() = user_id
+    OR (
+      public.has_decision_role(decision_id, ARRAY['owner'])
+      AND (role <> 'owner' OR public.is_decision_creator(decision_id))
+    )
+  );
+
+-- add_decision_member bypasses the policies above, so it applies the same rule
+CREATE OR REPLACE FUNCTION public.add_decision_member(target_decision_id UUID, member_email TEXT, member_role TEXT)
+RETURNS public.decision_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+  member public.decision_members;
+BEGIN
+  IF NOT public.has_decision_role(target_decision_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only owners can add members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No account uses %', member_email USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.decisions WHERE id = target_decision_id AND user_id = member_id) THEN
+    RAISE EXCEPTION 'The decision''s creator is already its owner' USING ERRCODE = '23505';
+  END IF;
+
+  IF NOT public.is_decision_creator(target_decision_id) AND (
+    member_role = 'owner'
+    OR EXISTS (
+      SELECT 1 FROM public.decision_members
+      WHERE decision_id = target_decision_id AND user_id = member_id AND role = 'owner'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only the decision''s creator can add or change owners' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.decision_members (decision_id, user_id, role)
+  VALUES (target_decision_id, member_id, member_role)
+  ON CONFLICT (decision_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO member;
+
+  RETURN member;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- A member's evaluation must be of one of the decision's own criteria. The policies only check
+-- the member's role on decision_id, so tie criterion_id to that decision with the foreign key.
+DELETE FROM public.decision_member_evaluations e
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.decision_criteria c
+  WHERE c.id = e.criterion_id AND c.decision_id = e.decision_id
+);
+
+ALTER TABLE public.decision_criteria
+  ADD CONSTRAINT decision_criteria_id_decision_id_key UNIQUE (id, decision_id);
+
+ALTER TABLE public.decision_member_evaluations
+  DROP CONSTRAINT decision_member_evaluations_criterion_id_fkey,
+  ADD CONSTRAINT decision_member_evaluations_criterion_id_fkey
+    FOREIGN KEY (criterion_id, decision_id)
+    REFERENCES public.decision_criteria(id, decision_id)
+    ON DELETE CASCADE;
@@ -0,0 +1,86 @@
+-- get_delphi_responses numbered respondents by md5(user_id || round_id). Both are visible to
+-- members, so anyone could recompute the hashes and tell who gave which answers. Number them
+-- by a random salt per round instead, kept where only SECURITY DEFINER code can read it.
+CREATE TABLE public.decision_delphi_round_salts (
+  round_id UUID NOT NULL PRIMARY KEY REFERENCES public.decision_delphi_rounds(id) ON DELETE CASCADE,
+  salt UUID NOT NULL DEFAULT gen_random_uuid()
+);
+
+-- No policies: clients can neither read nor write salts
+ALTER TABLE public.decision_delphi_round_salts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.decision_delphi_round_salts FROM anon, authenticated;
+
+INSERT INTO public.decision_delphi_round_salts (round_id)
+SELECT id FROM public.decision_delphi_rounds;
+
+-- SECURITY DEFINER since the owner opening the round can't write salts themselves
+CREATE OR REPLACE FUNCTION public.create_delphi_round_salt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.decision_delphi_round_salts (round_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_decision_delphi_round_salt
+  AFTER INSERT ON public.decision_delphi_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_delphi_round_salt();
+
+-- As before, but numbered and shuffled by the round's salt
+CREATE OR REPLACE FUNCTION public.get_delphi_responses(target_round_id UUID)
+RETURNS TABLE (
+  respondent INTEGER,
+  criterion_id UUID,
+  supports_decision BOOLEAN,
+  strength NUMERIC,
+  confidence NUMERIC,
+  rationale TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    dense_rank() OVER (ORDER BY md5(s.salt::text || r.user_id::text))::integer,
+    r.criterion_id,
+    r.supports_decision,
+    r.strength,
+    r.confidence,
+    r.rationale
+  FROM public.decision_delphi_responses r
+  JOIN public.decision_delphi_rounds dr ON dr.id = r.round_id
+  JOIN public.decision_delphi_round_salts s ON s.round_id = r.round_id
+  WHERE r.round_id = target_round_id
+    AND (
+      (dr.status = 'closed' AND public.has_decision_role(dr.decision_id, ARRAY['owner', 'evaluator', 'viewer']))
+      OR public.has_decision_role(dr.decision_id, ARRAY['owner'])
+    )
+  ORDER BY md5(s.salt::text || r.user_id::text), r.criterion_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_delphi_round_salt() FROM PUBLIC;
+
+-- The order is only unpredictable while clients can't see the salt: fail the migration if they can
+DO $$
+BEGIN
+  IF has_table_privilege('authenticated', 'public.decision_delphi_round_salts', 'SELECT')
+    OR has_table_privilege('anon', 'public.decision_delphi_round_salts', 'SELECT')
+    OR EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'decision_delphi_round_salts')
+  THEN
+    RAISE EXCEPTION 'Delphi round salts must not be readable by clients';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.decision_delphi_rounds dr
+    WHERE NOT EXISTS (SELECT 1 FROM public.decision_delphi_round_salts s WHERE s.round_id = dr.id)
+  ) THEN
+    RAISE EXCEPTION 'Every Delphi round needs a salt';
+  END IF;
+END;
+$$;
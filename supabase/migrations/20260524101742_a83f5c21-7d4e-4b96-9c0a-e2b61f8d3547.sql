@@ -0,0 +1,10 @@
+-- The probability of success the decision showed when its outcome was recorded.
+-- Calibration scores this, so later edits to the decision don't rewrite past forecasts.
+ALTER TABLE public.decision_outcomes
+  ADD COLUMN forecast NUMERIC CHECK (forecast >= 0 AND forecast <= 100);
+
+-- Outcomes recorded before now only have the decision's current value to go on
+UPDATE public.decision_outcomes
+SET forecast = COALESCE(decisions.posterior_probability, decisions.win_percentage)
+FROM public.decisions
+WHERE decisions.id = decision_outcomes.decision_id;